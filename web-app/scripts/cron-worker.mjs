@@ -0,0 +1,35 @@
+#!/usr/bin/env node
+// Calls /api/cron/tick once a minute, for hosts without a platform cron (Vercel uses vercel.json instead).
+// Usage: APP_BASE_URL=http://localhost:3000 CRON_SECRET=... npm run cron
+
+const baseUrl = (process.env.APP_BASE_URL || 'http://localhost:3000').replace(/\/$/, '');
+const secret = process.env.CRON_SECRET;
+const intervalMs = Number(process.env.CRON_TICK_SECONDS || 60) * 1000;
+
+if (!secret) {
+  console.error('CRON_SECRET is required');
+  process.exit(1);
+}
+
+async function tick() {
+  try {
+    const response = await fetch(`${baseUrl}/api/cron/tick`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${secret}` },
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      console.error(`Tick failed with ${response.status}:`, data.details || data.error || '');
+      return;
+    }
+    for (const run of data.runs || []) {
+      console.log(`${run.startedAt} ${run.job} ${run.status}: ${run.message || ''}`);
+    }
+  } catch (error) {
+    console.error('Tick failed:', error instanceof Error ? error.message : error);
+  }
+}
+
+console.log(`Ticking ${baseUrl}/api/cron/tick every ${intervalMs / 1000}s`);
+tick();
+setInterval(tick, intervalMs);
@@ -0,0 +1,9 @@
+import DailyAnalysis from '@/components/DailyAnalysis';
+
+export default function AnalysisPage() {
+  return (
+    <div className="container mx-auto p-4">
+      <DailyAnalysis />
+    </div>
+  );
+}
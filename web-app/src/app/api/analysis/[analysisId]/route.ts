@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { getAnalysis } from '@/lib/analysis-store';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// GET one stored analysis with its prompt and input report
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ analysisId: string }> }
+) {
+  const session = requirePermission(request, 'reports:read');
+  if (session instanceof NextResponse) return session;
+
+  try {
+    const { analysisId } = await params;
+    const analysis = await getAnalysis(analysisId);
+    if (!analysis) {
+      return NextResponse.json({ error: 'Analysis not found' }, { status: 404 });
+    }
+    return NextResponse.json({ analysis });
+  } catch (error) {
+    console.error('Error reading analysis:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to read analysis',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
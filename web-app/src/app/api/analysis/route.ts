@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { buildLLMReport, LLMReport } from '@/lib/llm-report';
+import { getLLMProvider, LLMProvider } from '@/lib/llm-providers';
+import { parseReviewRange } from '@/lib/team-settings';
+import { createAnalysisId, listAnalyses, saveAnalysis } from '@/lib/analysis-store';
+import { StoredAnalysis } from '@/types/analysis';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// GET the stored analyses (newest first) and the configured provider
+export async function GET(request: NextRequest) {
+  const session = requirePermission(request, 'reports:read');
+  if (session instanceof NextResponse) return session;
+
+  try {
+    let provider: { name: string; model: string } | null = null;
+    let providerError: string | undefined;
+    try {
+      const configured = getLLMProvider();
+      provider = { name: configured.name, model: configured.model };
+    } catch (error) {
+      providerError = error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    return NextResponse.json({
+      analyses: await listAnalyses(),
+      provider,
+      providerError,
+    });
+  } catch (error) {
+    console.error('Error listing analyses:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to list analyses',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST to generate a new analysis; the response streams the model's text as it arrives
+export async function POST(request: NextRequest) {
+  const session = requirePermission(request, 'reports:generate');
+  if (session instanceof NextResponse) return session;
+
+  let provider: LLMProvider;
+  let report: LLMReport;
+  try {
+    const body = await request.json().catch(() => ({}));
+    const range = parseReviewRange(body.since, body.until);
+    if (typeof range === 'string') {
+      return NextResponse.json({ error: range }, { status: 400 });
+    }
+    provider = getLLMProvider();
+    report = await buildLLMReport({ listId: body.listId, includePrompt: false, ...range });
+  } catch (error) {
+    console.error('Error preparing analysis:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: 'Failed to prepare analysis', details: message },
+      { status: message.includes('not tracked') ? 404 : 500 }
+    );
+  }
+
+  const analysisId = createAnalysisId();
+  const startedAt = Date.now();
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let output = '';
+      let failure: string | undefined;
+
+      try {
+        for await (const text of provider.stream({ system: report.prompt, input: report.report })) {
+          output += text;
+          controller.enqueue(encoder.encode(text));
+        }
+      } catch (error) {
+        console.error('Error streaming analysis:', error);
+        failure = error instanceof Error ? error.message : 'Unknown error';
+        controller.enqueue(encoder.encode(`\n\n[Analysis failed: ${failure}]`));
+      }
+
+      // Keep the analysis with its input so runs can be compared later, failed ones included
+      const analysis: StoredAnalysis = {
+        id: analysisId,
+        createdAt: new Date(startedAt).toISOString(),
+        createdBy: session.username,
+        provider: provider.name,
+        model: provider.model,
+        lists: report.lists.map(list => list.name),
+        reviewStartTime: report.reviewStartTime,
+        durationMs: Date.now() - startedAt,
+        status: failure ? 'failed' : 'complete',
+        error: failure,
+        prompt: report.prompt,
+        report: report.report,
+        output,
+      };
+      try {
+        await saveAnalysis(analysis);
+      } catch (error) {
+        console.error('Error saving analysis:', error);
+      }
+
+      controller.close();
+    },
+  });
+
+  return new NextResponse(stream, {
+    headers: {
+      'Content-Type': 'text/plain; charset=utf-8',
+      'Cache-Control': 'no-cache',
+      'X-Analysis-Id': analysisId,
+    },
+  });
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate, getPermissions, setSessionCookie } from '@/lib/auth';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { username, password } = await request.json();
+
+    if (typeof username !== 'string' || !username.trim()) {
+      return NextResponse.json(
+        { error: 'Username is required' },
+        { status: 400 }
+      );
+    }
+
+    const user = await authenticate(username, typeof password === 'string' && password ? password : undefined);
+    if (!user) {
+      return NextResponse.json(
+        { error: password ? 'Invalid username or password' : 'A password is required' },
+        { status: 401 }
+      );
+    }
+
+    const response = NextResponse.json({
+      success: true,
+      user,
+      permissions: getPermissions(user),
+    });
+    setSessionCookie(response, user);
+    return response;
+  } catch (error) {
+    console.error('Error in login API:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to sign in',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
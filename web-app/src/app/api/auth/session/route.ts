@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPermissions, getSession } from '@/lib/auth';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+export async function GET(request: NextRequest) {
+  const user = getSession(request);
+
+  return NextResponse.json(
+    {
+      user,
+      permissions: user ? getPermissions(user) : [],
+    },
+    {
+      headers: {
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+      },
+    }
+  );
+}
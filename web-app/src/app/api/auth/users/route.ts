@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUsers, hashPassword, requirePermission, ROLES, saveUsers } from '@/lib/auth';
+import { Role } from '@/types/auth';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// GET - List configured users (without password hashes)
+export async function GET(request: NextRequest) {
+  const session = requirePermission(request, 'settings:manage');
+  if (session instanceof NextResponse) return session;
+
+  try {
+    const users = await getUsers();
+    return NextResponse.json({
+      users: users.map(({ username, role }) => ({ username, role })),
+    });
+  } catch (error) {
+    console.error('Error listing users:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to list users',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Create a user, or update an existing user's role and/or password
+export async function POST(request: NextRequest) {
+  const session = requirePermission(request, 'settings:manage');
+  if (session instanceof NextResponse) return session;
+
+  try {
+    const { username, role, password } = await request.json();
+
+    if (typeof username !== 'string' || !username.trim()) {
+      return NextResponse.json({ error: 'Username is required' }, { status: 400 });
+    }
+    if (!ROLES.includes(role as Role)) {
+      return NextResponse.json(
+        { error: `Invalid role. Must be one of: ${ROLES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const users = await getUsers();
+    const existing = users.find(u => u.username.toLowerCase() === username.trim().toLowerCase());
+
+    if (!existing && (typeof password !== 'string' || password.length < 8)) {
+      return NextResponse.json(
+        { error: 'A password of at least 8 characters is required for new users' },
+        { status: 400 }
+      );
+    }
+
+    if (existing) {
+      existing.role = role;
+      if (typeof password === 'string' && password) {
+        existing.passwordHash = hashPassword(password);
+      }
+    } else {
+      users.push({ username: username.trim(), role, passwordHash: hashPassword(password) });
+    }
+
+    await saveUsers(users);
+    return NextResponse.json({ success: true, user: { username: username.trim(), role } });
+  } catch (error) {
+    console.error('Error saving user:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to save user',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Remove a user (?username=)
+export async function DELETE(request: NextRequest) {
+  const session = requirePermission(request, 'settings:manage');
+  if (session instanceof NextResponse) return session;
+
+  try {
+    const username = request.nextUrl.searchParams.get('username');
+    if (!username) {
+      return NextResponse.json({ error: 'username is required' }, { status: 400 });
+    }
+
+    const users = await getUsers();
+    const remaining = users.filter(u => u.username.toLowerCase() !== username.toLowerCase());
+    if (remaining.length === users.length) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    await saveUsers(remaining);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting user:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to delete user',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { getChartsData } from '@/lib/charts';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 56;
+const MAX_RANGE_DAYS = 366;
+
+// GET burndown/burnup, weekly opened vs closed and per-developer throughput for ?since=&until=
+export async function GET(request: NextRequest) {
+  const session = requirePermission(request, 'reports:read');
+  if (session instanceof NextResponse) return session;
+
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const until = searchParams.get('until') ? new Date(searchParams.get('until')!) : new Date();
+    const since = searchParams.get('since')
+      ? new Date(searchParams.get('since')!)
+      : new Date(until.getTime() - DEFAULT_RANGE_DAYS * DAY_MS);
+
+    if (isNaN(since.getTime()) || isNaN(until.getTime()) || since >= until) {
+      return NextResponse.json(
+        { error: 'since and until must be valid dates with since before until' },
+        { status: 400 }
+      );
+    }
+    if (until.getTime() - since.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+      return NextResponse.json(
+        { error: `The range can cover at most ${MAX_RANGE_DAYS} days` },
+        { status: 400 }
+      );
+    }
+
+    const data = await getChartsData(since, until);
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error('Error in charts API:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to build chart data',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { clickupAPI } from '@/lib/clickup-api';
+import { getClickUpRateLimitStats } from '@/lib/clickup-rate-limiter';
+import { requirePermission } from '@/lib/auth';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// GET the ClickUp transport and the request scheduler's stats (rate limit, queue, retries)
+export async function GET(request: NextRequest) {
+  const session = requirePermission(request, 'settings:manage');
+  if (session instanceof NextResponse) return session;
+
+  try {
+    return NextResponse.json(
+      {
+        transport: clickupAPI.getTransportName(),
+        teamId: clickupAPI.getTeamId(),
+        listId: clickupAPI.getListId(),
+        rateLimit: getClickUpRateLimitStats(),
+      },
+      {
+        headers: {
+          'Cache-Control': 'no-cache, no-store, must-revalidate',
+        }
+      }
+    );
+  } catch (error) {
+    console.error('Error getting ClickUp status:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to get ClickUp status',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
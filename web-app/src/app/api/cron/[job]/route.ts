@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { hasCronSecret, isJobName, JOB_NAMES, runDueJobs, runJob } from '@/lib/scheduler';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * /api/cron/tick runs whatever is due; /api/cron/<job> runs one job now.
+ * Called with "Authorization: Bearer $CRON_SECRET" by Vercel Cron or the worker script,
+ * or by an admin from the jobs page.
+ */
+async function handle(request: NextRequest, { params }: { params: Promise<{ job: string }> }) {
+  if (!hasCronSecret(request)) {
+    const session = requirePermission(request, 'settings:manage');
+    if (session instanceof NextResponse) return session;
+  }
+
+  const { job } = await params;
+  if (job !== 'tick' && !isJobName(job)) {
+    return NextResponse.json(
+      { error: `Unknown job "${job}"; expected tick, ${JOB_NAMES.join(', ')}` },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const runs = job === 'tick' ? await runDueJobs() : [await runJob(job, 'manual')];
+    return NextResponse.json({
+      success: runs.every(run => run.status !== 'failed'),
+      runs,
+    });
+  } catch (error) {
+    console.error(`Error running cron ${job}:`, error);
+    return NextResponse.json(
+      {
+        error: 'Failed to run jobs',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Vercel Cron sends GET; the worker script and the jobs page POST
+export const GET = handle;
+export const POST = handle;
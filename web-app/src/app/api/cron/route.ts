@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { getJobStatuses } from '@/lib/scheduler';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// GET each scheduled job with its cron expression and last run
+export async function GET(request: NextRequest) {
+  const session = requirePermission(request, 'settings:manage');
+  if (session instanceof NextResponse) return session;
+
+  try {
+    const jobs = await getJobStatuses();
+    return NextResponse.json({ success: true, jobs });
+  } catch (error) {
+    console.error('Error reading job statuses:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to read jobs',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
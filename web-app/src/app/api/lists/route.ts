@@ -1,8 +1,12 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { clickupAPI } from '@/lib/clickup-api';
-import { ClickUpList, ClickUpFolder } from '@/types/clickup';
+import { ClickUpList, ClickUpFolder, ClickUpSpace } from '@/types/clickup';
+import { requirePermission } from '@/lib/auth';
+
+export async function GET(request: NextRequest) {
+  const session = requirePermission(request, 'tasks:read');
+  if (session instanceof NextResponse) return session;
 
-export async function GET() {
   try {
     // Test API connection first
     const isConnected = await clickupAPI.testConnection();
@@ -13,11 +17,24 @@ export async function GET() {
       );
     }
 
-    // Get all spaces for the team
-    const spaces = await clickupAPI.getSpaces();
+    // Get every workspace the token can access, then all spaces in each
+    const teams = await clickupAPI.getTeams();
+    const spaces: (ClickUpSpace & { teamId: string; teamName: string })[] = [];
+    for (const team of teams) {
+      try {
+        const teamSpaces = await clickupAPI.getSpaces(team.id);
+        spaces.push(...teamSpaces.map((space) => ({
+          ...space,
+          teamId: team.id,
+          teamName: team.name
+        })));
+      } catch (error) {
+        console.error(`Error fetching spaces for workspace ${team.id}:`, error);
+      }
+    }
     
     // Get all lists from all spaces
-    const allLists: (ClickUpList & { spaceName: string; spaceId: string; folderName: string; folderId: string | null })[] = [];
+    const allLists: (ClickUpList & { teamId: string; teamName: string; spaceName: string; spaceId: string; folderName: string; folderId: string | null })[] = [];
     const allFolders: (ClickUpFolder & { spaceName: string; spaceId: string })[] = [];
     
     for (const space of spaces) {
@@ -36,6 +53,8 @@ export async function GET() {
             const folderLists = await clickupAPI.getListsInFolder(folder.id);
             allLists.push(...folderLists.map((list) => ({
               ...list,
+              teamId: space.teamId,
+              teamName: space.teamName,
               spaceName: space.name,
               spaceId: space.id,
               folderName: folder.name,
@@ -50,6 +69,8 @@ export async function GET() {
         const spaceLists = await clickupAPI.getListsInSpace(space.id);
         allLists.push(...spaceLists.map((list) => ({
           ...list,
+          teamId: space.teamId,
+          teamName: space.teamName,
           spaceName: space.name,
           spaceId: space.id,
           folderName: 'No Folder',
@@ -62,9 +83,11 @@ export async function GET() {
 
     return NextResponse.json({
       success: true,
+      teams: teams.map((team) => ({ id: team.id, name: team.name })),
       spaces: spaces,
       folders: allFolders,
       lists: allLists,
+      totalTeams: teams.length,
       totalSpaces: spaces.length,
       totalFolders: allFolders.length,
       totalLists: allLists.length,
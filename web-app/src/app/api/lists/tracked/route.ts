@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { getTrackedLists, setTrackedLists } from '@/lib/tracked-lists';
+import { invalidateTaskSnapshot } from '@/lib/task-cache';
+import { ensureWebhooksRegistered, getStoredWebhooks } from '@/lib/clickup-webhooks';
+import { TrackedList } from '@/types/clickup';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// GET the lists the dashboard tracks
+export async function GET(request: NextRequest) {
+  const session = requirePermission(request, 'tasks:read');
+  if (session instanceof NextResponse) return session;
+
+  try {
+    const lists = await getTrackedLists();
+    return NextResponse.json({ success: true, lists });
+  } catch (error) {
+    console.error('Error reading tracked lists:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to read tracked lists',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT the full set of tracked lists, as picked from the /api/lists tree
+export async function PUT(request: NextRequest) {
+  const session = requirePermission(request, 'settings:manage');
+  if (session instanceof NextResponse) return session;
+
+  try {
+    const { lists } = await request.json();
+
+    if (!Array.isArray(lists) || lists.length === 0) {
+      return NextResponse.json(
+        { error: 'At least one list must be tracked' },
+        { status: 400 }
+      );
+    }
+
+    const invalid = lists.find((list: Partial<TrackedList>) =>
+      typeof list?.id !== 'string' || !list.id ||
+      typeof list.name !== 'string' ||
+      typeof list.teamId !== 'string' || !list.teamId
+    );
+    if (invalid) {
+      return NextResponse.json(
+        { error: 'Each list needs an id, name and teamId' },
+        { status: 400 }
+      );
+    }
+
+    const tracked: TrackedList[] = lists.map((list: TrackedList) => ({
+      id: list.id,
+      name: list.name,
+      teamId: list.teamId,
+      spaceName: list.spaceName,
+      folderName: list.folderName,
+    }));
+
+    await setTrackedLists(tracked);
+    await invalidateTaskSnapshot(true);
+
+    // Once webhooks are set up, every tracked list needs its own
+    let warning: string | undefined;
+    const webhooks = await getStoredWebhooks();
+    if (webhooks.length > 0) {
+      try {
+        await ensureWebhooksRegistered(webhooks[0].endpoint);
+      } catch (error) {
+        console.error('Error updating ClickUp webhooks for the tracked lists:', error);
+        warning = 'Lists saved, but the ClickUp webhooks could not be updated. Register them again from /api/webhooks/clickup/register.';
+      }
+    }
+
+    return NextResponse.json({ success: true, lists: tracked, warning });
+  } catch (error) {
+    console.error('Error saving tracked lists:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to save tracked lists',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getLLMPrompt, setLLMPrompt } from '@/lib/blob-logger';
 import { DEFAULT_LLM_PROMPT } from '@/lib/prompts';
+import { requirePermission } from '@/lib/auth';
+
+export async function GET(request: NextRequest) {
+  const session = requirePermission(request, 'reports:read');
+  if (session instanceof NextResponse) return session;
 
-export async function GET() {
   try {
     const prompt = await getLLMPrompt();
     if (prompt) {
@@ -17,6 +21,9 @@ export async function GET() {
 }
 
 export async function POST(request: NextRequest) {
+  const session = requirePermission(request, 'prompt:edit');
+  if (session instanceof NextResponse) return session;
+
   try {
     const { prompt } = await request.json();
     if (typeof prompt !== 'string' || prompt.length < 50) {
@@ -1,11 +1,15 @@
 import { getAllLogs } from '@/lib/blob-logger';
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 export const revalidate = 0;
 
-export async function GET() {
+export async function GET(request: NextRequest) {
+  const session = requirePermission(request, 'logs:read');
+  if (session instanceof NextResponse) return session;
+
   try {
     let content = await getAllLogs();
     
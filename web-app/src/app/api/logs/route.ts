@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getLogEntries, LOG_ACTIONS } from '@/lib/blob-logger';
+import { LogAction, LogQuery, LogSource } from '@/types/logs';
+import { requirePermission } from '@/lib/auth';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const VALID_SOURCES: LogSource[] = ['tracker', 'clickup'];
+
+function parseDateParam(value: string | null): Date | undefined | null {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+export async function GET(request: NextRequest) {
+  const session = requirePermission(request, 'logs:read');
+  if (session instanceof NextResponse) return session;
+
+  try {
+    const { searchParams } = request.nextUrl;
+
+    const action = searchParams.get('action');
+    if (action && !LOG_ACTIONS.includes(action as LogAction)) {
+      return NextResponse.json(
+        { error: `Invalid action. Must be one of: ${LOG_ACTIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const source = searchParams.get('source');
+    if (source && !VALID_SOURCES.includes(source as LogSource)) {
+      return NextResponse.json(
+        { error: `Invalid source. Must be one of: ${VALID_SOURCES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const since = parseDateParam(searchParams.get('since'));
+    const until = parseDateParam(searchParams.get('until'));
+    if (since === null || until === null) {
+      return NextResponse.json(
+        { error: 'Invalid date. Use an ISO 8601 timestamp for since/until.' },
+        { status: 400 }
+      );
+    }
+
+    const limitParam = searchParams.get('limit');
+    const limit = limitParam ? parseInt(limitParam) : undefined;
+    if (limit !== undefined && (isNaN(limit) || limit <= 0)) {
+      return NextResponse.json(
+        { error: 'Invalid limit. Must be a positive integer.' },
+        { status: 400 }
+      );
+    }
+
+    const query: LogQuery = {
+      taskId: searchParams.get('taskId') || undefined,
+      action: (action as LogAction) || undefined,
+      actor: searchParams.get('actor') || undefined,
+      source: (source as LogSource) || undefined,
+      since,
+      until,
+      limit,
+    };
+
+    const entries = await getLogEntries(query);
+
+    return NextResponse.json(
+      {
+        success: true,
+        entries,
+        total: entries.length,
+      },
+      {
+        headers: {
+          'Cache-Control': 'no-cache, no-store, must-revalidate',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Error in /api/logs:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to read logs',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
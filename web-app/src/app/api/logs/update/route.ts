@@ -1,11 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { overwriteLogs, getEnvironmentInfo } from '@/lib/blob-logger';
+import { requirePermission } from '@/lib/auth';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 export const revalidate = 0;
 
 export async function PUT(request: NextRequest) {
+  const session = requirePermission(request, 'logs:overwrite');
+  if (session instanceof NextResponse) return session;
+
   try {
     const { content } = await request.json();
     
@@ -37,7 +41,10 @@ export async function PUT(request: NextRequest) {
 }
 
 // GET endpoint to check if update is available
-export async function GET() {
+export async function GET(request: NextRequest) {
+  const session = requirePermission(request, 'logs:read');
+  if (session instanceof NextResponse) return session;
+
   try {
     const { filename, storageType, environment } = getEnvironmentInfo();
     
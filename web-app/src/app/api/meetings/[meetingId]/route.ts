@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { deleteMeetingNote, getMeetingNote, parseMeetingItems, saveMeetingNote } from '@/lib/meeting-notes';
+import { MeetingNote } from '@/types/meetings';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// PUT replaces a meeting's date, summary and items
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ meetingId: string }> }
+) {
+  const session = requirePermission(request, 'meetings:write');
+  if (session instanceof NextResponse) return session;
+
+  try {
+    const { meetingId } = await params;
+    const existing = await getMeetingNote(meetingId);
+    if (!existing) {
+      return NextResponse.json({ error: 'Meeting not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    if (body.date !== undefined && (typeof body.date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(body.date))) {
+      return NextResponse.json(
+        { error: 'date must be yyyy-MM-dd' },
+        { status: 400 }
+      );
+    }
+
+    const items = body.items !== undefined ? parseMeetingItems(body.items) : existing.items;
+    if (typeof items === 'string') {
+      return NextResponse.json({ error: items }, { status: 400 });
+    }
+
+    const note: MeetingNote = {
+      ...existing,
+      date: body.date ?? existing.date,
+      summary: body.summary !== undefined
+        ? (typeof body.summary === 'string' && body.summary.trim() ? body.summary.trim() : undefined)
+        : existing.summary,
+      items,
+      updatedAt: new Date().toISOString(),
+    };
+    await saveMeetingNote(note);
+
+    return NextResponse.json({ success: true, meeting: note });
+  } catch (error) {
+    console.error('Error updating meeting notes:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update meeting notes',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ meetingId: string }> }
+) {
+  const session = requirePermission(request, 'meetings:write');
+  if (session instanceof NextResponse) return session;
+
+  try {
+    const { meetingId } = await params;
+    if (!(await deleteMeetingNote(meetingId))) {
+      return NextResponse.json({ error: 'Meeting not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting meeting notes:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to delete meeting notes',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
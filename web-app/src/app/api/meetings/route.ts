@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import {
+  createMeetingId,
+  getMeetingNotes,
+  getMissedCommitments,
+  parseMeetingItems,
+  saveMeetingNote
+} from '@/lib/meeting-notes';
+import { MeetingNote } from '@/types/meetings';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// GET all meeting notes (newest first) and the commitments that lapsed
+export async function GET(request: NextRequest) {
+  const session = requirePermission(request, 'reports:read');
+  if (session instanceof NextResponse) return session;
+
+  try {
+    const [meetings, missedCommitments] = await Promise.all([
+      getMeetingNotes(),
+      getMissedCommitments(),
+    ]);
+    return NextResponse.json({ meetings, missedCommitments });
+  } catch (error) {
+    console.error('Error reading meeting notes:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to read meeting notes',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST the notes for a new meeting
+export async function POST(request: NextRequest) {
+  const session = requirePermission(request, 'meetings:write');
+  if (session instanceof NextResponse) return session;
+
+  try {
+    const body = await request.json();
+
+    if (typeof body.date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(body.date)) {
+      return NextResponse.json(
+        { error: 'date is required as yyyy-MM-dd' },
+        { status: 400 }
+      );
+    }
+
+    const items = parseMeetingItems(body.items || []);
+    if (typeof items === 'string') {
+      return NextResponse.json({ error: items }, { status: 400 });
+    }
+
+    const now = new Date().toISOString();
+    const note: MeetingNote = {
+      id: createMeetingId(),
+      date: body.date,
+      summary: typeof body.summary === 'string' && body.summary.trim() ? body.summary.trim() : undefined,
+      items,
+      createdBy: session.username,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await saveMeetingNote(note);
+
+    return NextResponse.json({ success: true, meeting: note });
+  } catch (error) {
+    console.error('Error saving meeting notes:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to save meeting notes',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
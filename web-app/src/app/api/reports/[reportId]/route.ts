@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { getReport } from '@/lib/report-archive';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// GET a stored report (?download=true for the markdown file)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ reportId: string }> }
+) {
+  const session = requirePermission(request, 'reports:read');
+  if (session instanceof NextResponse) return session;
+
+  try {
+    const { reportId } = await params;
+    const report = await getReport(reportId);
+    if (!report) {
+      return NextResponse.json({ error: 'Report not found' }, { status: 404 });
+    }
+
+    if (request.nextUrl.searchParams.get('download') === 'true') {
+      return new NextResponse(report.report, {
+        headers: {
+          'Content-Type': 'text/markdown',
+          'Content-Disposition': `attachment; filename="llm-task-report-${report.date}.md"`,
+        },
+      });
+    }
+
+    return NextResponse.json({ success: true, report });
+  } catch (error) {
+    console.error('Error reading report:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to read report',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { getReport, listReports } from '@/lib/report-archive';
+import { diffReports } from '@/lib/report-diff';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// GET the diff between two stored reports (?base=&compare=) covering the same lists;
+// defaults to the latest against the one before it with the same scope
+export async function GET(request: NextRequest) {
+  const session = requirePermission(request, 'reports:read');
+  if (session instanceof NextResponse) return session;
+
+  try {
+    let baseId = request.nextUrl.searchParams.get('base');
+    let compareId = request.nextUrl.searchParams.get('compare');
+    if (!baseId || !compareId) {
+      const reports = await listReports();
+      compareId = compareId || reports[0]?.id;
+      if (!baseId) {
+        // A per-list report is only compared with an earlier report of that list, an all-lists one with an all-lists one
+        const index = reports.findIndex(report => report.id === compareId);
+        const latest = reports[index];
+        baseId = latest ? reports.slice(index + 1).find(report => report.listId === latest.listId)?.id ?? null : null;
+      }
+    }
+    if (!baseId || !compareId) {
+      return NextResponse.json({ error: 'At least two reports covering the same lists are needed to compare' }, { status: 404 });
+    }
+
+    const [base, compare] = await Promise.all([getReport(baseId), getReport(compareId)]);
+    if (!base || !compare) {
+      return NextResponse.json({ error: 'Report not found' }, { status: 404 });
+    }
+    if ((base.listId || null) !== (compare.listId || null)) {
+      return NextResponse.json({ error: 'These reports cover different lists and cannot be compared' }, { status: 400 });
+    }
+
+    // Always diff earlier -> later, whichever order they were picked in
+    const [earlier, later] = base.generatedAt <= compare.generatedAt ? [base, compare] : [compare, base];
+    return NextResponse.json({ success: true, diff: diffReports(earlier, later) });
+  } catch (error) {
+    console.error('Error diffing reports:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to compare reports',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { getReportHistoryLimit, listReports } from '@/lib/report-archive';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// GET the stored reports, newest first, and the history limit (null when every report is kept)
+export async function GET(request: NextRequest) {
+  const session = requirePermission(request, 'reports:read');
+  if (session instanceof NextResponse) return session;
+
+  try {
+    return NextResponse.json({ success: true, reports: await listReports(), limit: getReportHistoryLimit() });
+  } catch (error) {
+    console.error('Error listing reports:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to list reports',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { getBoardSettings, getBoardStatuses, parseBoardSettings, saveBoardSettings } from '@/lib/board-settings';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// GET the board's columns (the tracked lists' statuses) and their WIP limits
+export async function GET(request: NextRequest) {
+  const session = requirePermission(request, 'tasks:read');
+  if (session instanceof NextResponse) return session;
+
+  try {
+    const [settings, statuses] = await Promise.all([getBoardSettings(), getBoardStatuses()]);
+    return NextResponse.json({ success: true, settings, statuses });
+  } catch (error) {
+    console.error('Error reading board settings:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to read board settings',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT the board's WIP limits
+export async function PUT(request: NextRequest) {
+  const session = requirePermission(request, 'settings:manage');
+  if (session instanceof NextResponse) return session;
+
+  try {
+    const { settings } = await request.json();
+
+    const parsed = parseBoardSettings(settings);
+    if (typeof parsed === 'string') {
+      return NextResponse.json({ error: parsed }, { status: 400 });
+    }
+
+    await saveBoardSettings(parsed);
+
+    return NextResponse.json({ success: true, settings: parsed });
+  } catch (error) {
+    console.error('Error saving board settings:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to save board settings',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
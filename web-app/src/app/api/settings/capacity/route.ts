@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { getCapacitySettings, parseCapacitySettings, saveCapacitySettings } from '@/lib/capacity-settings';
+import { getTeamSettings } from '@/lib/team-settings';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// GET the developers' capacity profiles, with the team calendar they are applied on
+export async function GET(request: NextRequest) {
+  const session = requirePermission(request, 'tasks:read');
+  if (session instanceof NextResponse) return session;
+
+  try {
+    const [settings, team] = await Promise.all([getCapacitySettings(), getTeamSettings()]);
+    return NextResponse.json({ success: true, settings, team });
+  } catch (error) {
+    console.error('Error reading capacity settings:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to read capacity settings',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT the capacity settings; an unset default falls back to DEFAULT_CAPACITY_SETTINGS
+export async function PUT(request: NextRequest) {
+  const session = requirePermission(request, 'settings:manage');
+  if (session instanceof NextResponse) return session;
+
+  try {
+    const { settings } = await request.json();
+
+    const parsed = parseCapacitySettings(settings || {});
+    if (typeof parsed === 'string') {
+      return NextResponse.json({ error: parsed }, { status: 400 });
+    }
+
+    await saveCapacitySettings(parsed);
+
+    return NextResponse.json({ success: true, settings: parsed });
+  } catch (error) {
+    console.error('Error saving capacity settings:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to save capacity settings',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
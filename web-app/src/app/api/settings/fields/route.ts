@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { hasPermission, requirePermission } from '@/lib/auth';
+import { getAvailableCustomFields, getCustomFieldSettings, parseCustomFieldSettings, saveCustomFieldSettings } from '@/lib/field-settings';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// GET which custom fields are columns, filters and editable; ?available=true adds the fields found
+// on the tracked lists (settings managers only)
+export async function GET(request: NextRequest) {
+  const session = requirePermission(request, 'tasks:read');
+  if (session instanceof NextResponse) return session;
+
+  try {
+    const settings = await getCustomFieldSettings();
+    const withAvailable = request.nextUrl.searchParams.get('available') === 'true' && hasPermission(session, 'settings:manage');
+
+    return NextResponse.json({
+      success: true,
+      settings,
+      available: withAvailable ? await getAvailableCustomFields() : undefined,
+    });
+  } catch (error) {
+    console.error('Error reading custom field settings:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to read custom field settings',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT the full custom field settings
+export async function PUT(request: NextRequest) {
+  const session = requirePermission(request, 'settings:manage');
+  if (session instanceof NextResponse) return session;
+
+  try {
+    const { settings } = await request.json();
+
+    const parsed = parseCustomFieldSettings(settings);
+    if (typeof parsed === 'string') {
+      return NextResponse.json({ error: parsed }, { status: 400 });
+    }
+
+    await saveCustomFieldSettings(parsed);
+
+    return NextResponse.json({ success: true, settings: parsed });
+  } catch (error) {
+    console.error('Error saving custom field settings:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to save custom field settings',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
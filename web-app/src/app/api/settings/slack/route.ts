@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { getDeveloperNames, getSlackSettings, getSlackTransport, parseSlackUserIds, saveSlackSettings } from '@/lib/slack';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// GET the developer -> Slack user mapping, the developers to map and the configured transport
+export async function GET(request: NextRequest) {
+  const session = requirePermission(request, 'settings:manage');
+  if (session instanceof NextResponse) return session;
+
+  try {
+    const [settings, developers] = await Promise.all([getSlackSettings(), getDeveloperNames()]);
+    return NextResponse.json({
+      success: true,
+      userIds: settings.userIds,
+      developers,
+      transport: getSlackTransport(),
+    });
+  } catch (error) {
+    console.error('Error reading Slack settings:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to read Slack settings',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT the full developer -> Slack user mapping
+export async function PUT(request: NextRequest) {
+  const session = requirePermission(request, 'settings:manage');
+  if (session instanceof NextResponse) return session;
+
+  try {
+    const { userIds } = await request.json();
+
+    const parsed = parseSlackUserIds(userIds);
+    if (typeof parsed === 'string') {
+      return NextResponse.json({ error: parsed }, { status: 400 });
+    }
+
+    await saveSlackSettings({ userIds: parsed });
+
+    return NextResponse.json({ success: true, userIds: parsed });
+  } catch (error) {
+    console.error('Error saving Slack settings:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to save Slack settings',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
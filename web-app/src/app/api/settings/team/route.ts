@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { getTeamSettings, parseTeamSettings, saveTeamSettings } from '@/lib/team-settings';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// GET the team's timezone, standup time, working days and holidays
+export async function GET(request: NextRequest) {
+  const session = requirePermission(request, 'reports:read');
+  if (session instanceof NextResponse) return session;
+
+  try {
+    const settings = await getTeamSettings();
+    return NextResponse.json({ success: true, settings });
+  } catch (error) {
+    console.error('Error reading team settings:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to read team settings',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT the team settings; unset fields fall back to the defaults
+export async function PUT(request: NextRequest) {
+  const session = requirePermission(request, 'settings:manage');
+  if (session instanceof NextResponse) return session;
+
+  try {
+    const { settings } = await request.json();
+
+    const parsed = parseTeamSettings(settings || {});
+    if (typeof parsed === 'string') {
+      return NextResponse.json({ error: parsed }, { status: 400 });
+    }
+
+    await saveTeamSettings(parsed);
+
+    return NextResponse.json({ success: true, settings: parsed });
+  } catch (error) {
+    console.error('Error saving team settings:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to save team settings',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { buildLLMReport } from '@/lib/llm-report';
+import { formatSlackDigest, getSlackSettings, getSlackTransport, postSlackMessage } from '@/lib/slack';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+async function buildDigest(listId?: string | null) {
+  const [{ digest }, { userIds }] = await Promise.all([
+    buildLLMReport({ listId, includePrompt: false }),
+    getSlackSettings(),
+  ]);
+  return {
+    text: formatSlackDigest(digest, userIds),
+    counts: {
+      overdue: digest.overdue.length,
+      stale: digest.stale.length,
+      unassignedUrgent: digest.unassignedUrgent.length,
+    },
+  };
+}
+
+// GET a preview of the digest (?listId= for a single tracked list)
+export async function GET(request: NextRequest) {
+  const session = requirePermission(request, 'reports:read');
+  if (session instanceof NextResponse) return session;
+
+  try {
+    const digest = await buildDigest(request.nextUrl.searchParams.get('listId'));
+    return NextResponse.json({ success: true, ...digest, transport: getSlackTransport() });
+  } catch (error) {
+    console.error('Error building Slack digest:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: 'Failed to build digest', details: message },
+      { status: message.includes('not tracked') ? 404 : 500 }
+    );
+  }
+}
+
+// POST the digest to Slack
+export async function POST(request: NextRequest) {
+  const session = requirePermission(request, 'reports:post');
+  if (session instanceof NextResponse) return session;
+
+  if (!getSlackTransport()) {
+    return NextResponse.json(
+      { error: 'Slack is not configured; set SLACK_WEBHOOK_URL, or SLACK_BOT_TOKEN and SLACK_CHANNEL' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const digest = await buildDigest(body.listId);
+    const transport = await postSlackMessage(digest.text);
+
+    console.log(`Slack digest posted via ${transport} by ${session.username}`);
+    return NextResponse.json({ success: true, ...digest, transport });
+  } catch (error) {
+    console.error('Error posting Slack digest:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: 'Failed to post digest', details: message },
+      { status: message.includes('not tracked') ? 404 : 502 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * Stand-in for Slack outside production. Point SLACK_WEBHOOK_URL at /api/slack/mock, or
+ * SLACK_API_URL at /api/slack/mock with a bot token, and GET it to see what was posted.
+ */
+interface MockSlackMessage {
+  method: string;           // 'webhook' or the Web API method, e.g. chat.postMessage
+  channel?: string;
+  text: string;
+  receivedAt: string;
+}
+
+const MAX_MOCK_MESSAGES = 50;
+const messages: MockSlackMessage[] = [];
+
+function isEnabled(): boolean {
+  return process.env.NODE_ENV !== 'production';
+}
+
+export async function GET() {
+  if (!isEnabled()) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+  return NextResponse.json({ messages });
+}
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ method?: string[] }> }) {
+  if (!isEnabled()) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  const { method } = await params;
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body.text !== 'string') {
+    return NextResponse.json({ ok: false, error: 'no_text' }, { status: method ? 200 : 400 });
+  }
+
+  messages.unshift({
+    method: method?.join('/') || 'webhook',
+    channel: body.channel,
+    text: body.text,
+    receivedAt: new Date().toISOString(),
+  });
+  messages.splice(MAX_MOCK_MESSAGES);
+
+  return NextResponse.json({ ok: true, ts: `${Date.now() / 1000}` });
+}
@@ -1,7 +1,11 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { getEnvironmentInfo, getLogMetadata, logTaskChange } from '@/lib/blob-logger';
+import { requirePermission } from '@/lib/auth';
+
+export async function GET(request: NextRequest) {
+  const session = requirePermission(request, 'settings:manage');
+  if (session instanceof NextResponse) return session;
 
-export async function GET() {
   try {
     // Get environment and storage info
     const envInfo = getEnvironmentInfo();
@@ -23,15 +27,17 @@ export async function GET() {
       logFile: metadata ? {
         exists: true,
         size: metadata.size,
+        entries: metadata.entries,
         source: metadata.source,
       } : {
         exists: false,
         message: 'No log file found'
       },
       explanation: {
-        production: 'Uses Redis key: logs:task-changes',
-        preview: 'Uses Redis key: logs:task-changes-preview',
-        development: 'Uses local file: logs/task-changes.md or Redis key: logs:task-changes-dev',
+        production: 'Uses Redis sorted set: logs:task-entries',
+        preview: 'Uses Redis sorted set: logs:task-entries-preview',
+        development: 'Uses local file: logs/task-changes.jsonl or Redis sorted set: logs:task-entries-dev',
+        legacy: 'Markdown logs (logs:task-changes*, logs/task-changes.md) are imported once into the structured store',
         current: `Currently using ${envInfo.storageType} storage with key/file: ${envInfo.filename}`
       }
     };
@@ -54,7 +60,10 @@ export async function GET() {
 }
 
 // Test endpoint to create a test log entry
-export async function POST() {
+export async function POST(request: NextRequest) {
+  const session = requirePermission(request, 'settings:manage');
+  if (session instanceof NextResponse) return session;
+
   try {
     const timestamp = new Date().toISOString();
     const testTaskId = `TEST-${Date.now()}`;
@@ -69,7 +78,8 @@ export async function POST() {
         timestamp,
       },
       'CREATE',
-      `Test log created at ${timestamp}`
+      `Test log created at ${timestamp}`,
+      { actor: session.username }
     );
     
     // Get updated metadata
@@ -87,6 +97,7 @@ export async function POST() {
       },
       logFile: metadata ? {
         size: metadata.size,
+        entries: metadata.entries,
         source: metadata.source,
       } : null,
     });
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { clickupAPI } from '@/lib/clickup-api';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// GET a task's ClickUp comment thread, oldest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ taskId: string }> }
+) {
+  const session = requirePermission(request, 'tasks:read');
+  if (session instanceof NextResponse) return session;
+
+  try {
+    const { taskId } = await params;
+    const { comments } = await clickupAPI.getTaskComments(taskId);
+
+    return NextResponse.json({
+      taskId,
+      comments: [...comments].sort((a, b) => Number(a.date) - Number(b.date)),
+    });
+  } catch (error) {
+    console.error('Error in task comments API:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to read task comments',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { getTaskStatusHistory } from '@/lib/status-history';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// GET a task's status timeline and cycle metrics, derived from the activity log
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ taskId: string }> }
+) {
+  const session = requirePermission(request, 'tasks:read');
+  if (session instanceof NextResponse) return session;
+
+  try {
+    const { taskId } = await params;
+    const { transitions, metrics } = await getTaskStatusHistory(taskId);
+
+    return NextResponse.json({
+      taskId,
+      transitions,
+      metrics,
+    });
+  } catch (error) {
+    console.error('Error in task history API:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to read task history',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { applyRevertPlan, getRevertPlan } from '@/lib/log-revert';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// GET a preview of reverting one of the task's UPDATE log entries (?entryId=)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ taskId: string }> }
+) {
+  const session = requirePermission(request, 'tasks:edit');
+  if (session instanceof NextResponse) return session;
+
+  try {
+    const { taskId } = await params;
+    const entryId = request.nextUrl.searchParams.get('entryId');
+    if (!entryId) {
+      return NextResponse.json({ error: 'entryId is required' }, { status: 400 });
+    }
+
+    const plan = await getRevertPlan(taskId, entryId);
+    if (!plan) {
+      return NextResponse.json({ error: 'No UPDATE entry with that ID for this task' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, plan });
+  } catch (error) {
+    console.error('Error in task revert preview API:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to preview revert',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST { entryId } to restore the values that UPDATE entry replaced
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ taskId: string }> }
+) {
+  const session = requirePermission(request, 'tasks:edit');
+  if (session instanceof NextResponse) return session;
+
+  try {
+    const { taskId } = await params;
+    const { entryId } = await request.json();
+    if (typeof entryId !== 'string' || !entryId) {
+      return NextResponse.json({ error: 'entryId is required' }, { status: 400 });
+    }
+
+    const plan = await getRevertPlan(taskId, entryId);
+    if (!plan) {
+      return NextResponse.json({ error: 'No UPDATE entry with that ID for this task' }, { status: 404 });
+    }
+    if (!plan.fields.some(field => field.available)) {
+      return NextResponse.json({ error: 'Nothing in this entry can be restored', plan }, { status: 400 });
+    }
+
+    const { restored, warning } = await applyRevertPlan(plan, session.username);
+    return NextResponse.json({
+      success: true,
+      restored,
+      skipped: plan.fields.filter(field => !field.available).map(field => field.field),
+      warning,
+    });
+  } catch (error) {
+    console.error('Error in task revert API:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to revert task',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,23 +1,75 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { clickupAPI } from '@/lib/clickup-api';
-import { TaskUpdateData } from '@/types/clickup';
-import { logTaskChange } from '@/lib/blob-logger';
+import { ClickUpCustomField, CustomFieldValue, TaskUpdateData } from '@/types/clickup';
+import { logTaskChange, getLogEntries } from '@/lib/blob-logger';
 import { parseInProgressTimestamps } from '@/lib/utils';
-import { getAllLogs } from '@/lib/blob-logger';
+import { hasPermission, requirePermission } from '@/lib/auth';
+import { getCachedTask, invalidateTaskSnapshot } from '@/lib/task-cache';
+import { findCustomField, getDeveloperField, toClickUpFieldValue } from '@/lib/custom-fields';
+import { getEditableCustomFields } from '@/lib/field-settings';
+import { getBeforeImage, getRevertibleFields } from '@/lib/log-revert';
 
 export async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ taskId: string }> }
 ) {
+  const session = requirePermission(request, 'tasks:comment');
+  if (session instanceof NextResponse) return session;
+
   try {
     const { taskId } = await params;
     const body = await request.json();
+
+    // Without full edit rights a user may only comment and move the task to review
+    if (!hasPermission(session, 'tasks:edit')) {
+      const restrictedFields = Object.keys(body).filter(key => key !== 'comment' && key !== 'status');
+      if (restrictedFields.length > 0 || (body.status !== undefined && body.status !== 'IN REVIEW')) {
+        return NextResponse.json(
+          { error: 'You can only comment on tasks or move them to review' },
+          { status: 403 }
+        );
+      }
+    }
+
+    // Comments are signed with the session user and posted to the task's ClickUp thread
+    const comment = typeof body.comment === 'string' && body.comment.trim()
+      ? `${session.username} Says: ${body.comment.trim()}`
+      : undefined;
+    delete body.comment;
     
-    // Get custom fields to handle developer field mapping
-    const customFields = await clickupAPI.getCustomFields();
-    const developerField = customFields.find(field =>
-      field.name.toLowerCase().includes('developer')
-    );
+    // Other custom fields arrive by name, limited to those marked editable in Settings
+    const customFieldUpdates: Record<string, CustomFieldValue> | undefined =
+      body.customFields && typeof body.customFields === 'object' ? body.customFields : undefined;
+    
+    // Fetched fresh when the edit touches a revertible field, so the log entry records what it replaced
+    const currentTask = getRevertibleFields(body).length > 0 ? await clickupAPI.getTask(taskId) : undefined;
+    const before = currentTask ? getBeforeImage(currentTask, body) : undefined;
+
+    // Get custom fields to handle developer field mapping; dropdown options are list-specific
+    const needsFields = body.developer !== undefined || customFieldUpdates !== undefined;
+    const listId = needsFields
+      ? (currentTask || (await getCachedTask(taskId)) || (await clickupAPI.getTask(taskId))).list?.id
+      : undefined;
+    const customFields = body.developer !== undefined ? await clickupAPI.getCustomFields(listId) : [];
+    const developerField = getDeveloperField(customFields);
+
+    // Check every custom field value before writing any of them
+    const editableFields = customFieldUpdates && listId ? await getEditableCustomFields(listId) : [];
+    const customFieldWrites: Array<{ field: ClickUpCustomField; value: CustomFieldValue }> = [];
+    for (const [name, value] of Object.entries(customFieldUpdates || {})) {
+      const field = findCustomField(editableFields, name);
+      if (!field) {
+        return NextResponse.json(
+          { error: `${name} is not an editable custom field on this task's list` },
+          { status: 400 }
+        );
+      }
+      const encoded = toClickUpFieldValue(field, value);
+      if (typeof encoded === 'string') {
+        return NextResponse.json({ error: encoded }, { status: 400 });
+      }
+      customFieldWrites.push({ field, value });
+    }
 
     // Prepare update data
     const updateData: TaskUpdateData = {};
@@ -35,60 +87,54 @@ export async function PUT(
     if (body.developer !== undefined && developerField) {
       console.log('Setting developer to:', body.developer);
       
-      // Find the matching option for the developer
-      const options = developerField.type_config?.options || [];
-      const matchingOption = options.find((option) =>
-        option.name.toLowerCase() === body.developer.toLowerCase()
-      );
-      
-      if (matchingOption || body.developer === '') {
-        try {
-          // Use the dedicated custom field endpoint
-          const fieldUpdateResponse = await fetch(
-            `https://api.clickup.com/api/v2/task/${taskId}/field/${developerField.id}`,
-            {
-              method: 'POST',
-              headers: {
-                'Authorization': process.env.CLICKUP_API_TOKEN!,
-                'Content-Type': 'application/json'
-              },
-              body: JSON.stringify({
-                value: matchingOption ? matchingOption.id : null
-              })
-            }
-          );
-          
-          if (!fieldUpdateResponse.ok) {
-            console.error('Failed to update developer field:', await fieldUpdateResponse.text());
-          } else {
-            console.log('Developer field updated successfully');
-          }
-        } catch (error) {
-          console.error('Error updating developer field:', error);
-        }
-      } else {
-        console.warn(`No matching developer option found for: ${body.developer}`);
+      try {
+        // Use the dedicated custom field endpoint; '' clears the field
+        await clickupAPI.setCustomFieldValue(taskId, developerField, body.developer);
+        console.log('Developer field updated successfully');
+      } catch (error) {
+        console.error('Error updating developer field:', error);
       }
       
       // Remove developer from the main update data since we handled it separately
       delete updateData.developer;
     }
 
+    // Unlike the developer, a custom field that fails to save fails the request
+    for (const { field, value } of customFieldWrites) {
+      await clickupAPI.setCustomFieldValue(taskId, field, value);
+    }
+
     // Update the task using ClickUp API (for non-custom-field updates)
     let updatedTask;
     if (Object.keys(updateData).length > 0) {
       updatedTask = await clickupAPI.updateTask(taskId, updateData);
     } else {
       // If only updating custom fields, fetch the updated task
-      const response = await fetch(
-        `https://api.clickup.com/api/v2/task/${taskId}`,
-        {
-          headers: {
-            'Authorization': process.env.CLICKUP_API_TOKEN!
-          }
+      updatedTask = await clickupAPI.getTask(taskId);
+    }
+
+    // The cached snapshot picks this change up on its next (incremental) refresh
+    await invalidateTaskSnapshot();
+
+    let commentId: string | undefined;
+    let commentWarning: string | undefined;
+    if (comment) {
+      try {
+        commentId = (await clickupAPI.createTaskComment(taskId, comment)).id;
+      } catch (error) {
+        console.error('Error posting comment to ClickUp:', error);
+        // A comment-only request has nothing else to show for itself
+        if (Object.keys(body).length === 0) {
+          return NextResponse.json(
+            {
+              error: 'Failed to post comment to ClickUp',
+              details: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 502 }
+          );
         }
-      );
-      updatedTask = await response.json();
+        commentWarning = 'Task updated, but the comment could not be posted to ClickUp.';
+      }
     }
 
     // Log the change after a successful API call
@@ -101,25 +147,31 @@ export async function PUT(
           taskId,
           { inProgressSince: body.inProgressSince },
           'MANUAL UPDATE',
-          'Manually corrected by admin'
+          `Manually corrected by ${session.username}`,
+          { actor: session.username }
         );
         // Remove from main log data to avoid duplication
         delete logData.inProgressSince;
       }
 
+      // Custom fields are logged under their own names, as the webhook logs ClickUp-side edits
+      if (customFieldUpdates) {
+        delete logData.customFields;
+        Object.assign(logData, customFieldUpdates);
+      }
+
       if (logData.time_estimate) {
         logData.time_estimate = `${logData.time_estimate / 3600000} hours`;
       }
       
-      // If a comment is present (non-admin update), replace the description with the comment for logging purposes.
-      if (body.comment) {
-        logData.description = body.comment;
-        delete logData.comment; // Clean up the temporary comment field
+      // The comment text goes in the entry's comment, with the ClickUp comment ID alongside the changes
+      if (commentId) {
+        logData.commentId = commentId;
       }
 
       // Only log if there are other changes besides the manual override
-      if (Object.keys(logData).length > 0) {
-        await logTaskChange(taskId, logData, 'UPDATE');
+      if (Object.keys(logData).length > 0 || comment) {
+        await logTaskChange(taskId, logData, 'UPDATE', comment, { actor: session.username, before });
       }
     } catch (logError) {
       console.error('CRITICAL: Task was updated but logging failed:', logError);
@@ -128,26 +180,17 @@ export async function PUT(
         success: true,
         task: updatedTask,
         message: 'Task updated successfully',
+        commentId,
         warning: 'Failed to write to the activity log.'
       });
     }
 
-    // Add comment if provided
-    if (body.comment && body.comment.trim()) {
-      try {
-        // Add comment to task (this would need a separate API call)
-        // For now, we'll just log it
-        console.log(`Comment for task ${taskId}: ${body.comment}`);
-      } catch (error) {
-        console.error('Error adding comment:', error);
-        // Don't fail the whole update if comment fails
-      }
-    }
-
     return NextResponse.json({
       success: true,
       task: updatedTask,
-      message: 'Task updated successfully'
+      message: 'Task updated successfully',
+      commentId,
+      warning: commentWarning,
     });
 
   } catch (error: unknown) {
@@ -188,38 +231,20 @@ export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ taskId: string }> }
 ) {
+  const session = requirePermission(request, 'tasks:read');
+  if (session instanceof NextResponse) return session;
+
   try {
     const { taskId } = await params;
     
-    // Fetch all tasks to find the specific one
-    // In a production app, you'd have a direct API call to get a single task
-    const allTasks = await clickupAPI.getTasks(true, false);
-    
-    // Find the task by ID (could be a parent or subtask)
-    let targetTask = allTasks.find(task => task.id === taskId);
-    
-    // If not found in parent tasks, search in subtasks
-    if (!targetTask) {
-      for (const parentTask of allTasks) {
-        if (parentTask.subtasks) {
-          targetTask = parentTask.subtasks.find(subtask => subtask.id === taskId);
-          if (targetTask) break;
-        }
-      }
-    }
-    
-    if (!targetTask) {
-      return NextResponse.json(
-        { error: 'Task not found' },
-        { status: 404 }
-      );
-    }
+    // Fetch the task (or subtask) directly rather than scanning the list
+    const targetTask = await clickupAPI.getTask(taskId);
     
     // Fetch and parse logs to get inProgressSince timestamp
     let inProgressSince: string | undefined;
     try {
-      const logContent = await getAllLogs();
-      const inProgressTimestamps = parseInProgressTimestamps(logContent);
+      const logEntries = await getLogEntries({ taskId, includeArchived: true });
+      const inProgressTimestamps = parseInProgressTimestamps(logEntries);
       inProgressSince = inProgressTimestamps.get(taskId);
     } catch (error) {
       console.error('Error fetching in progress timestamp:', error);
@@ -241,7 +266,7 @@ export async function GET(
     console.error('Error fetching task:', error);
     return NextResponse.json(
       { error: apiError.message || 'Failed to fetch task' },
-      { status: 500 }
+      { status: apiError.message?.includes('not found') ? 404 : 500 }
     );
   }
 }
\ No newline at end of file
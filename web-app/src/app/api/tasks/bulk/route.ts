@@ -0,0 +1,164 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { clickupAPI } from '@/lib/clickup-api';
+import { BulkTaskChanges, BulkTaskResult, ClickUpTask, TaskUpdateData } from '@/types/clickup';
+import { logTaskChange } from '@/lib/blob-logger';
+import { mapWithConcurrency } from '@/lib/utils';
+import { hasPermission, requirePermission } from '@/lib/auth';
+import { invalidateTaskSnapshot } from '@/lib/task-cache';
+import { getDeveloperField } from '@/lib/custom-fields';
+import { getBeforeImage } from '@/lib/log-revert';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const MAX_TASKS = 100;
+// Tasks updated at once; the shared rate limiter still paces the requests themselves
+const BULK_CONCURRENCY = 5;
+
+function parseBulkChanges(value: unknown): BulkTaskChanges | string {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return 'changes must be an object';
+  }
+
+  const input = value as Record<string, unknown>;
+  const changes: BulkTaskChanges = {};
+
+  if (input.status !== undefined) {
+    if (typeof input.status !== 'string' || !input.status.trim()) return 'status must be a non-empty string';
+    changes.status = input.status;
+  }
+  if (input.developer !== undefined) {
+    if (typeof input.developer !== 'string') return 'developer must be a string';
+    changes.developer = input.developer;
+  }
+  if (input.priority !== undefined) {
+    if (!Number.isInteger(input.priority) || (input.priority as number) < 1 || (input.priority as number) > 4) {
+      return 'priority must be a whole number from 1 to 4';
+    }
+    changes.priority = input.priority as number;
+  }
+  if (input.due_date !== undefined) {
+    if (typeof input.due_date !== 'number' || !Number.isFinite(input.due_date)) return 'due_date must be a timestamp';
+    changes.due_date = input.due_date;
+  }
+  if (input.parent !== undefined) {
+    if (typeof input.parent !== 'string' || !input.parent) return 'parent must be a task ID';
+    changes.parent = input.parent;
+  }
+
+  if (Object.keys(changes).length === 0) {
+    return 'No changes given';
+  }
+  return changes;
+}
+
+async function applyChanges(taskId: string, changes: BulkTaskChanges, actor: string): Promise<BulkTaskResult> {
+  if (changes.parent === taskId) {
+    return { taskId, success: false, error: 'A task cannot be its own parent' };
+  }
+
+  // What reached ClickUp, so a task that failed halfway still logs the part that was written
+  const applied: Record<string, unknown> = {};
+  let currentTask: ClickUpTask | undefined;
+  let error: string | undefined;
+  try {
+    // Fetched fresh, so the log entry records what the changes replaced
+    currentTask = await clickupAPI.getTask(taskId);
+
+    const updateData: TaskUpdateData = {};
+    if (changes.status !== undefined) updateData.status = changes.status;
+    if (changes.priority !== undefined) updateData.priority = changes.priority;
+    if (changes.due_date !== undefined) updateData.due_date = changes.due_date;
+    if (changes.parent !== undefined) updateData.parent = changes.parent;
+    if (Object.keys(updateData).length > 0) {
+      await clickupAPI.updateTask(taskId, updateData);
+      Object.assign(applied, updateData);
+    }
+
+    // Dropdown options are list-specific, so the developer is resolved against each task's own list
+    if (changes.developer !== undefined) {
+      const developerField = getDeveloperField(await clickupAPI.getCustomFields(currentTask.list?.id));
+      if (!developerField) {
+        throw new Error('This task\'s list has no developer field');
+      }
+      await clickupAPI.setCustomFieldValue(taskId, developerField, changes.developer);
+      applied.developer = changes.developer;
+    }
+  } catch (updateError) {
+    error = updateError instanceof Error ? updateError.message : 'Unknown error';
+    if (Object.keys(applied).length === 0) {
+      return { taskId, success: false, error };
+    }
+    error = `${error} (${Object.keys(applied).join(', ')} already applied)`;
+  }
+
+  // Whatever reached ClickUp is logged; a failed log write is reported without failing the task
+  try {
+    await logTaskChange(taskId, applied, 'UPDATE', 'Bulk update', { actor, before: currentTask && getBeforeImage(currentTask, applied) });
+    return error ? { taskId, success: false, error, applied: Object.keys(applied) } : { taskId, success: true };
+  } catch (logError) {
+    console.error(`CRITICAL: Task ${taskId} was updated but logging failed:`, logError);
+    return error
+      ? { taskId, success: false, error: `${error}; failed to write to the activity log.`, applied: Object.keys(applied) }
+      : { taskId, success: true, error: 'Failed to write to the activity log.' };
+  }
+}
+
+// POST the same changes to many tasks, reporting success or failure per task
+export async function POST(request: NextRequest) {
+  const session = requirePermission(request, 'tasks:comment');
+  if (session instanceof NextResponse) return session;
+
+  try {
+    const { taskIds, changes: rawChanges } = await request.json();
+
+    if (!Array.isArray(taskIds) || taskIds.length === 0 || taskIds.some(id => typeof id !== 'string' || !id)) {
+      return NextResponse.json({ error: 'taskIds must be a non-empty list of task IDs' }, { status: 400 });
+    }
+    if (taskIds.length > MAX_TASKS) {
+      return NextResponse.json({ error: `At most ${MAX_TASKS} tasks can be updated at once` }, { status: 400 });
+    }
+
+    const changes = parseBulkChanges(rawChanges);
+    if (typeof changes === 'string') {
+      return NextResponse.json({ error: changes }, { status: 400 });
+    }
+
+    // Without full edit rights a user may only move tasks to review
+    if (!hasPermission(session, 'tasks:edit')) {
+      const restrictedFields = Object.keys(changes).filter(key => key !== 'status');
+      if (restrictedFields.length > 0 || changes.status !== 'IN REVIEW') {
+        return NextResponse.json(
+          { error: 'You can only move tasks to review' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const uniqueIds: string[] = Array.from(new Set(taskIds));
+    const results = await mapWithConcurrency(uniqueIds, BULK_CONCURRENCY, taskId =>
+      applyChanges(taskId, changes, session.username)
+    );
+
+    // The cached snapshot picks these changes up on its next (incremental) refresh
+    await invalidateTaskSnapshot();
+
+    const updated = results.filter(result => result.success).length;
+    return NextResponse.json({
+      success: updated === results.length,
+      results,
+      updated,
+      failed: results.length - updated,
+    });
+  } catch (error) {
+    console.error('Error in bulk task update API:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update tasks',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
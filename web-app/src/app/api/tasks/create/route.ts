@@ -2,120 +2,146 @@ import { NextRequest, NextResponse } from 'next/server';
 import { clickupAPI } from '@/lib/clickup-api';
 import { ClickUpCustomField, ClickUpTask, TaskCreateData } from '@/types/clickup';
 import { logTaskChange } from '@/lib/blob-logger';
+import { hasPermission, requirePermission } from '@/lib/auth';
+import { getCachedTask, getTaskSnapshot, invalidateTaskSnapshot } from '@/lib/task-cache';
+import { getTrackedList } from '@/lib/tracked-lists';
+import { getDeveloperField, getFieldOptions, toClickUpFieldValue } from '@/lib/custom-fields';
+
+// The optional fields a new task may carry, checked before anything is created
+function validateCreateFields(body: Record<string, unknown>): string | null {
+  if (body.description !== undefined && body.description !== null && typeof body.description !== 'string') {
+    return 'description must be a string';
+  }
+  if (body.priority !== undefined && body.priority !== null &&
+      (!Number.isInteger(body.priority) || (body.priority as number) < 1 || (body.priority as number) > 4)) {
+    return 'priority must be a whole number from 1 to 4';
+  }
+  if (body.due_date !== undefined && body.due_date !== null && (typeof body.due_date !== 'number' || !Number.isFinite(body.due_date))) {
+    return 'due_date must be a timestamp';
+  }
+  if (body.time_estimate !== undefined && body.time_estimate !== null &&
+      (typeof body.time_estimate !== 'number' || !Number.isFinite(body.time_estimate) || body.time_estimate < 0)) {
+    return 'time_estimate must be a number of milliseconds';
+  }
+  if (body.developer !== undefined && body.developer !== null && typeof body.developer !== 'string') {
+    return 'developer must be a string';
+  }
+  return null;
+}
 
 export async function POST(request: NextRequest) {
+  const session = requirePermission(request, 'tasks:create');
+  if (session instanceof NextResponse) return session;
+
   try {
     const body = await request.json();
+    // Only users with full edit rights may pick the parent task
+    const isAdmin = hasPermission(session, 'tasks:edit');
     
     // Validate required fields
-    if (!body.name || !body.name.trim()) {
+    if (typeof body.name !== 'string' || !body.name.trim()) {
       return NextResponse.json(
         { error: 'Task name is required' },
         { status: 400 }
       );
     }
+    const invalidField = validateCreateFields(body);
+    if (invalidField) {
+      return NextResponse.json({ error: invalidField }, { status: 400 });
+    }
 
-    // Step 1: Get custom fields once (optimization to reduce API calls)
-    const customFields = await clickupAPI.getCustomFields();
-    const developerField = customFields.find(field =>
-      field.name.toLowerCase().includes('developer')
-    );
-
-    // Step 2: Determine parent task based on admin status
-    let parentTask: ClickUpTask;
-    
-    if (body.isAdmin && body.parentTask) {
-      // Admin specified a parent task
-      const allTasks = await clickupAPI.getTasks(true, false);
-      const selectedParent = allTasks.find(task => task.id === body.parentTask);
+    // Step 1: Resolve the target list - the selected parent's list, else the requested tracked list
+    let selectedParent: ClickUpTask | undefined;
+    if (isAdmin && body.parentTask) {
+      selectedParent = await getCachedTask(body.parentTask);
       if (!selectedParent) {
         return NextResponse.json(
           { error: 'Selected parent task not found' },
           { status: 404 }
         );
       }
+    }
+
+    const list = await getTrackedList(selectedParent?.list?.id || body.listId);
+    if (!list) {
+      return NextResponse.json(
+        { error: 'Selected list is not tracked' },
+        { status: 400 }
+      );
+    }
+
+    // Step 2: Get the list's custom fields once (optimization to reduce API calls)
+    const customFields = await clickupAPI.getCustomFields(list.id);
+    const developerField = getDeveloperField(customFields);
+
+    // Step 3: Determine parent task based on admin status
+    let parentTask: ClickUpTask;
+    
+    if (selectedParent) {
+      // Admin specified a parent task
       parentTask = selectedParent;
-    } else if (!body.isAdmin) {
-      // Non-admin user, always use "New" parent task
-      parentTask = await findOrCreateNewTask(customFields, developerField);
+    } else if (!isAdmin) {
+      // Non-admin user, always use the list's "New" parent task
+      parentTask = await findOrCreateNewTask(list.id, customFields, developerField);
     } else {
       // Admin user but no parent selected - let them create without parent
       // This allows admin full flexibility
       parentTask = null as unknown as ClickUpTask;
     }
 
-    // Step 3: Handle developer custom field mapping for the new task
-    const taskData: TaskCreateData = { ...body };
-    
-    // Remove our custom fields from the task data
-    const taskDataAny = taskData as unknown as Record<string, unknown>;
-    delete taskDataAny.isAdmin;
-    delete taskDataAny.parentTask;
-    
+    // Step 4: Build the new task from the fields the form sets; anything else in the body is ignored
+    const taskData: TaskCreateData = { name: body.name };
+    if (typeof body.description === 'string' && body.description) taskData.description = body.description;
+    // Other users' tasks start in the list's default status, as they may only move tasks to review
+    if (isAdmin && typeof body.status === 'string' && body.status) taskData.status = body.status;
+    if (body.priority !== undefined && body.priority !== null) taskData.priority = body.priority;
+    if (body.due_date !== undefined && body.due_date !== null) taskData.due_date = body.due_date;
+    if (body.time_estimate !== undefined && body.time_estimate !== null) taskData.time_estimate = body.time_estimate;
+
+    // Step 5: Handle developer custom field mapping for the new task
     if (body.developer && developerField) {
-      if (developerField.type === 'drop_down') {
-        // For dropdown fields, we need to find the option that matches the developer name
-        const options = developerField.type_config?.options || [];
-        const matchingOption = options.find((option) =>
-          option.name.toLowerCase() === body.developer.toLowerCase()
-        );
-        
-        if (matchingOption) {
-          // Use the option ID/orderindex for dropdown fields
-          taskData.custom_fields = [{
-            id: developerField.id,
-            value: matchingOption.orderindex || matchingOption.id
-          }];
-        } else {
-          // If no matching option found, don't set the custom field
-          console.warn(`No matching developer option found for: ${body.developer}`);
-        }
+      const encoded = toClickUpFieldValue(developerField, body.developer, 'create');
+      if (typeof encoded === 'string') {
+        // If the developer does not fit the field, don't set it
+        console.warn(`Not setting developer: ${encoded}`);
       } else {
-        // For non-dropdown fields, use the string value directly
-        taskData.custom_fields = [{
-          id: developerField.id,
-          value: body.developer
-        }];
+        taskData.custom_fields = [{ id: developerField.id, ...encoded }];
       }
-      
-      // Remove the developer field from the main task data
-      delete taskData.developer;
     }
 
-    // Step 4: Set parent task ID if we have one
+    // Step 6: Set parent task ID if we have one
     if (parentTask) {
       taskData.parent = parentTask.id;
     }
 
     // Create the task using ClickUp API
-    const newTask = await clickupAPI.createTask(taskData);
+    const newTask = await clickupAPI.createTask(taskData, list.id);
+    await invalidateTaskSnapshot();
 
     // Build log data without undefined values
     const logData: Record<string, unknown> = {
-      name: body.name,
-      status: body.status,
+      name: taskData.name,
+      status: (taskData.status || newTask.status?.status)?.toUpperCase(),
     };
     
     // Only add fields if they have values
-    if (body.description) logData.description = body.description;
-    if (body.priority) logData.priority = body.priority;
-    if (body.dueDate) logData.due_date = new Date(body.dueDate).getTime();
-    if (body.timeEstimate) logData.time_estimate = parseInt(body.timeEstimate) * 60 * 60 * 1000;
-    if (body.developer) logData.developer = body.developer;
+    if (taskData.description) logData.description = taskData.description;
+    if (taskData.priority) logData.priority = taskData.priority;
+    if (taskData.due_date) logData.due_date = taskData.due_date;
+    if (taskData.time_estimate) logData.time_estimate = `${taskData.time_estimate / 3600000} hours`;
+    if (taskData.custom_fields) logData.developer = body.developer;
+    logData.list = list.name;
     
-    // Add created_by field to track who created the task
-    if (body.username) {
-      logData.created_by = body.username;
-    } else {
-      logData.created_by = body.isAdmin ? 'Admin User' : 'Standard User';
-    }
+    // Track who created the task
+    logData.created_by = session.username;
 
     // Log the new task creation
     await logTaskChange(
       newTask.id,
       logData,
       'CREATE',
-      body.comment
+      body.comment,
+      { actor: session.username }
     );
 
     return NextResponse.json({
@@ -156,10 +182,10 @@ export async function POST(request: NextRequest) {
   }
 }
 
-async function findOrCreateNewTask(customFields?: ClickUpCustomField[], developerField?: ClickUpCustomField): Promise<ClickUpTask> {
+async function findOrCreateNewTask(listId: string, customFields?: ClickUpCustomField[], developerField?: ClickUpCustomField): Promise<ClickUpTask> {
   try {
-    // Get all tasks to find existing "New" task
-    const allTasks = await clickupAPI.getTasks(true, false);
+    // Look through the list's cached snapshot for an existing "New" task
+    const { tasks: allTasks } = await getTaskSnapshot(listId);
     
     // Look for existing "New" parent task (not a subtask)
     const existingNewTask = allTasks.find(task =>
@@ -179,10 +205,8 @@ async function findOrCreateNewTask(customFields?: ClickUpCustomField[], develope
     let devField = developerField;
     
     if (!fields) {
-      fields = await clickupAPI.getCustomFields();
-      devField = fields.find(field =>
-        field.name.toLowerCase().includes('developer')
-      );
+      fields = await clickupAPI.getCustomFields(listId);
+      devField = getDeveloperField(fields);
     }
 
     const newTaskData: TaskCreateData = {
@@ -192,27 +216,20 @@ async function findOrCreateNewTask(customFields?: ClickUpCustomField[], develope
     };
 
     // Set developer to "Young" if developer field exists
-    if (devField && devField.type === 'drop_down') {
-      const options = devField.type_config?.options || [];
-      const youngOption = options.find((option) =>
+    if (devField) {
+      const youngOption = getFieldOptions(devField).find((option) =>
         option.name.toLowerCase().includes('young')
       );
+      const encoded = toClickUpFieldValue(devField, youngOption?.name || 'Young', 'create');
       
-      if (youngOption) {
-        newTaskData.custom_fields = [{
-          id: devField.id,
-          value: youngOption.orderindex || youngOption.id
-        }];
+      if (typeof encoded !== 'string') {
+        newTaskData.custom_fields = [{ id: devField.id, ...encoded }];
       }
-    } else if (devField) {
-      newTaskData.custom_fields = [{
-        id: devField.id,
-        value: 'Young'
-      }];
     }
 
-    const newTask = await clickupAPI.createTask(newTaskData);
+    const newTask = await clickupAPI.createTask(newTaskData, listId);
     console.log('Created new New task:', newTask.id);
+    await invalidateTaskSnapshot();
     
     return newTask;
 
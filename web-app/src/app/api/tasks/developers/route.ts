@@ -1,25 +1,38 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { clickupAPI } from '@/lib/clickup-api';
+import { requirePermission } from '@/lib/auth';
+import { getTrackedList } from '@/lib/tracked-lists';
+import { getDeveloperField, getFieldOptions } from '@/lib/custom-fields';
+
+export async function GET(request: NextRequest) {
+  const session = requirePermission(request, 'tasks:read');
+  if (session instanceof NextResponse) return session;
 
-export async function GET() {
   try {
+    // Developer options belong to a list: the requested one (?listId=) or the first tracked list
+    const list = await getTrackedList(request.nextUrl.searchParams.get('listId'));
+    if (!list) {
+      return NextResponse.json(
+        { error: 'List is not tracked', developers: [] },
+        { status: 404 }
+      );
+    }
+
     // Get custom fields to find the developer field
-    const customFields = await clickupAPI.getCustomFields();
-    const developerField = customFields.find(field => 
-      field.name.toLowerCase().includes('developer')
-    );
+    const customFields = await clickupAPI.getCustomFields(list.id);
+    const developerField = getDeveloperField(customFields);
 
     if (developerField && developerField.type === 'drop_down') {
-      // Extract options from the dropdown field
-      const options = developerField.type_config?.options || [];
-      const developers = options.map((option) => ({
-        id: option.orderindex || option.id,
+      // Extract options from the dropdown field; the name is what gets written back
+      const developers = getFieldOptions(developerField).map((option) => ({
+        id: option.id,
         name: option.name,
         color: option.color
       }));
 
       return NextResponse.json({
         success: true,
+        fieldId: developerField.id,
         developers
       });
     }
@@ -27,6 +40,7 @@ export async function GET() {
     // If no dropdown field found, return empty array
     return NextResponse.json({
       success: true,
+      fieldId: developerField?.id,
       developers: []
     });
 
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { clickupAPI } from '@/lib/clickup-api';
+import { requirePermission } from '@/lib/auth';
+import { getTrackedList } from '@/lib/tracked-lists';
+import { getFieldOptions } from '@/lib/custom-fields';
+import { getEditableCustomFields } from '@/lib/field-settings';
+import { EditableCustomField } from '@/types/settings';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// GET the custom fields of a list (?listId=, else the first tracked list) that the update modal may edit
+export async function GET(request: NextRequest) {
+  const session = requirePermission(request, 'tasks:read');
+  if (session instanceof NextResponse) return session;
+
+  try {
+    const list = await getTrackedList(request.nextUrl.searchParams.get('listId'));
+    if (!list) {
+      return NextResponse.json(
+        { error: 'List is not tracked', fields: [] },
+        { status: 404 }
+      );
+    }
+
+    const definitions = await getEditableCustomFields(list.id);
+    const members = definitions.some(field => field.type === 'users') ? await clickupAPI.getTeamMembers() : [];
+
+    const fields: EditableCustomField[] = definitions.map(field => ({
+      id: field.id,
+      name: field.name,
+      type: field.type,
+      options: field.type === 'users'
+        ? members.map(({ user }) => ({ id: String(user.id), name: user.username, color: user.color }))
+        : getFieldOptions(field).map(option => ({ id: String(option.id), name: option.name, color: option.color })),
+    }));
+
+    return NextResponse.json({ success: true, fields });
+  } catch (error) {
+    console.error('Error fetching editable custom fields:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch custom fields',
+        details: error instanceof Error ? error.message : 'Unknown error',
+        fields: []
+      },
+      { status: 500 }
+    );
+  }
+}
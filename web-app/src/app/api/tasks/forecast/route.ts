@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { DEFAULT_HISTORY_DAYS, getForecast } from '@/lib/forecast';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const MAX_HISTORY_DAYS = 365;
+
+// GET projected completion dates per developer, top-level task and for the backlog,
+// from velocity and estimate accuracy over the last ?days= (default 90)
+export async function GET(request: NextRequest) {
+  const session = requirePermission(request, 'tasks:read');
+  if (session instanceof NextResponse) return session;
+
+  try {
+    const daysParam = request.nextUrl.searchParams.get('days');
+    const historyDays = daysParam ? Number(daysParam) : DEFAULT_HISTORY_DAYS;
+    if (!Number.isInteger(historyDays) || historyDays < 7 || historyDays > MAX_HISTORY_DAYS) {
+      return NextResponse.json(
+        { error: `days must be a whole number from 7 to ${MAX_HISTORY_DAYS}` },
+        { status: 400 }
+      );
+    }
+
+    const forecast = await getForecast(historyDays);
+    return NextResponse.json({ success: true, forecast });
+  } catch (error) {
+    console.error('Error in task forecast API:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to compute the forecast',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { clickupAPI } from '@/lib/clickup-api';
+import { requirePermission } from '@/lib/auth';
+import { getTrackedLists } from '@/lib/tracked-lists';
+import { getCycleMetricsReport, TaskAttributes } from '@/lib/status-history';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const DEFAULT_PERIOD_DAYS = 30;
+
+// GET cycle time, lead time and time in review per developer and priority, for tasks closed in ?since=&until=
+export async function GET(request: NextRequest) {
+  const session = requirePermission(request, 'reports:read');
+  if (session instanceof NextResponse) return session;
+
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const until = searchParams.get('until') ? new Date(searchParams.get('until')!) : new Date();
+    const since = searchParams.get('since')
+      ? new Date(searchParams.get('since')!)
+      : new Date(until.getTime() - DEFAULT_PERIOD_DAYS * 24 * 60 * 60 * 1000);
+
+    if (isNaN(since.getTime()) || isNaN(until.getTime()) || since >= until) {
+      return NextResponse.json(
+        { error: 'since and until must be valid dates with since before until' },
+        { status: 400 }
+      );
+    }
+
+    // Closed tasks are not in the snapshot; ask ClickUp for everything touched in the period
+    // so the developer and priority reflect ClickUp rather than only what the log saw
+    const currentAttributes = new Map<string, TaskAttributes>();
+    try {
+      for (const list of await getTrackedLists()) {
+        const tasks = await clickupAPI.getTasks(true, true, since.getTime(), list.id);
+        for (const task of await clickupAPI.processTasksFlat(tasks)) {
+          currentAttributes.set(task.id, { developer: task.developer, priority: task.priority?.name });
+        }
+      }
+    } catch (error) {
+      console.error('Error fetching task attributes, falling back to the log:', error);
+    }
+
+    const report = await getCycleMetricsReport(since, until, currentAttributes);
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Error in task metrics API:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to compute task metrics',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
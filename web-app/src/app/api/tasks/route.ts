@@ -1,25 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { clickupAPI } from '@/lib/clickup-api';
+import { requirePermission } from '@/lib/auth';
+import { getTrackedTasks } from '@/lib/task-cache';
 
 export async function GET(request: NextRequest) {
+  const session = requirePermission(request, 'tasks:read');
+  if (session instanceof NextResponse) return session;
+
   try {
     // Get query parameters
     const { searchParams } = new URL(request.url);
     const includeComments = searchParams.get('includeComments') === 'true';
-
-    // Test API connection first
-    const isConnected = await clickupAPI.testConnection();
-    if (!isConnected) {
-      return NextResponse.json(
-        { error: 'Failed to connect to ClickUp API. Please check your API token.' },
-        { status: 500 }
-      );
-    }
+    const forceRefresh = searchParams.get('refresh') === 'true';
+    const listId = searchParams.get('listId');
 
     console.log(`Processing tasks with comments: ${includeComments}`);
 
-    // Fetch raw tasks from ClickUp
-    const rawTasks = await clickupAPI.getTasks(true, false); // Include subtasks, exclude closed
+    // Raw tasks come from the tracked lists' snapshots, refreshed incrementally from ClickUp
+    const snapshot = await getTrackedTasks(listId, forceRefresh);
+    const rawTasks = snapshot.tasks;
 
     // Process tasks for UI (comments disabled by default to reduce API calls)
     const processedTasks = await clickupAPI.processTasksForUI(rawTasks, includeComments);
@@ -30,6 +29,9 @@ export async function GET(request: NextRequest) {
         tasks: processedTasks,
         totalTasks: processedTasks.length,
         totalSubtasks: processedTasks.reduce((acc, task) => acc + task.subtasks.length, 0),
+        // Tasks returned with an error marker, e.g. comments that failed to load
+        partialTasks: processedTasks.flatMap(task => [task, ...task.subtasks]).filter(task => task.error).length,
+        refreshedAt: new Date(snapshot.refreshedAt).toISOString(),
       },
       {
         headers: {
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ensureWebhooksRegistered, getStoredWebhooks, StoredWebhook, WEBHOOK_EVENTS } from '@/lib/clickup-webhooks';
+import { requirePermission } from '@/lib/auth';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Registrations without their secrets
+function describeWebhooks(webhooks: StoredWebhook[]) {
+  return webhooks.map(webhook => ({
+    id: webhook.id,
+    listId: webhook.listId,
+    endpoint: webhook.endpoint,
+    registeredAt: webhook.registeredAt,
+  }));
+}
+
+// GET the current registrations (without the secrets)
+export async function GET(request: NextRequest) {
+  const session = requirePermission(request, 'settings:manage');
+  if (session instanceof NextResponse) return session;
+
+  try {
+    const webhooks = await getStoredWebhooks();
+    return NextResponse.json({
+      registered: webhooks.length > 0,
+      webhooks: describeWebhooks(webhooks),
+      events: WEBHOOK_EVENTS,
+      secretSource: process.env.CLICKUP_WEBHOOK_SECRET ? 'env' : webhooks.length > 0 ? 'stored' : 'none',
+    });
+  } catch (error) {
+    console.error('Error reading webhook registration:', error);
+    return NextResponse.json(
+      { error: 'Failed to read webhook registration' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST to register a webhook for each tracked list, refreshing existing ones
+export async function POST(request: NextRequest) {
+  const session = requirePermission(request, 'settings:manage');
+  if (session instanceof NextResponse) return session;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const endpoint: string = body.endpoint ||
+      `${process.env.APP_BASE_URL || request.nextUrl.origin}/api/webhooks/clickup`;
+
+    if (!endpoint.startsWith('https://') && !endpoint.startsWith('http://')) {
+      return NextResponse.json(
+        { error: 'Invalid endpoint. Must be an absolute http(s) URL.' },
+        { status: 400 }
+      );
+    }
+
+    const webhooks = await ensureWebhooksRegistered(endpoint);
+
+    return NextResponse.json({
+      success: true,
+      webhooks: describeWebhooks(webhooks),
+      events: WEBHOOK_EVENTS,
+    });
+  } catch (error) {
+    console.error('Error registering ClickUp webhook:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to register ClickUp webhook',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
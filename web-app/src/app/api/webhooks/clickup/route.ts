@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getWebhookSecrets, verifyWebhookSignature, handleWebhookPayload } from '@/lib/clickup-webhooks';
+import { invalidateTaskSnapshot } from '@/lib/task-cache';
+import { ClickUpWebhookPayload } from '@/types/clickup';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  try {
+    // The signature is computed over the exact bytes ClickUp sent, so read the raw body first
+    const rawBody = await request.text();
+
+    // Each tracked list has its own webhook and secret; the payload is signed with one of them
+    const secrets = await getWebhookSecrets();
+    if (secrets.length === 0) {
+      console.error('Received ClickUp webhook but no webhook secret is configured');
+      return NextResponse.json(
+        { error: 'Webhook is not registered. Register it via /api/webhooks/clickup/register.' },
+        { status: 503 }
+      );
+    }
+
+    const signature = request.headers.get('x-signature');
+    if (!secrets.some(secret => verifyWebhookSignature(rawBody, signature, secret))) {
+      console.warn('Rejected ClickUp webhook with an invalid signature');
+      return NextResponse.json(
+        { error: 'Invalid signature' },
+        { status: 401 }
+      );
+    }
+
+    let payload: ClickUpWebhookPayload;
+    try {
+      payload = JSON.parse(rawBody);
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON payload' },
+        { status: 400 }
+      );
+    }
+
+    const logged = await handleWebhookPayload(payload);
+    // Deletions are invisible to incremental refreshes, so they force a full one
+    await invalidateTaskSnapshot(payload.event === 'taskDeleted');
+    console.log(`ClickUp webhook ${payload.event} for task ${payload.task_id}: ${logged} log entries`);
+
+    return NextResponse.json({
+      success: true,
+      event: payload.event,
+      logged,
+    });
+
+  } catch (error) {
+    console.error('Error in ClickUp webhook:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to process webhook',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,9 @@
+import ChartsDashboard from '@/components/ChartsDashboard';
+
+export default function ChartsPage() {
+  return (
+    <div className="container mx-auto p-4">
+      <ChartsDashboard />
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import type { Metadata } from "next";
 import { Inter } from "next/font/google";
 import "./globals.css";
 import { ThemeProvider } from "@/components/ThemeProvider";
+import { SessionProvider } from "@/components/SessionProvider";
 
 const inter = Inter({
   subsets: ["latin"],
@@ -28,7 +29,9 @@ export default function RootLayout({
          enableSystem
          disableTransitionOnChange
        >
-         {children}
+         <SessionProvider>
+           {children}
+         </SessionProvider>
        </ThemeProvider>
       </body>
     </html>
@@ -0,0 +1,9 @@
+import TrackedListsEditor from '@/components/TrackedListsEditor';
+
+export default function ListsPage() {
+  return (
+    <div className="container mx-auto p-4">
+      <TrackedListsEditor />
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+import MeetingNotesEditor from '@/components/MeetingNotesEditor';
+
+export default function MeetingsPage() {
+  return (
+    <div className="container mx-auto p-4">
+      <MeetingNotesEditor />
+    </div>
+  );
+}
@@ -9,8 +9,12 @@ import FilterBar, { FilterGroup } from '@/components/layout/FilterBar';
 import CreateTaskModal from '@/components/task/CreateTaskModal';
 import UpdateTaskModal from '@/components/task/UpdateTaskModal';
 import LoginModal from '@/components/LoginModal';
+import { useSession } from '@/components/SessionProvider';
 import { PageTransition, FadeIn, SlideIn } from '@/components/animations/PageTransition';
+import { getProcessedFieldValues } from '@/lib/custom-fields';
 import { ProcessedTask, ClickUpTask } from '@/types/clickup';
+import { CustomFieldDisplay } from '@/types/settings';
+import { ForecastReport, ParentTaskForecast } from '@/types/forecast';
 
 export default function Home() {
   const [tasks, setTasks] = useState<ProcessedTask[]>([]);
@@ -20,9 +24,10 @@ export default function Home() {
   const [isUpdateModalOpen, setIsUpdateModalOpen] = useState(false);
   const [selectedTask, setSelectedTask] = useState<ClickUpTask | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
-  // Start with false to match server-side rendering, then update in useEffect
-  const [isLoggedIn, setIsLoggedIn] = useState(false);
-  const [isCheckingAuth, setIsCheckingAuth] = useState(true);
+  const [fieldSettings, setFieldSettings] = useState<CustomFieldDisplay[]>([]);
+  const [forecast, setForecast] = useState<ForecastReport | null>(null);
+  const { user, loading: isCheckingAuth, logout } = useSession();
+  const isLoggedIn = !!user;
 
   // Fetch tasks function
   const fetchTasks = async () => {
@@ -41,15 +46,51 @@ export default function Home() {
     }
   };
 
+  // Which custom fields are columns and filters, as picked in Settings
+  const fetchFieldSettings = async () => {
+    try {
+      const response = await fetch('/api/settings/fields');
+      if (response.ok) {
+        const data = await response.json();
+        setFieldSettings(data.settings.fields);
+      }
+    } catch (error) {
+      console.error('Error fetching custom field settings:', error);
+    }
+  };
+
+  // Projected completion dates; slower than the task list, so it fills in afterwards
+  const fetchForecast = async () => {
+    try {
+      const response = await fetch('/api/tasks/forecast');
+      if (response.ok) {
+        const data = await response.json();
+        setForecast(data.forecast);
+      }
+    } catch (error) {
+      console.error('Error fetching forecast:', error);
+    }
+  };
+
+  const refreshTasks = () => {
+    fetchTasks();
+    fetchForecast();
+  };
+
   useEffect(() => {
-    // Check login status on client side only
-    const storedUser = localStorage.getItem('trackingUser');
-    if (storedUser) {
-      setIsLoggedIn(true);
+    // Load tasks once the session is known to be signed in
+    if (user) {
       fetchTasks();
+      fetchFieldSettings();
+      fetchForecast();
     }
-    setIsCheckingAuth(false);
-  }, []);
+  }, [user]);
+
+  const customColumns = fieldSettings.filter(field => field.column).map(field => field.name);
+  const taskForecasts: Record<string, ParentTaskForecast> = Object.fromEntries(
+    (forecast?.tasks || []).map(taskForecast => [taskForecast.taskId, taskForecast])
+  );
+  const filterFields = fieldSettings.filter(field => field.filter).map(field => field.name);
 
   // Filter groups configuration (removed Status filter)
   const filterGroups: FilterGroup[] = [
@@ -115,6 +156,45 @@ export default function Home() {
     }
   ];
 
+  // Custom field filters, one group per field with an option per value in use
+  for (const name of filterFields) {
+    const values = Array.from(new Set(
+      tasks.flatMap(t => [t, ...t.subtasks]).flatMap(t => getProcessedFieldValues(t, name))
+    )).sort((a, b) => a.localeCompare(b));
+    if (values.length === 0) continue;
+
+    filterGroups.push({
+      id: `field:${name}`,
+      label: name,
+      multiSelect: true,
+      options: values.map(value => ({
+        id: value,
+        label: value,
+        value,
+        count: tasks.filter(t =>
+          getProcessedFieldValues(t, name).includes(value) ||
+          t.subtasks.some(st => getProcessedFieldValues(st, name).includes(value))
+        ).length
+      }))
+    });
+  }
+
+  // List filter, only when tasks come from more than one tracked list
+  const taskLists = Array.from(new Map(tasks.map(t => [t.listId, t.listName || t.listId])).entries());
+  if (taskLists.length > 1) {
+    filterGroups.unshift({
+      id: 'list',
+      label: 'List',
+      multiSelect: true,
+      options: taskLists.map(([listId, listName]) => ({
+        id: listId,
+        label: listName,
+        value: listId,
+        count: tasks.filter(t => t.listId === listId).length
+      }))
+    });
+  }
+
   const handleFilterChange = (groupId: string, values: string[]) => {
     setActiveFilters(prev => ({
       ...prev,
@@ -141,7 +221,7 @@ export default function Home() {
 
   const handleTaskCreated = () => {
     // Refresh the task list after creating a new task
-    fetchTasks();
+    refreshTasks();
   };
 
   const handleTaskClick = async (taskId: string) => {
@@ -165,18 +245,11 @@ export default function Home() {
 
   const handleTaskUpdated = () => {
     // Refresh the task list after updating a task
-    fetchTasks();
-  };
-
-  const handleLogin = () => {
-    setIsLoggedIn(true);
-    fetchTasks();
+    refreshTasks();
   };
 
-  const handleLogout = () => {
-    localStorage.removeItem('trackingUser');
-    localStorage.removeItem('trackingAdmin');
-    setIsLoggedIn(false);
+  const handleLogout = async () => {
+    await logout();
     window.location.reload();
   };
 
@@ -196,15 +269,17 @@ export default function Home() {
   if (!isLoggedIn) {
     return (
       <div className="min-h-screen bg-[var(--color-background)] flex items-center justify-center">
-        <LoginModal
-          isOpen={true}
-          onLogin={handleLogin}
-        />
+        <LoginModal isOpen={true} />
       </div>
     );
   }
 
   const filteredTasks = tasks.map(task => {
+    // FILTER 0: List filter - a parent task and its subtasks always share a list
+    if (activeFilters.list && activeFilters.list.length > 0 && !activeFilters.list.includes(task.listId)) {
+      return null;
+    }
+
     // Create a copy of the task to avoid mutating the original
     const filteredTask = { ...task, subtasks: [...task.subtasks] };
     let shouldIncludeTask = true;
@@ -242,6 +317,16 @@ export default function Home() {
       );
     }
     
+    // FILTER 4: Custom field filters - a subtask matches when any of its values is selected
+    for (const name of filterFields) {
+      const selected = activeFilters[`field:${name}`];
+      if (selected && selected.length > 0) {
+        filteredSubtasks = filteredSubtasks.filter(subtask =>
+          getProcessedFieldValues(subtask, name).some(value => selected.includes(value))
+        );
+      }
+    }
+    
     // After all filters, subtasks must match ALL active filters (AND logic)
     
     // Update the filtered task with the filtered subtasks
@@ -250,14 +335,15 @@ export default function Home() {
     // Only include task if it has subtasks after filtering or if no filters are active
     const hasActiveFilters = searchQuery ||
       (activeFilters.priority && activeFilters.priority.length > 0) ||
-      (activeFilters.assignee && activeFilters.assignee.length > 0);
+      (activeFilters.assignee && activeFilters.assignee.length > 0) ||
+      filterFields.some(name => activeFilters[`field:${name}`]?.length > 0);
     
     if (hasActiveFilters) {
       // For search filter: include task if parent name matches OR has matching subtasks
       if (searchQuery && task.name.toLowerCase().includes(searchQuery.toLowerCase())) {
         shouldIncludeTask = true;
       }
-      // For priority/assignee filters: ONLY include task if it has matching subtasks
+      // For priority/assignee/custom field filters: ONLY include task if it has matching subtasks
       // Parent task properties don't matter for these filters
       else if (filteredSubtasks.length > 0) {
         shouldIncludeTask = true;
@@ -283,7 +369,7 @@ export default function Home() {
         <AnimatePresence>
           {!loading && tasks.length > 0 && (
             <SlideIn direction="up" delay={0.1}>
-              <StatsBar tasks={tasks} onTaskClick={handleTaskClick} />
+              <StatsBar tasks={tasks} onTaskClick={handleTaskClick} backlogForecast={forecast?.backlog} />
             </SlideIn>
           )}
         </AnimatePresence>
@@ -318,7 +404,9 @@ export default function Home() {
               tasks={loading ? undefined : filteredTasks}
               onCreateTask={handleCreateTask}
               onTaskClick={handleTaskClick}
-              onRefresh={fetchTasks}
+              onRefresh={refreshTasks}
+              customColumns={customColumns}
+              forecasts={taskForecasts}
             />
           </motion.div>
         </SlideIn>
@@ -0,0 +1,9 @@
+import ReportHistory from '@/components/ReportHistory';
+
+export default function ReportsPage() {
+  return (
+    <div className="container mx-auto p-4">
+      <ReportHistory />
+    </div>
+  );
+}
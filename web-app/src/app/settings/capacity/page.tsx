@@ -0,0 +1,9 @@
+import CapacitySettingsEditor from '@/components/CapacitySettingsEditor';
+
+export default function CapacitySettingsPage() {
+  return (
+    <div className="container mx-auto p-4">
+      <CapacitySettingsEditor />
+    </div>
+  );
+}
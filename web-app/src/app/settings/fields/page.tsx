@@ -0,0 +1,9 @@
+import CustomFieldSettingsEditor from '@/components/CustomFieldSettingsEditor';
+
+export default function CustomFieldSettingsPage() {
+  return (
+    <div className="container mx-auto p-4">
+      <CustomFieldSettingsEditor />
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+import ScheduledJobs from '@/components/ScheduledJobs';
+
+export default function JobsPage() {
+  return (
+    <div className="container mx-auto p-4">
+      <ScheduledJobs />
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+import TeamSettingsEditor from '@/components/TeamSettingsEditor';
+
+export default function SettingsPage() {
+  return (
+    <div className="container mx-auto p-4">
+      <TeamSettingsEditor />
+    </div>
+  );
+}
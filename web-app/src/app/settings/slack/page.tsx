@@ -0,0 +1,9 @@
+import SlackSettingsEditor from '@/components/SlackSettingsEditor';
+
+export default function SlackSettingsPage() {
+  return (
+    <div className="container mx-auto p-4">
+      <SlackSettingsEditor />
+    </div>
+  );
+}
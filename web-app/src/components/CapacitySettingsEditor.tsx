@@ -0,0 +1,306 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+import { CapacityProfile, CapacitySettings, TeamSettings } from '@/types/settings';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const inputClassName = 'w-full px-2 py-1 text-sm border rounded-md bg-white dark:bg-gray-900 border-gray-200 dark:border-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+export default function CapacitySettingsEditor() {
+  const [settings, setSettings] = useState<CapacitySettings | null>(null);
+  const [originalSettings, setOriginalSettings] = useState<CapacitySettings | null>(null);
+  const [team, setTeam] = useState<TeamSettings | null>(null);
+  const [developers, setDevelopers] = useState<string[]>([]);
+  const [newDeveloper, setNewDeveloper] = useState('');
+  const [newPto, setNewPto] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  const fetchSettings = async () => {
+    try {
+      setLoading(true);
+      const [response, developersResponse] = await Promise.all([
+        fetch('/api/settings/capacity', { cache: 'no-store' }),
+        fetch('/api/tasks/developers', { cache: 'no-store' }),
+      ]);
+      if (response.ok) {
+        const data = await response.json();
+        setSettings(data.settings);
+        setOriginalSettings(data.settings);
+        setTeam(data.team);
+      } else {
+        setMessage({ type: 'error', text: 'Failed to load capacity settings' });
+      }
+      if (developersResponse.ok) {
+        const data = await developersResponse.json();
+        setDevelopers(data.developers.map((developer: { name: string }) => developer.name));
+      }
+    } catch (error) {
+      console.error('Error fetching capacity settings:', error);
+      setMessage({ type: 'error', text: 'Error loading capacity settings' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateProfile = (developer: string, changes: Partial<CapacityProfile>) => {
+    setSettings(prev => prev && {
+      ...prev,
+      profiles: prev.profiles.map(profile => profile.developer === developer ? { ...profile, ...changes } : profile),
+    });
+  };
+
+  const addProfile = () => {
+    if (!settings || !team || !newDeveloper) return;
+    setSettings({
+      ...settings,
+      profiles: [...settings.profiles, {
+        developer: newDeveloper,
+        hoursPerDay: settings.defaultHoursPerDay,
+        workingDays: team.workingDays,
+        pto: [],
+      }].sort((a, b) => a.developer.localeCompare(b.developer)),
+    });
+    setNewDeveloper('');
+  };
+
+  const removeProfile = (developer: string) => {
+    setSettings(prev => prev && { ...prev, profiles: prev.profiles.filter(profile => profile.developer !== developer) });
+  };
+
+  const toggleWorkingDay = (profile: CapacityProfile, day: number) => {
+    const workingDays = profile.workingDays.includes(day)
+      ? profile.workingDays.filter(d => d !== day)
+      : [...profile.workingDays, day].sort();
+    updateProfile(profile.developer, { workingDays });
+  };
+
+  const addPto = (profile: CapacityProfile) => {
+    const day = newPto[profile.developer];
+    if (!day || profile.pto.includes(day)) return;
+    updateProfile(profile.developer, { pto: [...profile.pto, day].sort() });
+    setNewPto(prev => ({ ...prev, [profile.developer]: '' }));
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setMessage(null);
+
+      const response = await fetch('/api/settings/capacity', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ settings }),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setSettings(data.settings);
+        setOriginalSettings(data.settings);
+        setMessage({ type: 'success', text: 'Capacity settings saved successfully!' });
+        setTimeout(() => setMessage(null), 3000);
+      } else {
+        const errorData = await response.json();
+        setMessage({ type: 'error', text: errorData.error || 'Failed to save capacity settings' });
+      }
+    } catch {
+      setMessage({ type: 'error', text: 'Error saving capacity settings' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReset = () => {
+    setSettings(originalSettings);
+    setMessage(null);
+  };
+
+  const hasChanges = JSON.stringify(settings) !== JSON.stringify(originalSettings);
+  const unprofiled = developers.filter(name =>
+    !settings?.profiles.some(profile => profile.developer.toLowerCase() === name.toLowerCase())
+  );
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-gray-500 dark:text-gray-400">Loading capacity settings...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-4">
+        <div className="flex items-center justify-between mb-4">
+          <div className="space-y-1">
+            <h2 className="text-xl font-semibold">Developer Capacity</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Productive hours per day, working days and PTO, used for utilization and projected completion dates.
+              Team holidays apply to everyone.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              onClick={handleReset}
+              variant="secondary"
+              disabled={!hasChanges || saving}
+            >
+              Reset
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={!hasChanges || saving || !settings}
+            >
+              {saving ? 'Saving...' : 'Save Settings'}
+            </Button>
+          </div>
+        </div>
+
+        {message && (
+          <div
+            className={`mb-4 p-3 rounded-md text-sm ${
+              message.type === 'success'
+                ? 'bg-green-50 text-green-800 dark:bg-green-900/20 dark:text-green-400'
+                : 'bg-red-50 text-red-800 dark:bg-red-900/20 dark:text-red-400'
+            }`}
+          >
+            {message.text}
+          </div>
+        )}
+
+        {settings && (
+          <div className="space-y-6">
+            <label className="block text-sm max-w-xs">
+              Default hours per day
+              <input
+                type="number"
+                min={0}
+                max={24}
+                step={0.5}
+                value={settings.defaultHoursPerDay}
+                onChange={(e) => setSettings({ ...settings, defaultHoursPerDay: Number(e.target.value) })}
+                className={`${inputClassName} mt-1`}
+                disabled={saving}
+              />
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                For developers without a profile, on the team&apos;s working days.
+              </span>
+            </label>
+
+            <div className="space-y-3">
+              {settings.profiles.map(profile => (
+                <div key={profile.developer} className="p-3 border rounded-md border-gray-200 dark:border-gray-700 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <h3 className="font-medium">{profile.developer}</h3>
+                    <button
+                      type="button"
+                      className="text-gray-400 hover:text-red-600"
+                      onClick={() => removeProfile(profile.developer)}
+                      aria-label={`Remove ${profile.developer}'s profile`}
+                      disabled={saving}
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    <label className="text-sm">
+                      Hours per day
+                      <input
+                        type="number"
+                        min={0}
+                        max={24}
+                        step={0.5}
+                        value={profile.hoursPerDay}
+                        onChange={(e) => updateProfile(profile.developer, { hoursPerDay: Number(e.target.value) })}
+                        className={`${inputClassName} mt-1`}
+                        disabled={saving}
+                      />
+                    </label>
+
+                    <div className="text-sm">
+                      Working days
+                      <div className="flex flex-wrap gap-2 mt-2">
+                        {WEEKDAYS.map((label, day) => (
+                          <label key={label} className="flex items-center gap-1 cursor-pointer">
+                            <input
+                              type="checkbox"
+                              checked={profile.workingDays.includes(day)}
+                              onChange={() => toggleWorkingDay(profile, day)}
+                              disabled={saving}
+                            />
+                            <span>{label}</span>
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div className="text-sm">
+                      PTO
+                      <div className="flex gap-2 mt-1">
+                        <input
+                          type="date"
+                          value={newPto[profile.developer] || ''}
+                          onChange={(e) => setNewPto(prev => ({ ...prev, [profile.developer]: e.target.value }))}
+                          className={inputClassName}
+                          disabled={saving}
+                        />
+                        <Button variant="secondary" size="sm" onClick={() => addPto(profile)} disabled={!newPto[profile.developer] || saving}>
+                          Add
+                        </Button>
+                      </div>
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {profile.pto.map(day => (
+                          <span key={day} className="inline-flex items-center gap-1 px-2 py-0.5 rounded bg-gray-100 dark:bg-gray-800 text-xs">
+                            {day}
+                            <button
+                              type="button"
+                              className="text-gray-400 hover:text-red-600"
+                              onClick={() => updateProfile(profile.developer, { pto: profile.pto.filter(d => d !== day) })}
+                              aria-label={`Remove ${day}`}
+                              disabled={saving}
+                            >
+                              <X className="h-3 w-3" />
+                            </button>
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex gap-2 max-w-md">
+              <select
+                value={newDeveloper}
+                onChange={(e) => setNewDeveloper(e.target.value)}
+                className={inputClassName}
+                disabled={saving || unprofiled.length === 0}
+              >
+                <option value="">{unprofiled.length === 0 ? 'Every developer has a profile' : 'Add a profile for...'}</option>
+                {unprofiled.map(name => (
+                  <option key={name} value={name}>{name}</option>
+                ))}
+              </select>
+              <Button variant="secondary" size="sm" onClick={addProfile} disabled={!newDeveloper || saving}>
+                Add
+              </Button>
+            </div>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { format, subDays } from 'date-fns';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+import LineChart from '@/components/charts/LineChart';
+import BarChart from '@/components/charts/BarChart';
+import { ChartsData } from '@/types/charts';
+
+const RANGE_PRESETS = [
+  { label: '4 weeks', days: 28 },
+  { label: '8 weeks', days: 56 },
+  { label: '12 weeks', days: 84 },
+  { label: '6 months', days: 182 },
+];
+
+const DEVELOPER_COLORS = ['#60a5fa', '#f87171', '#34d399', '#fbbf24', '#a78bfa', '#f472b6', '#22d3ee', '#a3a3a3'];
+
+const toInputDate = (date: Date) => format(date, 'yyyy-MM-dd');
+
+export default function ChartsDashboard() {
+  const [since, setSince] = useState(toInputDate(subDays(new Date(), 56)));
+  const [until, setUntil] = useState(toInputDate(new Date()));
+  const [data, setData] = useState<ChartsData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const fetchCharts = useCallback(async () => {
+    try {
+      setLoading(true);
+      setMessage(null);
+      // Dates are local; the range runs to the end of the until day
+      const params = new URLSearchParams({
+        since: new Date(`${since}T00:00:00`).toISOString(),
+        until: new Date(`${until}T23:59:59`).toISOString(),
+      });
+      const response = await fetch(`/api/charts?${params}`, { cache: 'no-store' });
+      const result = await response.json();
+
+      if (response.ok) {
+        setData(result);
+      } else {
+        setMessage(result.error || 'Failed to load charts');
+      }
+    } catch (error) {
+      console.error('Error fetching charts:', error);
+      setMessage('Error loading charts');
+    } finally {
+      setLoading(false);
+    }
+  }, [since, until]);
+
+  useEffect(() => {
+    fetchCharts();
+  }, [fetchCharts]);
+
+  const applyPreset = (days: number) => {
+    setUntil(toInputDate(new Date()));
+    setSince(toInputDate(subDays(new Date(), days)));
+  };
+
+  const weekLabels = data?.weekly.map(week => format(new Date(`${week.weekStart}T00:00:00`), 'MMM d')) || [];
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-4" hover="none">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div className="space-y-1">
+            <h2 className="text-xl font-semibold">Charts</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Estimated work remaining, tasks opened vs closed, and throughput per developer (subtasks only).
+            </p>
+          </div>
+          <div className="flex flex-wrap items-end gap-2">
+            {RANGE_PRESETS.map(preset => (
+              <Button key={preset.days} variant="secondary" size="sm" onClick={() => applyPreset(preset.days)}>
+                {preset.label}
+              </Button>
+            ))}
+            <label className="text-xs text-gray-500 dark:text-gray-400">
+              From
+              <input
+                type="date"
+                value={since}
+                max={until}
+                onChange={(e) => setSince(e.target.value)}
+                className="block mt-1 px-2 py-1 text-sm border rounded-md bg-white dark:bg-gray-900 border-gray-200 dark:border-gray-700"
+              />
+            </label>
+            <label className="text-xs text-gray-500 dark:text-gray-400">
+              To
+              <input
+                type="date"
+                value={until}
+                min={since}
+                onChange={(e) => setUntil(e.target.value)}
+                className="block mt-1 px-2 py-1 text-sm border rounded-md bg-white dark:bg-gray-900 border-gray-200 dark:border-gray-700"
+              />
+            </label>
+          </div>
+        </div>
+
+        {message && (
+          <div className="mt-4 p-3 rounded-md text-sm bg-red-50 text-red-800 dark:bg-red-900/20 dark:text-red-400">
+            {message}
+          </div>
+        )}
+      </Card>
+
+      {loading ? (
+        <div className="flex items-center justify-center min-h-[400px]">
+          <div className="text-gray-500 dark:text-gray-400">Loading charts...</div>
+        </div>
+      ) : data && (
+        <>
+          <Card className="p-4" hover="none">
+            <h3 className="text-lg font-semibold mb-3">Burndown / Burnup</h3>
+            <LineChart
+              labels={data.burn.map(point => format(new Date(`${point.date}T00:00:00`), 'MMM d'))}
+              unit="h"
+              series={[
+                { name: 'Remaining hours', color: '#f87171', values: data.burn.map(point => point.remainingHours) },
+                { name: 'Completed hours', color: '#34d399', values: data.burn.map(point => point.completedHours) },
+                { name: 'Scope', color: '#a3a3a3', values: data.burn.map(point => point.scopeHours) },
+              ]}
+            />
+          </Card>
+
+          <Card className="p-4" hover="none">
+            <h3 className="text-lg font-semibold mb-3">Opened vs Closed per Week</h3>
+            <BarChart
+              labels={weekLabels}
+              series={[
+                { name: 'Opened', color: '#60a5fa', values: data.weekly.map(week => week.opened) },
+                { name: 'Closed', color: '#34d399', values: data.weekly.map(week => week.closed) },
+              ]}
+            />
+          </Card>
+
+          <Card className="p-4" hover="none">
+            <h3 className="text-lg font-semibold mb-3">Throughput per Developer</h3>
+            {data.throughput.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No subtasks were closed in this range.</p>
+            ) : (
+              <>
+                <BarChart
+                  labels={weekLabels}
+                  series={data.throughput.map((dev, index) => ({
+                    name: dev.developer,
+                    color: DEVELOPER_COLORS[index % DEVELOPER_COLORS.length],
+                    values: dev.weekly,
+                  }))}
+                />
+                <table className="w-full mt-4 text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                      <th className="py-2 font-medium">Developer</th>
+                      <th className="py-2 font-medium text-right">Closed</th>
+                      <th className="py-2 font-medium text-right">Estimated hours</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.throughput.map(dev => (
+                      <tr key={dev.developer} className="border-b border-gray-100 dark:border-gray-800">
+                        <td className="py-2">{dev.developer}</td>
+                        <td className="py-2 text-right">{dev.closed}</td>
+                        <td className="py-2 text-right">{dev.closedHours}h</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </>
+            )}
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+import { AvailableCustomField, CustomFieldDisplay } from '@/types/settings';
+
+type DisplayFlag = 'column' | 'filter' | 'editable';
+
+const FLAGS: Array<{ key: DisplayFlag; label: string }> = [
+  { key: 'column', label: 'Column' },
+  { key: 'filter', label: 'Filter' },
+  { key: 'editable', label: 'Editable' },
+];
+
+export default function CustomFieldSettingsEditor() {
+  const [available, setAvailable] = useState<AvailableCustomField[]>([]);
+  const [fields, setFields] = useState<CustomFieldDisplay[]>([]);
+  const [originalFields, setOriginalFields] = useState<CustomFieldDisplay[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  const fetchSettings = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/settings/fields?available=true', { cache: 'no-store' });
+      if (response.ok) {
+        const data = await response.json();
+        setAvailable(data.available || []);
+        setFields(data.settings.fields);
+        setOriginalFields(data.settings.fields);
+      } else {
+        setMessage({ type: 'error', text: 'Failed to load custom field settings' });
+      }
+    } catch (error) {
+      console.error('Error fetching custom field settings:', error);
+      setMessage({ type: 'error', text: 'Error loading custom field settings' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setMessage(null);
+
+      const response = await fetch('/api/settings/fields', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ settings: { fields } }),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setFields(data.settings.fields);
+        setOriginalFields(data.settings.fields);
+        setMessage({ type: 'success', text: 'Custom field settings saved successfully!' });
+        setTimeout(() => setMessage(null), 3000);
+      } else {
+        const errorData = await response.json();
+        setMessage({ type: 'error', text: errorData.error || 'Failed to save custom field settings' });
+      }
+    } catch {
+      setMessage({ type: 'error', text: 'Error saving custom field settings' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const getDisplay = (name: string): CustomFieldDisplay =>
+    fields.find(field => field.name.toLowerCase() === name.toLowerCase()) ||
+    { name, column: false, filter: false, editable: false };
+
+  const toggle = (name: string, flag: DisplayFlag) => {
+    const display = getDisplay(name);
+    const updated = { ...display, [flag]: !display[flag] };
+    setFields(prev => prev.includes(display)
+      ? prev.map(field => field === display ? updated : field)
+      : [...prev, updated]
+    );
+  };
+
+  const hasChanges = JSON.stringify(fields) !== JSON.stringify(originalFields);
+
+  // Keep configured fields that no tracked list has any more, so they can be switched off
+  const missing = fields.filter(field =>
+    !available.some(candidate => candidate.name.toLowerCase() === field.name.toLowerCase())
+  );
+  const rows: AvailableCustomField[] = [
+    ...available,
+    ...missing.map(field => ({ name: field.name, type: '', editable: true, lists: [] })),
+  ];
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-gray-500 dark:text-gray-400">Loading custom fields...</div>
+      </div>
+    );
+  }
+
+  return (
+    <Card className="p-4">
+      <div className="flex items-center justify-between mb-4">
+        <div className="space-y-1">
+          <h2 className="text-xl font-semibold">Custom Fields</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Pick the ClickUp fields shown as task columns, offered as filters and editable in the task dialog.
+            Developer and Priority are always shown.
+          </p>
+        </div>
+        <Button onClick={handleSave} disabled={!hasChanges || saving}>
+          {saving ? 'Saving...' : 'Save Changes'}
+        </Button>
+      </div>
+
+      {message && (
+        <div
+          className={`mb-4 p-3 rounded-md text-sm ${
+            message.type === 'success'
+              ? 'bg-green-50 text-green-800 dark:bg-green-900/20 dark:text-green-400'
+              : 'bg-red-50 text-red-800 dark:bg-red-900/20 dark:text-red-400'
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No custom fields found on the tracked lists.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                <th className="py-2 pr-4 font-medium">Field</th>
+                <th className="py-2 pr-4 font-medium">Type</th>
+                <th className="py-2 pr-4 font-medium">Lists</th>
+                {FLAGS.map(flag => (
+                  <th key={flag.key} className="py-2 pr-4 font-medium text-center">{flag.label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(field => {
+                const display = getDisplay(field.name);
+                return (
+                  <tr key={field.name} className="border-b border-gray-100 dark:border-gray-800">
+                    <td className="py-2 pr-4 font-medium">{field.name}</td>
+                    <td className="py-2 pr-4 font-mono text-xs">{field.type || '-'}</td>
+                    <td className="py-2 pr-4 text-gray-500 dark:text-gray-400">
+                      {field.lists.length > 0 ? field.lists.join(', ') : 'Not on any tracked list'}
+                    </td>
+                    {FLAGS.map(flag => {
+                      // Fields of types the dialog has no input for stay read-only, unless already on
+                      const disabled = saving || (flag.key === 'editable' && !field.editable && !display.editable);
+                      return (
+                        <td key={flag.key} className="py-2 pr-4 text-center">
+                          <input
+                            type="checkbox"
+                            checked={display[flag.key]}
+                            onChange={() => toggle(field.name, flag.key)}
+                            disabled={disabled}
+                            aria-label={`${flag.label}: ${field.name}`}
+                            title={disabled && !saving ? `${field.type} fields cannot be edited here` : undefined}
+                          />
+                        </td>
+                      );
+                    })}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </Card>
+  );
+}
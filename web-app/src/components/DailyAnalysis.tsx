@@ -0,0 +1,215 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+import { useSession } from '@/components/SessionProvider';
+import { AnalysisSummary, StoredAnalysis } from '@/types/analysis';
+
+export default function DailyAnalysis() {
+  const { can } = useSession();
+  const [analyses, setAnalyses] = useState<AnalysisSummary[]>([]);
+  const [provider, setProvider] = useState<{ name: string; model: string } | null>(null);
+  const [providerError, setProviderError] = useState<string | null>(null);
+  const [output, setOutput] = useState('');
+  const [generating, setGenerating] = useState(false);
+  const [selected, setSelected] = useState<StoredAnalysis | null>(null);
+  const [compareWith, setCompareWith] = useState<StoredAnalysis | null>(null);
+  const [showReport, setShowReport] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const fetchAnalyses = useCallback(async () => {
+    try {
+      const response = await fetch('/api/analysis', { cache: 'no-store' });
+      if (response.ok) {
+        const data = await response.json();
+        setAnalyses(data.analyses || []);
+        setProvider(data.provider);
+        setProviderError(data.providerError || null);
+      } else {
+        setMessage({ type: 'error', text: 'Failed to load analyses' });
+      }
+    } catch (error) {
+      console.error('Error fetching analyses:', error);
+      setMessage({ type: 'error', text: 'Error loading analyses' });
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchAnalyses();
+  }, [fetchAnalyses]);
+
+  const fetchAnalysis = async (id: string): Promise<StoredAnalysis | null> => {
+    const response = await fetch(`/api/analysis/${id}`, { cache: 'no-store' });
+    if (!response.ok) {
+      setMessage({ type: 'error', text: 'Failed to load analysis' });
+      return null;
+    }
+    const data = await response.json();
+    return data.analysis;
+  };
+
+  const handleGenerate = async () => {
+    try {
+      setGenerating(true);
+      setMessage(null);
+      setSelected(null);
+      setCompareWith(null);
+      setOutput('');
+
+      const response = await fetch('/api/analysis', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({}),
+      });
+
+      if (!response.ok || !response.body) {
+        const errorData = await response.json().catch(() => ({}));
+        setMessage({ type: 'error', text: errorData.details || errorData.error || 'Failed to generate analysis' });
+        return;
+      }
+
+      // Render the analysis as it streams in
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        setOutput(prev => prev + decoder.decode(value, { stream: true }));
+      }
+
+      const analysisId = response.headers.get('X-Analysis-Id');
+      await fetchAnalyses();
+      if (analysisId) {
+        setSelected(await fetchAnalysis(analysisId));
+      }
+    } catch {
+      setMessage({ type: 'error', text: 'Error generating analysis' });
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleSelect = async (id: string) => {
+    setMessage(null);
+    setShowReport(false);
+    const analysis = await fetchAnalysis(id);
+    if (analysis) {
+      setSelected(analysis);
+      setOutput(analysis.output);
+      setCompareWith(null);
+    }
+  };
+
+  const handleCompare = async (id: string) => {
+    setMessage(null);
+    setCompareWith(await fetchAnalysis(id));
+  };
+
+  const formatWhen = (iso: string) => new Date(iso).toLocaleString();
+
+  const renderAnalysis = (analysis: StoredAnalysis | null, text: string) => (
+    <div className="flex-1 min-w-0">
+      {analysis && (
+        <p className="mb-2 text-xs text-gray-500 dark:text-gray-400">
+          {formatWhen(analysis.createdAt)} · {analysis.provider}/{analysis.model} · {analysis.createdBy}
+          {analysis.status === 'failed' && <span className="ml-2 text-red-600">failed</span>}
+        </p>
+      )}
+      <pre className="whitespace-pre-wrap break-words p-4 text-sm border rounded-md bg-white dark:bg-gray-900 border-gray-200 dark:border-gray-700 min-h-[300px]">
+        {showReport && analysis ? analysis.report : text}
+      </pre>
+    </div>
+  );
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-4 gap-4">
+      <Card className="p-4 lg:col-span-3" hover="none">
+        <div className="flex items-center justify-between mb-4">
+          <div className="space-y-1">
+            <h2 className="text-xl font-semibold">Daily Analysis</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {provider
+                ? `Runs the LLM prompt over today's report using ${provider.name}/${provider.model}.`
+                : providerError || 'No LLM provider is configured.'}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            {selected && (
+              <Button variant="secondary" onClick={() => setShowReport(!showReport)}>
+                {showReport ? 'Show Analysis' : 'Show Input Report'}
+              </Button>
+            )}
+            {can('reports:generate') && (
+              <Button onClick={handleGenerate} disabled={generating || !provider}>
+                {generating ? 'Generating...' : 'Generate Analysis'}
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {message && (
+          <div
+            className={`mb-4 p-3 rounded-md text-sm ${
+              message.type === 'success'
+                ? 'bg-green-50 text-green-800 dark:bg-green-900/20 dark:text-green-400'
+                : 'bg-red-50 text-red-800 dark:bg-red-900/20 dark:text-red-400'
+            }`}
+          >
+            {message.text}
+          </div>
+        )}
+
+        {!output && !selected && !generating ? (
+          <div className="flex items-center justify-center min-h-[300px] text-gray-500 dark:text-gray-400">
+            Generate an analysis or pick one from the history.
+          </div>
+        ) : (
+          <div className="flex flex-col xl:flex-row gap-4">
+            {renderAnalysis(selected, output)}
+            {compareWith && renderAnalysis(compareWith, compareWith.output)}
+          </div>
+        )}
+      </Card>
+
+      <Card className="p-4" hover="none">
+        <h3 className="text-lg font-semibold mb-3">History</h3>
+        {analyses.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No analyses yet.</p>
+        ) : (
+          <ul className="space-y-2">
+            {analyses.map(analysis => (
+              <li
+                key={analysis.id}
+                className={`p-2 rounded-md border text-sm ${
+                  selected?.id === analysis.id
+                    ? 'border-blue-400 bg-blue-50 dark:bg-blue-900/20'
+                    : 'border-gray-200 dark:border-gray-700'
+                }`}
+              >
+                <button type="button" className="text-left w-full" onClick={() => handleSelect(analysis.id)}>
+                  <div className="font-medium">{formatWhen(analysis.createdAt)}</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    {analysis.model} · {analysis.lists.join(', ')}
+                    {analysis.status === 'failed' && <span className="ml-1 text-red-600">failed</span>}
+                  </div>
+                </button>
+                {selected && selected.id !== analysis.id && (
+                  <button
+                    type="button"
+                    className="mt-1 text-xs text-blue-600 hover:underline"
+                    onClick={() => handleCompare(analysis.id)}
+                  >
+                    {compareWith?.id === analysis.id ? 'Comparing' : 'Compare'}
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -5,35 +5,43 @@ import { User, Lock, LogIn } from 'lucide-react';
 import Modal from '@/components/ui/Modal';
 import { Button } from '@/components/ui/Button';
 import { cn } from '@/lib/utils';
+import { useSession } from '@/components/SessionProvider';
 
 interface LoginModalProps {
   isOpen: boolean;
-  onLogin: (username: string, isAdmin: boolean) => void;
 }
 
-const LoginModal: React.FC<LoginModalProps> = ({ isOpen, onLogin }) => {
+const LoginModal: React.FC<LoginModalProps> = ({ isOpen }) => {
+  const { login } = useSession();
   const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
   const [error, setError] = useState('');
+  const [submitting, setSubmitting] = useState(false);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
     if (!username.trim()) {
-      setError('Please enter your name or access code');
+      setError('Please enter your name');
       return;
     }
 
-    // Check if it's the admin code
-    const isAdmin = username.trim() === 'sdf65e4wf6ae4rew3';
-    
-    // Store in localStorage
-    localStorage.setItem('trackingUser', username);
-    localStorage.setItem('trackingAdmin', isAdmin.toString());
-    
-    // Call the onLogin callback
-    onLogin(username, isAdmin);
+    setSubmitting(true);
+    try {
+      // The server sets the session cookie; the provider picks up the user
+      await login(username.trim(), password || undefined);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to sign in');
+    } finally {
+      setSubmitting(false);
+    }
   };
 
+  const inputClassName = (hasError: boolean) => cn(
+    "w-full px-3 py-2 border rounded-md bg-[var(--color-surface)] text-[var(--color-text-primary)] placeholder:text-[var(--color-text-muted)] focus:outline-none focus:ring-2 focus:ring-[var(--color-primary-500)] transition-colors",
+    hasError ? "border-[var(--color-error-500)]" : "border-[var(--color-border)]"
+  );
+
   return (
     <Modal
       isOpen={isOpen}
@@ -47,14 +55,14 @@ const LoginModal: React.FC<LoginModalProps> = ({ isOpen, onLogin }) => {
             <User className="w-8 h-8 text-white" />
           </div>
           <p className="text-sm text-[var(--color-text-muted)]">
-            Enter your name to view tasks, or use an access code for editing privileges.
+            Sign in with your account name and password. Where guest access is enabled, a name alone is enough.
           </p>
         </div>
 
         <div>
           <label className="block text-sm font-medium text-[var(--color-text-primary)] mb-2">
             <User className="w-4 h-4 inline mr-1" />
-            Name or Access Code
+            Name
           </label>
           <input
             type="text"
@@ -63,13 +71,29 @@ const LoginModal: React.FC<LoginModalProps> = ({ isOpen, onLogin }) => {
               setUsername(e.target.value);
               setError('');
             }}
-            className={cn(
-              "w-full px-3 py-2 border rounded-md bg-[var(--color-surface)] text-[var(--color-text-primary)] placeholder:text-[var(--color-text-muted)] focus:outline-none focus:ring-2 focus:ring-[var(--color-primary-500)] transition-colors",
-              error ? "border-[var(--color-error-500)]" : "border-[var(--color-border)]"
-            )}
+            className={inputClassName(!!error)}
             placeholder="Enter your name..."
+            autoComplete="username"
             autoFocus
           />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-[var(--color-text-primary)] mb-2">
+            <Lock className="w-4 h-4 inline mr-1" />
+            Password <span className="text-[var(--color-text-muted)] font-normal">(if your account has one)</span>
+          </label>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => {
+              setPassword(e.target.value);
+              setError('');
+            }}
+            className={inputClassName(!!error)}
+            placeholder="Password"
+            autoComplete="current-password"
+          />
           {error && (
             <p className="mt-1 text-sm text-[var(--color-error-500)]">{error}</p>
           )}
@@ -81,8 +105,9 @@ const LoginModal: React.FC<LoginModalProps> = ({ isOpen, onLogin }) => {
             <div className="text-xs text-blue-800">
               <p className="font-medium mb-1">Access Levels:</p>
               <ul className="space-y-1">
-                <li>• <strong>Name:</strong> View-only access to all tasks</li>
-                <li>• <strong>Access Code:</strong> Full editing privileges</li>
+                <li>• <strong>Viewer:</strong> View-only access to all tasks</li>
+                <li>• <strong>Developer:</strong> Create new items, comment and move tasks to review</li>
+                <li>• <strong>Admin:</strong> Full editing privileges, logs and reports</li>
               </ul>
             </div>
           </div>
@@ -91,6 +116,7 @@ const LoginModal: React.FC<LoginModalProps> = ({ isOpen, onLogin }) => {
         <Button
           type="submit"
           className="w-full"
+          loading={submitting}
         >
           <LogIn className="w-4 h-4 mr-2" />
           Continue
@@ -0,0 +1,372 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+import { useSession } from '@/components/SessionProvider';
+import { ProcessedTask } from '@/types/clickup';
+import { MeetingItem, MeetingItemType, MeetingNote, MissedCommitment } from '@/types/meetings';
+
+const ITEM_TYPES: Array<{ value: MeetingItemType; label: string }> = [
+  { value: 'decision', label: 'Decision' },
+  { value: 'action', label: 'Action item' },
+  { value: 'commitment', label: 'Commitment' },
+  { value: 'escalation', label: 'Escalation' },
+];
+
+interface DraftMeeting {
+  id?: string;
+  date: string;
+  summary: string;
+  items: MeetingItem[];
+}
+
+const inputClassName = 'w-full px-2 py-1 text-sm border rounded-md bg-white dark:bg-gray-900 border-gray-200 dark:border-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const newDraft = (): DraftMeeting => ({
+  date: format(new Date(), 'yyyy-MM-dd'),
+  summary: '',
+  items: [],
+});
+
+const newItem = (): MeetingItem => ({
+  id: `new-${Math.random().toString(36).slice(2)}`,
+  type: 'commitment',
+  text: '',
+});
+
+export default function MeetingNotesEditor() {
+  const { can } = useSession();
+  const canWrite = can('meetings:write');
+  const [meetings, setMeetings] = useState<MeetingNote[]>([]);
+  const [missed, setMissed] = useState<MissedCommitment[]>([]);
+  const [draft, setDraft] = useState<DraftMeeting>(newDraft());
+  const [developers, setDevelopers] = useState<string[]>([]);
+  const [taskOptions, setTaskOptions] = useState<Array<{ id: string; name: string }>>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const fetchMeetings = useCallback(async () => {
+    const response = await fetch('/api/meetings', { cache: 'no-store' });
+    if (response.ok) {
+      const data = await response.json();
+      setMeetings(data.meetings || []);
+      setMissed(data.missedCommitments || []);
+    } else {
+      setMessage({ type: 'error', text: 'Failed to load meeting notes' });
+    }
+  }, []);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setLoading(true);
+        await fetchMeetings();
+
+        // Owners and linked tasks come from the tracker
+        const [developersResponse, tasksResponse] = await Promise.all([
+          fetch('/api/tasks/developers'),
+          fetch('/api/tasks'),
+        ]);
+        if (developersResponse.ok) {
+          const data = await developersResponse.json();
+          setDevelopers((data.developers || []).map((dev: { name: string }) => dev.name).sort());
+        }
+        if (tasksResponse.ok) {
+          const data = await tasksResponse.json();
+          const options = (data.tasks as ProcessedTask[] || []).flatMap(task => [
+            { id: task.id, name: task.name },
+            ...task.subtasks.map(subtask => ({ id: subtask.id, name: `${task.name} - ${subtask.name}` })),
+          ]);
+          setTaskOptions(options.sort((a, b) => a.name.localeCompare(b.name)));
+        }
+      } catch (error) {
+        console.error('Error loading meeting notes:', error);
+        setMessage({ type: 'error', text: 'Error loading meeting notes' });
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [fetchMeetings]);
+
+  const updateItem = (id: string, changes: Partial<MeetingItem>) => {
+    setDraft(prev => ({
+      ...prev,
+      items: prev.items.map(item => item.id === id ? { ...item, ...changes } : item),
+    }));
+  };
+
+  const handleSelect = (meeting: MeetingNote) => {
+    setMessage(null);
+    setDraft({ id: meeting.id, date: meeting.date, summary: meeting.summary || '', items: meeting.items });
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setMessage(null);
+
+      const payload = {
+        date: draft.date,
+        summary: draft.summary,
+        // Server assigns ids to new items
+        items: draft.items.map(item => ({ ...item, id: item.id.startsWith('new-') ? undefined : item.id })),
+      };
+      const response = await fetch(draft.id ? `/api/meetings/${draft.id}` : '/api/meetings', {
+        method: draft.id ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(payload),
+      });
+
+      const result = await response.json();
+      if (response.ok) {
+        handleSelect(result.meeting);
+        await fetchMeetings();
+        setMessage({ type: 'success', text: 'Meeting notes saved successfully!' });
+        setTimeout(() => setMessage(null), 3000);
+      } else {
+        setMessage({ type: 'error', text: result.error || 'Failed to save meeting notes' });
+      }
+    } catch {
+      setMessage({ type: 'error', text: 'Error saving meeting notes' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!draft.id || !confirm('Delete the notes for this meeting?')) return;
+    const response = await fetch(`/api/meetings/${draft.id}`, { method: 'DELETE' });
+    if (response.ok) {
+      setDraft(newDraft());
+      await fetchMeetings();
+    } else {
+      setMessage({ type: 'error', text: 'Failed to delete meeting notes' });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-gray-500 dark:text-gray-400">Loading meeting notes...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {missed.length > 0 && (
+        <Card className="p-4 border-red-300 dark:border-red-800" hover="none">
+          <h3 className="text-sm font-semibold text-red-700 dark:text-red-400 mb-2">
+            Missed commitments ({missed.length})
+          </h3>
+          <ul className="space-y-1 text-sm">
+            {missed.map(({ item, meetingDate, lastStatus }) => (
+              <li key={item.id}>
+                <span className="font-medium">{item.owner || 'Unowned'}</span>: {item.text}
+                <span className="text-gray-500 dark:text-gray-400">
+                  {' '}— {item.taskName || item.taskId}, due {item.deadline}, committed {meetingDate}
+                  {lastStatus && `, still ${lastStatus}`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </Card>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-4">
+        <Card className="p-4" hover="none">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-lg font-semibold">Meetings</h3>
+            {canWrite && (
+              <Button size="sm" variant="secondary" onClick={() => setDraft(newDraft())}>
+                <Plus className="h-4 w-4 mr-1" />
+                New
+              </Button>
+            )}
+          </div>
+          {meetings.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No meetings recorded yet.</p>
+          ) : (
+            <ul className="space-y-2">
+              {meetings.map(meeting => (
+                <li key={meeting.id}>
+                  <button
+                    type="button"
+                    onClick={() => handleSelect(meeting)}
+                    className={`w-full text-left p-2 rounded-md border text-sm ${
+                      draft.id === meeting.id
+                        ? 'border-blue-400 bg-blue-50 dark:bg-blue-900/20'
+                        : 'border-gray-200 dark:border-gray-700'
+                    }`}
+                  >
+                    <div className="font-medium">{meeting.date}</div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      {meeting.items.length} items · {meeting.createdBy}
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </Card>
+
+        <Card className="p-4 lg:col-span-3" hover="none">
+          <div className="flex items-center justify-between mb-4">
+            <div className="space-y-1">
+              <h2 className="text-xl font-semibold">{draft.id ? 'Meeting Notes' : 'New Meeting Notes'}</h2>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Decisions, action items, commitments and escalations feed the post-meeting part of the next LLM report.
+              </p>
+            </div>
+            {canWrite && (
+              <div className="flex gap-2">
+                {draft.id && (
+                  <Button variant="secondary" onClick={handleDelete} disabled={saving}>
+                    Delete
+                  </Button>
+                )}
+                <Button onClick={handleSave} disabled={saving}>
+                  {saving ? 'Saving...' : 'Save Notes'}
+                </Button>
+              </div>
+            )}
+          </div>
+
+          {message && (
+            <div
+              className={`mb-4 p-3 rounded-md text-sm ${
+                message.type === 'success'
+                  ? 'bg-green-50 text-green-800 dark:bg-green-900/20 dark:text-green-400'
+                  : 'bg-red-50 text-red-800 dark:bg-red-900/20 dark:text-red-400'
+              }`}
+            >
+              {message.text}
+            </div>
+          )}
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-4 gap-3">
+              <label className="text-sm">
+                Date
+                <input
+                  type="date"
+                  value={draft.date}
+                  onChange={(e) => setDraft(prev => ({ ...prev, date: e.target.value }))}
+                  className={`${inputClassName} mt-1`}
+                  disabled={!canWrite}
+                />
+              </label>
+              <label className="text-sm sm:col-span-3">
+                Summary
+                <input
+                  type="text"
+                  value={draft.summary}
+                  onChange={(e) => setDraft(prev => ({ ...prev, summary: e.target.value }))}
+                  className={`${inputClassName} mt-1`}
+                  placeholder="One line on what the meeting covered..."
+                  disabled={!canWrite}
+                />
+              </label>
+            </div>
+
+            <div className="space-y-2">
+              {draft.items.map(item => (
+                <div key={item.id} className="grid grid-cols-1 md:grid-cols-12 gap-2 items-center p-2 border rounded-md border-gray-200 dark:border-gray-700">
+                  <select
+                    value={item.type}
+                    onChange={(e) => updateItem(item.id, { type: e.target.value as MeetingItemType })}
+                    className={`${inputClassName} md:col-span-2`}
+                    disabled={!canWrite}
+                  >
+                    {ITEM_TYPES.map(type => (
+                      <option key={type.value} value={type.value}>{type.label}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    value={item.text}
+                    onChange={(e) => updateItem(item.id, { text: e.target.value })}
+                    className={`${inputClassName} md:col-span-4`}
+                    placeholder="What was decided or promised..."
+                    disabled={!canWrite}
+                  />
+                  <select
+                    value={item.owner || ''}
+                    onChange={(e) => updateItem(item.id, { owner: e.target.value || undefined })}
+                    className={`${inputClassName} md:col-span-2`}
+                    disabled={!canWrite}
+                  >
+                    <option value="">Owner...</option>
+                    {developers.map(dev => (
+                      <option key={dev} value={dev}>{dev}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={item.taskId || ''}
+                    onChange={(e) => updateItem(item.id, {
+                      taskId: e.target.value || undefined,
+                      taskName: taskOptions.find(task => task.id === e.target.value)?.name,
+                    })}
+                    className={`${inputClassName} md:col-span-2`}
+                    disabled={!canWrite}
+                  >
+                    <option value="">{item.taskName || 'Linked task...'}</option>
+                    {taskOptions.map(task => (
+                      <option key={task.id} value={task.id}>{task.name}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="date"
+                    value={item.deadline || ''}
+                    onChange={(e) => updateItem(item.id, { deadline: e.target.value || undefined })}
+                    className={`${inputClassName} md:col-span-1`}
+                    disabled={!canWrite}
+                  />
+                  <div className="flex items-center justify-end gap-2 md:col-span-1">
+                    <label className="flex items-center gap-1 text-xs">
+                      <input
+                        type="checkbox"
+                        checked={!!item.done}
+                        onChange={(e) => updateItem(item.id, { done: e.target.checked })}
+                        disabled={!canWrite}
+                      />
+                      Done
+                    </label>
+                    {canWrite && (
+                      <button
+                        type="button"
+                        onClick={() => setDraft(prev => ({ ...prev, items: prev.items.filter(i => i.id !== item.id) }))}
+                        className="text-gray-400 hover:text-red-600"
+                        aria-label="Remove item"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+
+              {canWrite && (
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  onClick={() => setDraft(prev => ({ ...prev, items: [...prev.items, newItem()] }))}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add item
+                </Button>
+              )}
+            </div>
+          </div>
+        </Card>
+      </div>
+    </div>
+  );
+}
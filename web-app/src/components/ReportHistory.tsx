@@ -0,0 +1,280 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+import { ArchivedReport, ReportDiff, ReportSummary } from '@/types/reports';
+import { DigestTask } from '@/types/slack';
+
+function formatDelta(value: number): string {
+  return value > 0 ? `+${value}` : `${value}`;
+}
+
+function deltaClassName(value: number, higherIsWorse: boolean = true): string {
+  if (value === 0) return 'text-gray-500 dark:text-gray-400';
+  return (value > 0) === higherIsWorse ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400';
+}
+
+function TaskChangeList({ title, tasks, tone }: { title: string; tasks: DigestTask[]; tone: 'worse' | 'better' }) {
+  if (tasks.length === 0) return null;
+  return (
+    <div>
+      <h4 className={`text-sm font-semibold mb-1 ${tone === 'worse' ? 'text-red-700 dark:text-red-400' : 'text-green-700 dark:text-green-400'}`}>
+        {title} ({tasks.length})
+      </h4>
+      <ul className="space-y-1 text-sm">
+        {tasks.map(task => (
+          <li key={task.id}>
+            <a href={task.url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">{task.id}</a>{' '}
+            {task.name}
+            <span className="text-gray-500 dark:text-gray-400"> · {task.developer}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default function ReportHistory() {
+  const [reports, setReports] = useState<ReportSummary[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [diff, setDiff] = useState<ReportDiff | null>(null);
+  const [viewing, setViewing] = useState<ArchivedReport | null>(null);
+  const [historyLimit, setHistoryLimit] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const fetchDiff = useCallback(async (baseId?: string, compareId?: string) => {
+    const query = baseId && compareId ? `?base=${baseId}&compare=${compareId}` : '';
+    const response = await fetch(`/api/reports/diff${query}`, { cache: 'no-store' });
+    const data = await response.json();
+    if (response.ok) {
+      setDiff(data.diff);
+      setSelectedIds([data.diff.base.id, data.diff.compare.id]);
+      setViewing(null);
+    } else if (query) {
+      setMessage({ type: 'error', text: data.error || 'Failed to compare reports' });
+    }
+  }, []);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await fetch('/api/reports', { cache: 'no-store' });
+        if (response.ok) {
+          const data = await response.json();
+          setReports(data.reports || []);
+          setHistoryLimit(data.limit ?? null);
+          // Open on the latest report against the one before it
+          if ((data.reports || []).length >= 2) {
+            await fetchDiff();
+          }
+        } else {
+          setMessage({ type: 'error', text: 'Failed to load reports' });
+        }
+      } catch (error) {
+        console.error('Error fetching reports:', error);
+        setMessage({ type: 'error', text: 'Error loading reports' });
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [fetchDiff]);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => prev.includes(id)
+      ? prev.filter(selected => selected !== id)
+      : [...prev, id].slice(-2)
+    );
+  };
+
+  const handleView = async (id: string) => {
+    setMessage(null);
+    const response = await fetch(`/api/reports/${id}`, { cache: 'no-store' });
+    if (response.ok) {
+      const data = await response.json();
+      setViewing(data.report);
+    } else {
+      setMessage({ type: 'error', text: 'Failed to load report' });
+    }
+  };
+
+  // Group as date -> reports generated that day
+  const byDate = new Map<string, ReportSummary[]>();
+  for (const report of reports) {
+    byDate.set(report.date, [...(byDate.get(report.date) || []), report]);
+  }
+
+  const formatTime = (iso: string) => new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-gray-500 dark:text-gray-400">Loading reports...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-4 gap-4">
+      <Card className="p-4" hover="none">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-lg font-semibold">Reports</h3>
+          <Button
+            size="sm"
+            onClick={() => fetchDiff(selectedIds[0], selectedIds[1])}
+            disabled={selectedIds.length !== 2}
+          >
+            Compare
+          </Button>
+        </div>
+        {reports.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No reports generated yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {[...byDate.entries()].map(([date, dayReports]) => (
+              <div key={date}>
+                <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{date}</h4>
+                <ul className="space-y-1">
+                  {dayReports.map(report => (
+                    <li key={report.id} className="flex items-start gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        className="mt-1"
+                        checked={selectedIds.includes(report.id)}
+                        onChange={() => toggleSelected(report.id)}
+                        aria-label={`Select report from ${report.generatedAt}`}
+                      />
+                      <button type="button" className="text-left" onClick={() => handleView(report.id)}>
+                        <span className={viewing?.id === report.id ? 'font-semibold' : ''}>
+                          {formatTime(report.generatedAt)}
+                        </span>
+                        <span className="ml-1 text-xs text-gray-500 dark:text-gray-400">
+                          {report.trigger === 'schedule' ? 'scheduled' : report.createdBy}
+                          {report.listId && ` · ${report.lists.join(', ')}`}
+                        </span>
+                        <div className="text-xs text-gray-500 dark:text-gray-400">
+                          {report.stats.totalTasks} tasks · {report.stats.overdue} overdue · {report.stats.stale} stale
+                        </div>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+        <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+          {historyLimit
+            ? `Only the latest ${historyLimit} reports are kept; older ones are deleted.`
+            : 'Every generated report is kept.'}
+        </p>
+      </Card>
+
+      <Card className="p-4 lg:col-span-3" hover="none">
+        {message && (
+          <div
+            className={`mb-4 p-3 rounded-md text-sm ${
+              message.type === 'success'
+                ? 'bg-green-50 text-green-800 dark:bg-green-900/20 dark:text-green-400'
+                : 'bg-red-50 text-red-800 dark:bg-red-900/20 dark:text-red-400'
+            }`}
+          >
+            {message.text}
+          </div>
+        )}
+
+        {viewing ? (
+          <>
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-semibold">Report {viewing.date} {formatTime(viewing.generatedAt)}</h2>
+              <div className="flex gap-2">
+                {diff && <Button variant="secondary" onClick={() => setViewing(null)}>Back to Diff</Button>}
+                <Button onClick={() => window.open(`/api/reports/${viewing.id}?download=true`, '_blank')}>Download</Button>
+              </div>
+            </div>
+            <pre className="whitespace-pre-wrap break-words p-4 text-sm border rounded-md bg-white dark:bg-gray-900 border-gray-200 dark:border-gray-700">
+              {viewing.report}
+            </pre>
+          </>
+        ) : diff ? (
+          <div className="space-y-4">
+            <div>
+              <h2 className="text-xl font-semibold">What Changed</h2>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {diff.base.date} {formatTime(diff.base.generatedAt)} → {diff.compare.date} {formatTime(diff.compare.generatedAt)}
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              {([
+                ['Total Tasks', 'totalTasks'],
+                ['In Progress', 'inProgress'],
+                ['Overdue', 'overdue'],
+                ['Stale', 'stale'],
+              ] as const).map(([label, key]) => (
+                <div key={key} className="p-3 border rounded-md border-gray-200 dark:border-gray-700">
+                  <div className="text-xs text-gray-500 dark:text-gray-400">{label}</div>
+                  <div className="text-lg font-semibold">
+                    {diff.compare.stats[key]}{' '}
+                    <span className={`text-sm ${deltaClassName(diff.statsDelta[key], key === 'overdue' || key === 'stale')}`}>
+                      {formatDelta(diff.statsDelta[key])}
+                    </span>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <TaskChangeList title="Became overdue" tasks={diff.becameOverdue} tone="worse" />
+              <TaskChangeList title="No longer overdue" tasks={diff.noLongerOverdue} tone="better" />
+              <TaskChangeList title="Newly stale" tasks={diff.newlyStale} tone="worse" />
+              <TaskChangeList title="No longer stale" tasks={diff.noLongerStale} tone="better" />
+              <TaskChangeList title="New unassigned urgent" tasks={diff.newUnassignedUrgent} tone="worse" />
+              <TaskChangeList title="Urgent now assigned or done" tasks={diff.resolvedUnassignedUrgent} tone="better" />
+            </div>
+
+            <div>
+              <h3 className="text-lg font-semibold mb-2">Workload Changes</h3>
+              {diff.workloadChanges.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No workload changes.</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                      <th className="py-2 pr-4 font-medium">Developer</th>
+                      <th className="py-2 pr-4 font-medium">Tasks</th>
+                      <th className="py-2 pr-4 font-medium">Hours</th>
+                      <th className="py-2 font-medium">In Progress</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {diff.workloadChanges.map(change => (
+                      <tr key={change.developer} className="border-b border-gray-100 dark:border-gray-800">
+                        <td className="py-2 pr-4 font-medium">{change.developer}</td>
+                        <td className="py-2 pr-4">
+                          {change.before?.tasks || 0} → {change.after?.tasks || 0}{' '}
+                          <span className={deltaClassName(change.taskDelta)}>{formatDelta(change.taskDelta)}</span>
+                        </td>
+                        <td className="py-2 pr-4">
+                          {change.before?.hours || 0}h → {change.after?.hours || 0}h{' '}
+                          <span className={deltaClassName(change.hoursDelta)}>{formatDelta(change.hoursDelta)}</span>
+                        </td>
+                        <td className="py-2">{change.before?.inProgress || 0} → {change.after?.inProgress || 0}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="flex items-center justify-center min-h-[300px] text-gray-500 dark:text-gray-400">
+            Pick a report to read it, or two to compare them.
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+import { JobName, JobStatus } from '@/types/jobs';
+
+const STATUS_CLASSES: Record<string, string> = {
+  success: 'text-green-600 dark:text-green-400',
+  skipped: 'text-gray-500 dark:text-gray-400',
+  running: 'text-blue-600 dark:text-blue-400',
+  failed: 'text-red-600 dark:text-red-400',
+};
+
+export default function ScheduledJobs() {
+  const [jobs, setJobs] = useState<JobStatus[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState<JobName | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    fetchJobs();
+  }, []);
+
+  const fetchJobs = async () => {
+    try {
+      const response = await fetch('/api/cron', { cache: 'no-store' });
+      if (response.ok) {
+        const data = await response.json();
+        setJobs(data.jobs || []);
+      } else {
+        setMessage({ type: 'error', text: 'Failed to load jobs' });
+      }
+    } catch (error) {
+      console.error('Error fetching jobs:', error);
+      setMessage({ type: 'error', text: 'Error loading jobs' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRun = async (job: JobName) => {
+    try {
+      setRunning(job);
+      setMessage(null);
+
+      const response = await fetch(`/api/cron/${job}`, { method: 'POST' });
+      const data = await response.json();
+
+      const run = data.runs?.[0];
+      if (response.ok && run?.status !== 'failed') {
+        setMessage({ type: 'success', text: run?.message || `${job} finished` });
+      } else {
+        setMessage({ type: 'error', text: run?.message || data.details || data.error || `${job} failed` });
+      }
+      await fetchJobs();
+    } catch {
+      setMessage({ type: 'error', text: `Error running ${job}` });
+    } finally {
+      setRunning(null);
+    }
+  };
+
+  const formatWhen = (iso?: string) => iso ? new Date(iso).toLocaleString() : '-';
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-gray-500 dark:text-gray-400">Loading jobs...</div>
+      </div>
+    );
+  }
+
+  return (
+    <Card className="p-4" hover="none">
+      <div className="space-y-1 mb-4">
+        <h2 className="text-xl font-semibold">Scheduled Jobs</h2>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Schedules are cron expressions in the team timezone, run by /api/cron/tick.
+        </p>
+      </div>
+
+      {message && (
+        <div
+          className={`mb-4 p-3 rounded-md text-sm ${
+            message.type === 'success'
+              ? 'bg-green-50 text-green-800 dark:bg-green-900/20 dark:text-green-400'
+              : 'bg-red-50 text-red-800 dark:bg-red-900/20 dark:text-red-400'
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+              <th className="py-2 pr-4 font-medium">Job</th>
+              <th className="py-2 pr-4 font-medium">Schedule</th>
+              <th className="py-2 pr-4 font-medium">Last Scheduled</th>
+              <th className="py-2 pr-4 font-medium">Last Run</th>
+              <th className="py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {jobs.map(job => (
+              <tr key={job.job} className="border-b border-gray-100 dark:border-gray-800 align-top">
+                <td className="py-2 pr-4">
+                  <div className="font-medium">{job.job}</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">{job.description}</div>
+                </td>
+                <td className="py-2 pr-4 font-mono">{job.schedule}</td>
+                <td className="py-2 pr-4">{formatWhen(job.lastScheduledAt)}</td>
+                <td className="py-2 pr-4">
+                  {job.lastRun ? (
+                    <>
+                      <div>
+                        {formatWhen(job.lastRun.startedAt)}{' '}
+                        <span className={STATUS_CLASSES[job.lastRun.status]}>{job.lastRun.status}</span>
+                        {job.lastRun.trigger === 'manual' && <span className="ml-1 text-xs text-gray-400">(manual)</span>}
+                      </div>
+                      {job.lastRun.message && (
+                        <div className="text-xs text-gray-500 dark:text-gray-400">{job.lastRun.message}</div>
+                      )}
+                    </>
+                  ) : 'Never'}
+                </td>
+                <td className="py-2 text-right">
+                  <Button size="sm" variant="secondary" onClick={() => handleRun(job.job)} disabled={running !== null}>
+                    {running === job.job ? 'Running...' : 'Run Now'}
+                  </Button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </Card>
+  );
+}
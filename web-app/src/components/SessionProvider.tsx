@@ -0,0 +1,76 @@
+'use client';
+
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { Permission, SessionUser } from '@/types/auth';
+
+interface SessionContextValue {
+  user: SessionUser | null;
+  permissions: Permission[];
+  loading: boolean;
+  can: (permission: Permission) => boolean;
+  login: (username: string, password?: string) => Promise<void>;
+  logout: () => Promise<void>;
+}
+
+const SessionContext = createContext<SessionContextValue | null>(null);
+
+export function SessionProvider({ children }: { children: React.ReactNode }) {
+  const [user, setUser] = useState<SessionUser | null>(null);
+  const [permissions, setPermissions] = useState<Permission[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadSession = async () => {
+      try {
+        const response = await fetch('/api/auth/session', { cache: 'no-store' });
+        const data = await response.json();
+        setUser(data.user || null);
+        setPermissions(data.permissions || []);
+      } catch (error) {
+        console.error('Error loading session:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadSession();
+  }, []);
+
+  const login = useCallback(async (username: string, password?: string) => {
+    const response = await fetch('/api/auth/login', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username, password }),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to sign in');
+    }
+    setUser(data.user);
+    setPermissions(data.permissions || []);
+  }, []);
+
+  const logout = useCallback(async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } finally {
+      setUser(null);
+      setPermissions([]);
+    }
+  }, []);
+
+  const can = useCallback((permission: Permission) => permissions.includes(permission), [permissions]);
+
+  return (
+    <SessionContext.Provider value={{ user, permissions, loading, can, login, logout }}>
+      {children}
+    </SessionContext.Provider>
+  );
+}
+
+export function useSession(): SessionContextValue {
+  const context = useContext(SessionContext);
+  if (!context) {
+    throw new Error('useSession must be used within a SessionProvider');
+  }
+  return context;
+}
@@ -0,0 +1,207 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+import { useSession } from '@/components/SessionProvider';
+import { SlackTransport } from '@/types/slack';
+
+const inputClassName = 'w-full px-2 py-1 text-sm border rounded-md bg-white dark:bg-gray-900 border-gray-200 dark:border-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+export default function SlackSettingsEditor() {
+  const { can } = useSession();
+  const [developers, setDevelopers] = useState<string[]>([]);
+  const [userIds, setUserIds] = useState<Record<string, string>>({});
+  const [originalUserIds, setOriginalUserIds] = useState<Record<string, string>>({});
+  const [transport, setTransport] = useState<SlackTransport | null>(null);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [posting, setPosting] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  const fetchSettings = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/settings/slack', { cache: 'no-store' });
+      if (response.ok) {
+        const data = await response.json();
+        setDevelopers(data.developers || []);
+        setUserIds(data.userIds || {});
+        setOriginalUserIds(data.userIds || {});
+        setTransport(data.transport);
+      } else {
+        setMessage({ type: 'error', text: 'Failed to load Slack settings' });
+      }
+    } catch (error) {
+      console.error('Error fetching Slack settings:', error);
+      setMessage({ type: 'error', text: 'Error loading Slack settings' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setMessage(null);
+
+      const response = await fetch('/api/settings/slack', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ userIds }),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setUserIds(data.userIds);
+        setOriginalUserIds(data.userIds);
+        setMessage({ type: 'success', text: 'Slack mapping saved successfully!' });
+        setTimeout(() => setMessage(null), 3000);
+      } else {
+        const errorData = await response.json();
+        setMessage({ type: 'error', text: errorData.error || 'Failed to save Slack mapping' });
+      }
+    } catch {
+      setMessage({ type: 'error', text: 'Error saving Slack mapping' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePreview = async () => {
+    try {
+      setMessage(null);
+      const response = await fetch('/api/slack/digest', { cache: 'no-store' });
+      const data = await response.json();
+      if (response.ok) {
+        setPreview(data.text);
+      } else {
+        setMessage({ type: 'error', text: data.details || data.error || 'Failed to build digest' });
+      }
+    } catch {
+      setMessage({ type: 'error', text: 'Error building digest' });
+    }
+  };
+
+  const handlePost = async () => {
+    try {
+      setPosting(true);
+      setMessage(null);
+
+      const response = await fetch('/api/slack/digest', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({}),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setPreview(data.text);
+        setMessage({ type: 'success', text: `Digest posted via ${data.transport}` });
+      } else {
+        setMessage({ type: 'error', text: data.details || data.error || 'Failed to post digest' });
+      }
+    } catch {
+      setMessage({ type: 'error', text: 'Error posting digest' });
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  const hasChanges = JSON.stringify(userIds) !== JSON.stringify(originalUserIds);
+
+  // Keep mappings for developers no longer in the dropdown visible so they can be cleared
+  const names = [...new Set([...developers, ...Object.keys(userIds)])];
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-gray-500 dark:text-gray-400">Loading Slack settings...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-4">
+        <div className="flex items-center justify-between mb-4">
+          <div className="space-y-1">
+            <h2 className="text-xl font-semibold">Slack</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {transport
+                ? `Digests are posted via ${transport === 'webhook' ? 'the incoming webhook' : 'the bot token'}.`
+                : 'Slack is not configured; set SLACK_WEBHOOK_URL, or SLACK_BOT_TOKEN and SLACK_CHANNEL.'}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="secondary" onClick={handlePreview} disabled={posting}>
+              Preview Digest
+            </Button>
+            {can('reports:post') && (
+              <Button variant="secondary" onClick={handlePost} disabled={!transport || posting || hasChanges}>
+                {posting ? 'Posting...' : 'Post Digest'}
+              </Button>
+            )}
+            <Button onClick={handleSave} disabled={!hasChanges || saving}>
+              {saving ? 'Saving...' : 'Save Mapping'}
+            </Button>
+          </div>
+        </div>
+
+        {message && (
+          <div
+            className={`mb-4 p-3 rounded-md text-sm ${
+              message.type === 'success'
+                ? 'bg-green-50 text-green-800 dark:bg-green-900/20 dark:text-green-400'
+                : 'bg-red-50 text-red-800 dark:bg-red-900/20 dark:text-red-400'
+            }`}
+          >
+            {message.text}
+          </div>
+        )}
+
+        <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Developer → Slack user ID</h3>
+        {names.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No Developer dropdown found on the tracked lists.</p>
+        ) : (
+          <div className="space-y-2 max-w-xl">
+            {names.map(name => (
+              <label key={name} className="grid grid-cols-2 gap-3 items-center text-sm">
+                <span>
+                  {name}
+                  {!developers.includes(name) && <span className="ml-1 text-xs text-gray-400">(not in dropdown)</span>}
+                </span>
+                <input
+                  type="text"
+                  value={userIds[name] || ''}
+                  onChange={(e) => setUserIds(prev => ({ ...prev, [name]: e.target.value }))}
+                  className={inputClassName}
+                  placeholder="U0123ABCD"
+                  disabled={saving}
+                />
+              </label>
+            ))}
+          </div>
+        )}
+      </Card>
+
+      {preview && (
+        <Card className="p-4" hover="none">
+          <h3 className="text-lg font-semibold mb-3">Digest Preview</h3>
+          <pre className="whitespace-pre-wrap break-words p-4 text-sm border rounded-md bg-white dark:bg-gray-900 border-gray-200 dark:border-gray-700">
+            {preview}
+          </pre>
+        </Card>
+      )}
+    </div>
+  );
+}
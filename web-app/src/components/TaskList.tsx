@@ -1,13 +1,18 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useRef, useState } from 'react';
 import { ProcessedTask } from '@/types/clickup';
+import { ParentTaskForecast } from '@/types/forecast';
 import TaskRow from './TaskRow';
 import { TaskGrid } from './task/TaskCard';
+import TaskBoard from './task/TaskBoard';
+import TaskTimeline from './task/TaskTimeline';
+import BulkActionBar from './task/BulkActionBar';
 import { TaskSkeleton } from '@/components/ui/Skeleton';
 import { Button } from '@/components/ui/Button';
-import { RefreshCw, AlertCircle, Clock, User, Calendar, Flag, Grid3X3, List, Plus } from 'lucide-react';
+import { RefreshCw, AlertCircle, Clock, User, Calendar, Flag, Grid3X3, List, Plus, SquareKanban, GanttChart } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { useSession } from '@/components/SessionProvider';
 
 interface TaskListProps {
   className?: string;
@@ -15,34 +20,35 @@ interface TaskListProps {
   onCreateTask?: () => void;
   onTaskClick?: (taskId: string) => void;
   onRefresh?: () => void;
+  customColumns?: string[];
+  forecasts?: Record<string, ParentTaskForecast>; // Keyed by parent task ID
 }
 
-type ViewMode = 'cards' | 'table';
+type ViewMode = 'cards' | 'table' | 'board' | 'timeline';
 
 const TaskList: React.FC<TaskListProps> = ({
   className = '',
   tasks: propTasks,
   onCreateTask,
   onTaskClick,
-  onRefresh
+  onRefresh,
+  customColumns = [],
+  forecasts = {}
 }) => {
   const [expandedTasks, setExpandedTasks] = useState<Set<string>>(new Set());
   const [viewMode, setViewMode] = useState<ViewMode>('table');
-  const [isAdmin, setIsAdmin] = useState(false);
+  const [selectedTasks, setSelectedTasks] = useState<Set<string>>(new Set());
+  const lastSelectedRef = useRef<string | null>(null); // Anchor for shift-click ranges
+  const { can } = useSession();
+  const isAdmin = can('tasks:edit');
+  const canBulkEdit = can('tasks:comment');
 
   // Use prop tasks if provided, otherwise use an empty array
   const tasks = propTasks || [];
   const loading = !propTasks;
+  const showList = new Set(tasks.map(task => task.listId)).size > 1;
   const error = null; // Error handling will be managed by the parent component
 
-  // Check admin status
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      const adminStatus = localStorage.getItem('trackingAdmin') === 'true';
-      setIsAdmin(adminStatus);
-    }
-  }, []);
-
   const handleRefresh = () => {
     if (onRefresh) {
       onRefresh();
@@ -62,6 +68,56 @@ const TaskList: React.FC<TaskListProps> = ({
   };
 
 
+  // Rows in the order they are shown, subtasks only while their parent is expanded
+  const visibleTaskIds = tasks.flatMap(task => [
+    task.id,
+    ...(expandedTasks.has(task.id) ? (task.subtasks || []).map(subtask => subtask.id) : []),
+  ]);
+  const allTaskIds = new Set(tasks.flatMap(task => [task.id, ...(task.subtasks || []).map(subtask => subtask.id)]));
+  // Tasks that disappeared on refresh drop out of the selection
+  const selectedIds = Array.from(selectedTasks).filter(id => allTaskIds.has(id));
+  const selectedListIds = new Set(
+    tasks.flatMap(task => [task, ...(task.subtasks || [])])
+      .filter(task => selectedTasks.has(task.id))
+      .map(task => task.listId)
+  );
+
+  const handleSelect = (taskId: string, shiftKey: boolean) => {
+    const anchor = lastSelectedRef.current;
+    setSelectedTasks(prev => {
+      const newSet = new Set(prev);
+      const from = anchor ? visibleTaskIds.indexOf(anchor) : -1;
+      const to = visibleTaskIds.indexOf(taskId);
+      if (shiftKey && from !== -1 && to !== -1) {
+        // Shift-click gives the whole range the anchor row's state
+        const select = newSet.has(anchor!);
+        visibleTaskIds.slice(Math.min(from, to), Math.max(from, to) + 1).forEach(id => {
+          if (select) newSet.add(id);
+          else newSet.delete(id);
+        });
+      } else if (newSet.has(taskId)) {
+        newSet.delete(taskId);
+      } else {
+        newSet.add(taskId);
+      }
+      return newSet;
+    });
+    lastSelectedRef.current = taskId;
+  };
+
+  const handleSelectAll = () => {
+    setSelectedTasks(selectedIds.length === visibleTaskIds.length ? new Set() : new Set(visibleTaskIds));
+    lastSelectedRef.current = null;
+  };
+
+  const handleDeselect = (taskIds: string[]) => {
+    setSelectedTasks(prev => {
+      const newSet = new Set(prev);
+      taskIds.forEach(id => newSet.delete(id));
+      return newSet;
+    });
+  };
+
   const getTotalSubtasks = () => {
     return tasks.reduce((acc, task) => acc + (task.subtasks?.length || 0), 0);
   };
@@ -93,7 +149,7 @@ const TaskList: React.FC<TaskListProps> = ({
         
         {/* Skeleton content */}
         <div className="p-4">
-          {viewMode === 'cards' ? (
+          {viewMode !== 'table' ? (
             <div className="grid gap-4 grid-cols-1 md:grid-cols-2 xl:grid-cols-3 2xl:grid-cols-4">
               {Array.from({ length: 8 }).map((_, index) => (
                 <div key={index} className="h-48 bg-[var(--color-border-light)] rounded-lg animate-shimmer" />
@@ -168,6 +224,24 @@ const TaskList: React.FC<TaskListProps> = ({
                 <List className="h-3 w-3 mr-1" />
                 Table
               </Button>
+              <Button
+                variant={viewMode === 'board' ? 'primary' : 'ghost'}
+                size="sm"
+                onClick={() => setViewMode('board')}
+                className="h-7 px-2"
+              >
+                <SquareKanban className="h-3 w-3 mr-1" />
+                Board
+              </Button>
+              <Button
+                variant={viewMode === 'timeline' ? 'primary' : 'ghost'}
+                size="sm"
+                onClick={() => setViewMode('timeline')}
+                className="h-7 px-2"
+              >
+                <GanttChart className="h-3 w-3 mr-1" />
+                Timeline
+              </Button>
             </div>
 
             <Button
@@ -182,7 +256,7 @@ const TaskList: React.FC<TaskListProps> = ({
             </Button>
 
             {/* New Item Button - text changes based on admin status */}
-            {onCreateTask && (
+            {onCreateTask && can('tasks:create') && (
               <>
                 <Button
                   variant="primary"
@@ -209,6 +283,17 @@ const TaskList: React.FC<TaskListProps> = ({
         </div>
       </div>
 
+      {viewMode === 'table' && selectedIds.length > 0 && (
+        <BulkActionBar
+          selectedIds={selectedIds}
+          tasks={tasks}
+          listId={selectedListIds.size === 1 ? Array.from(selectedListIds)[0] : undefined}
+          onClear={() => setSelectedTasks(new Set())}
+          onDeselect={handleDeselect}
+          onComplete={handleRefresh}
+        />
+      )}
+
       {/* Content Area */}
       <div className="p-4">
         {viewMode === 'cards' ? (
@@ -217,11 +302,36 @@ const TaskList: React.FC<TaskListProps> = ({
             expandedTasks={expandedTasks}
             onToggleExpand={handleToggleExpand}
             onTaskClick={onTaskClick}
+            showList={showList}
+            customFields={customColumns}
+          />
+        ) : viewMode === 'board' ? (
+          <TaskBoard
+            tasks={tasks}
+            onTaskClick={onTaskClick}
+            onTaskMoved={handleRefresh}
+            showList={showList}
+            customFields={customColumns}
+          />
+        ) : viewMode === 'timeline' ? (
+          <TaskTimeline
+            tasks={tasks}
+            onTaskClick={onTaskClick}
           />
         ) : (
           <div className="space-y-0">
             {/* Table Column Headers */}
             <div className="flex items-center py-2 px-4 bg-[var(--color-surface-hover)] border-b border-[var(--color-border)] text-xs font-medium text-[var(--color-text-secondary)] uppercase tracking-wide rounded-t-lg">
+              {canBulkEdit && tasks.length > 0 && (
+                <div className="w-6 mr-2 flex items-center justify-center">
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.length > 0 && selectedIds.length === visibleTaskIds.length}
+                    onChange={handleSelectAll}
+                    aria-label="Select all tasks"
+                  />
+                </div>
+              )}
               <div className="w-6 mr-2"></div> {/* Expand/collapse column */}
               
               <div className="flex-1 min-w-0 pr-4">
@@ -266,6 +376,12 @@ const TaskList: React.FC<TaskListProps> = ({
                   <span>Priority</span>
                 </div>
               </div>
+
+              {customColumns.map(name => (
+                <div key={name} className="w-28 text-center px-2">
+                  <span className="block truncate" title={name}>{name}</span>
+                </div>
+              ))}
             </div>
 
             {/* Table Rows */}
@@ -283,6 +399,11 @@ const TaskList: React.FC<TaskListProps> = ({
                     isExpanded={expandedTasks.has(task.id)}
                     onToggleExpand={() => handleToggleExpand(task.id)}
                     onTaskClick={onTaskClick}
+                    showList={showList}
+                    customColumns={customColumns}
+                    forecast={forecasts[task.id]}
+                    selectedTasks={selectedTasks}
+                    onSelect={canBulkEdit ? handleSelect : undefined}
                   />
                 ))
               )}
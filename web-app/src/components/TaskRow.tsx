@@ -1,9 +1,10 @@
 import React, { useMemo } from 'react';
 import { ProcessedTask } from '@/types/clickup';
-import { Clock, User, Calendar, ChevronDown, ChevronRight } from 'lucide-react';
-import { format } from 'date-fns';
+import { Clock, User, Calendar, ChevronDown, ChevronRight, AlertTriangle } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
 import { PriorityBadge } from '@/components/ui/Badge';
 import { getInProgressDurationInfo } from '@/lib/utils';
+import { ParentTaskForecast } from '@/types/forecast';
 
 interface TaskRowProps {
   task: ProcessedTask;
@@ -11,6 +12,11 @@ interface TaskRowProps {
   onToggleExpand?: () => void;
   onTaskClick?: (taskId: string) => void;
   level?: number;
+  showList?: boolean; // Tag parent rows with their list when several lists are tracked
+  customColumns?: string[]; // Custom field names shown as extra columns
+  forecast?: ParentTaskForecast; // Projected completion, shown on parent rows
+  selectedTasks?: Set<string>; // Checked rows, for bulk edits
+  onSelect?: (taskId: string, shiftKey: boolean) => void; // Shows the checkbox column when set
 }
 
 const TaskRow: React.FC<TaskRowProps> = ({
@@ -18,7 +24,12 @@ const TaskRow: React.FC<TaskRowProps> = ({
   isExpanded = false,
   onToggleExpand,
   onTaskClick,
-  level = 0
+  level = 0,
+  showList = false,
+  customColumns = [],
+  forecast,
+  selectedTasks,
+  onSelect
 }) => {
   const formatTimeEstimate = (timeInMs?: number): string => {
     if (!timeInMs) return '—';
@@ -48,6 +59,18 @@ const TaskRow: React.FC<TaskRowProps> = ({
     return priority.color;
   };
 
+  const formatForecastDay = (day: string | null): string => (day ? format(parseISO(day), 'MMM d') : '?');
+
+  const getForecastTitle = (taskForecast: ParentTaskForecast): string => {
+    const { earliest, expected, latest } = taskForecast.completion;
+    const notes = [
+      `${taskForecast.remainingHours}h remaining`,
+      taskForecast.unestimated > 0 ? `${taskForecast.unestimated} unestimated` : '',
+      taskForecast.unassigned > 0 ? `${taskForecast.unassigned} unassigned` : '',
+    ].filter(Boolean);
+    return `Forecast ${formatForecastDay(expected)} (range ${formatForecastDay(earliest)} – ${formatForecastDay(latest)}) · ${notes.join(' · ')}`;
+  };
+
   const hasSubtasks = task.subtasks && task.subtasks.length > 0;
   const indentLevel = level * 24; // 24px per level
 
@@ -135,6 +158,18 @@ const TaskRow: React.FC<TaskRowProps> = ({
         `}
         style={{ paddingLeft: `${16 + indentLevel}px` }}
       >
+        {/* Checkboxes line up in one column, whatever the indent */}
+        {onSelect && (
+          <div className="w-6 h-6 flex items-center justify-center flex-shrink-0" style={{ marginLeft: `-${indentLevel}px`, marginRight: `${8 + indentLevel}px` }}>
+            <input
+              type="checkbox"
+              checked={selectedTasks?.has(task.id) || false}
+              onChange={(e) => onSelect(task.id, (e.nativeEvent as MouseEvent).shiftKey)}
+              aria-label={`Select ${task.name}`}
+            />
+          </div>
+        )}
+
         {/* Expand/Collapse Button */}
         <div className="w-6 h-6 flex items-center justify-center mr-2">
           {hasSubtasks && (
@@ -178,6 +213,32 @@ const TaskRow: React.FC<TaskRowProps> = ({
             >
               {task.name}
             </span>
+
+            {task.error && (
+              <span className="ml-2 flex-shrink-0 text-amber-600" title={task.error}>
+                <AlertTriangle className="w-3.5 h-3.5" />
+              </span>
+            )}
+
+            {showList && !task.isSubtask && task.listName && (
+              <span className="ml-2 px-1.5 py-0.5 text-xs rounded bg-gray-100 text-gray-600 flex-shrink-0">
+                {task.listName}
+              </span>
+            )}
+
+            {!task.isSubtask && forecast?.completion.expected && (() => {
+              // Red when the forecast lands after the due date
+              const late = !!parentTaskData.dueDate &&
+                parseISO(forecast.completion.expected).getTime() > parseInt(parentTaskData.dueDate);
+              return (
+                <span
+                  className={`ml-2 px-1.5 py-0.5 text-xs rounded flex-shrink-0 ${late ? 'bg-red-50 text-red-700' : 'bg-blue-50 text-blue-700'}`}
+                  title={getForecastTitle(forecast)}
+                >
+                  ETA {formatForecastDay(forecast.completion.expected)}
+                </span>
+              );
+            })()}
           </div>
         </div>
 
@@ -239,6 +300,21 @@ const TaskRow: React.FC<TaskRowProps> = ({
             size="sm"
           />
         </div>
+
+        {/* Custom Fields */}
+        {customColumns.map(name => {
+          const field = task.customFields?.[name];
+          return (
+            <div key={name} className="w-28 text-center px-2">
+              <div className="flex items-center justify-center text-sm text-gray-600">
+                {field?.color && (
+                  <span className="w-2 h-2 rounded-full mr-1 flex-shrink-0" style={{ backgroundColor: field.color }} />
+                )}
+                <span className="truncate" title={field?.display}>{field?.display || '—'}</span>
+              </div>
+            </div>
+          );
+        })}
       </div>
 
       {/* Subtasks */}
@@ -250,6 +326,9 @@ const TaskRow: React.FC<TaskRowProps> = ({
               task={subtask}
               onTaskClick={onTaskClick}
               level={level + 1}
+              customColumns={customColumns}
+              selectedTasks={selectedTasks}
+              onSelect={onSelect}
             />
           ))}
         </div>
@@ -0,0 +1,229 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+import { TeamSettings } from '@/types/settings';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const inputClassName = 'w-full px-2 py-1 text-sm border rounded-md bg-white dark:bg-gray-900 border-gray-200 dark:border-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+export default function TeamSettingsEditor() {
+  const [settings, setSettings] = useState<TeamSettings | null>(null);
+  const [originalSettings, setOriginalSettings] = useState<TeamSettings | null>(null);
+  const [newHoliday, setNewHoliday] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  const fetchSettings = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/settings/team', { cache: 'no-store' });
+      if (response.ok) {
+        const data = await response.json();
+        setSettings(data.settings);
+        setOriginalSettings(data.settings);
+      } else {
+        setMessage({ type: 'error', text: 'Failed to load team settings' });
+      }
+    } catch (error) {
+      console.error('Error fetching team settings:', error);
+      setMessage({ type: 'error', text: 'Error loading team settings' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const update = (changes: Partial<TeamSettings>) => {
+    setSettings(prev => prev && { ...prev, ...changes });
+  };
+
+  const toggleWorkingDay = (day: number) => {
+    if (!settings) return;
+    const workingDays = settings.workingDays.includes(day)
+      ? settings.workingDays.filter(d => d !== day)
+      : [...settings.workingDays, day].sort();
+    update({ workingDays });
+  };
+
+  const addHoliday = () => {
+    if (!settings || !newHoliday || settings.holidays.includes(newHoliday)) return;
+    update({ holidays: [...settings.holidays, newHoliday].sort() });
+    setNewHoliday('');
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setMessage(null);
+
+      const response = await fetch('/api/settings/team', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ settings }),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setSettings(data.settings);
+        setOriginalSettings(data.settings);
+        setMessage({ type: 'success', text: 'Team settings saved successfully!' });
+        setTimeout(() => setMessage(null), 3000);
+      } else {
+        const errorData = await response.json();
+        setMessage({ type: 'error', text: errorData.error || 'Failed to save team settings' });
+      }
+    } catch {
+      setMessage({ type: 'error', text: 'Error saving team settings' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReset = () => {
+    setSettings(originalSettings);
+    setMessage(null);
+  };
+
+  const hasChanges = JSON.stringify(settings) !== JSON.stringify(originalSettings);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-gray-500 dark:text-gray-400">Loading team settings...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-4">
+        <div className="flex items-center justify-between mb-4">
+          <div className="space-y-1">
+            <h2 className="text-xl font-semibold">Team Settings</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              The daily report covers changes since the standup on the previous working day.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              onClick={handleReset}
+              variant="secondary"
+              disabled={!hasChanges || saving}
+            >
+              Reset
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={!hasChanges || saving || !settings || settings.workingDays.length === 0}
+            >
+              {saving ? 'Saving...' : 'Save Settings'}
+            </Button>
+          </div>
+        </div>
+
+        {message && (
+          <div
+            className={`mb-4 p-3 rounded-md text-sm ${
+              message.type === 'success'
+                ? 'bg-green-50 text-green-800 dark:bg-green-900/20 dark:text-green-400'
+                : 'bg-red-50 text-red-800 dark:bg-red-900/20 dark:text-red-400'
+            }`}
+          >
+            {message.text}
+          </div>
+        )}
+
+        {settings && (
+          <div className="space-y-4 max-w-xl">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <label className="text-sm">
+                Timezone
+                <input
+                  type="text"
+                  value={settings.timezone}
+                  onChange={(e) => update({ timezone: e.target.value })}
+                  className={`${inputClassName} mt-1`}
+                  placeholder="America/Chicago"
+                  disabled={saving}
+                />
+              </label>
+              <label className="text-sm">
+                Standup Time
+                <input
+                  type="time"
+                  value={settings.standupTime}
+                  onChange={(e) => update({ standupTime: e.target.value })}
+                  className={`${inputClassName} mt-1`}
+                  disabled={saving}
+                />
+              </label>
+            </div>
+
+            <div>
+              <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Working Days</h3>
+              <div className="flex flex-wrap gap-3">
+                {WEEKDAYS.map((label, day) => (
+                  <label key={label} className="flex items-center gap-1 text-sm cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={settings.workingDays.includes(day)}
+                      onChange={() => toggleWorkingDay(day)}
+                      disabled={saving}
+                    />
+                    <span>{label}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Holidays</h3>
+              <div className="flex gap-2 mb-2">
+                <input
+                  type="date"
+                  value={newHoliday}
+                  onChange={(e) => setNewHoliday(e.target.value)}
+                  className={inputClassName}
+                  disabled={saving}
+                />
+                <Button variant="secondary" size="sm" onClick={addHoliday} disabled={!newHoliday || saving}>
+                  Add
+                </Button>
+              </div>
+              {settings.holidays.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No holidays configured.</p>
+              ) : (
+                <ul className="space-y-1">
+                  {settings.holidays.map(day => (
+                    <li key={day} className="flex items-center justify-between text-sm">
+                      <span>{day}</span>
+                      <button
+                        type="button"
+                        className="text-gray-400 hover:text-red-600"
+                        onClick={() => update({ holidays: settings.holidays.filter(d => d !== day) })}
+                        aria-label={`Remove ${day}`}
+                        disabled={saving}
+                      >
+                        <X className="h-4 w-4" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+import { TrackedList } from '@/types/clickup';
+
+interface AvailableList {
+  id: string;
+  name: string;
+  teamId: string;
+  teamName: string;
+  spaceName: string;
+  folderName: string;
+}
+
+export default function TrackedListsEditor() {
+  const [available, setAvailable] = useState<AvailableList[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [originalSelected, setOriginalSelected] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  // Fetch the workspace lists and the current selection
+  useEffect(() => {
+    fetchLists();
+  }, []);
+
+  const fetchLists = async () => {
+    try {
+      setLoading(true);
+      const [availableResponse, trackedResponse] = await Promise.all([
+        fetch('/api/lists', { cache: 'no-store' }),
+        fetch('/api/lists/tracked', { cache: 'no-store' }),
+      ]);
+
+      if (availableResponse.ok && trackedResponse.ok) {
+        const availableData = await availableResponse.json();
+        const trackedData = await trackedResponse.json();
+        const trackedIds = new Set<string>((trackedData.lists || []).map((list: TrackedList) => list.id));
+        setAvailable(availableData.lists || []);
+        setSelected(trackedIds);
+        setOriginalSelected(trackedIds);
+      } else {
+        setMessage({ type: 'error', text: 'Failed to load lists' });
+      }
+    } catch (error) {
+      console.error('Error fetching lists:', error);
+      setMessage({ type: 'error', text: 'Error loading lists' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleList = (listId: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(listId)) {
+        next.delete(listId);
+      } else {
+        next.add(listId);
+      }
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setMessage(null);
+
+      const lists: TrackedList[] = available
+        .filter(list => selected.has(list.id))
+        .map(list => ({
+          id: list.id,
+          name: list.name,
+          teamId: list.teamId,
+          spaceName: list.spaceName,
+          folderName: list.folderName,
+        }));
+
+      const response = await fetch('/api/lists/tracked', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ lists }),
+      });
+
+      if (response.ok) {
+        setOriginalSelected(new Set(selected));
+        setMessage({ type: 'success', text: 'Tracked lists saved successfully!' });
+        setTimeout(() => setMessage(null), 3000);
+      } else {
+        const errorData = await response.json();
+        setMessage({ type: 'error', text: errorData.error || 'Failed to save tracked lists' });
+      }
+    } catch {
+      setMessage({ type: 'error', text: 'Error saving tracked lists' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReset = () => {
+    setSelected(new Set(originalSelected));
+    setMessage(null);
+  };
+
+  const hasChanges = selected.size !== originalSelected.size ||
+    [...selected].some(id => !originalSelected.has(id));
+
+  // Group as workspace / space / folder for display
+  const groups = new Map<string, AvailableList[]>();
+  for (const list of available) {
+    const key = `${list.teamName} / ${list.spaceName} / ${list.folderName}`;
+    groups.set(key, [...(groups.get(key) || []), list]);
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-gray-500 dark:text-gray-400">Loading lists...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-4">
+        <div className="flex items-center justify-between mb-4">
+          <div className="space-y-1">
+            <h2 className="text-xl font-semibold">Tracked Lists</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Pick the ClickUp lists shown on the dashboard and covered by reports. Selected: {selected.size}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              onClick={handleReset}
+              variant="secondary"
+              disabled={!hasChanges || saving}
+            >
+              Reset
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={!hasChanges || saving || selected.size === 0}
+            >
+              {saving ? 'Saving...' : 'Save Lists'}
+            </Button>
+          </div>
+        </div>
+
+        {message && (
+          <div
+            className={`mb-4 p-3 rounded-md text-sm ${
+              message.type === 'success'
+                ? 'bg-green-50 text-green-800 dark:bg-green-900/20 dark:text-green-400'
+                : 'bg-red-50 text-red-800 dark:bg-red-900/20 dark:text-red-400'
+            }`}
+          >
+            {message.text}
+          </div>
+        )}
+
+        <div className="space-y-4">
+          {[...groups.entries()].map(([group, lists]) => (
+            <div key={group}>
+              <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">{group}</h3>
+              <div className="space-y-1 pl-2">
+                {lists.map(list => (
+                  <label key={list.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={selected.has(list.id)}
+                      onChange={() => toggleList(list.id)}
+                      disabled={saving}
+                    />
+                    <span>{list.name}</span>
+                    <span className="text-xs text-gray-400">#{list.id}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </Card>
+    </div>
+  );
+}
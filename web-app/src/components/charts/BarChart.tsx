@@ -0,0 +1,100 @@
+'use client';
+
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { ChartSeries } from '@/components/charts/LineChart';
+
+interface BarChartProps {
+  labels: string[];
+  series: ChartSeries[];   // Drawn side by side within each label's group
+  height?: number;
+  className?: string;
+}
+
+const WIDTH = 640;
+const PADDING = { top: 12, right: 12, bottom: 28, left: 36 };
+const GRID_LINES = 4;
+
+const BarChart: React.FC<BarChartProps> = ({
+  labels,
+  series,
+  height = 240,
+  className
+}) => {
+  const maxValue = Math.max(1, ...series.flatMap(s => s.values));
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+
+  const groupWidth = plotWidth / Math.max(1, labels.length);
+  const barWidth = Math.max(2, (groupWidth * 0.8) / Math.max(1, series.length));
+  const y = (value: number) => PADDING.top + plotHeight - (value / maxValue) * plotHeight;
+  const labelStep = Math.max(1, Math.ceil(labels.length / 10));
+
+  return (
+    <div className={cn("w-full", className)}>
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto" role="img">
+        {/* Grid */}
+        {Array.from({ length: GRID_LINES + 1 }, (_, i) => {
+          const value = (maxValue / GRID_LINES) * i;
+          return (
+            <g key={i}>
+              <line
+                x1={PADDING.left}
+                x2={WIDTH - PADDING.right}
+                y1={y(value)}
+                y2={y(value)}
+                stroke="var(--color-border)"
+                strokeDasharray={i === 0 ? undefined : '3 3'}
+              />
+              <text x={PADDING.left - 6} y={y(value) + 4} textAnchor="end" fontSize="10" fill="var(--color-text-muted)">
+                {Math.round(value * 10) / 10}
+              </text>
+            </g>
+          );
+        })}
+
+        {/* Bars */}
+        {labels.map((label, index) => {
+          const groupX = PADDING.left + index * groupWidth + groupWidth * 0.1;
+          return (
+            <g key={label}>
+              {series.map((s, seriesIndex) => {
+                const value = s.values[index] || 0;
+                return (
+                  <rect
+                    key={s.name}
+                    x={groupX + seriesIndex * barWidth}
+                    y={y(value)}
+                    width={barWidth - 1}
+                    height={PADDING.top + plotHeight - y(value)}
+                    fill={s.color}
+                    rx={1}
+                  >
+                    <title>{`${s.name} (${label}): ${value}`}</title>
+                  </rect>
+                );
+              })}
+              {index % labelStep === 0 && (
+                <text x={groupX + groupWidth * 0.4} y={height - 8} textAnchor="middle" fontSize="10" fill="var(--color-text-muted)">
+                  {label}
+                </text>
+              )}
+            </g>
+          );
+        })}
+      </svg>
+
+      {/* Legend */}
+      <div className="flex flex-wrap gap-4 mt-2 text-xs text-[var(--color-text-secondary)]">
+        {series.map(s => (
+          <span key={s.name} className="flex items-center gap-1">
+            <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: s.color }} />
+            {s.name}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default BarChart;
@@ -0,0 +1,98 @@
+'use client';
+
+import React from 'react';
+import { cn } from '@/lib/utils';
+
+export interface ChartSeries {
+  name: string;
+  color: string;
+  values: number[];
+}
+
+interface LineChartProps {
+  labels: string[];
+  series: ChartSeries[];
+  unit?: string;
+  height?: number;
+  className?: string;
+}
+
+const WIDTH = 640;
+const PADDING = { top: 12, right: 12, bottom: 28, left: 44 };
+const GRID_LINES = 4;
+
+const LineChart: React.FC<LineChartProps> = ({
+  labels,
+  series,
+  unit = '',
+  height = 240,
+  className
+}) => {
+  const maxValue = Math.max(1, ...series.flatMap(s => s.values));
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+
+  const x = (index: number) => PADDING.left + (labels.length > 1 ? (index / (labels.length - 1)) * plotWidth : plotWidth / 2);
+  const y = (value: number) => PADDING.top + plotHeight - (value / maxValue) * plotHeight;
+  // Label roughly every eighth point so dates do not overlap
+  const labelStep = Math.max(1, Math.ceil(labels.length / 8));
+
+  return (
+    <div className={cn("w-full", className)}>
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto" role="img">
+        {/* Grid */}
+        {Array.from({ length: GRID_LINES + 1 }, (_, i) => {
+          const value = (maxValue / GRID_LINES) * i;
+          return (
+            <g key={i}>
+              <line
+                x1={PADDING.left}
+                x2={WIDTH - PADDING.right}
+                y1={y(value)}
+                y2={y(value)}
+                stroke="var(--color-border)"
+                strokeDasharray={i === 0 ? undefined : '3 3'}
+              />
+              <text x={PADDING.left - 6} y={y(value) + 4} textAnchor="end" fontSize="10" fill="var(--color-text-muted)">
+                {Math.round(value)}{unit}
+              </text>
+            </g>
+          );
+        })}
+
+        {/* X labels */}
+        {labels.map((label, index) => index % labelStep === 0 && (
+          <text key={label} x={x(index)} y={height - 8} textAnchor="middle" fontSize="10" fill="var(--color-text-muted)">
+            {label}
+          </text>
+        ))}
+
+        {/* Series */}
+        {series.map(s => (
+          <polyline
+            key={s.name}
+            fill="none"
+            stroke={s.color}
+            strokeWidth={2}
+            strokeLinejoin="round"
+            points={s.values.map((value, index) => `${x(index)},${y(value)}`).join(' ')}
+          >
+            <title>{s.name}</title>
+          </polyline>
+        ))}
+      </svg>
+
+      {/* Legend */}
+      <div className="flex flex-wrap gap-4 mt-2 text-xs text-[var(--color-text-secondary)]">
+        {series.map(s => (
+          <span key={s.name} className="flex items-center gap-1">
+            <span className="inline-block w-3 h-0.5" style={{ backgroundColor: s.color }} />
+            {s.name}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default LineChart;
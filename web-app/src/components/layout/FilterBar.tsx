@@ -147,7 +147,8 @@ const FilterDropdown: React.FC<{
             onClick={() => setIsOpen(false)}
           />
           <div className="absolute top-full left-0 z-20 mt-1 w-48 rounded-lg border border-[var(--color-border)] bg-[var(--color-surface)] shadow-lg">
-            <div className="p-2 space-y-1">
+            {/* Custom field groups can have many values */}
+            <div className="p-2 space-y-1 max-h-72 overflow-y-auto">
               {group.options.map((option) => (
                 <button
                   key={option.id}
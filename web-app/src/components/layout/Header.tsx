@@ -1,12 +1,13 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
-import { LogOut, FileText, User, Shield, Download, Edit, Plus, ChevronDown } from 'lucide-react';
+import React from 'react';
+import { LogOut, FileText, User, Shield, Download, Edit, Plus, ChevronDown, Settings, List, BarChart3, Sparkles, NotebookPen, Clock, MessageSquare, Timer, History, Columns3, Gauge } from 'lucide-react';
 import { Button } from '@/components/ui/Button';
 import { Badge } from '@/components/ui/Badge';
 import { cn } from '@/lib/utils';
 import { ThemeToggle } from '@/components/ui/ThemeToggle';
 import { Dropdown, DropdownItem } from '@/components/ui/Dropdown';
+import { useSession } from '@/components/SessionProvider';
 
 interface HeaderProps {
   className?: string;
@@ -19,19 +20,9 @@ const Header: React.FC<HeaderProps> = ({
   onLogout,
   onCreateTask
 }) => {
-  const [username, setUsername] = useState<string>('');
-  const [isAdmin, setIsAdmin] = useState<boolean>(false);
-
-  useEffect(() => {
-    // Check localStorage for user info
-    const storedUser = localStorage.getItem('trackingUser');
-    const storedAdmin = localStorage.getItem('trackingAdmin');
-    
-    if (storedUser) {
-      setUsername(storedUser === 'sdf65e4wf6ae4rew3' ? 'Admin' : storedUser);
-      setIsAdmin(storedAdmin === 'true');
-    }
-  }, []);
+  const { user, can } = useSession();
+  const username = user?.username || '';
+  const isAdmin = user?.role === 'admin';
 
   const handleViewLog = () => {
     // Open the markdown log in a new tab
@@ -48,10 +39,50 @@ const Header: React.FC<HeaderProps> = ({
     window.open('/api/llm-report?download=true', '_blank');
   };
 
+  const handleViewReportHistory = () => {
+    window.location.href = '/reports';
+  };
+
   const handleEditLLMPrompt = () => {
     window.location.href = '/prompt';
   };
 
+  const handleViewAnalysis = () => {
+    window.location.href = '/analysis';
+  };
+
+  const handleEditMeetingNotes = () => {
+    window.location.href = '/meetings';
+  };
+
+  const handleViewCharts = () => {
+    window.location.href = '/charts';
+  };
+
+  const handleEditTrackedLists = () => {
+    window.location.href = '/lists';
+  };
+
+  const handleEditTeamSettings = () => {
+    window.location.href = '/settings';
+  };
+
+  const handleEditCapacity = () => {
+    window.location.href = '/settings/capacity';
+  };
+
+  const handleEditCustomFields = () => {
+    window.location.href = '/settings/fields';
+  };
+
+  const handleEditSlackSettings = () => {
+    window.location.href = '/settings/slack';
+  };
+
+  const handleViewJobs = () => {
+    window.location.href = '/settings/jobs';
+  };
+
   return (
     <header className={cn(
       "sticky top-0 z-50 w-full border-b border-[var(--color-border)] bg-gradient-to-r from-[var(--color-surface)] to-[var(--color-surface-hover)] backdrop-blur-sm",
@@ -95,16 +126,20 @@ const Header: React.FC<HeaderProps> = ({
                 <span className="text-sm text-[var(--color-text-primary)]">
                   {username}
                 </span>
-                {isAdmin && (
+                {isAdmin ? (
                   <Badge variant="success" size="sm">
                     Full Access
                   </Badge>
+                ) : user && (
+                  <Badge variant="default" size="sm" className="capitalize">
+                    {user.role}
+                  </Badge>
                 )}
               </div>
             )}
 
             {/* New Task Button */}
-            {onCreateTask && (
+            {onCreateTask && can('tasks:create') && (
               <Button
                 variant="primary"
                 size="sm"
@@ -112,51 +147,104 @@ const Header: React.FC<HeaderProps> = ({
                 className="hidden sm:flex"
               >
                 <Plus className="h-4 w-4 mr-2" />
-                {isAdmin ? 'New Review Item' : 'New Item'}
+                {can('tasks:edit') ? 'New Review Item' : 'New Item'}
               </Button>
             )}
 
             {/* Admin buttons */}
-            {isAdmin && (
-              <>
-                <Dropdown
-                  trigger={
-                    <Button variant="secondary" size="sm">
-                      <FileText className="h-4 w-4 mr-2" />
-                      Logs
-                      <ChevronDown className="h-4 w-4 ml-1" />
-                    </Button>
-                  }
-                >
-                  <DropdownItem onClick={handleViewLog}>
+            {can('logs:overwrite') && (
+              <Dropdown
+                trigger={
+                  <Button variant="secondary" size="sm">
                     <FileText className="h-4 w-4 mr-2" />
-                    View Log
-                  </DropdownItem>
-                  <DropdownItem onClick={handleEditLogs}>
-                    <Edit className="h-4 w-4 mr-2" />
-                    Edit Logs
-                  </DropdownItem>
-                </Dropdown>
-
-                <Dropdown
-                  trigger={
-                    <Button variant="primary" size="sm">
-                      <Download className="h-4 w-4 mr-2" />
-                      LLM
-                      <ChevronDown className="h-4 w-4 ml-1" />
-                    </Button>
-                  }
-                >
-                  <DropdownItem onClick={handleDownloadLLMReport}>
+                    Logs
+                    <ChevronDown className="h-4 w-4 ml-1" />
+                  </Button>
+                }
+              >
+                <DropdownItem onClick={handleViewLog}>
+                  <FileText className="h-4 w-4 mr-2" />
+                  View Log
+                </DropdownItem>
+                <DropdownItem onClick={handleEditLogs}>
+                  <Edit className="h-4 w-4 mr-2" />
+                  Edit Logs
+                </DropdownItem>
+              </Dropdown>
+            )}
+
+            {can('reports:read') && (
+              <Dropdown
+                trigger={
+                  <Button variant="primary" size="sm">
                     <Download className="h-4 w-4 mr-2" />
-                    LLM Report
-                  </DropdownItem>
-                  <DropdownItem onClick={handleEditLLMPrompt}>
-                    <Edit className="h-4 w-4 mr-2" />
-                    Edit LLM Prompt
-                  </DropdownItem>
-                </Dropdown>
-              </>
+                    LLM
+                    <ChevronDown className="h-4 w-4 ml-1" />
+                  </Button>
+                }
+              >
+                <DropdownItem onClick={handleDownloadLLMReport}>
+                  <Download className="h-4 w-4 mr-2" />
+                  LLM Report
+                </DropdownItem>
+                <DropdownItem onClick={handleViewReportHistory}>
+                  <History className="h-4 w-4 mr-2" />
+                  Report History
+                </DropdownItem>
+                <DropdownItem onClick={handleEditLLMPrompt}>
+                  <Edit className="h-4 w-4 mr-2" />
+                  Edit LLM Prompt
+                </DropdownItem>
+                <DropdownItem onClick={handleViewAnalysis}>
+                  <Sparkles className="h-4 w-4 mr-2" />
+                  Daily Analysis
+                </DropdownItem>
+                <DropdownItem onClick={handleEditMeetingNotes}>
+                  <NotebookPen className="h-4 w-4 mr-2" />
+                  Meeting Notes
+                </DropdownItem>
+                <DropdownItem onClick={handleViewCharts}>
+                  <BarChart3 className="h-4 w-4 mr-2" />
+                  Charts
+                </DropdownItem>
+              </Dropdown>
+            )}
+
+            {can('settings:manage') && (
+              <Dropdown
+                trigger={
+                  <Button variant="secondary" size="sm">
+                    <Settings className="h-4 w-4 mr-2" />
+                    Settings
+                    <ChevronDown className="h-4 w-4 ml-1" />
+                  </Button>
+                }
+              >
+                <DropdownItem onClick={handleEditTrackedLists}>
+                  <List className="h-4 w-4 mr-2" />
+                  Tracked Lists
+                </DropdownItem>
+                <DropdownItem onClick={handleEditTeamSettings}>
+                  <Clock className="h-4 w-4 mr-2" />
+                  Team Settings
+                </DropdownItem>
+                <DropdownItem onClick={handleEditCapacity}>
+                  <Gauge className="h-4 w-4 mr-2" />
+                  Capacity
+                </DropdownItem>
+                <DropdownItem onClick={handleEditCustomFields}>
+                  <Columns3 className="h-4 w-4 mr-2" />
+                  Custom Fields
+                </DropdownItem>
+                <DropdownItem onClick={handleEditSlackSettings}>
+                  <MessageSquare className="h-4 w-4 mr-2" />
+                  Slack
+                </DropdownItem>
+                <DropdownItem onClick={handleViewJobs}>
+                  <Timer className="h-4 w-4 mr-2" />
+                  Scheduled Jobs
+                </DropdownItem>
+              </Dropdown>
             )}
 
             {/* Logout Button */}
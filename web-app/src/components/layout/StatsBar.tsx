@@ -5,12 +5,16 @@ import { CheckCircle, Clock, Users, TrendingUp, ChevronDown, ChevronRight } from
 import { Card } from '@/components/ui/Card';
 import { Badge } from '@/components/ui/Badge';
 import { cn, getInProgressDurationInfo } from '@/lib/utils';
+import { getCapacityProfile, getDeveloperCapacity, UTILIZATION_WINDOW_DAYS } from '@/lib/capacity';
 import { ProcessedTask } from '@/types/clickup';
+import { ForecastReport } from '@/types/forecast';
+import { CapacitySettings, DeveloperCapacity, TeamSettings } from '@/types/settings';
 
 interface StatsBarProps {
   tasks: ProcessedTask[];
   onTaskClick?: (taskId: string) => void;
   className?: string;
+  backlogForecast?: ForecastReport['backlog']; // From velocity history; the even split below is the fallback
 }
 
 interface StatCardProps {
@@ -100,13 +104,30 @@ const StatCard: React.FC<StatCardProps> = ({
   );
 };
 
-const StatsBar: React.FC<StatsBarProps> = ({ tasks, onTaskClick, className }) => {
+const StatsBar: React.FC<StatsBarProps> = ({ tasks, onTaskClick, className, backlogForecast }) => {
   // Start with default collapsed state to match server-side rendering
   const [isInProgressCollapsed, setIsInProgressCollapsed] = useState(true);
   const [isNewTasksCollapsed, setIsNewTasksCollapsed] = useState(true);
   const [isReviewCollapsed, setIsReviewCollapsed] = useState(true);
   const [isUrgentCollapsed, setIsUrgentCollapsed] = useState(true);
   const [hasLoadedState, setHasLoadedState] = useState(false);
+  const [capacity, setCapacity] = useState<{ settings: CapacitySettings; team: TeamSettings } | null>(null);
+
+  // Capacity profiles and the team calendar, for utilization and projected completion
+  useEffect(() => {
+    const fetchCapacity = async () => {
+      try {
+        const response = await fetch('/api/settings/capacity');
+        if (response.ok) {
+          const data = await response.json();
+          setCapacity({ settings: data.settings, team: data.team });
+        }
+      } catch (error) {
+        console.error('Error fetching capacity settings:', error);
+      }
+    };
+    fetchCapacity();
+  }, []);
   
   // Load saved collapse states from localStorage on mount (client-side only)
   useEffect(() => {
@@ -155,17 +176,35 @@ const StatsBar: React.FC<StatsBarProps> = ({ tasks, onTaskClick, className }) =>
     });
   });
   
-  // Count unique developers from subtasks only
+  // Count unique developers from subtasks only, with the hours assigned to each
   const allDevelopers = new Set<string>();
+  const developerHours: Record<string, { assignedHours: number; inProgressHours: number }> = {};
   tasks.forEach(task => {
     task.subtasks?.forEach(subtask => {
       const developer = subtask.developer || task.developer;
       if (developer) {
         allDevelopers.add(developer);
+        const hours = developerHours[developer] || (developerHours[developer] = { assignedHours: 0, inProgressHours: 0 });
+        const subtaskHours = (subtask.timeEstimate || 0) / (1000 * 60 * 60);
+        hours.assignedHours += subtaskHours;
+        if (subtask.status.toLowerCase().includes('progress') ||
+            subtask.status.toLowerCase().includes('active') ||
+            subtask.status.toLowerCase().includes('working')) {
+          hours.inProgressHours += subtaskHours;
+        }
       }
     });
   });
   const assignedDevelopers = allDevelopers.size;
+
+  // Each developer's queue against their capacity profile, once the profiles have loaded
+  const developerCapacity: Record<string, DeveloperCapacity> = {};
+  if (capacity) {
+    allDevelopers.forEach(developer => {
+      developerCapacity[developer] = getDeveloperCapacity(developer, developerHours[developer], capacity.settings, capacity.team);
+    });
+  }
+  const overAllocatedDevelopers = Object.values(developerCapacity).filter(item => item.overAllocated).length;
   
   // Calculate estimated total time from subtasks only
   const totalEstimatedTime = tasks.reduce((acc, task) => {
@@ -175,18 +214,29 @@ const StatsBar: React.FC<StatsBarProps> = ({ tasks, onTaskClick, className }) =>
     return acc + subtaskTime;
   }, 0);
   
-  // Calculate total hours and weeks
+  // Calculate total hours and weeks at the developers' combined weekly capacity
   const totalHours = totalEstimatedTime / (1000 * 60 * 60);
-  const totalWeeks = assignedDevelopers > 0 ? (totalHours / 6 / 5 / assignedDevelopers) : 0;
+  const profiles = capacity ? [...allDevelopers].map(developer => getCapacityProfile(capacity.settings, capacity.team, developer)) : [];
+  const weeklyHours = profiles.reduce((acc, profile) => acc + profile.hoursPerDay * profile.workingDays.length, 0);
+  const workingDaysPerWeek = profiles.length > 0 ? profiles.reduce((acc, profile) => acc + profile.workingDays.length, 0) / profiles.length : 0;
+  const totalWeeks = weeklyHours > 0 ? totalHours / weeklyHours : 0;
   
   const formatWeeks = (weeks: number): string => {
     if (weeks < 1) {
-      const days = Math.ceil(weeks * 5);
+      const days = Math.ceil(weeks * workingDaysPerWeek);
       return `${days} day${days !== 1 ? 's' : ''}`;
     }
     return `${weeks.toFixed(1)} week${weeks !== 1 ? 's' : ''}`;
   };
 
+  const formatBacklogEta = (): string => {
+    if (backlogForecast?.expected) {
+      return `done ~${backlogForecast.expected}`;
+    }
+    return weeklyHours > 0 ? formatWeeks(totalWeeks) : '';
+  };
+  const backlogEta = formatBacklogEta();
+
   return (
     <div className={cn("space-y-4", className)}>
       {/* Quick Stats Grid - Focused on subtasks and work metrics */}
@@ -210,9 +260,11 @@ const StatsBar: React.FC<StatsBarProps> = ({ tasks, onTaskClick, className }) =>
         <StatCard
           title="Developers"
           value={assignedDevelopers}
-          subtitle={totalHours > 0 ? `${totalHours.toFixed(0)}h / ${formatWeeks(totalWeeks)}` : "No estimates"}
+          subtitle={totalHours > 0
+            ? `${totalHours.toFixed(0)}h${backlogEta ? ` / ${backlogEta}` : ''}${overAllocatedDevelopers > 0 ? ` · ${overAllocatedDevelopers} over-allocated` : ''}`
+            : "No estimates"}
           icon={<Users className="h-5 w-5" />}
-          variant="default"
+          variant={overAllocatedDevelopers > 0 ? "warning" : "default"}
         />
       </div>
       
@@ -315,6 +367,19 @@ const StatsBar: React.FC<StatsBarProps> = ({ tasks, onTaskClick, className }) =>
                         <Badge variant="outline" className="text-xs">
                           {data.subtasks.length} {data.subtasks.length === 1 ? 'subtask' : 'subtasks'}
                         </Badge>
+                        {developerCapacity[developer] && (
+                          <span
+                            className={cn(
+                              "text-xs",
+                              developerCapacity[developer].overAllocated ? "text-[var(--color-error-600)] font-medium" : "text-[var(--color-text-muted)]"
+                            )}
+                            title={`${Math.round(developerCapacity[developer].assignedHours)}h assigned of ${developerCapacity[developer].availableHours}h available in the next ${UTILIZATION_WINDOW_DAYS} days`}
+                          >
+                            {Math.round(developerCapacity[developer].utilization * 100)}% utilized
+                            {developerCapacity[developer].projectedCompletion && ` · done ~${developerCapacity[developer].projectedCompletion}`}
+                            {developerCapacity[developer].overAllocated && ' · over-allocated'}
+                          </span>
+                        )}
                       </div>
                       <span className="text-sm font-semibold text-[var(--color-warning-600)]">
                         {data.totalHours > 0 ? `${Math.round(data.totalHours)}h` : 'No estimate'}
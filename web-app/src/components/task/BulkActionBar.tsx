@@ -0,0 +1,215 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { BulkTaskChanges, BulkTaskResult, ProcessedTask } from '@/types/clickup';
+import { Button } from '@/components/ui/Button';
+import { useSession } from '@/components/SessionProvider';
+
+interface BulkActionBarProps {
+  selectedIds: string[];
+  tasks: ProcessedTask[];       // Top-level tasks with their subtasks, for names and parent options
+  listId?: string;              // The list every selected task is on, if they share one
+  onClear: () => void;
+  onDeselect: (taskIds: string[]) => void;
+  onComplete?: () => void;
+}
+
+// Priority options, as in UpdateTaskModal
+const priorities = [
+  { id: 1, name: 'Urgent' },
+  { id: 2, name: 'High' },
+  { id: 3, name: 'Normal' },
+  { id: 4, name: 'Low' }
+];
+
+const NO_CHANGE = '';
+const UNASSIGNED = '__unassigned__';
+
+const selectClassName = 'h-8 px-2 text-xs border border-[var(--color-border)] rounded-md bg-[var(--color-surface)] text-[var(--color-text-primary)] focus:outline-none focus:ring-2 focus:ring-[var(--color-primary-500)]';
+
+const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  selectedIds,
+  tasks,
+  listId,
+  onClear,
+  onDeselect,
+  onComplete
+}) => {
+  const [statuses, setStatuses] = useState<string[]>([]);
+  const [developers, setDevelopers] = useState<string[]>([]);
+  const [status, setStatus] = useState(NO_CHANGE);
+  const [developer, setDeveloper] = useState(NO_CHANGE);
+  const [priority, setPriority] = useState(NO_CHANGE);
+  const [dueDate, setDueDate] = useState(NO_CHANGE);
+  const [parent, setParent] = useState(NO_CHANGE);
+  const [applying, setApplying] = useState(false);
+  const [summary, setSummary] = useState<string | null>(null);
+  const [failures, setFailures] = useState<BulkTaskResult[]>([]);
+  const { can } = useSession();
+  const isFullEditAllowed = can('tasks:edit');
+
+  useEffect(() => {
+    const fetchOptions = async () => {
+      try {
+        const [boardResponse, developersResponse] = await Promise.all([
+          fetch('/api/settings/board', { cache: 'no-store' }),
+          fetch(`/api/tasks/developers?listId=${encodeURIComponent(listId || '')}`)
+        ]);
+        if (boardResponse.ok) {
+          const data = await boardResponse.json();
+          setStatuses(data.statuses.map((option: { status: string }) => option.status.toUpperCase()));
+        }
+        if (developersResponse.ok) {
+          const data = await developersResponse.json();
+          setDevelopers((data.developers || []).map((option: { name: string }) => option.name).sort());
+        }
+      } catch (error) {
+        console.error('Error loading bulk edit options:', error);
+      }
+    };
+
+    if (isFullEditAllowed) {
+      fetchOptions();
+    }
+  }, [listId, isFullEditAllowed]);
+
+  const taskNames = new Map<string, string>();
+  tasks.forEach(task => {
+    taskNames.set(task.id, task.name);
+    task.subtasks?.forEach(subtask => taskNames.set(subtask.id, subtask.name));
+  });
+
+  const getChanges = (): BulkTaskChanges => {
+    if (!isFullEditAllowed) return { status: 'IN REVIEW' };
+
+    const changes: BulkTaskChanges = {};
+    if (status) changes.status = status;
+    if (developer) changes.developer = developer === UNASSIGNED ? '' : developer;
+    if (priority) changes.priority = Number(priority);
+    if (dueDate) changes.due_date = new Date(dueDate).getTime();
+    if (parent) changes.parent = parent;
+    return changes;
+  };
+
+  const handleApply = async () => {
+    setApplying(true);
+    setSummary(null);
+    setFailures([]);
+
+    try {
+      const response = await fetch('/api/tasks/bulk', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ taskIds: selectedIds, changes: getChanges() }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setSummary(data.error || 'Failed to update tasks');
+        return;
+      }
+
+      const results: BulkTaskResult[] = data.results;
+      setSummary(`${data.updated} updated${data.failed > 0 ? `, ${data.failed} failed` : ''}`);
+      setFailures(results.filter(result => !result.success));
+
+      // Failed tasks stay selected so they can be retried
+      onDeselect(results.filter(result => result.success).map(result => result.taskId));
+      // A task that failed halfway still changed on the board
+      if (data.updated > 0 || results.some(result => result.applied?.length)) {
+        onComplete?.();
+      }
+    } catch (error) {
+      console.error('Error applying bulk update:', error);
+      setSummary('Failed to update tasks');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const hasChanges = Object.keys(getChanges()).length > 0;
+
+  return (
+    <div className="px-4 py-2 border-b border-[var(--color-border)] bg-[var(--color-primary-50)]">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium text-[var(--color-text-primary)] mr-2">
+          {selectedIds.length} selected
+        </span>
+
+        {isFullEditAllowed && (
+          <>
+            <select value={status} onChange={(e) => setStatus(e.target.value)} className={selectClassName} aria-label="Status">
+              <option value={NO_CHANGE}>Status…</option>
+              {statuses.map(option => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+
+            <select value={developer} onChange={(e) => setDeveloper(e.target.value)} className={selectClassName} aria-label="Developer">
+              <option value={NO_CHANGE}>Developer…</option>
+              <option value={UNASSIGNED}>Unassigned</option>
+              {developers.map(option => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+
+            <select value={priority} onChange={(e) => setPriority(e.target.value)} className={selectClassName} aria-label="Priority">
+              <option value={NO_CHANGE}>Priority…</option>
+              {priorities.map(option => (
+                <option key={option.id} value={option.id}>{option.name}</option>
+              ))}
+            </select>
+
+            <input
+              type="date"
+              value={dueDate}
+              onChange={(e) => setDueDate(e.target.value)}
+              className={selectClassName}
+              aria-label="Due date"
+            />
+
+            <select value={parent} onChange={(e) => setParent(e.target.value)} className={`${selectClassName} max-w-48`} aria-label="Parent">
+              <option value={NO_CHANGE}>Parent…</option>
+              {tasks
+                .filter(task => !task.isSubtask && !selectedIds.includes(task.id))
+                .map(task => (
+                  <option key={task.id} value={task.id}>{task.name}</option>
+                ))}
+            </select>
+          </>
+        )}
+
+        <Button
+          variant="primary"
+          size="sm"
+          onClick={handleApply}
+          disabled={!hasChanges || applying}
+          loading={applying}
+          className="h-8 px-3"
+        >
+          {isFullEditAllowed ? 'Apply' : 'Move to review'}
+        </Button>
+
+        <Button variant="ghost" size="sm" onClick={onClear} className="h-8 px-2" title="Clear selection">
+          <X className="h-3 w-3" />
+        </Button>
+
+        {summary && (
+          <span className="text-xs text-[var(--color-text-secondary)]">{summary}</span>
+        )}
+      </div>
+
+      {failures.length > 0 && (
+        <ul className="mt-2 space-y-0.5 text-xs text-[var(--color-error-600)]">
+          {failures.map(failure => (
+            <li key={failure.taskId}>
+              {taskNames.get(failure.taskId) || failure.taskId}: {failure.error}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default BulkActionBar;
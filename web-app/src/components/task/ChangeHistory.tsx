@@ -0,0 +1,222 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Undo2, Loader2, ChevronDown, ChevronUp, AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { cn } from '@/lib/utils';
+import { LogEntry, RevertPlan } from '@/types/logs';
+
+interface ChangeHistoryProps {
+  taskId: string;
+  onReverted?: () => void;
+  className?: string;
+}
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+const ChangeHistory: React.FC<ChangeHistoryProps> = ({ taskId, onReverted, className }) => {
+  const [entries, setEntries] = useState<LogEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [collapsed, setCollapsed] = useState(true);
+  const [preview, setPreview] = useState<RevertPlan | null>(null);
+  const [previewLoading, setPreviewLoading] = useState<string | null>(null);
+  const [reverting, setReverting] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const loadEntries = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/logs?taskId=${encodeURIComponent(taskId)}`, { cache: 'no-store' });
+      if (response.ok) {
+        const data = await response.json();
+        // Newest first; only edits and reverts of them are shown here
+        setEntries((data.entries || [])
+          .filter((entry: LogEntry) => entry.action === 'UPDATE' || entry.action === 'REVERT')
+          .reverse());
+      }
+    } catch (error) {
+      console.error('Error loading task changes:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [taskId]);
+
+  useEffect(() => {
+    setPreview(null);
+    setMessage(null);
+    loadEntries();
+  }, [loadEntries]);
+
+  const handlePreview = async (entryId: string) => {
+    setPreviewLoading(entryId);
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/tasks/${taskId}/revert?entryId=${encodeURIComponent(entryId)}`, { cache: 'no-store' });
+      const data = await response.json();
+      if (!response.ok) {
+        setMessage({ type: 'error', text: data.error || 'Failed to preview revert' });
+        return;
+      }
+      setPreview(data.plan);
+    } catch (error) {
+      console.error('Error previewing revert:', error);
+      setMessage({ type: 'error', text: 'Failed to preview revert' });
+    } finally {
+      setPreviewLoading(null);
+    }
+  };
+
+  const handleRevert = async () => {
+    if (!preview) return;
+
+    setReverting(true);
+    try {
+      const response = await fetch(`/api/tasks/${taskId}/revert`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ entryId: preview.entry.id }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setMessage({ type: 'error', text: data.details || data.error || 'Failed to revert task' });
+        // A revert that failed halfway has still restored, and logged, some fields
+        if (response.status === 500) {
+          await loadEntries();
+          onReverted?.();
+        }
+        return;
+      }
+
+      setMessage({ type: 'success', text: data.warning || `Restored ${Object.keys(data.restored).join(', ')}` });
+      setPreview(null);
+      await loadEntries();
+      onReverted?.();
+    } catch (error) {
+      console.error('Error reverting task:', error);
+      setMessage({ type: 'error', text: 'Failed to revert task' });
+    } finally {
+      setReverting(false);
+    }
+  };
+
+  const canRevert = !!preview && preview.fields.some(field => field.available);
+
+  return (
+    <div className={cn("border border-[var(--color-border)] rounded-lg overflow-hidden", className)}>
+      <button
+        type="button"
+        onClick={() => setCollapsed(!collapsed)}
+        className="w-full px-4 py-3 bg-[var(--color-surface-secondary)] hover:bg-[var(--color-surface-hover)] flex items-center justify-between transition-colors"
+      >
+        <span className="flex items-center text-sm font-medium text-[var(--color-text-primary)]">
+          <Undo2 className="w-4 h-4 mr-2" />
+          Change History
+          {entries.length > 0 && (
+            <span className="ml-2 text-xs text-[var(--color-text-muted)]">({entries.length})</span>
+          )}
+        </span>
+        {collapsed ? (
+          <ChevronDown className="w-4 h-4 text-[var(--color-text-muted)]" />
+        ) : (
+          <ChevronUp className="w-4 h-4 text-[var(--color-text-muted)]" />
+        )}
+      </button>
+
+      {!collapsed && (
+        <div className="p-4 space-y-3">
+          {message && (
+            <p className={cn("text-sm", message.type === 'error' ? 'text-[var(--color-error-600)]' : 'text-[var(--color-success-600)]')}>
+              {message.text}
+            </p>
+          )}
+
+          {loading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="w-5 h-5 animate-spin text-[var(--color-primary-500)]" />
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="text-sm text-[var(--color-text-muted)]">No edits recorded for this task.</p>
+          ) : (
+            <ul className="space-y-2">
+              {entries.map(entry => (
+                <li key={entry.id} className="text-sm border-b border-[var(--color-border-light)] pb-2 last:border-b-0">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <div className="text-[var(--color-text-primary)] truncate">
+                        {entry.action === 'REVERT' && <span className="mr-1 text-xs font-medium text-[var(--color-warning-500)]">REVERT</span>}
+                        {Object.entries(entry.changes)
+                          .filter(([key]) => key !== 'reverted_entry' && key !== 'commentId')
+                          .map(([key, value]) => `${key}: ${formatValue(value)}`)
+                          .join(' · ') || entry.comment}
+                      </div>
+                      <div className="text-xs text-[var(--color-text-muted)]">
+                        {new Date(entry.timestamp).toLocaleString()}
+                        {entry.actor && ` · ${entry.actor}`}
+                        {entry.source === 'clickup' && ' · in ClickUp'}
+                      </div>
+                    </div>
+                    {entry.action === 'UPDATE' && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 px-2 flex-shrink-0"
+                        onClick={() => handlePreview(entry.id)}
+                        disabled={previewLoading !== null || reverting}
+                        loading={previewLoading === entry.id}
+                      >
+                        Revert
+                      </Button>
+                    )}
+                  </div>
+
+                  {preview?.entry.id === entry.id && (
+                    <div className="mt-2 p-3 rounded-md bg-[var(--color-surface-secondary)] space-y-2">
+                      {preview.fields.length === 0 ? (
+                        <p className="text-xs text-[var(--color-text-muted)]">This entry changed nothing a revert can restore.</p>
+                      ) : (
+                        <table className="w-full text-xs">
+                          <tbody>
+                            {preview.fields.map(field => (
+                              <tr key={field.field} className={cn(!field.available && 'text-[var(--color-text-muted)]')}>
+                                <td className="pr-2 font-medium align-top">{field.field}</td>
+                                <td className="pr-2 align-top">
+                                  {field.available
+                                    ? <>{formatValue(field.from)} → <strong>{formatValue(field.to)}</strong></>
+                                    : <>Kept: {field.reason}</>}
+                                  {field.available && field.overwrites && (
+                                    <span className="flex items-center mt-0.5 text-[var(--color-warning-500)]">
+                                      <AlertTriangle className="w-3 h-3 mr-1 flex-shrink-0" />
+                                      Replaces {formatValue(field.overwrites.value)}, set {new Date(field.overwrites.timestamp).toLocaleString()}
+                                    </span>
+                                  )}
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      )}
+                      <div className="flex justify-end gap-2">
+                        <Button type="button" variant="ghost" size="sm" className="h-7 px-2" onClick={() => setPreview(null)} disabled={reverting}>
+                          Cancel
+                        </Button>
+                        <Button type="button" variant="primary" size="sm" className="h-7 px-2" onClick={handleRevert} disabled={!canRevert || reverting} loading={reverting}>
+                          Apply revert
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChangeHistory;
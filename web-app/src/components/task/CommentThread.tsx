@@ -0,0 +1,86 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { MessageSquare, Loader2, ChevronDown, ChevronUp } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { ClickUpComment } from '@/types/clickup';
+
+interface CommentThreadProps {
+  taskId: string;
+  className?: string;
+}
+
+const CommentThread: React.FC<CommentThreadProps> = ({ taskId, className }) => {
+  const [comments, setComments] = useState<ClickUpComment[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [collapsed, setCollapsed] = useState(true);
+
+  useEffect(() => {
+    const loadComments = async () => {
+      setLoading(true);
+      try {
+        const response = await fetch(`/api/tasks/${taskId}/comments`);
+        if (response.ok) {
+          const data = await response.json();
+          setComments(data.comments || []);
+        }
+      } catch (error) {
+        console.error('Error loading task comments:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadComments();
+  }, [taskId]);
+
+  return (
+    <div className={cn("border border-[var(--color-border)] rounded-lg overflow-hidden", className)}>
+      <button
+        type="button"
+        onClick={() => setCollapsed(!collapsed)}
+        className="w-full px-4 py-3 bg-[var(--color-surface-secondary)] hover:bg-[var(--color-surface-hover)] flex items-center justify-between transition-colors"
+      >
+        <span className="flex items-center text-sm font-medium text-[var(--color-text-primary)]">
+          <MessageSquare className="w-4 h-4 mr-2" />
+          Comments
+          {comments.length > 0 && (
+            <span className="ml-2 text-xs text-[var(--color-text-muted)]">({comments.length})</span>
+          )}
+        </span>
+        {collapsed ? (
+          <ChevronDown className="w-4 h-4 text-[var(--color-text-muted)]" />
+        ) : (
+          <ChevronUp className="w-4 h-4 text-[var(--color-text-muted)]" />
+        )}
+      </button>
+
+      {!collapsed && (
+        <div className="p-4 max-h-80 overflow-y-auto">
+          {loading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="w-5 h-5 animate-spin text-[var(--color-primary-500)]" />
+            </div>
+          ) : comments.length === 0 ? (
+            <p className="text-sm text-[var(--color-text-muted)]">No comments on this task in ClickUp.</p>
+          ) : (
+            <ul className="space-y-3">
+              {comments.map(comment => (
+                <li key={comment.id} className="text-sm">
+                  <div className="flex items-center justify-between text-xs text-[var(--color-text-muted)]">
+                    <span className="font-medium text-[var(--color-text-secondary)]">{comment.user?.username || 'Unknown'}</span>
+                    <span>{new Date(Number(comment.date)).toLocaleString()}</span>
+                  </div>
+                  <p className="mt-1 whitespace-pre-wrap break-words text-[var(--color-text-primary)]">
+                    {comment.comment_text}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CommentThread;
@@ -5,6 +5,7 @@ import { Calendar, Clock, User, Flag, Plus, FolderTree } from 'lucide-react';
 import Modal from '@/components/ui/Modal';
 import { Button } from '@/components/ui/Button';
 import { cn } from '@/lib/utils';
+import { useSession } from '@/components/SessionProvider';
 
 interface CreateTaskModalProps {
   isOpen: boolean;
@@ -21,6 +22,7 @@ interface TaskFormData {
   timeEstimate: string;
   developer: string;
   parentTask?: string;
+  listId: string;
 }
 
 const CreateTaskModal: React.FC<CreateTaskModalProps> = ({
@@ -36,29 +38,20 @@ const CreateTaskModal: React.FC<CreateTaskModalProps> = ({
     dueDate: '',
     timeEstimate: '',
     developer: '',
-    parentTask: ''
+    parentTask: '',
+    listId: ''
   });
 
   const [loading, setLoading] = useState(false);
   const [statuses, setStatuses] = useState<Array<{ id: string; status: string; color: string }>>([]);
   const [developerOptions, setDeveloperOptions] = useState<Array<{ id: string | number; name: string; color?: string }>>([]);
   const [parentTasks, setParentTasks] = useState<Array<{ id: string; name: string }>>([]);
+  const [trackedLists, setTrackedLists] = useState<Array<{ id: string; name: string }>>([]);
   const [errors, setErrors] = useState<Record<string, string>>({});
-  const [isCreationAllowed, setIsCreationAllowed] = useState(false);
-  const [isAdmin, setIsAdmin] = useState(false);
-  const [username, setUsername] = useState<string>('');
-
-  // Check if user has admin privileges for task creation
-  useEffect(() => {
-    if (typeof window !== 'undefined' && isOpen) {
-      const adminStatus = localStorage.getItem('trackingAdmin') === 'true';
-      const storedUsername = localStorage.getItem('trackingUser') || '';
-      setIsAdmin(adminStatus);
-      setUsername(storedUsername);
-      // All users can create tasks now, but with different permissions
-      setIsCreationAllowed(true);
-    }
-  }, [isOpen]); // Re-check when modal opens
+  const { can } = useSession();
+  const isCreationAllowed = can('tasks:create');
+  // Full editors create review items and pick the parent; everyone else files under "New"
+  const isAdmin = can('tasks:edit');
 
   // Priority options
   const priorities = [
@@ -71,12 +64,13 @@ const CreateTaskModal: React.FC<CreateTaskModalProps> = ({
   // Load form data function
   const loadFormData = useCallback(async () => {
     try {
-      // Fetch developer options from the API
-      const response = await fetch('/api/tasks/developers');
-      if (response.ok) {
-        const data = await response.json();
-        const sortedDevelopers = (data.developers || []).sort((a: { name: string; }, b: { name: string; }) => a.name.localeCompare(b.name));
-        setDeveloperOptions(sortedDevelopers);
+      // Fetch the tracked lists; the first one is the default target
+      const listsResponse = await fetch('/api/lists/tracked');
+      if (listsResponse.ok) {
+        const listsData = await listsResponse.json();
+        const lists: Array<{ id: string; name: string }> = listsData.lists || [];
+        setTrackedLists(lists);
+        setFormData(prev => ({ ...prev, listId: prev.listId || lists[0]?.id || '' }));
       }
 
       // Fetch parent tasks if admin
@@ -130,6 +124,25 @@ const CreateTaskModal: React.FC<CreateTaskModalProps> = ({
     }
   }, [isOpen, isCreationAllowed, isAdmin, loadFormData]);
 
+  // Developer options come from the selected list's dropdown field
+  useEffect(() => {
+    if (!isOpen || !formData.listId) return;
+
+    const loadDevelopers = async () => {
+      try {
+        const response = await fetch(`/api/tasks/developers?listId=${encodeURIComponent(formData.listId)}`);
+        if (response.ok) {
+          const data = await response.json();
+          const sortedDevelopers = (data.developers || []).sort((a: { name: string; }, b: { name: string; }) => a.name.localeCompare(b.name));
+          setDeveloperOptions(sortedDevelopers);
+        }
+      } catch (error) {
+        console.error('Error loading developers:', error);
+      }
+    };
+    loadDevelopers();
+  }, [isOpen, formData.listId]);
+
   const handleInputChange = (field: keyof TaskFormData, value: string | number | null) => {
     setFormData(prev => ({ ...prev, [field]: value }));
     // Clear error when user starts typing
@@ -172,9 +185,8 @@ const CreateTaskModal: React.FC<CreateTaskModalProps> = ({
         due_date?: number;
         time_estimate?: number;
         developer?: string;
-        isAdmin: boolean;
         parentTask?: string;
-        username?: string;
+        listId?: string;
       }
       
       const taskData: TaskDataPayload = {
@@ -185,9 +197,8 @@ const CreateTaskModal: React.FC<CreateTaskModalProps> = ({
         due_date: formData.dueDate ? new Date(formData.dueDate).getTime() : undefined,
         time_estimate: formData.timeEstimate ? parseInt(formData.timeEstimate) * 60 * 60 * 1000 : undefined, // Convert hours to milliseconds
         developer: formData.developer || undefined, // Let the server handle custom field mapping
-        isAdmin: isAdmin,
         parentTask: isAdmin ? formData.parentTask : undefined, // Only send parent task if admin
-        username: username || undefined, // Send the username
+        listId: formData.listId || undefined, // Ignored by the server when a parent task is selected
       };
 
       // Create the task via API
@@ -214,7 +225,8 @@ const CreateTaskModal: React.FC<CreateTaskModalProps> = ({
         dueDate: '',
         timeEstimate: '',
         developer: '',
-        parentTask: ''
+        parentTask: '',
+        listId: formData.listId
       });
 
       // Notify parent component
@@ -257,6 +269,30 @@ const CreateTaskModal: React.FC<CreateTaskModalProps> = ({
           </p>
         </div>
 
+        {/* List Selection (only when more than one list is tracked) */}
+        {trackedLists.length > 1 && !formData.parentTask && (
+          <div>
+            <label className="block text-sm font-medium text-[var(--color-text-primary)] mb-2">
+              List
+            </label>
+            <select
+              value={formData.listId}
+              onChange={(e) => {
+                handleInputChange('listId', e.target.value);
+                handleInputChange('developer', '');
+              }}
+              className="w-full px-3 py-2 border border-[var(--color-border)] rounded-md bg-[var(--color-surface)] text-[var(--color-text-primary)] focus:outline-none focus:ring-2 focus:ring-[var(--color-primary-500)] transition-colors"
+              disabled={loading}
+            >
+              {trackedLists.map((list) => (
+                <option key={list.id} value={list.id}>
+                  {list.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
         {/* Parent Task Selection (Admin Only) */}
         {isAdmin && (
           <div>
@@ -0,0 +1,137 @@
+'use client';
+
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { CustomFieldReading, CustomFieldValue } from '@/types/clickup';
+import { EditableCustomField } from '@/types/settings';
+
+// Form value of a custom field: option names for drop_down, label names or user IDs for labels/users,
+// yyyy-MM-dd for dates, and the typed text for everything else
+export type CustomFieldFormValue = string | string[];
+
+const isMultiValue = (field: EditableCustomField) => field.type === 'labels' || field.type === 'users';
+
+/**
+ * Form value for a field's current reading
+ */
+export function toFormValue(field: EditableCustomField, { value }: CustomFieldReading): CustomFieldFormValue {
+  if (value === null) return isMultiValue(field) ? [] : '';
+  const values = Array.isArray(value) ? value : [String(value)];
+  if (field.type === 'users') {
+    // Readings carry usernames; the field is written with user IDs
+    return values.map(name => field.options.find(option => option.name === name)?.id).filter((id): id is string => !!id);
+  }
+  if (field.type === 'labels') return values;
+  if (field.type === 'date') return new Date(Number(value)).toISOString().split('T')[0];
+  return values.join(', ');
+}
+
+/**
+ * Value to send to PUT /api/tasks/[taskId]; empty values clear the field
+ */
+export function fromFormValue(field: EditableCustomField, value: CustomFieldFormValue): CustomFieldValue {
+  if (Array.isArray(value)) return value;
+  if (value === '') return null;
+  return field.type === 'number' || field.type === 'currency' ? Number(value) : value;
+}
+
+interface CustomFieldInputProps {
+  field: EditableCustomField;
+  value: CustomFieldFormValue;
+  onChange: (value: CustomFieldFormValue) => void;
+  disabled?: boolean;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-[var(--color-border)] rounded-md bg-[var(--color-surface)] text-[var(--color-text-primary)] placeholder:text-[var(--color-text-muted)] focus:outline-none focus:ring-2 focus:ring-[var(--color-primary-500)] transition-colors';
+
+const TEXT_INPUT_TYPES: Record<string, string> = {
+  email: 'email',
+  url: 'url',
+  phone: 'tel',
+};
+
+const CustomFieldInput: React.FC<CustomFieldInputProps> = ({ field, value, onChange, disabled = false }) => {
+  switch (field.type) {
+    case 'drop_down':
+      return (
+        <select
+          value={value as string}
+          onChange={(e) => onChange(e.target.value)}
+          className={inputClassName}
+          disabled={disabled}
+        >
+          <option value="">Select {field.name.toLowerCase()}...</option>
+          {field.options.map(option => (
+            <option key={option.id} value={option.name}>{option.name}</option>
+          ))}
+        </select>
+      );
+    case 'labels':
+    case 'users': {
+      // Labels are written by name, users by ID
+      const selected = Array.isArray(value) ? value : [];
+      const keyOf = (option: EditableCustomField['options'][number]) => field.type === 'users' ? option.id : option.name;
+      return (
+        <div className="flex flex-wrap gap-2">
+          {field.options.length === 0 && (
+            <span className="text-sm text-[var(--color-text-muted)]">No options available</span>
+          )}
+          {field.options.map(option => {
+            const isSelected = selected.includes(keyOf(option));
+            return (
+              <button
+                key={option.id}
+                type="button"
+                onClick={() => onChange(isSelected ? selected.filter(item => item !== keyOf(option)) : [...selected, keyOf(option)])}
+                className={cn(
+                  "px-3 py-1 rounded-full text-xs font-medium border transition-all",
+                  isSelected
+                    ? "ring-2 ring-offset-1 ring-[var(--color-primary-500)] border-transparent"
+                    : "border-[var(--color-border)] text-[var(--color-text-secondary)] hover:scale-105"
+                )}
+                style={isSelected && option.color ? { backgroundColor: option.color, color: 'white' } : undefined}
+                disabled={disabled}
+              >
+                {option.name}
+              </button>
+            );
+          })}
+        </div>
+      );
+    }
+    case 'number':
+    case 'currency':
+      return (
+        <input
+          type="number"
+          value={value as string}
+          onChange={(e) => onChange(e.target.value)}
+          step="any"
+          className={inputClassName}
+          disabled={disabled}
+        />
+      );
+    case 'date':
+      return (
+        <input
+          type="date"
+          value={value as string}
+          onChange={(e) => onChange(e.target.value)}
+          className={inputClassName}
+          disabled={disabled}
+        />
+      );
+    default:
+      return (
+        <input
+          type={TEXT_INPUT_TYPES[field.type] || 'text'}
+          value={value as string}
+          onChange={(e) => onChange(e.target.value)}
+          className={inputClassName}
+          disabled={disabled}
+        />
+      );
+  }
+};
+
+export default CustomFieldInput;
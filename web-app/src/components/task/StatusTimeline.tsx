@@ -0,0 +1,139 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { History, Loader2, ChevronDown, ChevronUp } from 'lucide-react';
+import { cn, formatDuration, getStatusColor } from '@/lib/utils';
+import { StatusTransition, TaskCycleMetrics } from '@/types/history';
+
+interface StatusTimelineProps {
+  taskId: string;
+  className?: string;
+}
+
+const StatusTimeline: React.FC<StatusTimelineProps> = ({ taskId, className }) => {
+  const [transitions, setTransitions] = useState<StatusTransition[]>([]);
+  const [metrics, setMetrics] = useState<TaskCycleMetrics | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [collapsed, setCollapsed] = useState(true);
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      setLoading(true);
+      try {
+        const response = await fetch(`/api/tasks/${taskId}/history`);
+        if (response.ok) {
+          const data = await response.json();
+          setTransitions(data.transitions || []);
+          setMetrics(data.metrics || null);
+        }
+      } catch (error) {
+        console.error('Error loading task history:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadHistory();
+  }, [taskId]);
+
+  const getStintDuration = (index: number): number | null => {
+    const next = transitions[index + 1];
+    if (!next && metrics?.closedAt) return null; // Done, not a stint of work
+    const end = next ? new Date(next.timestamp).getTime() : Date.now();
+    return end - new Date(transitions[index].timestamp).getTime();
+  };
+
+  return (
+    <div className={cn("border border-[var(--color-border)] rounded-lg overflow-hidden", className)}>
+      <button
+        type="button"
+        onClick={() => setCollapsed(!collapsed)}
+        className="w-full px-4 py-3 bg-[var(--color-surface-secondary)] hover:bg-[var(--color-surface-hover)] flex items-center justify-between transition-colors"
+      >
+        <span className="flex items-center text-sm font-medium text-[var(--color-text-primary)]">
+          <History className="w-4 h-4 mr-2" />
+          Status History
+          {transitions.length > 0 && (
+            <span className="ml-2 text-xs text-[var(--color-text-muted)]">({transitions.length})</span>
+          )}
+        </span>
+        {collapsed ? (
+          <ChevronDown className="w-4 h-4 text-[var(--color-text-muted)]" />
+        ) : (
+          <ChevronUp className="w-4 h-4 text-[var(--color-text-muted)]" />
+        )}
+      </button>
+
+      {!collapsed && (
+        <div className="p-4 space-y-4">
+          {loading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="w-5 h-5 animate-spin text-[var(--color-primary-500)]" />
+            </div>
+          ) : transitions.length === 0 ? (
+            <p className="text-sm text-[var(--color-text-muted)]">No status changes recorded for this task.</p>
+          ) : (
+            <>
+              {/* Timeline */}
+              <ol className="relative border-l border-[var(--color-border)] ml-2 space-y-3">
+                {transitions.map((transition, index) => {
+                  const duration = getStintDuration(index);
+                  return (
+                    <li key={`${transition.status}-${transition.timestamp}`} className="ml-4">
+                      <span
+                        className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border-2 border-[var(--color-surface)]"
+                        style={{ backgroundColor: getStatusColor(transition.status) }}
+                      />
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="font-medium text-[var(--color-text-primary)]">
+                          {transition.status}
+                          {transition.reopened && (
+                            <span className="ml-2 text-xs text-[var(--color-warning-500)]">re-opened</span>
+                          )}
+                        </span>
+                        {duration !== null && (
+                          <span className="text-xs text-[var(--color-text-secondary)]">
+                            {formatDuration(duration)}{index === transitions.length - 1 ? ' so far' : ''}
+                          </span>
+                        )}
+                      </div>
+                      <div className="text-xs text-[var(--color-text-muted)]">
+                        {new Date(transition.timestamp).toLocaleString()}
+                        {transition.actor && ` · ${transition.actor}`}
+                        {transition.source === 'clickup' && ' · in ClickUp'}
+                        {transition.manual && ' · corrected manually'}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ol>
+
+              {/* Metrics */}
+              {metrics && (
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 pt-3 border-t border-[var(--color-border)] text-sm">
+                  <div>
+                    <div className="text-xs text-[var(--color-text-muted)]">Lead time</div>
+                    <div className="font-medium text-[var(--color-text-primary)]">{formatDuration(metrics.leadTimeMs)}</div>
+                  </div>
+                  <div>
+                    <div className="text-xs text-[var(--color-text-muted)]">Cycle time</div>
+                    <div className="font-medium text-[var(--color-text-primary)]">{formatDuration(metrics.cycleTimeMs)}</div>
+                  </div>
+                  <div>
+                    <div className="text-xs text-[var(--color-text-muted)]">In review</div>
+                    <div className="font-medium text-[var(--color-text-primary)]">{formatDuration(metrics.reviewTimeMs)}</div>
+                  </div>
+                  <div>
+                    <div className="text-xs text-[var(--color-text-muted)]">Re-opened</div>
+                    <div className="font-medium text-[var(--color-text-primary)]">{metrics.reopenCount}×</div>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StatusTimeline;
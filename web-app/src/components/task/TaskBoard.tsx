@@ -0,0 +1,416 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Clock, Rows3, User } from 'lucide-react';
+import { Avatar } from '@/components/ui/Avatar';
+import { Button } from '@/components/ui/Button';
+import { useSession } from '@/components/SessionProvider';
+import { cn, formatTimeEstimate, getInProgressDurationInfo } from '@/lib/utils';
+import { ProcessedTask } from '@/types/clickup';
+
+interface BoardColumn {
+  key: string;     // Lower-cased status name
+  status: string;
+  color: string;
+}
+
+interface TaskBoardProps {
+  tasks: ProcessedTask[];
+  onTaskClick?: (taskId: string) => void;
+  onTaskMoved?: () => void;
+  showList?: boolean;
+  customFields?: string[];
+}
+
+const UNASSIGNED = 'Unassigned';
+const SWIMLANES_STORAGE_KEY = 'boardSwimlanes';
+
+// Parents and subtasks each sit on the board under their own status
+const flattenTasks = (tasks: ProcessedTask[]): ProcessedTask[] =>
+  tasks.flatMap(task => [task, ...task.subtasks]);
+
+const BoardCard: React.FC<{
+  task: ProcessedTask;
+  parentName?: string;
+  draggable: boolean;
+  isMoving: boolean;
+  showList: boolean;
+  customFields: string[];
+  onTaskClick?: (taskId: string) => void;
+  onDragStart: (e: React.DragEvent) => void;
+  onDragEnd: () => void;
+}> = ({ task, parentName, draggable, isMoving, showList, customFields, onTaskClick, onDragStart, onDragEnd }) => {
+  const durationInfo = getInProgressDurationInfo(task.inProgressSince);
+
+  return (
+    <div
+      draggable={draggable}
+      onDragStart={onDragStart}
+      onDragEnd={onDragEnd}
+      onClick={() => onTaskClick?.(task.id)}
+      className={cn(
+        "p-3 rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] shadow-sm space-y-2 text-sm transition-opacity",
+        draggable && "cursor-grab active:cursor-grabbing",
+        onTaskClick && "hover:border-[var(--color-primary-500)]",
+        isMoving && "opacity-50"
+      )}
+    >
+      <div className="flex items-start space-x-2">
+        {task.priority && (
+          <div
+            className="w-2 h-2 rounded-full mt-1.5 flex-shrink-0"
+            style={{ backgroundColor: task.priority.color }}
+            title={`Priority: ${task.priority.name}`}
+          />
+        )}
+        <div className="min-w-0">
+          <p className="font-medium text-[var(--color-text-primary)] leading-tight">{task.name}</p>
+          <p className="text-xs text-[var(--color-text-muted)] mt-1 truncate">
+            #{task.id}
+            {parentName && ` · ${parentName}`}
+            {showList && !task.isSubtask && task.listName && ` · ${task.listName}`}
+          </p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs text-[var(--color-text-secondary)]">
+        {durationInfo && (
+          <span className={cn("flex items-center space-x-1 font-medium", durationInfo.color)}>
+            <Clock className="h-3 w-3" />
+            <span>{durationInfo.duration}</span>
+          </span>
+        )}
+        {task.timeEstimate && <span>{formatTimeEstimate(task.timeEstimate)}</span>}
+        {customFields.filter(name => task.customFields?.[name]).map(name => (
+          <span key={name} className="truncate max-w-[8rem]" title={`${name}: ${task.customFields![name].display}`}>
+            {task.customFields![name].display}
+          </span>
+        ))}
+      </div>
+
+      <div className="flex items-center space-x-2 text-xs text-[var(--color-text-secondary)]">
+        {task.developer ? (
+          <>
+            <Avatar
+              name={task.developer}
+              size="sm"
+              className="h-5 w-5"
+              style={task.developerColor ? { backgroundColor: task.developerColor } : undefined}
+            />
+            <span>{task.developer}</span>
+          </>
+        ) : (
+          <>
+            <User className="h-3 w-3" />
+            <span className="text-[var(--color-text-muted)]">{UNASSIGNED}</span>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const TaskBoard: React.FC<TaskBoardProps> = ({
+  tasks,
+  onTaskClick,
+  onTaskMoved,
+  showList = false,
+  customFields = []
+}) => {
+  const [statuses, setStatuses] = useState<BoardColumn[]>([]);
+  const [wipLimits, setWipLimits] = useState<Record<string, number>>({});
+  const [swimlanes, setSwimlanes] = useState(false);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [movingIds, setMovingIds] = useState<Set<string>>(new Set());
+  // Optimistic statuses for moves still on their way to ClickUp
+  const [pendingStatuses, setPendingStatuses] = useState<Record<string, string>>({});
+  const [editingLimit, setEditingLimit] = useState<string | null>(null);
+  const [limitInput, setLimitInput] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const { can } = useSession();
+
+  useEffect(() => {
+    fetchBoard();
+    try {
+      setSwimlanes(localStorage.getItem(SWIMLANES_STORAGE_KEY) === 'true');
+    } catch (error) {
+      console.error('Error loading saved swimlane setting:', error);
+    }
+  }, []);
+
+  const fetchBoard = async () => {
+    try {
+      const response = await fetch('/api/settings/board', { cache: 'no-store' });
+      if (response.ok) {
+        const data = await response.json();
+        setStatuses(data.statuses.map((status: { status: string; color: string }) => ({
+          key: status.status.toLowerCase(),
+          status: status.status,
+          color: status.color,
+        })));
+        setWipLimits(data.settings.wipLimits);
+      }
+    } catch (error) {
+      console.error('Error fetching board settings:', error);
+    }
+  };
+
+  const toggleSwimlanes = () => {
+    setSwimlanes(prev => {
+      localStorage.setItem(SWIMLANES_STORAGE_KEY, String(!prev));
+      return !prev;
+    });
+  };
+
+  const cards = flattenTasks(tasks);
+  const parentNames = new Map(tasks.map(task => [task.id, task.name]));
+  const statusOf = (task: ProcessedTask) => (pendingStatuses[task.id] ?? task.status).toLowerCase();
+
+  // Statuses missing from the tracked lists (e.g. when they failed to load) still get a column
+  const columns: BoardColumn[] = [...statuses];
+  for (const task of cards) {
+    if (!columns.some(column => column.key === statusOf(task))) {
+      columns.push({ key: statusOf(task), status: pendingStatuses[task.id] ?? task.status, color: task.statusColor });
+    }
+  }
+
+  const lanes = swimlanes
+    ? [...new Set(cards.map(task => task.developer || UNASSIGNED))].sort((a, b) =>
+        a === UNASSIGNED ? 1 : b === UNASSIGNED ? -1 : a.localeCompare(b)
+      )
+    : [null];
+
+  const columnCounts = new Map(columns.map(column => [column.key, cards.filter(task => statusOf(task) === column.key).length]));
+  const isOverLimit = (column: BoardColumn) =>
+    wipLimits[column.key] !== undefined && (columnCounts.get(column.key) || 0) > wipLimits[column.key];
+
+  // Without full edit rights a task may only be moved to review, as PUT /api/tasks/[taskId] enforces
+  const canMoveTo = (column: BoardColumn) => can('tasks:edit') || (can('tasks:comment') && column.key === 'in review');
+
+  const moveTask = async (taskId: string, column: BoardColumn) => {
+    const task = cards.find(card => card.id === taskId);
+    if (!task || statusOf(task) === column.key || !canMoveTo(column)) return;
+
+    setMessage(null);
+    setPendingStatuses(prev => ({ ...prev, [taskId]: column.status }));
+    setMovingIds(prev => new Set(prev).add(taskId));
+
+    try {
+      // The update route logs the status change, which is what inProgressSince is read from
+      const response = await fetch(`/api/tasks/${taskId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ status: column.status.toUpperCase() }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to move task');
+      }
+      onTaskMoved?.();
+    } catch (error) {
+      console.error('Error moving task:', error);
+      setMessage(`Could not move "${task.name}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+      setPendingStatuses(prev => {
+        const next = { ...prev };
+        delete next[taskId];
+        return next;
+      });
+    } finally {
+      setMovingIds(prev => {
+        const next = new Set(prev);
+        next.delete(taskId);
+        return next;
+      });
+    }
+  };
+
+  const saveWipLimit = async (column: BoardColumn) => {
+    setEditingLimit(null);
+    const limit = limitInput.trim() === '' ? 0 : Number(limitInput);
+    const updated = { ...wipLimits, [column.key]: limit };
+    if (limit === 0) delete updated[column.key];
+    if (JSON.stringify(updated) === JSON.stringify(wipLimits)) return;
+
+    try {
+      const response = await fetch('/api/settings/board', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ settings: { wipLimits: updated } }),
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setWipLimits(data.settings.wipLimits);
+      } else {
+        setMessage(data.error || 'Failed to save WIP limit');
+      }
+    } catch {
+      setMessage('Error saving WIP limit');
+    }
+  };
+
+  const renderColumnHeader = (column: BoardColumn) => {
+    const count = columnCounts.get(column.key) || 0;
+    const limit = wipLimits[column.key];
+
+    return (
+      <div
+        className={cn(
+          "flex items-center justify-between px-3 py-2 rounded-t-md border-b-2 text-xs font-medium uppercase tracking-wide",
+          isOverLimit(column) ? "bg-[var(--color-error-500)]/10 text-[var(--color-error-600)]" : "text-[var(--color-text-secondary)]"
+        )}
+        style={{ borderBottomColor: column.color }}
+      >
+        <span className="truncate" title={column.status}>{column.status}</span>
+        {editingLimit === column.key ? (
+          <input
+            type="number"
+            min={0}
+            autoFocus
+            value={limitInput}
+            onChange={(e) => setLimitInput(e.target.value)}
+            onBlur={() => saveWipLimit(column)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') saveWipLimit(column);
+              if (e.key === 'Escape') setEditingLimit(null);
+            }}
+            className="w-14 px-1 py-0.5 border border-[var(--color-border)] rounded bg-[var(--color-surface)] text-[var(--color-text-primary)]"
+            aria-label={`WIP limit for ${column.status}`}
+          />
+        ) : (
+          <button
+            type="button"
+            onClick={() => {
+              setLimitInput(limit ? String(limit) : '');
+              setEditingLimit(column.key);
+            }}
+            disabled={!can('settings:manage')}
+            className="ml-2 flex-shrink-0 tabular-nums disabled:cursor-default"
+            title={can('settings:manage') ? 'Set WIP limit' : undefined}
+          >
+            {limit ? `${count}/${limit}` : count}
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  const renderCell = (column: BoardColumn, lane: string | null) => {
+    const cellKey = `${lane ?? ''}:${column.key}`;
+    const cellTasks = cards.filter(task =>
+      statusOf(task) === column.key && (lane === null || (task.developer || UNASSIGNED) === lane)
+    );
+    const draggingTask = draggingId ? cards.find(card => card.id === draggingId) : undefined;
+    const acceptsDrop = !!draggingTask && statusOf(draggingTask) !== column.key && canMoveTo(column);
+
+    return (
+      <div
+        key={cellKey}
+        onDragOver={(e) => {
+          if (!acceptsDrop) return;
+          e.preventDefault();
+          setDropTarget(cellKey);
+        }}
+        onDragLeave={() => setDropTarget(prev => prev === cellKey ? null : prev)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setDropTarget(null);
+          moveTask(e.dataTransfer.getData('text/plain'), column);
+        }}
+        className={cn(
+          "min-h-[6rem] p-2 space-y-2 rounded-b-md bg-[var(--color-surface-hover)] transition-colors",
+          isOverLimit(column) && "bg-[var(--color-error-500)]/5 ring-1 ring-inset ring-[var(--color-error-500)]/40",
+          dropTarget === cellKey && "ring-2 ring-inset ring-[var(--color-primary-500)]"
+        )}
+      >
+        {cellTasks.map(task => (
+          <BoardCard
+            key={task.id}
+            task={task}
+            parentName={task.parentId ? parentNames.get(task.parentId) : undefined}
+            draggable={can('tasks:comment') && !movingIds.has(task.id)}
+            isMoving={movingIds.has(task.id)}
+            showList={showList}
+            customFields={customFields}
+            onTaskClick={onTaskClick}
+            onDragStart={(e) => {
+              e.dataTransfer.setData('text/plain', task.id);
+              e.dataTransfer.effectAllowed = 'move';
+              setDraggingId(task.id);
+            }}
+            onDragEnd={() => {
+              setDraggingId(null);
+              setDropTarget(null);
+            }}
+          />
+        ))}
+      </div>
+    );
+  };
+
+  if (cards.length === 0) {
+    return (
+      <div className="py-12 text-center text-[var(--color-text-muted)]">
+        <p className="text-lg">No open tasks found</p>
+        <p className="text-sm mt-1">All tasks may be closed or there might be no tasks in this list</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-[var(--color-text-muted)]">
+          {can('tasks:edit') ? 'Drag a card to another column to change its status.' : can('tasks:comment') ? 'Drag a card to In Review to send it for review.' : null}
+        </p>
+        <Button
+          variant={swimlanes ? 'primary' : 'ghost'}
+          size="sm"
+          onClick={toggleSwimlanes}
+          className="h-7 px-2"
+        >
+          <Rows3 className="h-3 w-3 mr-1" />
+          By developer
+        </Button>
+      </div>
+
+      {message && (
+        <div className="p-3 rounded-md text-sm bg-red-50 text-red-800 dark:bg-red-900/20 dark:text-red-400">
+          {message}
+        </div>
+      )}
+
+      <div className="overflow-x-auto pb-2">
+        <div
+          className="grid gap-3 min-w-max"
+          style={{ gridTemplateColumns: `repeat(${columns.length}, minmax(16rem, 1fr))` }}
+        >
+          {columns.map(column => (
+            <div key={column.key}>{renderColumnHeader(column)}</div>
+          ))}
+
+          {lanes.map(lane => (
+            <React.Fragment key={lane ?? 'all'}>
+              {lane !== null && (
+                <div
+                  className="text-sm font-medium text-[var(--color-text-primary)] pt-2"
+                  style={{ gridColumn: `1 / span ${columns.length}` }}
+                >
+                  {lane}
+                </div>
+              )}
+              {columns.map(column => renderCell(column, lane))}
+            </React.Fragment>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TaskBoard;
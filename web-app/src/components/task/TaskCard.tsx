@@ -19,6 +19,8 @@ interface TaskCardProps {
   className?: string;
   style?: React.CSSProperties;
   hideSubtasks?: boolean;
+  showList?: boolean;
+  customFields?: string[]; // Custom field names shown in the metadata row
 }
 
 const TaskCard: React.FC<TaskCardProps> = ({
@@ -28,7 +30,9 @@ const TaskCard: React.FC<TaskCardProps> = ({
   onTaskClick,
   className,
   style,
-  hideSubtasks = false
+  hideSubtasks = false,
+  showList = false,
+  customFields = []
 }) => {
   const [isHovered, setIsHovered] = useState(false);
   
@@ -117,6 +121,7 @@ const TaskCard: React.FC<TaskCardProps> = ({
                   {/* Task ID */}
                   <p className="text-xs text-[var(--color-text-muted)] mt-1">
                     #{task.id}
+                    {showList && !task.isSubtask && task.listName && ` · ${task.listName}`}
                   </p>
                 </div>
               </div>
@@ -174,6 +179,18 @@ const TaskCard: React.FC<TaskCardProps> = ({
             </div>
           )}
 
+          {/* Custom Fields */}
+          {customFields.filter(name => task.customFields?.[name]).map(name => {
+            const field = task.customFields![name];
+            return (
+              <div key={name} className="flex items-center space-x-1 text-xs text-[var(--color-text-secondary)]" title={`${name}: ${field.display}`}>
+                {field.color && <span className="w-2 h-2 rounded-full" style={{ backgroundColor: field.color }} />}
+                <span className="text-[var(--color-text-muted)]">{name}:</span>
+                <span className="truncate max-w-[10rem]">{field.display}</span>
+              </div>
+            );
+          })}
+
           {/* Comments */}
           {task.comments.length > 0 && (
             <div className="flex items-center space-x-1 text-[var(--color-text-secondary)]">
@@ -282,6 +299,7 @@ const TaskCard: React.FC<TaskCardProps> = ({
                     <TaskCard
                       task={subtask}
                       onTaskClick={onTaskClick}
+                      customFields={customFields}
                       className="bg-[var(--color-surface)] border-[var(--color-border)] shadow-sm hover:shadow-md transition-shadow h-full"
                     />
                   </motion.div>
@@ -303,13 +321,17 @@ interface TaskGridProps {
   onToggleExpand: (taskId: string) => void;
   onTaskClick?: (taskId: string) => void;
   className?: string;
+  showList?: boolean;
+  customFields?: string[];
 }
 
 const TaskGrid: React.FC<TaskGridProps> = ({
   tasks,
   expandedTasks,
   onToggleExpand,
-  className
+  className,
+  showList = false,
+  customFields = []
 }) => {
   if (tasks.length === 0) {
     return (
@@ -363,6 +385,8 @@ const TaskGrid: React.FC<TaskGridProps> = ({
             onToggleExpand={() => onToggleExpand(task.id)}
             className="w-full"
             hideSubtasks={false}
+            showList={showList}
+            customFields={customFields}
           />
         </motion.div>
       ))}
@@ -0,0 +1,315 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { cn, formatTimeEstimate } from '@/lib/utils';
+import { DEFAULT_CAPACITY_SETTINGS, getCapacityProfile, getDayCapacity } from '@/lib/capacity';
+import { ProcessedTask } from '@/types/clickup';
+import { CapacitySettings, TeamSettings } from '@/types/settings';
+
+interface TaskTimelineProps {
+  tasks: ProcessedTask[];
+  onTaskClick?: (taskId: string) => void;
+}
+
+interface TimelineBar {
+  task: ProcessedTask;
+  parentName?: string;
+  start: number;     // Day index from the timeline start
+  end: number;       // Inclusive
+  overdue: boolean;
+  estimated: boolean; // Start or end inferred from the time estimate rather than a date
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAY_WIDTH = 28;
+const DAYS_BEFORE_TODAY = 14;
+const DAYS_AFTER_TODAY = 56;
+const UNASSIGNED = 'Unassigned';
+
+const startOfDay = (time: number): number => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+const isWeekend = (time: number): boolean => [0, 6].includes(new Date(time).getDay());
+
+// en-CA formats as yyyy-MM-dd
+const toDay = (time: number): string => new Date(time).toLocaleDateString('en-CA');
+
+const isDone = (task: ProcessedTask): boolean => {
+  const status = task.status.toLowerCase();
+  return status.includes('done') || status.includes('complete') || status === 'closed';
+};
+
+// Days an estimate takes at the developer's daily hours
+const estimateDays = (task: ProcessedTask, hoursPerDay: number): number =>
+  Math.max(1, Math.ceil((task.timeEstimate || 0) / (60 * 60 * 1000) / (hoursPerDay || 1)));
+
+/**
+ * Day range of a task: from its start date (or when it went in progress) to its due date.
+ * A missing end is projected from the estimate, as is a missing start before a due date.
+ */
+function getTaskSpan(task: ProcessedTask, hoursPerDay: number): { start: number; end: number; estimated: boolean } | null {
+  const startTime = task.startDate ? Number(task.startDate) : task.inProgressSince ? new Date(task.inProgressSince).getTime() : undefined;
+  const dueTime = task.dueDate ? Number(task.dueDate) : undefined;
+
+  if (startTime !== undefined && dueTime !== undefined) {
+    const start = startOfDay(Math.min(startTime, dueTime));
+    return { start, end: startOfDay(dueTime), estimated: false };
+  }
+  if (startTime !== undefined) {
+    const start = startOfDay(startTime);
+    return { start, end: start + (estimateDays(task, hoursPerDay) - 1) * DAY_MS, estimated: true };
+  }
+  if (dueTime !== undefined) {
+    const end = startOfDay(dueTime);
+    return { start: end - (estimateDays(task, hoursPerDay) - 1) * DAY_MS, end, estimated: !!task.timeEstimate };
+  }
+  return null;
+}
+
+const TaskTimeline: React.FC<TaskTimelineProps> = ({ tasks, onTaskClick }) => {
+  const [capacity, setCapacity] = useState<{ settings: CapacitySettings; team: TeamSettings } | null>(null);
+
+  useEffect(() => {
+    fetchCapacity();
+  }, []);
+
+  const fetchCapacity = async () => {
+    try {
+      const response = await fetch('/api/settings/capacity');
+      if (response.ok) {
+        const data = await response.json();
+        setCapacity({ settings: data.settings, team: data.team });
+      }
+    } catch (error) {
+      console.error('Error fetching capacity settings:', error);
+    }
+  };
+
+  const getProfile = (developer: string) => capacity && getCapacityProfile(capacity.settings, capacity.team, developer);
+  const getHoursPerDay = (task: ProcessedTask) =>
+    getProfile(task.developer || UNASSIGNED)?.hoursPerDay ?? DEFAULT_CAPACITY_SETTINGS.defaultHoursPerDay;
+
+  const today = startOfDay(Date.now());
+  const parentNames = new Map(tasks.map(task => [task.id, task.name]));
+  const allTasks = tasks.flatMap(task => [task, ...task.subtasks]);
+
+  const spans = allTasks.map(task => ({ task, span: getTaskSpan(task, getHoursPerDay(task)) }));
+  const scheduled = spans.filter((item): item is { task: ProcessedTask; span: NonNullable<ReturnType<typeof getTaskSpan>> } => !!item.span);
+  const unscheduled = spans.length - scheduled.length;
+
+  // Fit the range to the bars, within a window around today
+  const rangeStart = Math.max(
+    today - DAYS_BEFORE_TODAY * DAY_MS,
+    Math.min(today, ...scheduled.map(({ span }) => span.start))
+  );
+  const rangeEnd = Math.min(
+    today + DAYS_AFTER_TODAY * DAY_MS,
+    Math.max(today + 7 * DAY_MS, ...scheduled.map(({ span }) => span.end))
+  );
+  const dayCount = Math.round((rangeEnd - rangeStart) / DAY_MS) + 1;
+  const days = Array.from({ length: dayCount }, (_, index) => rangeStart + index * DAY_MS);
+  const dayIndex = (time: number) => Math.round((time - rangeStart) / DAY_MS);
+  const todayIndex = dayIndex(today);
+
+  const bars: TimelineBar[] = scheduled
+    .filter(({ span }) => span.end >= rangeStart && span.start <= rangeEnd)
+    .map(({ task, span }) => ({
+      task,
+      parentName: task.parentId ? parentNames.get(task.parentId) : undefined,
+      start: Math.max(0, dayIndex(span.start)),
+      end: Math.min(dayCount - 1, dayIndex(span.end)),
+      overdue: !!task.dueDate && Number(task.dueDate) < today && !isDone(task),
+      estimated: span.estimated,
+    }))
+    .sort((a, b) => a.start - b.start || a.end - b.end);
+
+  const developers = [...new Set(bars.map(bar => bar.task.developer || UNASSIGNED))].sort((a, b) =>
+    a === UNASSIGNED ? 1 : b === UNASSIGNED ? -1 : a.localeCompare(b)
+  );
+
+  // Hours a developer can work each day of the range; null until the capacity profiles load, and for unassigned work
+  const getDailyCapacity = (developer: string): number[] | null => {
+    const profile = developer !== UNASSIGNED && getProfile(developer);
+    return profile && capacity ? days.map(day => getDayCapacity(profile, capacity.team, toDay(day))) : null;
+  };
+
+  // Estimated hours per day for a developer, each task's estimate spread over the days of its bar they work.
+  // Parents with subtasks are skipped; their subtasks carry the estimates.
+  const getDailyLoad = (developerBars: TimelineBar[], dailyCapacity: number[] | null): number[] => {
+    const load = new Array(dayCount).fill(0);
+    for (const bar of developerBars) {
+      if (!bar.task.timeEstimate || bar.task.subtasks.length > 0 || isDone(bar.task)) continue;
+      const barDays = days.slice(bar.start, bar.end + 1).map((day, offset) => ({ day, index: bar.start + offset }));
+      const spread = barDays.filter(({ day, index }) => dailyCapacity ? dailyCapacity[index] > 0 : !isWeekend(day));
+      const target = spread.length > 0 ? spread : barDays;
+      for (const { index } of target) {
+        load[index] += bar.task.timeEstimate / (60 * 60 * 1000) / target.length;
+      }
+    }
+    return load;
+  };
+
+  const renderDayBackground = () => (
+    <div className="absolute inset-0 flex pointer-events-none">
+      {days.map((day, index) => (
+        <div
+          key={day}
+          className={cn(
+            "flex-shrink-0 border-r border-[var(--color-border-light)]",
+            isWeekend(day) && "bg-[var(--color-surface-hover)]",
+            index === todayIndex && "bg-[var(--color-primary-500)]/10"
+          )}
+          style={{ width: DAY_WIDTH }}
+        />
+      ))}
+    </div>
+  );
+
+  if (allTasks.length === 0) {
+    return (
+      <div className="py-12 text-center text-[var(--color-text-muted)]">
+        <p className="text-lg">No open tasks found</p>
+        <p className="text-sm mt-1">All tasks may be closed or there might be no tasks in this list</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-4 text-xs text-[var(--color-text-muted)]">
+        <span className="flex items-center space-x-1">
+          <span className="inline-block w-4 h-2 rounded-sm bg-[var(--color-primary-500)]" />
+          <span>Start to due date</span>
+        </span>
+        <span className="flex items-center space-x-1">
+          <span className="inline-block w-4 h-2 rounded-sm border border-dashed border-[var(--color-primary-500)] bg-[var(--color-primary-500)]/30" />
+          <span>Projected from estimate</span>
+        </span>
+        <span className="flex items-center space-x-1">
+          <span className="inline-block w-4 h-2 rounded-sm bg-[var(--color-error-500)]" />
+          <span>Overdue</span>
+        </span>
+        <span className="flex items-center space-x-1">
+          <span className="inline-block w-4 h-2 rounded-sm bg-[var(--color-warning-500)]" />
+          <span>Over daily capacity</span>
+        </span>
+        {unscheduled > 0 && <span>{unscheduled} tasks without dates not shown</span>}
+      </div>
+
+      <div className="overflow-x-auto border border-[var(--color-border)] rounded-lg">
+        <div style={{ width: `calc(16rem + ${dayCount * DAY_WIDTH}px)` }}>
+          {/* Day header */}
+          <div className="flex border-b border-[var(--color-border)] bg-[var(--color-surface-hover)] text-[10px] text-[var(--color-text-secondary)]">
+            <div className="w-64 flex-shrink-0 px-3 py-2 text-xs font-medium uppercase tracking-wide">Developer / Task</div>
+            {days.map((day, index) => {
+              const date = new Date(day);
+              return (
+                <div
+                  key={day}
+                  className={cn(
+                    "flex-shrink-0 py-1 text-center border-r border-[var(--color-border-light)]",
+                    index === todayIndex && "text-[var(--color-primary-600)] font-semibold"
+                  )}
+                  style={{ width: DAY_WIDTH }}
+                  title={date.toDateString()}
+                >
+                  <div>{date.getDate() === 1 || index === 0 ? date.toLocaleDateString(undefined, { month: 'short' }) : ' '}</div>
+                  <div>{date.getDate()}</div>
+                </div>
+              );
+            })}
+          </div>
+
+          {developers.map(developer => {
+            const developerBars = bars.filter(bar => (bar.task.developer || UNASSIGNED) === developer);
+            const dailyCapacity = getDailyCapacity(developer);
+            const load = getDailyLoad(developerBars, dailyCapacity);
+            const isOver = (index: number) => !!dailyCapacity && load[index] > dailyCapacity[index];
+            const overCapacityDays = load.filter((_, index) => isOver(index)).length;
+
+            return (
+              <div key={developer} className="border-b border-[var(--color-border)] last:border-b-0">
+                {/* Developer row with the daily load */}
+                <div className="flex items-stretch bg-[var(--color-surface-hover)]">
+                  <div className="w-64 flex-shrink-0 px-3 py-2 text-sm font-medium text-[var(--color-text-primary)]">
+                    {developer}
+                    {overCapacityDays > 0 && (
+                      <span className="ml-2 text-xs font-normal text-[var(--color-warning-600)]">
+                        over capacity {overCapacityDays}d
+                      </span>
+                    )}
+                  </div>
+                  {load.map((hours, index) => (
+                    <div
+                      key={days[index]}
+                      className={cn(
+                        "flex-shrink-0 flex items-end justify-center border-r border-[var(--color-border-light)] text-[10px]",
+                        isOver(index) ? "bg-[var(--color-warning-500)]/30 text-[var(--color-warning-600)] font-medium" : "text-[var(--color-text-muted)]"
+                      )}
+                      style={{ width: DAY_WIDTH }}
+                      title={hours > 0 ? `${hours.toFixed(1)}h estimated${dailyCapacity ? ` of ${dailyCapacity[index]}h` : ''}` : undefined}
+                    >
+                      {hours > 0 ? Math.round(hours) : ''}
+                    </div>
+                  ))}
+                </div>
+
+                {/* One row per task */}
+                {developerBars.map(bar => (
+                  <div key={bar.task.id} className="flex items-center h-9">
+                    <div className="w-64 flex-shrink-0 px-3 min-w-0">
+                      <button
+                        type="button"
+                        onClick={() => onTaskClick?.(bar.task.id)}
+                        className="block w-full text-left text-sm text-[var(--color-text-primary)] truncate hover:underline"
+                        title={bar.parentName ? `${bar.parentName} › ${bar.task.name}` : bar.task.name}
+                      >
+                        {bar.task.name}
+                      </button>
+                    </div>
+                    <div className="relative h-full flex-shrink-0" style={{ width: dayCount * DAY_WIDTH }}>
+                      {renderDayBackground()}
+                      <button
+                        type="button"
+                        onClick={() => onTaskClick?.(bar.task.id)}
+                        className={cn(
+                          "absolute top-2 h-5 rounded-sm text-[10px] text-white px-1 truncate text-left",
+                          bar.overdue
+                            ? "bg-[var(--color-error-500)]"
+                            : bar.estimated
+                              ? "border border-dashed border-[var(--color-primary-500)] bg-[var(--color-primary-500)]/30 text-[var(--color-text-primary)]"
+                              : "bg-[var(--color-primary-500)]"
+                        )}
+                        style={{ left: bar.start * DAY_WIDTH + 2, width: (bar.end - bar.start + 1) * DAY_WIDTH - 4 }}
+                        title={[
+                          bar.task.name,
+                          bar.task.status.toUpperCase(),
+                          bar.task.timeEstimate ? `Estimate ${formatTimeEstimate(bar.task.timeEstimate)}` : null,
+                          bar.overdue ? 'Overdue' : null,
+                        ].filter(Boolean).join(' · ')}
+                      >
+                        {bar.task.timeEstimate ? formatTimeEstimate(bar.task.timeEstimate) : ''}
+                      </button>
+                      {/* Overdue work runs on to today */}
+                      {bar.overdue && bar.end < todayIndex && (
+                        <div
+                          className="absolute top-[1.125rem] h-px border-t border-dashed border-[var(--color-error-500)]"
+                          style={{ left: (bar.end + 1) * DAY_WIDTH, width: (todayIndex - bar.end) * DAY_WIDTH }}
+                        />
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TaskTimeline;
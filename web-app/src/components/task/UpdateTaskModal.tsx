@@ -5,7 +5,14 @@ import { Calendar, Clock, User, Flag, Save, Loader2, Lock, ChevronDown, ChevronU
 import Modal from '@/components/ui/Modal';
 import { Button } from '@/components/ui/Button';
 import { cn } from '@/lib/utils';
+import { readCustomField } from '@/lib/custom-fields';
+import { useSession } from '@/components/SessionProvider';
+import StatusTimeline from '@/components/task/StatusTimeline';
+import ChangeHistory from '@/components/task/ChangeHistory';
+import CommentThread from '@/components/task/CommentThread';
+import CustomFieldInput, { CustomFieldFormValue, fromFormValue, toFormValue } from '@/components/task/CustomFieldInput';
 import { ClickUpTask, TaskUpdateData, ProcessedTask } from '@/types/clickup';
+import { EditableCustomField } from '@/types/settings';
 
 interface UpdateTaskModalProps {
   isOpen: boolean;
@@ -50,24 +57,16 @@ const UpdateTaskModal: React.FC<UpdateTaskModalProps> = ({
   const [developerOptions, setDeveloperOptions] = useState<Array<{ id: string | number; name: string; color?: string }>>([]);
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [originalData, setOriginalData] = useState<TaskFormData | null>(null);
-  const [isFullEditAllowed, setIsFullEditAllowed] = useState(false);
   const [parentTasks, setParentTasks] = useState<Array<{ id: string; name: string }>>([]);
   const [comment, setComment] = useState('');
-  const [username, setUsername] = useState('');
+  const [editableFields, setEditableFields] = useState<EditableCustomField[]>([]);
+  const [customFieldValues, setCustomFieldValues] = useState<Record<string, CustomFieldFormValue>>({});
+  const [originalCustomFieldValues, setOriginalCustomFieldValues] = useState<Record<string, CustomFieldFormValue>>({});
   const [detailsCollapsed, setDetailsCollapsed] = useState(true);
   const descriptionRef = useRef<HTMLTextAreaElement>(null);
- 
-   // Check if user has admin privileges for full editing
-   useEffect(() => {
-     if (typeof window !== 'undefined') {
-       const storedUsername = localStorage.getItem('trackingUser');
-       if (storedUsername) {
-         setUsername(storedUsername);
-       }
-      const isAdmin = localStorage.getItem('trackingAdmin') === 'true';
-      setIsFullEditAllowed(isAdmin);
-    }
-  }, [isOpen]); // Re-check when modal opens
+  const { can } = useSession();
+  const isFullEditAllowed = can('tasks:edit');
+  const isCommentAllowed = can('tasks:comment');
 
   // Priority options
   const priorities = [
@@ -92,12 +91,14 @@ const UpdateTaskModal: React.FC<UpdateTaskModalProps> = ({
     
     setLoadingData(true);
     try {
-      // Fetch developer options from the API
-      const response = await fetch('/api/tasks/developers');
+      // Fetch the task list's developer options and field from the API
+      let developerFieldId: string | undefined;
+      const response = await fetch(`/api/tasks/developers?listId=${encodeURIComponent(task.list?.id || '')}`);
       if (response.ok) {
         const data = await response.json();
         const sortedDevelopers = (data.developers || []).sort((a: { name: string; }, b: { name: string; }) => a.name.localeCompare(b.name));
         setDeveloperOptions(sortedDevelopers);
+        developerFieldId = data.fieldId;
       }
 
       // Fetch all tasks to get parent task options
@@ -124,31 +125,9 @@ const UpdateTaskModal: React.FC<UpdateTaskModalProps> = ({
 
       setStatuses(defaultStatuses.map(status => ({ ...status, color: '#64748b' })));
       
-      // Extract developer from custom fields
-      const developerField = task.custom_fields?.find(field =>
-        field.name.toLowerCase().includes('developer')
-      );
-      
-      let developerValue = '';
-      if (developerField?.value !== undefined && developerField?.value !== null) {
-        if (typeof developerField.value === 'string') {
-          // Find the name from the developer options based on the UUID
-          const matchingDev = developerOptions.find(d => d.id === developerField.value);
-          developerValue = matchingDev ? matchingDev.name : '';
-        } else if (typeof developerField.value === 'number') {
-          // The value is the orderindex of the dropdown option
-          if (developerField.type_config?.options && Array.isArray(developerField.type_config.options)) {
-            const options = developerField.type_config.options as Array<{
-              orderindex?: number;
-              name: string;
-            }>;
-            const matchingOption = options.find((opt) => opt.orderindex === developerField.value);
-            if (matchingOption) {
-              developerValue = matchingOption.name;
-            }
-          }
-        }
-      }
+      // Extract developer from the configured developer field
+      const developerField = task.custom_fields?.find(field => field.id === developerFieldId);
+      const developerValue = readCustomField(developerField).display;
 
       // Convert time estimate from milliseconds to hours
       const timeEstimateHours = task.time_estimate ? (task.time_estimate / (60 * 60 * 1000)).toString() : '';
@@ -232,13 +211,29 @@ const UpdateTaskModal: React.FC<UpdateTaskModalProps> = ({
 
       setFormData(taskFormData);
       setOriginalData(taskFormData);
+
+      // Custom fields marked editable in Settings, with the task's current values
+      let fields: EditableCustomField[] = [];
+      if (isFullEditAllowed) {
+        const fieldsResponse = await fetch(`/api/tasks/fields?listId=${encodeURIComponent(task.list?.id || '')}`);
+        if (fieldsResponse.ok) {
+          fields = (await fieldsResponse.json()).fields || [];
+        }
+      }
+      const fieldValues: Record<string, CustomFieldFormValue> = {};
+      for (const field of fields) {
+        fieldValues[field.name] = toFormValue(field, readCustomField(task.custom_fields?.find(f => f.id === field.id)));
+      }
+      setEditableFields(fields);
+      setCustomFieldValues(fieldValues);
+      setOriginalCustomFieldValues(fieldValues);
     } catch (error) {
       console.error('Error loading task data:', error);
       setErrors({ load: 'Failed to load task data' });
     } finally {
       setLoadingData(false);
     }
-  }, [task, developerOptions]);
+  }, [task, isFullEditAllowed]);
 
   // Auto-resize textarea when content changes
   useEffect(() => {
@@ -309,6 +304,13 @@ const UpdateTaskModal: React.FC<UpdateTaskModalProps> = ({
       changes.parent = formData.parent || undefined;
     }
     
+    for (const field of editableFields) {
+      const value = customFieldValues[field.name];
+      if (JSON.stringify(value) !== JSON.stringify(originalCustomFieldValues[field.name])) {
+        changes.customFields = { ...changes.customFields, [field.name]: fromFormValue(field, value) };
+      }
+    }
+    
     if (formData.inProgressSince !== originalData.inProgressSince) {
       // This will be handled specially, not as a direct ClickUp field
       // We can add a custom property if needed, e.g., changes.inProgressSince = ...
@@ -375,8 +377,8 @@ const UpdateTaskModal: React.FC<UpdateTaskModalProps> = ({
      try {
        const updateData: TaskUpdateData = {};
        if (comment.trim() !== '') {
-         updateData.description = `${formData.description}\n\n${username} Says: ${comment}`;
-         updateData.comment = `${username} Says: ${comment}`;
+         // The server signs the comment with the session user and posts it to the ClickUp thread
+         updateData.comment = comment;
        }
        const response = await fetch(`/api/tasks/${task.id}`, {
          method: 'PUT',
@@ -400,8 +402,8 @@ const UpdateTaskModal: React.FC<UpdateTaskModalProps> = ({
      try {
        const updateData: TaskUpdateData = { status: 'IN REVIEW' };
        if (comment.trim() !== '') {
-         updateData.description = `${formData.description}\n\n${username} Says: ${comment}`;
-         updateData.comment = `${username} Says: ${comment}`;
+         // The server signs the comment with the session user and posts it to the ClickUp thread
+         updateData.comment = comment;
        }
        
        const response = await fetch(`/api/tasks/${task.id}`, {
@@ -625,20 +627,22 @@ const UpdateTaskModal: React.FC<UpdateTaskModalProps> = ({
                 )}
               </div>
 
-              {/* Comment Box (always visible for non-admin) */}
-              <div>
-                <label className="block text-sm font-medium text-[var(--color-text-primary)] mb-2">
-                  Add Comment
-                </label>
-                <textarea
-                  value={comment}
-                  onChange={(e) => setComment(e.target.value)}
-                  rows={3}
-                  className="w-full px-3 py-2 border border-[var(--color-border)] rounded-md bg-[var(--color-surface)] text-[var(--color-text-primary)] placeholder:text-[var(--color-text-muted)] focus:outline-none focus:ring-2 focus:ring-[var(--color-primary-500)] transition-colors resize-none"
-                  placeholder="Enter your comment here..."
-                  disabled={loading}
-                />
-              </div>
+              {/* Comment Box (visible to users who can comment) */}
+              {isCommentAllowed && (
+                <div>
+                  <label className="block text-sm font-medium text-[var(--color-text-primary)] mb-2">
+                    Add Comment
+                  </label>
+                  <textarea
+                    value={comment}
+                    onChange={(e) => setComment(e.target.value)}
+                    rows={3}
+                    className="w-full px-3 py-2 border border-[var(--color-border)] rounded-md bg-[var(--color-surface)] text-[var(--color-text-primary)] placeholder:text-[var(--color-text-muted)] focus:outline-none focus:ring-2 focus:ring-[var(--color-primary-500)] transition-colors resize-none"
+                    placeholder="Enter your comment here..."
+                    disabled={loading}
+                  />
+                </div>
+              )}
             </>
           ) : (
             <>
@@ -797,9 +801,39 @@ const UpdateTaskModal: React.FC<UpdateTaskModalProps> = ({
                   </select>
                 </div>
               </div>
+
+              {/* Custom fields marked editable in Settings */}
+              {editableFields.length > 0 && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {editableFields.map((field) => (
+                    <div key={field.id}>
+                      <label className="block text-sm font-medium text-[var(--color-text-primary)] mb-2">
+                        {field.name}
+                      </label>
+                      <CustomFieldInput
+                        field={field}
+                        value={customFieldValues[field.name]}
+                        onChange={(value) => setCustomFieldValues(prev => ({ ...prev, [field.name]: value }))}
+                        disabled={loading}
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
             </>
           )}
 
+          {/* ClickUp comment thread */}
+          <CommentThread taskId={task.id} />
+
+          {/* Status History */}
+          <StatusTimeline taskId={task.id} />
+
+          {/* Edits from the activity log, with revert */}
+          {isFullEditAllowed && (
+            <ChangeHistory taskId={task.id} onReverted={onTaskUpdated} />
+          )}
+
           {/* Error Message */}
           {errors.submit && (
             <div className="p-3 bg-[var(--color-error-50)] border border-[var(--color-error-200)] rounded-md">
@@ -826,7 +860,7 @@ const UpdateTaskModal: React.FC<UpdateTaskModalProps> = ({
                 <Save className="w-4 h-4 mr-1" />
                 Update Task
               </Button>
-            ) : (
+            ) : isCommentAllowed && (
               <>
                 {formData.status !== 'IN REVIEW' && (
                  <Button
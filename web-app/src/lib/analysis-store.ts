@@ -0,0 +1,53 @@
+import { randomUUID } from 'crypto';
+import { deleteDocument, readDocument, writeDocument } from '@/lib/storage';
+import { AnalysisSummary, StoredAnalysis } from '@/types/analysis';
+
+// The index lists every kept analysis; each analysis (with its input report) is its own document
+const ANALYSIS_INDEX_KEY = 'analysis:index';
+const MAX_STORED_ANALYSES = Number(process.env.ANALYSIS_HISTORY_LIMIT || 60);
+
+function getAnalysisKey(id: string): string {
+  return `analysis:${id}`;
+}
+
+export function createAnalysisId(): string {
+  return randomUUID();
+}
+
+/**
+ * Summaries of the stored analyses, newest first
+ */
+export async function listAnalyses(): Promise<AnalysisSummary[]> {
+  return (await readDocument<AnalysisSummary[]>(ANALYSIS_INDEX_KEY)) || [];
+}
+
+export async function getAnalysis(id: string): Promise<StoredAnalysis | null> {
+  return readDocument<StoredAnalysis>(getAnalysisKey(id));
+}
+
+/**
+ * Store an analysis with its input report, dropping the oldest beyond ANALYSIS_HISTORY_LIMIT
+ * @param analysis - The generated analysis
+ */
+export async function saveAnalysis(analysis: StoredAnalysis): Promise<void> {
+  await writeDocument(getAnalysisKey(analysis.id), analysis);
+
+  const summary: AnalysisSummary = {
+    id: analysis.id,
+    createdAt: analysis.createdAt,
+    createdBy: analysis.createdBy,
+    provider: analysis.provider,
+    model: analysis.model,
+    lists: analysis.lists,
+    reviewStartTime: analysis.reviewStartTime,
+    durationMs: analysis.durationMs,
+    status: analysis.status,
+    error: analysis.error,
+  };
+  const index = [summary, ...(await listAnalyses()).filter(item => item.id !== analysis.id)];
+  await writeDocument(ANALYSIS_INDEX_KEY, index.slice(0, MAX_STORED_ANALYSES));
+
+  for (const expired of index.slice(MAX_STORED_ANALYSES)) {
+    await deleteDocument(getAnalysisKey(expired.id));
+  }
+}
@@ -0,0 +1,188 @@
+import { createHmac, randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { readDocument, writeDocument } from '@/lib/storage';
+import { Permission, Role, SessionUser, StoredUser } from '@/types/auth';
+
+export const SESSION_COOKIE = 'tracker_session';
+const SESSION_MAX_AGE_SECONDS = 60 * 60 * 24 * 7; // 1 week
+const USERS_DOCUMENT_KEY = 'auth:users';
+
+export const ROLES: Role[] = ['viewer', 'developer', 'admin'];
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  viewer: ['tasks:read', 'logs:read'],
+  developer: ['tasks:read', 'logs:read', 'tasks:create', 'tasks:comment'],
+  admin: [
+    'tasks:read',
+    'logs:read',
+    'tasks:create',
+    'tasks:comment',
+    'tasks:edit',
+    'logs:overwrite',
+    'prompt:edit',
+    'reports:read',
+    'reports:generate',
+    'reports:post',
+    'meetings:write',
+    'settings:manage',
+  ],
+};
+
+export function hasPermission(user: SessionUser | null, permission: Permission): boolean {
+  return !!user && ROLE_PERMISSIONS[user.role]?.includes(permission);
+}
+
+function getSessionSecret(): string {
+  const secret = process.env.SESSION_SECRET || process.env.JWT_SECRET;
+  if (secret) {
+    return secret;
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('SESSION_SECRET is required in production');
+  }
+  console.warn('SESSION_SECRET is not set, using an insecure development secret');
+  return 'insecure-development-session-secret';
+}
+
+// Users that sign in with just a name get this role ("none" disables name-only sign-in).
+// Unset, guests may only look around, and only until the first account is registered
+function getGuestRole(hasUsers: boolean): Role | null {
+  const guestRole = process.env.TRACKER_GUEST_ROLE || (hasUsers ? 'none' : 'viewer');
+  return ROLES.includes(guestRole as Role) ? guestRole as Role : null;
+}
+
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16).toString('hex');
+  const hash = scryptSync(password, salt, 64).toString('hex');
+  return `scrypt$${salt}$${hash}`;
+}
+
+function verifyPassword(password: string, passwordHash: string): boolean {
+  const [scheme, salt, hash] = passwordHash.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'hex');
+  const actual = scryptSync(password, salt, expected.length);
+  return timingSafeEqual(expected, actual);
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const aBuffer = Buffer.from(a);
+  const bBuffer = Buffer.from(b);
+  return aBuffer.length === bBuffer.length && timingSafeEqual(aBuffer, bBuffer);
+}
+
+export async function getUsers(): Promise<StoredUser[]> {
+  return (await readDocument<StoredUser[]>(USERS_DOCUMENT_KEY)) || [];
+}
+
+export async function saveUsers(users: StoredUser[]): Promise<void> {
+  await writeDocument(USERS_DOCUMENT_KEY, users);
+}
+
+/**
+ * Check credentials against the bootstrap admin (env), the stored users and finally guest access
+ * @returns Promise<SessionUser | null> - null when the credentials are rejected
+ */
+export async function authenticate(username: string, password?: string): Promise<SessionUser | null> {
+  const name = username.trim();
+  if (!name) return null;
+
+  // Bootstrap admin from the environment, so there is always a way in
+  const adminUsername = process.env.TRACKER_ADMIN_USERNAME;
+  const adminPassword = process.env.TRACKER_ADMIN_PASSWORD;
+  if (adminUsername && adminPassword && name.toLowerCase() === adminUsername.toLowerCase()) {
+    return password && safeEqual(password, adminPassword) ? { username: adminUsername, role: 'admin' } : null;
+  }
+
+  const users = await getUsers();
+  const user = users.find(u => u.username.toLowerCase() === name.toLowerCase());
+  if (user) {
+    return password && verifyPassword(password, user.passwordHash)
+      ? { username: user.username, role: user.role }
+      : null;
+  }
+
+  const guestRole = getGuestRole(users.length > 0);
+  if (guestRole && !password) {
+    return { username: name, role: guestRole };
+  }
+  return null;
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', getSessionSecret()).update(payload).digest('base64url');
+}
+
+export function createSessionToken(user: SessionUser): string {
+  const payload = Buffer.from(JSON.stringify({
+    username: user.username,
+    role: user.role,
+    exp: Date.now() + SESSION_MAX_AGE_SECONDS * 1000,
+  })).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+}
+
+export function readSessionToken(token: string | undefined): SessionUser | null {
+  if (!token) return null;
+
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature || !safeEqual(signature, sign(payload))) {
+    return null;
+  }
+
+  try {
+    const data = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if (typeof data.exp !== 'number' || data.exp < Date.now() || !ROLES.includes(data.role)) {
+      return null;
+    }
+    return { username: data.username, role: data.role };
+  } catch {
+    return null;
+  }
+}
+
+export function getSession(request: NextRequest): SessionUser | null {
+  return readSessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+}
+
+export function setSessionCookie(response: NextResponse, user: SessionUser): void {
+  response.cookies.set(SESSION_COOKIE, createSessionToken(user), {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: SESSION_MAX_AGE_SECONDS,
+  });
+}
+
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(SESSION_COOKIE, '', { httpOnly: true, path: '/', maxAge: 0 });
+}
+
+/**
+ * Route guard: returns the session user, or the 401/403 response to send back.
+ *
+ *   const session = requirePermission(request, 'tasks:edit');
+ *   if (session instanceof NextResponse) return session;
+ */
+export function requirePermission(request: NextRequest, permission: Permission): SessionUser | NextResponse {
+  const user = getSession(request);
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Not signed in' },
+      { status: 401 }
+    );
+  }
+  if (!hasPermission(user, permission)) {
+    return NextResponse.json(
+      { error: 'You do not have permission to perform this action' },
+      { status: 403 }
+    );
+  }
+  return user;
+}
+
+export function getPermissions(user: SessionUser): Permission[] {
+  return ROLE_PERMISSIONS[user.role] || [];
+}
@@ -1,54 +1,18 @@
-import { createClient, RedisClientType } from 'redis';
+import { randomUUID } from 'crypto';
+import { LogAction, LogEntry, LogEntryOptions, LogQuery } from '@/types/logs';
+import { LogArchive } from '@/types/jobs';
+import { getRedisClient, shouldUseRedisStorage, getEnvironmentKey, readDocument, writeDocument } from '@/lib/storage';
 
-let redisClient: RedisClientType | null = null;
+// Legacy key: the log used to be a single appended markdown string
+const LEGACY_LOG_KEY = getEnvironmentKey('logs:task-changes');
+// Structured log entries live in a sorted set scored by timestamp
+const LOG_KEY = getEnvironmentKey('logs:task-entries');
+const LOCAL_LOG_FILE = 'task-changes.jsonl';
+const LEGACY_LOCAL_LOG_FILE = 'task-changes.md';
+// Entries moved out of the live log by log retention, one document per archiving day
+const LOG_ARCHIVE_INDEX_KEY = 'logs:archive:index';
 
-// Create and connect a Redis client, reusing the connection
-async function getRedisClient(): Promise<RedisClientType> {
-  if (redisClient && redisClient.isOpen) {
-    return redisClient;
-  }
-  
-  redisClient = createClient({ url: process.env.REDIS_URL });
-  
-  redisClient.on('error', (err) => console.error('Redis Client Error', err));
-  
-  await redisClient.connect();
-  return redisClient;
-}
-
-// Use different keys for different environments
-const getLogKey = () => {
-  const env = process.env.VERCEL_ENV || 'development';
-  
-  switch (env) {
-    case 'production':
-      return 'logs:task-changes';
-    case 'preview':
-      return 'logs:task-changes-preview';
-    default:
-      return 'logs:task-changes-dev';
-  }
-};
-
-const LOG_KEY = getLogKey();
-const getPromptKey = () => {
-  const env = process.env.VERCEL_ENV || 'development';
-  
-  switch (env) {
-    case 'production':
-      return 'llm:prompt';
-    case 'preview':
-      return 'llm:prompt-preview';
-    default:
-      return 'llm:prompt-dev';
-  }
-};
-
-const PROMPT_KEY = getPromptKey();
-
-function shouldUseRedisStorage(): boolean {
-  return !!process.env.REDIS_URL;
-}
+const PROMPT_KEY = getEnvironmentKey('llm:prompt');
 
 export function getEnvironmentInfo(): {
   environment: string;
@@ -58,21 +22,24 @@ export function getEnvironmentInfo(): {
   return {
     environment: process.env.VERCEL_ENV || 'development',
     storageType: shouldUseRedisStorage() ? 'redis' : 'local',
-    filename: LOG_KEY,
+    filename: shouldUseRedisStorage() ? LOG_KEY : `logs/${LOCAL_LOG_FILE}`,
   };
 }
 
-interface LogEntry {
-  taskId: string;
-  action: 'CREATE' | 'UPDATE' | 'MANUAL UPDATE';
-  timestamp: string;
-  changes: Record<string, unknown>;
-  comment?: string;
+export const LOG_ACTIONS: LogAction[] = ['CREATE', 'UPDATE', 'MANUAL UPDATE', 'DELETE', 'REVERT'];
+
+function createLogEntryId(): string {
+  return randomUUID();
 }
 
-function formatLogEntry(entry: LogEntry): string {
+/**
+ * Render a single log entry as markdown (the format the log used to be stored in).
+ * The editable view keeps every change, the entry's ID and its before-image, so saving it back loses nothing;
+ * the summary view (for LLM prompts) leaves out IDs, raw custom fields and parents.
+ */
+export function formatLogEntry(entry: LogEntry, editable: boolean = false): string {
   const changesList = Object.entries(entry.changes)
-    .filter(([key]) => key !== 'custom_fields' && key !== 'parent')
+    .filter(([key]) => editable || (key !== 'custom_fields' && key !== 'parent'))
     .map(([key, value]) => {
       if (typeof value === 'string') {
         const cleanValue = value.replace(/\n+$/, '');
@@ -82,18 +49,213 @@ function formatLogEntry(entry: LogEntry): string {
     })
     .join('\n');
   
-  return `\n## ${entry.action} Task ${entry.taskId} - ${entry.timestamp}\n${changesList}${entry.comment ? `\nComment: ${entry.comment}` : ''}\n`;
+  return `\n## ${entry.action} Task ${entry.taskId} - ${entry.timestamp}\n${changesList}${entry.actor ? `\nActor: ${entry.actor}` : ''}${entry.source && entry.source !== 'tracker' ? `\nSource: ${entry.source}` : ''}${editable ? `\nId: ${entry.id}` : ''}${editable && entry.before ? `\nBefore: ${JSON.stringify(entry.before)}` : ''}${entry.comment ? `\nComment: ${entry.comment}` : ''}\n`;
+}
+
+/**
+ * Render a list of log entries as the markdown log view
+ */
+export function formatLogEntries(entries: LogEntry[], editable: boolean = false): string {
+  return entries.map(entry => formatLogEntry(entry, editable)).join('');
+}
+
+function parseMarkdownValue(raw: string): unknown {
+  if (raw.length >= 2 && raw.startsWith('"') && raw.endsWith('"')) {
+    return raw.slice(1, -1);
+  }
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+/**
+ * Parse the markdown log view back into structured entries.
+ * Used to import the legacy markdown log and to save edits made in the log editor.
+ * Entries keep the ID from their Id: line, so references to them (e.g. from REVERT entries) survive an edit;
+ * entries without one get a new ID.
+ */
+export function parseLogMarkdown(content: string): LogEntry[] {
+  const entries: LogEntry[] = [];
+  const headerRegex = /^## (CREATE|UPDATE|MANUAL UPDATE|DELETE|REVERT) Task (\S+) - (\S+)\s*$/;
+  const changeRegex = /^  - ([^:]+): (.*)$/;
+
+  let current: LogEntry | null = null;
+  let pendingKey: string | null = null;
+  let pendingValue = '';
+  let inComment = false;
+
+  const flushPending = () => {
+    if (current && pendingKey !== null) {
+      // Trailing blank lines belong to the separator, not the value
+      current.changes[pendingKey] = parseMarkdownValue(pendingValue.replace(/\n+$/, ''));
+    }
+    pendingKey = null;
+    pendingValue = '';
+  };
+
+  for (const line of content.split('\n')) {
+    const header = line.match(headerRegex);
+    if (header) {
+      flushPending();
+      inComment = false;
+      const [, action, taskId, timestamp] = header;
+      current = {
+        id: createLogEntryId(),
+        taskId,
+        action: action as LogAction,
+        timestamp,
+        changes: {},
+      };
+      entries.push(current);
+      continue;
+    }
+
+    // Anything before the first entry header (titles, preamble) is ignored
+    if (!current) continue;
+
+    const change = line.match(changeRegex);
+    if (change && !inComment) {
+      flushPending();
+      pendingKey = change[1].trim();
+      pendingValue = change[2];
+    } else if (line.startsWith('Actor: ') && !inComment) {
+      flushPending();
+      current.actor = line.substring('Actor: '.length).trim();
+    } else if (line.startsWith('Id: ') && !inComment) {
+      flushPending();
+      current.id = line.substring('Id: '.length).trim() || current.id;
+    } else if (line.startsWith('Before: ') && !inComment) {
+      flushPending();
+      const before = parseMarkdownValue(line.substring('Before: '.length).trim());
+      if (before && typeof before === 'object' && !Array.isArray(before)) {
+        current.before = before as Record<string, unknown>;
+      }
+    } else if (line.startsWith('Source: ') && !inComment) {
+      flushPending();
+      const source = line.substring('Source: '.length).trim();
+      if (source === 'tracker' || source === 'clickup') {
+        current.source = source;
+      }
+    } else if (line.startsWith('Comment: ')) {
+      flushPending();
+      inComment = true;
+      current.comment = line.substring('Comment: '.length);
+    } else if (inComment) {
+      current.comment = `${current.comment}\n${line}`;
+    } else if (pendingKey !== null) {
+      // Multi-line string values continue until the next change line
+      pendingValue = `${pendingValue}\n${line}`;
+    }
+  }
+  flushPending();
+
+  // An entry pasted in twice keeps its ID only once
+  const seenIds = new Set<string>();
+  for (const entry of entries) {
+    if (seenIds.has(entry.id)) entry.id = createLogEntryId();
+    seenIds.add(entry.id);
+  }
+
+  return entries.map(entry => ({
+    ...entry,
+    comment: entry.comment?.replace(/\n+$/, '') || undefined,
+  }));
+}
+
+function isLogEntry(value: unknown): value is LogEntry {
+  const entry = value as Partial<LogEntry> | null;
+  return !!entry &&
+    typeof entry.taskId === 'string' &&
+    typeof entry.timestamp === 'string' &&
+    LOG_ACTIONS.includes(entry.action as LogAction);
+}
+
+function parseStoredEntry(raw: string): LogEntry | null {
+  try {
+    const parsed = JSON.parse(raw);
+    return isLogEntry(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function sortEntries(entries: LogEntry[]): LogEntry[] {
+  return entries.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+}
+
+async function getLocalLogPath(fileName: string): Promise<string> {
+  const fs = await import('fs/promises');
+  const path = await import('path');
+  const logDir = path.join(process.cwd(), 'logs');
+  await fs.mkdir(logDir, { recursive: true });
+  return path.join(logDir, fileName);
+}
+
+let legacyImport: Promise<void> | null = null;
+
+/**
+ * One-time import of the legacy markdown log into the structured store.
+ * Only runs when the structured store is still empty.
+ */
+function importLegacyLog(): Promise<void> {
+  if (!legacyImport) {
+    legacyImport = (async () => {
+      if (shouldUseRedisStorage()) {
+        const client = await getRedisClient();
+        const [entryCount, legacyType] = await Promise.all([
+          client.zCard(LOG_KEY),
+          client.type(LEGACY_LOG_KEY),
+        ]);
+        if (entryCount > 0 || legacyType !== 'string') return;
+
+        const legacyContent = await client.get(LEGACY_LOG_KEY);
+        const entries = parseLogMarkdown(legacyContent || '');
+        if (entries.length > 0) {
+          await client.zAdd(LOG_KEY, entries.map(entry => ({
+            score: new Date(entry.timestamp).getTime(),
+            value: JSON.stringify(entry),
+          })));
+        }
+        // Keep the original text around, but never import it twice
+        await client.rename(LEGACY_LOG_KEY, `${LEGACY_LOG_KEY}:imported`);
+        console.log(`Imported ${entries.length} legacy log entries into Redis`);
+      } else {
+        const fs = await import('fs/promises');
+        const logFile = await getLocalLogPath(LOCAL_LOG_FILE);
+        const legacyFile = await getLocalLogPath(LEGACY_LOCAL_LOG_FILE);
+        try {
+          await fs.access(logFile);
+          return; // Already have structured entries
+        } catch {
+          // Fall through to import
+        }
+
+        let legacyContent = '';
+        try {
+          legacyContent = await fs.readFile(legacyFile, 'utf8');
+        } catch {
+          return; // Nothing to import
+        }
+
+        const entries = parseLogMarkdown(legacyContent);
+        await fs.writeFile(logFile, entries.map(entry => JSON.stringify(entry) + '\n').join(''), 'utf8');
+        console.log(`Imported ${entries.length} legacy log entries into ${LOCAL_LOG_FILE}`);
+      }
+    })().catch(error => {
+      console.error('Error importing legacy log:', error);
+      legacyImport = null; // Retry on the next access
+    });
+  }
+  return legacyImport;
 }
 
 async function logToLocalFile(entry: LogEntry): Promise<void> {
   try {
     const fs = await import('fs/promises');
-    const path = await import('path');
-    const logDir = path.join(process.cwd(), 'logs');
-    const logFile = path.join(logDir, 'task-changes.md');
-    await fs.mkdir(logDir, { recursive: true });
-    const logContent = formatLogEntry(entry);
-    await fs.appendFile(logFile, logContent, 'utf8');
+    const logFile = await getLocalLogPath(LOCAL_LOG_FILE);
+    await fs.appendFile(logFile, JSON.stringify(entry) + '\n', 'utf8');
     console.log(`Successfully logged to local file: ${entry.action} ${entry.taskId}`);
   } catch (error) {
     console.error('Error logging to local file:', error);
@@ -103,16 +265,31 @@ async function logToLocalFile(entry: LogEntry): Promise<void> {
 export async function logTaskChange(
   taskId: string,
   changes: Record<string, unknown>,
-  action: 'CREATE' | 'UPDATE' | 'MANUAL UPDATE' = 'UPDATE',
-  comment?: string
+  action: LogAction = 'UPDATE',
+  comment?: string,
+  options: LogEntryOptions = {}
 ): Promise<void> {
-  const entry: LogEntry = { taskId, action, timestamp: new Date().toISOString(), changes, comment };
+  const entry: LogEntry = {
+    id: createLogEntryId(),
+    taskId,
+    action,
+    timestamp: options.timestamp || new Date().toISOString(),
+    changes,
+    comment,
+    actor: options.actor,
+    source: options.source || 'tracker',
+    before: options.before,
+  };
   
+  await importLegacyLog();
+
   if (shouldUseRedisStorage()) {
     try {
       const client = await getRedisClient();
-      const logContent = formatLogEntry(entry);
-      await client.append(LOG_KEY, logContent);
+      await client.zAdd(LOG_KEY, {
+        score: new Date(entry.timestamp).getTime(),
+        value: JSON.stringify(entry),
+      });
       console.log(`Successfully logged to Redis: ${entry.action} ${entry.taskId}`);
     } catch (error) {
       console.error('Redis failed, attempting local file fallback:', error);
@@ -124,54 +301,201 @@ export async function logTaskChange(
   }
 }
 
-export async function getLogsFromLocal(): Promise<string> {
+async function getEntriesFromLocal(): Promise<LogEntry[]> {
   try {
     const fs = await import('fs/promises');
-    const path = await import('path');
-    const logFile = path.join(process.cwd(), 'logs', 'task-changes.md');
-    return await fs.readFile(logFile, 'utf8');
+    const logFile = await getLocalLogPath(LOCAL_LOG_FILE);
+    const content = await fs.readFile(logFile, 'utf8');
+    return content
+      .split('\n')
+      .filter(line => line.trim() !== '')
+      .map(parseStoredEntry)
+      .filter((entry): entry is LogEntry => entry !== null);
   } catch {
-    return '';
+    return [];
   }
 }
 
-export async function getAllLogs(): Promise<string> {
+async function getEntriesFromRedis(since?: Date, until?: Date): Promise<LogEntry[]> {
+  const client = await getRedisClient();
+  const rawEntries = await client.zRange(
+    LOG_KEY,
+    since ? since.getTime() : '-inf',
+    until ? until.getTime() : '+inf',
+    { BY: 'SCORE' }
+  );
+  return rawEntries
+    .map(parseStoredEntry)
+    .filter((entry): entry is LogEntry => entry !== null);
+}
+
+export async function getLogArchives(): Promise<LogArchive[]> {
+  return (await readDocument<LogArchive[]>(LOG_ARCHIVE_INDEX_KEY)) || [];
+}
+
+// Archives only change when log retention runs, so they are read once per index version
+let archiveCache: { version: string; entries: LogEntry[] } | null = null;
+
+async function getArchivedEntries(since?: Date): Promise<LogEntry[]> {
+  const archives = await getLogArchives();
+  // Nothing archived is newer than the latest cutoff
+  if (archives.length === 0 || (since && archives.every(archive => new Date(archive.before) <= since))) {
+    return [];
+  }
+
+  const version = JSON.stringify(archives);
+  if (archiveCache?.version !== version) {
+    const keys = Array.from(new Set(archives.map(archive => archive.key)));
+    const documents = await Promise.all(keys.map(key => readDocument<LogEntry[]>(key)));
+    archiveCache = { version, entries: documents.flatMap(document => document || []).filter(isLogEntry) };
+  }
+  return archiveCache.entries;
+}
+
+/**
+ * Read structured log entries, oldest first, optionally filtered
+ * @param query - Filter by task, action, actor and time range
+ * @returns Promise<LogEntry[]>
+ */
+export async function getLogEntries(query: LogQuery = {}): Promise<LogEntry[]> {
+  await importLegacyLog();
+
+  let entries: LogEntry[];
   if (shouldUseRedisStorage()) {
     try {
-      const client = await getRedisClient();
-      const logs = await client.get(LOG_KEY);
-      return logs || '';
+      entries = await getEntriesFromRedis(query.since, query.until);
     } catch (error) {
       console.error('Error reading from Redis:', error);
-      return '';
+      return [];
     }
+  } else {
+    entries = await getEntriesFromLocal();
   }
-  return await getLogsFromLocal();
+
+  if (query.includeArchived) {
+    try {
+      entries = [...(await getArchivedEntries(query.since)), ...entries];
+    } catch (error) {
+      console.error('Error reading archived log entries:', error);
+    }
+  }
+
+  const sinceTime = query.since?.getTime();
+  const untilTime = query.until?.getTime();
+  const actor = query.actor?.toLowerCase();
+
+  const filtered = sortEntries(entries).filter(entry => {
+    const time = new Date(entry.timestamp).getTime();
+    if (sinceTime !== undefined && time < sinceTime) return false;
+    if (untilTime !== undefined && time > untilTime) return false;
+    if (query.taskId && entry.taskId !== query.taskId) return false;
+    if (query.action && entry.action !== query.action) return false;
+    if (actor && entry.actor?.toLowerCase() !== actor) return false;
+    if (query.source && (entry.source || 'tracker') !== query.source) return false;
+    return true;
+  });
+
+  return query.limit ? filtered.slice(-query.limit) : filtered;
+}
+
+/**
+ * Markdown view of the whole log for the log editor, rendered from the structured entries
+ */
+export async function getAllLogs(): Promise<string> {
+  const entries = await getLogEntries();
+  return formatLogEntries(entries, true);
 }
 
+/**
+ * Replace the whole log with the entries parsed from an edited markdown view
+ */
 export async function overwriteLogs(content: string): Promise<void> {
+  await importLegacyLog();
+
+  const entries = parseLogMarkdown(content);
+  if (shouldUseRedisStorage()) {
+    const client = await getRedisClient();
+    const multi = client.multi().del(LOG_KEY);
+    if (entries.length > 0) {
+      multi.zAdd(LOG_KEY, entries.map(entry => ({
+        score: new Date(entry.timestamp).getTime(),
+        value: JSON.stringify(entry),
+      })));
+    }
+    await multi.exec();
+  } else {
+    const fs = await import('fs/promises');
+    const logFile = await getLocalLogPath(LOCAL_LOG_FILE);
+    await fs.writeFile(logFile, entries.map(entry => JSON.stringify(entry) + '\n').join(''), 'utf8');
+  }
+}
+
+/**
+ * Move entries older than a cutoff into the archive, for log retention. The archive is written
+ * before anything leaves the live log, so a failed write loses nothing; entries archived by a run
+ * whose removal failed are not archived twice.
+ * @param before - Entries timestamped before this are archived
+ * @param now - When the archive is made; names its document
+ * @returns Promise<LogArchive | null> - null when nothing was old enough
+ */
+export async function archiveLogEntriesBefore(before: Date, now: Date): Promise<LogArchive | null> {
+  await importLegacyLog();
+
+  const expiring = await getLogEntries({ until: new Date(before.getTime() - 1) });
+  if (expiring.length === 0) return null;
+
+  const key = `logs:archive:${now.toISOString().split('T')[0]}`;
+  const existing = (await readDocument<LogEntry[]>(key)) || [];
+  const existingIds = new Set(existing.map(entry => entry.id));
+  const added = expiring.filter(entry => !existingIds.has(entry.id));
+  await writeDocument(key, [...existing, ...added]);
+
+  const archive: LogArchive = {
+    key,
+    archivedAt: now.toISOString(),
+    before: before.toISOString(),
+    entries: existing.length + added.length,
+  };
+  const index = await getLogArchives();
+  await writeDocument(LOG_ARCHIVE_INDEX_KEY, [archive, ...index.filter(candidate => candidate.key !== key)]);
+
+  await removeLogEntriesBefore(before);
+  return { ...archive, entries: expiring.length };
+}
+
+/**
+ * Remove entries older than a cutoff, for log retention
+ * @param before - Entries timestamped before this are removed
+ * @returns Promise<LogEntry[]> - The removed entries, oldest first
+ */
+export async function removeLogEntriesBefore(before: Date): Promise<LogEntry[]> {
+  await importLegacyLog();
+
+  const removed = await getLogEntries({ until: new Date(before.getTime() - 1) });
+  if (removed.length === 0) return [];
+
   if (shouldUseRedisStorage()) {
     const client = await getRedisClient();
-    await client.set(LOG_KEY, content);
+    await client.zRemRangeByScore(LOG_KEY, '-inf', `(${before.getTime()}`);
   } else {
     const fs = await import('fs/promises');
-    const path = await import('path');
-    const logDir = path.join(process.cwd(), 'logs');
-    const logFile = path.join(logDir, 'task-changes.md');
-    await fs.mkdir(logDir, { recursive: true });
-    await fs.writeFile(logFile, content, 'utf8');
+    const logFile = await getLocalLogPath(LOCAL_LOG_FILE);
+    const kept = (await getEntriesFromLocal()).filter(entry => new Date(entry.timestamp) >= before);
+    await fs.writeFile(logFile, kept.map(entry => JSON.stringify(entry) + '\n').join(''), 'utf8');
   }
+  return removed;
 }
 
 export async function getLogMetadata(): Promise<{
   size?: number;
+  entries: number;
   source: 'redis' | 'local';
 } | null> {
   if (shouldUseRedisStorage()) {
     try {
       const client = await getRedisClient();
-      const size = await client.strLen(LOG_KEY);
-      return { size, source: 'redis' };
+      const entries = await client.zCard(LOG_KEY);
+      return { entries, source: 'redis' };
     } catch (error) {
       console.error('Error getting Redis metadata:', error);
     }
@@ -179,10 +503,10 @@ export async function getLogMetadata(): Promise<{
   
   try {
     const fs = await import('fs/promises');
-    const path = await import('path');
-    const logFile = path.join(process.cwd(), 'logs', 'task-changes.md');
+    const logFile = await getLocalLogPath(LOCAL_LOG_FILE);
     const stats = await fs.stat(logFile);
-    return { size: stats.size, source: 'local' };
+    const entries = await getEntriesFromLocal();
+    return { size: stats.size, entries: entries.length, source: 'local' };
   } catch {
     return null;
   }
@@ -0,0 +1,50 @@
+import { readDocument, writeDocument } from '@/lib/storage';
+import { clickupAPI } from '@/lib/clickup-api';
+import { getTrackedLists } from '@/lib/tracked-lists';
+import { ClickUpStatus } from '@/types/clickup';
+import { BoardSettings } from '@/types/settings';
+
+const BOARD_SETTINGS_KEY = 'settings:board';
+
+export async function getBoardSettings(): Promise<BoardSettings> {
+  return (await readDocument<BoardSettings>(BOARD_SETTINGS_KEY)) || { wipLimits: {} };
+}
+
+export async function saveBoardSettings(settings: BoardSettings): Promise<void> {
+  await writeDocument(BOARD_SETTINGS_KEY, settings);
+}
+
+/**
+ * Validate settings from a request body; returns an error message or the normalized settings.
+ * A limit of 0 (or an empty one) removes the column's limit.
+ */
+export function parseBoardSettings(value: unknown): BoardSettings | string {
+  const wipLimits = (value as Partial<BoardSettings> | undefined)?.wipLimits;
+  if (typeof wipLimits !== 'object' || wipLimits === null || Array.isArray(wipLimits)) {
+    return 'wipLimits must map status names to limits';
+  }
+
+  const parsed: Record<string, number> = {};
+  for (const [status, limit] of Object.entries(wipLimits as Record<string, unknown>)) {
+    if (limit === null || limit === 0) continue;
+    if (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 0) {
+      return `The WIP limit for "${status}" must be a whole number`;
+    }
+    parsed[status.trim().toLowerCase()] = limit;
+  }
+  return { wipLimits: parsed };
+}
+
+/**
+ * The board's columns: the statuses of the tracked lists, merged by name in ClickUp's order
+ */
+export async function getBoardStatuses(): Promise<ClickUpStatus[]> {
+  const byName = new Map<string, ClickUpStatus>();
+  for (const list of await getTrackedLists()) {
+    for (const status of await clickupAPI.getStatuses(list.id)) {
+      const key = status.status.toLowerCase();
+      if (!byName.has(key)) byName.set(key, status);
+    }
+  }
+  return [...byName.values()].sort((a, b) => a.orderindex - b.orderindex);
+}
@@ -0,0 +1,55 @@
+import { TeamSettings } from '@/types/settings';
+
+// Day and timezone arithmetic on yyyy-MM-dd days; no storage, so client components can import it
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Offset of a timezone from UTC at an instant, in ms (positive east of UTC)
+function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  const asUTC = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUTC - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * The calendar date (yyyy-MM-dd) of an instant in a timezone
+ */
+export function getZonedDate(date: Date, timeZone: string): string {
+  // en-CA formats as yyyy-MM-dd
+  return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(date);
+}
+
+/**
+ * The instant a wall-clock time on a date happens in a timezone, DST included
+ */
+export function getZonedTime(day: string, time: string, timeZone: string): Date {
+  const [year, month, date] = day.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, date, hours, minutes);
+
+  // The offset at the guess can differ from the offset at the result across a DST change; one correction suffices
+  const offset = getTimeZoneOffset(new Date(wallClock), timeZone);
+  const corrected = getTimeZoneOffset(new Date(wallClock - offset), timeZone);
+  return new Date(wallClock - corrected);
+}
+
+export function shiftDay(day: string, days: number): string {
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, date) + days * DAY_MS).toISOString().split('T')[0];
+}
+
+export function isWorkingDay(day: string, settings: Pick<TeamSettings, 'workingDays' | 'holidays'>): boolean {
+  const [year, month, date] = day.split('-').map(Number);
+  const weekday = new Date(Date.UTC(year, month - 1, date)).getUTCDay();
+  return settings.workingDays.includes(weekday) && !settings.holidays.includes(day);
+}
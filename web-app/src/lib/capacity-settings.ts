@@ -0,0 +1,62 @@
+import { readDocument, writeDocument } from '@/lib/storage';
+import { DEFAULT_CAPACITY_SETTINGS } from '@/lib/capacity';
+import { CapacityProfile, CapacitySettings } from '@/types/settings';
+
+const CAPACITY_SETTINGS_KEY = 'settings:capacity';
+
+export async function getCapacitySettings(): Promise<CapacitySettings> {
+  const stored = await readDocument<Partial<CapacitySettings>>(CAPACITY_SETTINGS_KEY);
+  return { ...DEFAULT_CAPACITY_SETTINGS, ...stored };
+}
+
+export async function saveCapacitySettings(settings: CapacitySettings): Promise<void> {
+  await writeDocument(CAPACITY_SETTINGS_KEY, settings);
+}
+
+const isHours = (value: unknown): value is number =>
+  typeof value === 'number' && isFinite(value) && value >= 0 && value <= 24;
+
+/**
+ * Validate settings from a request body; returns an error message or the normalized settings
+ */
+export function parseCapacitySettings(value: Partial<CapacitySettings>): CapacitySettings | string {
+  const settings = { ...DEFAULT_CAPACITY_SETTINGS, ...value };
+
+  if (!isHours(settings.defaultHoursPerDay)) {
+    return 'defaultHoursPerDay must be between 0 and 24';
+  }
+  if (!Array.isArray(settings.profiles)) {
+    return 'profiles must be an array';
+  }
+
+  const profiles: CapacityProfile[] = [];
+  for (const profile of settings.profiles as Array<Partial<CapacityProfile>>) {
+    if (typeof profile?.developer !== 'string' || !profile.developer.trim()) return 'Every profile needs a developer';
+    const developer = profile.developer.trim();
+    if (profiles.some(existing => existing.developer.toLowerCase() === developer.toLowerCase())) {
+      return `${developer} has two profiles`;
+    }
+    if (!isHours(profile.hoursPerDay)) {
+      return `${developer}'s hours per day must be between 0 and 24`;
+    }
+    if (!Array.isArray(profile.workingDays) || profile.workingDays.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+      return `${developer}'s working days must be 0 (Sunday) to 6 (Saturday)`;
+    }
+    const pto = profile.pto ?? [];
+    if (!Array.isArray(pto) || pto.some(day => typeof day !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(day))) {
+      return `${developer}'s PTO must be yyyy-MM-dd dates`;
+    }
+
+    profiles.push({
+      developer,
+      hoursPerDay: profile.hoursPerDay,
+      workingDays: [...new Set(profile.workingDays)].sort(),
+      pto: [...new Set(pto)].sort(),
+    });
+  }
+
+  return {
+    defaultHoursPerDay: settings.defaultHoursPerDay,
+    profiles: profiles.sort((a, b) => a.developer.localeCompare(b.developer)),
+  };
+}
@@ -0,0 +1,103 @@
+import { getZonedDate, isWorkingDay, shiftDay } from '@/lib/calendar';
+import { CapacityProfile, CapacitySettings, DeveloperCapacity, TeamSettings } from '@/types/settings';
+
+export const DEFAULT_CAPACITY_SETTINGS: CapacitySettings = {
+  defaultHoursPerDay: 6,
+  profiles: [],
+};
+
+// Utilization compares the queue with the next two working weeks
+export const UTILIZATION_WINDOW_DAYS = 14;
+// Days of in-progress work at the developer's daily hours before they count as busy or overloaded
+export const BUSY_DAYS = 2;
+export const OVERLOADED_DAYS = 4;
+// Give up projecting a queue that would take longer than this (e.g. a profile with no working days)
+const MAX_PROJECTION_DAYS = 730;
+
+/**
+ * A developer's profile, or the default one on the team's working days
+ */
+export function getCapacityProfile(settings: CapacitySettings, team: TeamSettings, developer: string): CapacityProfile {
+  return settings.profiles.find(profile => profile.developer.toLowerCase() === developer.toLowerCase()) || {
+    developer,
+    hoursPerDay: settings.defaultHoursPerDay,
+    workingDays: team.workingDays,
+    pto: [],
+  };
+}
+
+// Team holidays apply to everyone; PTO only to the profile's developer
+function isAvailableDay(day: string, profile: CapacityProfile, team: TeamSettings): boolean {
+  return isWorkingDay(day, { workingDays: profile.workingDays, holidays: team.holidays }) && !profile.pto.includes(day);
+}
+
+/**
+ * Hours a developer can work on a day (yyyy-MM-dd): 0 on days off, holidays and PTO
+ */
+export function getDayCapacity(profile: CapacityProfile, team: TeamSettings, day: string): number {
+  return isAvailableDay(day, profile, team) ? profile.hoursPerDay : 0;
+}
+
+/**
+ * Hours a developer can work from a day (inclusive) over a number of calendar days
+ */
+export function getAvailableHours(profile: CapacityProfile, team: TeamSettings, from: string, days: number): number {
+  let hours = 0;
+  for (let offset = 0; offset < days; offset++) {
+    hours += getDayCapacity(profile, team, shiftDay(from, offset));
+  }
+  return hours;
+}
+
+/**
+ * The day a queue of work would be done, working the profile's hours from a day (inclusive)
+ * @returns string | null - yyyy-MM-dd, or null for an empty queue or one that never fits
+ */
+export function projectCompletion(hours: number, profile: CapacityProfile, team: TeamSettings, from: string): string | null {
+  if (hours <= 0 || profile.hoursPerDay <= 0) return null;
+
+  let remaining = hours;
+  for (let offset = 0; offset < MAX_PROJECTION_DAYS; offset++) {
+    const day = shiftDay(from, offset);
+    if (!isAvailableDay(day, profile, team)) continue;
+    remaining -= profile.hoursPerDay;
+    if (remaining <= 0) return day;
+  }
+  return null;
+}
+
+/**
+ * Utilization, projected completion and load of a developer's queue
+ * @param developer - Developer name
+ * @param workload - Estimated hours assigned to them, and the part of it in progress
+ * @param settings - Capacity profiles
+ * @param team - Team timezone, working days and holidays
+ * @param now - Reference time
+ * @returns DeveloperCapacity
+ */
+export function getDeveloperCapacity(
+  developer: string,
+  workload: { assignedHours: number; inProgressHours: number },
+  settings: CapacitySettings,
+  team: TeamSettings,
+  now: Date = new Date()
+): DeveloperCapacity {
+  const profile = getCapacityProfile(settings, team, developer);
+  const today = getZonedDate(now, team.timezone);
+  const availableHours = getAvailableHours(profile, team, today, UTILIZATION_WINDOW_DAYS);
+  const inProgressDays = profile.hoursPerDay > 0 ? workload.inProgressHours / profile.hoursPerDay : Infinity;
+
+  return {
+    developer,
+    hoursPerDay: profile.hoursPerDay,
+    assignedHours: workload.assignedHours,
+    inProgressHours: workload.inProgressHours,
+    availableHours,
+    utilization: availableHours > 0 ? workload.assignedHours / availableHours : 0,
+    projectedCompletion: projectCompletion(workload.assignedHours, profile, team, today),
+    load: workload.inProgressHours > 0 && inProgressDays > OVERLOADED_DAYS ? 'overloaded'
+      : workload.inProgressHours > 0 && inProgressDays > BUSY_DAYS ? 'busy'
+      : 'available',
+    overAllocated: workload.assignedHours > availableHours,
+  };
+}
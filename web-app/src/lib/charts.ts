@@ -0,0 +1,163 @@
+import { eachDayOfInterval, eachWeekOfInterval, endOfDay, format } from 'date-fns';
+import { clickupAPI } from '@/lib/clickup-api';
+import { getLogEntries } from '@/lib/blob-logger';
+import { getTaskSnapshot } from '@/lib/task-cache';
+import { getTrackedLists } from '@/lib/tracked-lists';
+import { ClickUpTask } from '@/types/clickup';
+import { BurnPoint, ChartsData, DeveloperThroughput, WeeklyFlow } from '@/types/charts';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+interface EstimateChange {
+  time: number;
+  estimateMs: number;
+}
+
+// The tracker logs estimates in ms on create and as "N hours" on update and from webhooks
+function parseLoggedEstimate(value: unknown): number | null {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') {
+    const match = value.match(/^([\d.]+)\s*hours?$/i);
+    if (match) return parseFloat(match[1]) * HOUR_MS;
+  }
+  return null;
+}
+
+function toHours(ms: number): number {
+  return Math.round(ms / HOUR_MS * 10) / 10;
+}
+
+/**
+ * Every subtask that could have been open during the range: the open snapshot plus
+ * anything updated since the start (a task closed in the range was updated when it closed)
+ */
+async function getRangeTasks(since: Date): Promise<ClickUpTask[]> {
+  const tasksById = new Map<string, ClickUpTask>();
+  for (const list of await getTrackedLists()) {
+    const snapshot = await getTaskSnapshot(list.id);
+    const changed = await clickupAPI.getTasks(true, true, since.getTime(), list.id);
+    for (const task of [...snapshot.tasks, ...changed]) {
+      tasksById.set(task.id, task);
+    }
+  }
+  // Parent tasks only group work, as in the stats bar
+  return [...tasksById.values()].filter(task => task.parent && !task.archived);
+}
+
+async function getEstimateHistories(until: Date): Promise<Map<string, EstimateChange[]>> {
+  const histories = new Map<string, EstimateChange[]>();
+  for (const entry of await getLogEntries({ until, includeArchived: true })) {
+    if (!('time_estimate' in entry.changes)) continue;
+    const estimateMs = parseLoggedEstimate(entry.changes.time_estimate);
+    if (estimateMs === null) continue;
+
+    const history = histories.get(entry.taskId) || [];
+    history.push({ time: new Date(entry.timestamp).getTime(), estimateMs });
+    histories.set(entry.taskId, history);
+  }
+  return histories;
+}
+
+/**
+ * Replay the log and ClickUp's created/closed dates into burndown, weekly flow and throughput series
+ * @param since - Start of the range
+ * @param until - End of the range
+ * @returns Promise<ChartsData>
+ */
+export async function getChartsData(since: Date, until: Date): Promise<ChartsData> {
+  const tasks = await getRangeTasks(since);
+  const estimateHistories = await getEstimateHistories(until);
+  const developers = new Map(
+    (await clickupAPI.processTasksFlat(tasks)).map(task => [task.id, task.developer || 'Unassigned'])
+  );
+
+  // The estimate a task had at a point in time; before the first logged value, the earliest one known
+  const estimateAt = (task: ClickUpTask, time: number): number => {
+    const history = estimateHistories.get(task.id);
+    if (!history || history.length === 0) return task.time_estimate || 0;
+    let estimate = history[0].estimateMs;
+    for (const change of history) {
+      if (change.time > time) break;
+      estimate = change.estimateMs;
+    }
+    return estimate;
+  };
+
+  const createdAt = (task: ClickUpTask) => Number(task.date_created);
+  const closedAt = (task: ClickUpTask): number | null => {
+    const closed = Number(task.date_closed || task.date_done);
+    return closed ? closed : null;
+  };
+
+  // Burndown / burnup, one point per day
+  const burn: BurnPoint[] = eachDayOfInterval({ start: since, end: until }).map(day => {
+    const time = Math.min(endOfDay(day).getTime(), until.getTime());
+    let remainingMs = 0;
+    let completedMs = 0;
+
+    for (const task of tasks) {
+      if (createdAt(task) > time) continue;
+      const closed = closedAt(task);
+      if (closed === null || closed > time) {
+        remainingMs += estimateAt(task, time);
+      } else if (closed >= since.getTime()) {
+        completedMs += estimateAt(task, closed);
+      }
+    }
+
+    return {
+      date: format(day, 'yyyy-MM-dd'),
+      remainingHours: toHours(remainingMs),
+      completedHours: toHours(completedMs),
+      scopeHours: toHours(remainingMs + completedMs),
+    };
+  });
+
+  // Opened vs closed per week, weeks starting Monday
+  const weekStarts = eachWeekOfInterval({ start: since, end: until }, { weekStartsOn: 1 });
+  const getWeekIndex = (time: number): number => {
+    if (time < since.getTime() || time > until.getTime()) return -1;
+    let index = 0;
+    while (index + 1 < weekStarts.length && weekStarts[index + 1].getTime() <= time) {
+      index++;
+    }
+    return index;
+  };
+
+  const weekly: WeeklyFlow[] = weekStarts.map(weekStart => ({
+    weekStart: format(weekStart, 'yyyy-MM-dd'),
+    opened: 0,
+    closed: 0,
+  }));
+  const throughputByDeveloper = new Map<string, DeveloperThroughput>();
+
+  for (const task of tasks) {
+    const openedWeek = getWeekIndex(createdAt(task));
+    if (openedWeek >= 0) weekly[openedWeek].opened++;
+
+    const closed = closedAt(task);
+    const closedWeek = closed !== null ? getWeekIndex(closed) : -1;
+    if (closed === null || closedWeek < 0) continue;
+    weekly[closedWeek].closed++;
+
+    const developer = developers.get(task.id) || 'Unassigned';
+    const throughput = throughputByDeveloper.get(developer) || {
+      developer,
+      closed: 0,
+      closedHours: 0,
+      weekly: weekStarts.map(() => 0),
+    };
+    throughput.closed++;
+    throughput.closedHours = toHours(throughput.closedHours * HOUR_MS + estimateAt(task, closed));
+    throughput.weekly[closedWeek]++;
+    throughputByDeveloper.set(developer, throughput);
+  }
+
+  return {
+    since: since.toISOString(),
+    until: until.toISOString(),
+    burn,
+    weekly,
+    throughput: [...throughputByDeveloper.values()].sort((a, b) => b.closed - a.closed),
+  };
+}
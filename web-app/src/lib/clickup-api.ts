@@ -1,95 +1,63 @@
-import axios, { AxiosInstance } from 'axios';
 import {
   ClickUpTask,
   ClickUpListResponse,
+  ClickUpComment,
   ClickUpCommentsResponse,
+  ClickUpCreatedComment,
   ProcessedTask,
+  ProcessedCustomField,
   ClickUpSpace,
   ClickUpList,
   ClickUpFolder,
   ClickUpTeam,
   ClickUpStatus,
   ClickUpCustomField,
+  CustomFieldValue,
   TaskCreateData,
   TaskUpdateData,
+  ClickUpUser,
+  ClickUpWebhook,
+  ClickUpWebhookEvent,
   ApiError
 } from '@/types/clickup';
-import { parseInProgressTimestamps } from '@/lib/utils';
-import { getAllLogs } from '@/lib/blob-logger';
+import { mapWithConcurrency, parseInProgressTimestamps } from '@/lib/utils';
+import { getLogEntries } from '@/lib/blob-logger';
+import { getPriorityField, getTaskDeveloper, readCustomField, toClickUpFieldValue } from '@/lib/custom-fields';
+import { ClickUpTransport, getClickUpTransport } from '@/lib/clickup-transport';
+import { RateLimitedTransport } from '@/lib/clickup-rate-limiter';
+
+// Tasks processed at once by processTasksForUI; their requests still queue for the shared rate limiter
+const DEFAULT_CONCURRENCY = Number(process.env.CLICKUP_CONCURRENCY) || 5;
+// Comment threads kept between requests, least recently fetched dropped first
+const MAX_CACHED_COMMENT_THREADS = 5000;
 
 class ClickUpAPI {
-  private client: AxiosInstance;
-  private apiToken: string;
+  private client: ClickUpTransport;
   private listId: string;
   private teamId: string;
-  private requestQueue: Promise<unknown>[] = [];
-  private lastRequestTime: number = 0;
-  private readonly RATE_LIMIT_DELAY = 100; // 100ms between requests
   private customFieldsCache: Map<string, ClickUpCustomField[]> = new Map(); // Cache for custom field definitions
-
-  constructor() {
-    this.apiToken = process.env.CLICKUP_API_TOKEN || '';
-    this.listId = process.env.CLICKUP_LIST_ID || '';
-    this.teamId = process.env.CLICKUP_TEAM_ID || '';
-
-    if (!this.apiToken) {
-      throw new Error('CLICKUP_API_TOKEN is required');
-    }
-
-    this.client = axios.create({
-      baseURL: 'https://api.clickup.com/api/v2',
-      headers: {
-        'Authorization': this.apiToken,
-        'Content-Type': 'application/json',
-      },
-      timeout: 30000, // Increased to 30 seconds for task creation operations
-    });
-  }
-
-  /**
-   * Rate limiting helper to prevent API overload
-   */
-  private async rateLimitedRequest<T>(requestFn: () => Promise<T>): Promise<T> {
-    const now = Date.now();
-    const timeSinceLastRequest = now - this.lastRequestTime;
-    
-    if (timeSinceLastRequest < this.RATE_LIMIT_DELAY) {
-      await new Promise(resolve => setTimeout(resolve, this.RATE_LIMIT_DELAY - timeSinceLastRequest));
-    }
-    
-    this.lastRequestTime = Date.now();
-    return await requestFn();
-  }
+  private commentsCache: Map<string, { dateUpdated: string; comments: ClickUpComment[] }> = new Map(); // By task ID, valid while date_updated is unchanged
+  private authorizedUser: ClickUpUser | null = null;
 
   /**
-   * Retry logic for handling rate limits and temporary failures
+   * @param transport - How requests reach ClickUp (defaults to the one picked by CLICKUP_TRANSPORT);
+   * every request goes through the shared rate limiter and retry policy
    */
-  private async retryRequest<T>(requestFn: () => Promise<T>, maxRetries: number = 3): Promise<T> {
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      try {
-        return await this.rateLimitedRequest(requestFn);
-      } catch (error: unknown) {
-        const apiError = error as ApiError;
-        if (apiError.response?.status === 429 && attempt < maxRetries) {
-          // Rate limited, wait longer before retry
-          const backoffDelay = Math.min(1000 * Math.pow(2, attempt), 10000); // Exponential backoff, max 10s
-          console.log(`Rate limited, retrying in ${backoffDelay}ms (attempt ${attempt}/${maxRetries})`);
-          await new Promise(resolve => setTimeout(resolve, backoffDelay));
-          continue;
-        }
-        throw error;
-      }
-    }
-    throw new Error('Max retries exceeded');
+  constructor(transport: ClickUpTransport = getClickUpTransport()) {
+    this.client = new RateLimitedTransport(transport);
+    this.listId = process.env.CLICKUP_LIST_ID || transport.defaults?.listId || '';
+    this.teamId = process.env.CLICKUP_TEAM_ID || transport.defaults?.teamId || '';
   }
 
   /**
    * Fetch tasks from the specified ClickUp list with pagination support
    * @param includeSubtasks - Whether to include subtasks in the response
    * @param includeClosed - Whether to include closed tasks
+   * @param dateUpdatedGt - Only return tasks updated after this Unix time in ms (incremental refresh)
+   * @param listId - The list to fetch from (defaults to CLICKUP_LIST_ID)
    * @returns Promise<ClickUpTask[]>
    */
-  async getTasks(includeSubtasks: boolean = true, includeClosed: boolean = false): Promise<ClickUpTask[]> {
+  async getTasks(includeSubtasks: boolean = true, includeClosed: boolean = false, dateUpdatedGt?: number, listId: string = this.listId): Promise<ClickUpTask[]> {
     try {
       let allTasks: ClickUpTask[] = [];
       let page = 0;
@@ -102,12 +70,13 @@ class ClickUpAPI {
           include_closed: includeClosed,
           page: page,
         };
+        if (dateUpdatedGt !== undefined) {
+          params.date_updated_gt = dateUpdatedGt;
+        }
 
-        console.log(`Fetching tasks from list: ${this.listId} - Page ${page}`);
+        console.log(`Fetching tasks from list: ${listId} - Page ${page}`);
         
-        const response = await this.retryRequest(() =>
-          this.client.get<ClickUpListResponse>(`/list/${this.listId}/task`, { params })
-        );
+        const response = await this.client.get<ClickUpListResponse>(`/list/${listId}/task`, { params });
 
         const tasks = response.data.tasks;
         console.log(`Fetched ${tasks.length} tasks from page ${page}`);
@@ -134,11 +103,11 @@ class ClickUpAPI {
         status: apiError.response?.status,
         statusText: apiError.response?.statusText,
         data: apiError.response?.data,
-        listId: this.listId,
+        listId,
       });
       
       if (apiError.response?.status === 400) {
-        throw new Error(`Invalid request to ClickUp API. Please check your List ID: ${this.listId}`);
+        throw new Error(`Invalid request to ClickUp API. Please check your List ID: ${listId}`);
       } else if (apiError.response?.status === 401) {
         throw new Error('Invalid ClickUp API token. Please check your credentials.');
       } else if (apiError.response?.status === 403) {
@@ -156,9 +125,7 @@ class ClickUpAPI {
    */
   async getTaskComments(taskId: string): Promise<ClickUpCommentsResponse> {
     try {
-      const response = await this.retryRequest(() =>
-        this.client.get<ClickUpCommentsResponse>(`/task/${taskId}/comment`)
-      );
+      const response = await this.client.get<ClickUpCommentsResponse>(`/task/${taskId}/comment`);
       return response.data;
     } catch (error: unknown) {
       const apiError = error as ApiError;
@@ -172,22 +139,48 @@ class ClickUpAPI {
     }
   }
 
+  /**
+   * Post a comment to a task's thread
+   * @param taskId - The ClickUp task ID
+   * @param commentText - Plain-text comment
+   * @param notifyAll - Notify everyone watching the task, including the author
+   * @returns Promise<ClickUpCreatedComment>
+   */
+  async createTaskComment(taskId: string, commentText: string, notifyAll: boolean = false): Promise<ClickUpCreatedComment> {
+    try {
+      const response = await this.client.post<ClickUpCreatedComment>(`/task/${taskId}/comment`, {
+        comment_text: commentText,
+        notify_all: notifyAll,
+      });
+      this.commentsCache.delete(taskId);
+      // ClickUp returns the ID as a number; keep it a string like the IDs from getTaskComments
+      return { ...response.data, id: String(response.data.id) };
+    } catch (error: unknown) {
+      const apiError = error as ApiError;
+      console.error(`Error posting comment to task ${taskId}:`, apiError.message);
+
+      if (apiError.response?.status === 404) {
+        throw new Error('Task not found. It may have been deleted.');
+      }
+      throw new Error(`Failed to post comment to ClickUp: ${apiError.message}`);
+    }
+  }
+
   /**
    * Fetch custom field definitions for a list
+   * @param listId - The list whose fields to fetch (defaults to CLICKUP_LIST_ID)
    * @returns Promise<any[]>
    */
-  async getCustomFields(): Promise<ClickUpCustomField[]> {
+  async getCustomFields(listId: string = this.listId): Promise<ClickUpCustomField[]> {
     try {
-      const cacheKey = `custom_fields_${this.listId}`;
+      const cacheKey = `custom_fields_${listId}`;
       
       // Check cache first
       if (this.customFieldsCache.has(cacheKey)) {
         return this.customFieldsCache.get(cacheKey) || [];
       }
 
-      const response = await this.retryRequest(() =>
-        this.client.get(`/list/${this.listId}/field`)
-      );
+      const response = await this.client.get<{ fields?: ClickUpCustomField[] }>(`/list/${listId}/field`);
 
       const customFields = response.data.fields || [];
       
@@ -204,62 +197,28 @@ class ClickUpAPI {
     }
   }
 
-  /**
-   * Get dropdown option name and color by field ID and option ID
-   * @param fieldId - The custom field ID
-   * @param optionId - The selected option ID
-   * @param customFields - Array of custom field definitions
-   * @returns { name: string; color: string } | undefined
-   */
-  private getDropdownOption(fieldId: string, optionId: number, customFields: ClickUpCustomField[]): { name: string; color: string } | undefined {
-    const field = customFields.find(f => f.id === fieldId);
-    if (!field || field.type !== 'drop_down') {
-      return undefined;
-    }
-
-    const option = field.type_config?.options?.find((opt) =>
-      opt.id === optionId || opt.orderindex === optionId
-    );
-    
-    if (!option) {
-      return undefined;
-    }
-
-    return {
-      name: option.name,
-      color: option.color || '#64748b' // Default color if none provided
-    };
-  }
-
-  /**
-   * Get dropdown option name by field ID and option ID (legacy method for backwards compatibility)
-   * @param fieldId - The custom field ID
-   * @param optionId - The selected option ID
-   * @param customFields - Array of custom field definitions
-   * @returns string | undefined
-   */
-  private getDropdownOptionName(fieldId: string, optionId: number, customFields: ClickUpCustomField[]): string | undefined {
-    const option = this.getDropdownOption(fieldId, optionId, customFields);
-    return option?.name;
-  }
-
   /**
    * Process raw ClickUp tasks into our UI-friendly format
    * @param tasks - Raw ClickUp tasks
-   * @returns Promise<ProcessedTask[]>
+   * @param includeComments - Whether to fetch each task's comments (cached while the task is unchanged)
+   * @param concurrency - Tasks processed at once
+   * @returns Promise<ProcessedTask[]> - A task that could not be fully processed carries an error instead of being dropped
    */
-  async processTasksForUI(tasks: ClickUpTask[], includeComments: boolean = false): Promise<ProcessedTask[]> {
-    // Fetch custom field definitions once for all tasks
-    const customFields = await this.getCustomFields();
+  async processTasksForUI(tasks: ClickUpTask[], includeComments: boolean = false, concurrency: number = DEFAULT_CONCURRENCY): Promise<ProcessedTask[]> {
+    // Fetch custom field definitions once per list; dropdown option IDs are list-specific
+    const customFieldsByList = new Map<string, ClickUpCustomField[]>();
+    for (const listId of new Set(tasks.map(task => task.list?.id || this.listId))) {
+      customFieldsByList.set(listId, await this.getCustomFields(listId));
+    }
     
     // Fetch and parse logs for "In Progress" timestamps by calling the function directly
     let inProgressTimestamps = new Map<string, string>();
     try {
-      const logContent = await getAllLogs();
-      if (logContent) {
-        inProgressTimestamps = parseInProgressTimestamps(logContent);
+      const logEntries = await getLogEntries({ includeArchived: true });
+      if (logEntries.length > 0) {
+        inProgressTimestamps = parseInProgressTimestamps(logEntries);
       } else {
-        console.warn('Log content is empty, "In Progress" durations will not be available.');
+        console.warn('Log is empty, "In Progress" durations will not be available.');
       }
     } catch (error) {
       console.error('Error reading or parsing task logs:', error);
@@ -288,45 +247,113 @@ class ClickUpAPI {
     }
 
     // Separate main tasks and subtasks
-    const mainTasks = openTasks.filter(task => !task.parent);
-    const subtasks = openTasks.filter(task => task.parent);
+    const subtasksByParent = new Map<string, ClickUpTask[]>();
+    for (const task of openTasks.filter(task => task.parent)) {
+      subtasksByParent.set(task.parent!, [...(subtasksByParent.get(task.parent!) || []), task]);
+    }
+    const mainTasks = openTasks.filter(task => {
+      if (task.parent) return false;
+      // Special handling for "Review" parent task - hide if no subtasks
+      if (task.name.toLowerCase() === 'review' && !subtasksByParent.has(task.id)) {
+        console.log('Hiding Review parent task - no subtasks found');
+        return false;
+      }
+      return true;
+    });
 
-    // Process main tasks
-    const processedTasks: ProcessedTask[] = [];
+    // Main tasks and their subtasks go through one bounded pool, so a big parent cannot hold up the rest
+    const work = mainTasks.flatMap(task => [
+      { task, parentId: undefined as string | undefined },
+      ...(subtasksByParent.get(task.id) || []).map(subtask => ({ task: subtask, parentId: task.id })),
+    ]);
+    const processed = await mapWithConcurrency(work, concurrency, ({ task, parentId }) => {
+      const customFields = customFieldsByList.get(task.list?.id || this.listId) || [];
+      return this.processTaskSafely(task, parentId, includeComments, customFields, inProgressTimestamps);
+    });
 
-    // Process tasks sequentially to avoid overwhelming the API
-    for (const task of mainTasks) {
-      try {
-        // Find subtasks for this main task
-        const taskSubtasks = subtasks.filter(subtask => subtask.parent === task.id);
-        
-        // Special handling for "Review" parent task - hide if no subtasks
-        if (task.name.toLowerCase() === 'review' && taskSubtasks.length === 0) {
-          console.log('Hiding Review parent task - no subtasks found');
-          continue; // Skip this task, don't add it to processedTasks
-        }
+    const processedById = new Map(processed.map(task => [task.id, task]));
+    const failed = processed.filter(task => task.error).length;
+    if (failed > 0) {
+      console.warn(`${failed} of ${processed.length} tasks were only partly processed`);
+    }
 
-        const processedTask = await this.processTask(task, false, undefined, includeComments, customFields, inProgressTimestamps);
-        processedTask.subtasks = [];
-
-        // Process subtasks sequentially as well
-        for (const subtask of taskSubtasks) {
-          try {
-            const processedSubtask = await this.processTask(subtask, true, task.id, includeComments, customFields, inProgressTimestamps);
-            processedTask.subtasks.push(processedSubtask);
-          } catch (error) {
-            console.warn(`Failed to process subtask ${subtask.id}:`, error);
-            // Continue processing other subtasks
-          }
-        }
+    return mainTasks.map(task => ({
+      ...processedById.get(task.id)!,
+      subtasks: (subtasksByParent.get(task.id) || []).map(subtask => processedById.get(subtask.id)!),
+    }));
+  }
+
+  /**
+   * Comments of a task, from the cache while its date_updated is unchanged (posting a comment updates it)
+   */
+  private async getCachedComments(task: ClickUpTask): Promise<ClickUpComment[]> {
+    const cached = this.commentsCache.get(task.id);
+    if (cached && cached.dateUpdated === task.date_updated) {
+      return cached.comments;
+    }
+
+    const response = await this.client.get<ClickUpCommentsResponse>(`/task/${task.id}/comment`);
+    this.commentsCache.delete(task.id);
+    this.commentsCache.set(task.id, { dateUpdated: task.date_updated, comments: response.data.comments });
+    if (this.commentsCache.size > MAX_CACHED_COMMENT_THREADS) {
+      this.commentsCache.delete(this.commentsCache.keys().next().value!);
+    }
+    return response.data.comments;
+  }
 
-        processedTasks.push(processedTask);
-      } catch (error) {
-        console.warn(`Failed to process main task ${task.id}:`, error);
-        // Continue processing other tasks
+  /**
+   * Process a task for the UI, marking it with an error rather than failing when part of it cannot be loaded
+   */
+  private async processTaskSafely(task: ClickUpTask, parentId: string | undefined, includeComments: boolean, customFields: ClickUpCustomField[], inProgressTimestamps: Map<string, string>): Promise<ProcessedTask> {
+    let comments: ClickUpComment[] = [];
+    let error: string | undefined;
+    if (includeComments) {
+      try {
+        comments = await this.getCachedComments(task);
+      } catch (commentsError: unknown) {
+        const apiError = commentsError as ApiError;
+        console.warn(`Failed to fetch comments for task ${task.id}:`, apiError.message);
+        error = `Comments could not be loaded: ${apiError.message}`;
       }
     }
 
+    try {
+      const processedTask = this.processTask(task, !!parentId, parentId, customFields, inProgressTimestamps, comments);
+      return error ? { ...processedTask, error } : processedTask;
+    } catch (processError: unknown) {
+      console.warn(`Failed to process task ${task.id}:`, processError);
+      return {
+        id: task.id,
+        name: task.name,
+        status: task.status?.status || 'unknown',
+        statusColor: task.status?.color || '#6B7280',
+        listId: task.list?.id || this.listId,
+        listName: task.list?.name,
+        comments,
+        subtasks: [],
+        isSubtask: !!parentId,
+        parentId,
+        error: `Task could not be processed: ${processError instanceof Error ? processError.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  /**
+   * Process raw ClickUp tasks one-to-one, closed tasks included and without subtask grouping or comments
+   * @param tasks - Raw ClickUp tasks
+   * @returns Promise<ProcessedTask[]>
+   */
+  async processTasksFlat(tasks: ClickUpTask[]): Promise<ProcessedTask[]> {
+    const customFieldsByList = new Map<string, ClickUpCustomField[]>();
+    for (const listId of new Set(tasks.map(task => task.list?.id || this.listId))) {
+      customFieldsByList.set(listId, await this.getCustomFields(listId));
+    }
+
+    const processedTasks: ProcessedTask[] = [];
+    for (const task of tasks) {
+      const customFields = customFieldsByList.get(task.list?.id || this.listId) || [];
+      processedTasks.push(this.processTask(task, !!task.parent, task.parent || undefined, customFields));
+    }
     return processedTasks;
   }
 
@@ -335,87 +362,19 @@ class ClickUpAPI {
    * @param task - Raw ClickUp task
    * @param isSubtask - Whether this is a subtask
    * @param parentId - Parent task ID if this is a subtask
-   * @param includeComments - Whether to fetch comments
    * @param customFields - Custom field definitions for dropdown mapping
-   * @returns Promise<ProcessedTask>
+   * @param inProgressTimestamps - When each task last went IN PROGRESS, from the log
+   * @param comments - The task's comments, when fetched
+   * @returns ProcessedTask
    */
-  private async processTask(task: ClickUpTask, isSubtask: boolean, parentId?: string, includeComments: boolean = false, customFields: ClickUpCustomField[] = [], inProgressTimestamps: Map<string, string> = new Map()): Promise<ProcessedTask> {
-    // Get comments for this task only if requested
-    let commentsResponse: ClickUpCommentsResponse = { comments: [] };
-    if (includeComments) {
-      commentsResponse = await this.getTaskComments(task.id);
-    }
-
-    // Find developer from custom fields
-    const developerField = task.custom_fields.find(field => {
-      const fieldName = field.name.toLowerCase();
-      // Look for exact "developer" match first, then broader matches
-      return fieldName === 'developer' ||
-             fieldName === 'developers' ||
-             fieldName.includes('developer') ||
-             fieldName.includes('assignee');
-    });
-
-    let developer: string | undefined;
-    let developerColor: string | undefined;
-    
-    // Handle developer field value - it can be undefined, string, object, array, or number (dropdown ID)
-    if (developerField && developerField.value !== undefined && developerField.value !== null) {
-      if (typeof developerField.value === 'string') {
-        developer = developerField.value;
-      } else if (typeof developerField.value === 'number') {
-        // Handle dropdown field - map ID to name and color
-        const dropdownOption = this.getDropdownOption(developerField.id, developerField.value, customFields);
-        if (dropdownOption) {
-          developer = dropdownOption.name;
-          developerColor = dropdownOption.color;
-          // Successfully mapped dropdown option
-        } else {
-          console.warn(`Could not map dropdown ID ${developerField.value} for Developer field in task "${task.name}"`);
-        }
-      } else if (Array.isArray(developerField.value)) {
-        // Handle multiple developers - take the first one
-        const firstDev = developerField.value[0];
-        if (typeof firstDev === 'string') {
-          developer = firstDev;
-        } else if (typeof firstDev === 'number') {
-          // Handle dropdown array
-          const dropdownOption = this.getDropdownOption(developerField.id, firstDev, customFields);
-          if (dropdownOption) {
-            developer = dropdownOption.name;
-            developerColor = dropdownOption.color;
-          }
-        } else if (firstDev && firstDev.name) {
-          developer = firstDev.name;
-        } else if (firstDev && firstDev.username) {
-          developer = firstDev.username;
-        }
-      } else if (typeof developerField.value === 'object') {
-        // Handle object values (user objects, dropdown selections, etc.)
-        const valueObj = developerField.value as Record<string, unknown>;
-        if (valueObj.name && typeof valueObj.name === 'string') {
-          developer = valueObj.name;
-        } else if (valueObj.username && typeof valueObj.username === 'string') {
-          developer = valueObj.username;
-        } else if (valueObj.email && typeof valueObj.email === 'string') {
-          developer = valueObj.email;
-        } else if (valueObj.value && typeof valueObj.value === 'string') {
-          // Some dropdown fields have nested value property
-          developer = valueObj.value;
-        }
-      }
-    }
+  private processTask(task: ClickUpTask, isSubtask: boolean, parentId?: string, customFields: ClickUpCustomField[] = [], inProgressTimestamps: Map<string, string> = new Map(), comments: ClickUpComment[] = []): ProcessedTask {
+    // Developer and priority come from the configured custom fields
+    const taskDeveloper = getTaskDeveloper(task, customFields);
+    const developer = taskDeveloper?.name;
+    const developerColor = taskDeveloper?.color;
 
     // No fallback to assignee - if no developer field value, leave as undefined to show "Unassigned"
 
-    // Check for Priority in custom fields (similar to Developer)
-    const priorityField = task.custom_fields.find(field => {
-      const fieldName = field.name.toLowerCase();
-      return fieldName === 'priority' ||
-             fieldName === 'priorities' ||
-             fieldName.includes('priority');
-    });
-
     let priority: { name: string; color: string } | undefined;
     
     // First try built-in priority field
@@ -426,25 +385,25 @@ class ClickUpAPI {
       };
     }
     // Then check custom field
-    else if (priorityField && priorityField.value !== undefined && priorityField.value !== null) {
-      // Handle dropdown field for priority
-      if (typeof priorityField.value === 'number') {
-        const dropdownOption = this.getDropdownOption(priorityField.id, priorityField.value, customFields);
-        if (dropdownOption) {
-          priority = {
-            name: dropdownOption.name,
-            color: dropdownOption.color
-          };
-        }
-      } else if (typeof priorityField.value === 'string') {
+    else {
+      const priorityField = getPriorityField(task.custom_fields);
+      const priorityValue = readCustomField(priorityField, customFields.find(field => field.id === priorityField?.id));
+      if (priorityValue.display) {
         priority = {
-          name: priorityField.value,
-          color: '#6B7280' // Default gray color
+          name: priorityValue.display,
+          color: priorityValue.color || '#6B7280' // Default gray color
         };
       }
     }
 
-    // Developer processing complete
+    // Every other non-empty custom field, for the columns, filters and inputs picked in Settings
+    const taskCustomFields: Record<string, ProcessedCustomField> = {};
+    for (const field of task.custom_fields || []) {
+      const fieldValue = readCustomField(field, customFields.find(definition => definition.id === field.id));
+      if (fieldValue.value !== null) {
+        taskCustomFields[field.name] = { type: field.type, ...fieldValue };
+      }
+    }
 
     const inProgressSince = inProgressTimestamps.get(task.id);
 
@@ -457,22 +416,41 @@ class ClickUpAPI {
       timeEstimate: task.time_estimate,
       developer,
       developerColor,
+      startDate: task.start_date,
       dueDate: task.due_date,
-      comments: commentsResponse.comments,
+      listId: task.list?.id || this.listId,
+      listName: task.list?.name,
+      comments,
       subtasks: [], // Will be populated by parent processing
       isSubtask,
       parentId,
       inProgressSince,
+      customFields: taskCustomFields,
     };
   }
 
+  /**
+   * Get all workspaces (teams) the API token can access
+   * @returns Promise<ClickUpTeam[]>
+   */
+  async getTeams(): Promise<ClickUpTeam[]> {
+    try {
+      const response = await this.client.get<{ teams?: ClickUpTeam[] }>('/team');
+      return response.data.teams || [];
+    } catch (error) {
+      console.error('Error fetching teams:', error);
+      throw new Error('Failed to fetch workspaces');
+    }
+  }
+
   /**
    * Get all spaces for the team
+   * @param teamId - The workspace to list (defaults to CLICKUP_TEAM_ID)
    * @returns Promise<any[]>
    */
-  async getSpaces(): Promise<ClickUpSpace[]> {
+  async getSpaces(teamId: string = this.teamId): Promise<ClickUpSpace[]> {
     try {
-      const response = await this.client.get(`/team/${this.teamId}/space`);
+      const response = await this.client.get<{ spaces: ClickUpSpace[] }>(`/team/${teamId}/space`);
       return response.data.spaces;
     } catch (error) {
       console.error('Error fetching spaces:', error);
@@ -487,7 +465,7 @@ class ClickUpAPI {
    */
   async getListsInSpace(spaceId: string): Promise<ClickUpList[]> {
     try {
-      const response = await this.client.get(`/space/${spaceId}/list`);
+      const response = await this.client.get<{ lists: ClickUpList[] }>(`/space/${spaceId}/list`);
       return response.data.lists;
     } catch (error) {
       console.error(`Error fetching lists for space ${spaceId}:`, error);
@@ -502,7 +480,7 @@ class ClickUpAPI {
    */
   async getFoldersInSpace(spaceId: string): Promise<ClickUpFolder[]> {
     try {
-      const response = await this.client.get(`/space/${spaceId}/folder`);
+      const response = await this.client.get<{ folders: ClickUpFolder[] }>(`/space/${spaceId}/folder`);
       return response.data.folders;
     } catch (error) {
       console.error(`Error fetching folders for space ${spaceId}:`, error);
@@ -517,7 +495,7 @@ class ClickUpAPI {
    */
   async getListsInFolder(folderId: string): Promise<ClickUpList[]> {
     try {
-      const response = await this.client.get(`/folder/${folderId}/list`);
+      const response = await this.client.get<{ lists: ClickUpList[] }>(`/folder/${folderId}/list`);
       return response.data.lists;
     } catch (error) {
       console.error(`Error fetching lists for folder ${folderId}:`, error);
@@ -531,7 +509,7 @@ class ClickUpAPI {
    */
   async getTeam(): Promise<ClickUpTeam> {
     try {
-      const response = await this.client.get(`/team/${this.teamId}`);
+      const response = await this.client.get<ClickUpTeam>(`/team/${this.teamId}`);
       return response.data;
     } catch (error) {
       console.error('Error fetching team info:', error);
@@ -545,7 +523,7 @@ class ClickUpAPI {
    */
   async testConnection(): Promise<boolean> {
     try {
-      await this.client.get('/user');
+      await this.client.get<{ user: ClickUpUser }>('/user');
       return true;
     } catch (error) {
       console.error('ClickUp API connection test failed:', error);
@@ -556,15 +534,14 @@ class ClickUpAPI {
   /**
    * Create a new task in ClickUp
    * @param taskData - Task creation data
+   * @param listId - The list to create the task in (defaults to CLICKUP_LIST_ID)
    * @returns Promise<ClickUpTask>
    */
-  async createTask(taskData: TaskCreateData): Promise<ClickUpTask> {
+  async createTask(taskData: TaskCreateData, listId: string = this.listId): Promise<ClickUpTask> {
     try {
       console.log('Creating task with data:', taskData);
       
-      const response = await this.retryRequest(() =>
-        this.client.post<ClickUpTask>(`/list/${this.listId}/task`, taskData)
-      );
+      const response = await this.client.post<ClickUpTask>(`/list/${listId}/task`, taskData);
 
       console.log('Task created successfully:', response.data);
       return response.data;
@@ -575,7 +552,7 @@ class ClickUpAPI {
         status: apiError.response?.status,
         statusText: apiError.response?.statusText,
         data: apiError.response?.data,
-        listId: this.listId,
+        listId,
       });
       
       if (apiError.response?.status === 400) {
@@ -601,9 +578,7 @@ class ClickUpAPI {
     try {
       console.log('Updating task with data:', updateData);
       
-      const response = await this.retryRequest(() =>
-        this.client.put<ClickUpTask>(`/task/${taskId}`, updateData)
-      );
+      const response = await this.client.put<ClickUpTask>(`/task/${taskId}`, updateData);
 
       console.log('Task updated successfully:', response.data);
       return response.data;
@@ -632,15 +607,46 @@ class ClickUpAPI {
     }
   }
 
+  /**
+   * Set (or clear) a custom field on a task
+   * @param taskId - The ID of the task to update
+   * @param field - The list's definition of the field
+   * @param input - Value as read by the custom field adapter; null or '' clears the field
+   * @returns Promise<void>
+   */
+  async setCustomFieldValue(taskId: string, field: ClickUpCustomField, input: CustomFieldValue): Promise<void> {
+    const encoded = toClickUpFieldValue(field, input);
+    if (typeof encoded === 'string') {
+      throw new Error(encoded);
+    }
+
+    try {
+      // Users can only be added through the field endpoint, so replacing them starts from an empty field
+      if (encoded.value === null || field.type === 'users') {
+        await this.client.delete(`/task/${taskId}/field/${field.id}`);
+      }
+      if (encoded.value !== null) {
+        await this.client.post(`/task/${taskId}/field/${field.id}`, encoded);
+      }
+    } catch (error: unknown) {
+      const apiError = error as ApiError;
+      console.error(`Error setting ${field.name} on task ${taskId}:`, apiError.message);
+
+      if (apiError.response?.status === 404) {
+        throw new Error('Task not found. It may have been deleted.');
+      }
+      throw new Error(`Failed to set ${field.name} in ClickUp: ${apiError.message}`);
+    }
+  }
+
   /**
    * Get available statuses for the list
+   * @param listId - The list whose statuses to fetch (defaults to CLICKUP_LIST_ID)
    * @returns Promise<any[]>
    */
-  async getStatuses(): Promise<ClickUpStatus[]> {
+  async getStatuses(listId: string = this.listId): Promise<ClickUpStatus[]> {
     try {
-      const response = await this.retryRequest(() =>
-        this.client.get(`/list/${this.listId}`)
-      );
+      const response = await this.client.get<{ statuses?: ClickUpStatus[] }>(`/list/${listId}`);
       
       return response.data.statuses || [];
     } catch (error: unknown) {
@@ -650,15 +656,29 @@ class ClickUpAPI {
     }
   }
 
+  /**
+   * Get a list's details
+   * @param listId - The list ID
+   * @returns Promise<ClickUpList>
+   */
+  async getList(listId: string): Promise<ClickUpList> {
+    try {
+      const response = await this.client.get<ClickUpList>(`/list/${listId}`);
+      return response.data;
+    } catch (error: unknown) {
+      const apiError = error as ApiError;
+      console.error(`Error fetching list ${listId}:`, apiError.message);
+      throw new Error(`Failed to fetch list from ClickUp: ${apiError.message}`);
+    }
+  }
+
   /**
    * Get team members
    * @returns Promise<any[]>
    */
   async getTeamMembers(): Promise<Array<{ user: { id: number; username: string; color: string; profilePicture?: string } }>> {
     try {
-      const response = await this.retryRequest(() =>
-        this.client.get(`/team/${this.teamId}/member`)
-      );
+      const response = await this.client.get<{ members?: Array<{ user: { id: number; username: string; color: string; profilePicture?: string } }> }>(`/team/${this.teamId}/member`);
       
       return response.data.members || [];
     } catch (error: unknown) {
@@ -667,6 +687,115 @@ class ClickUpAPI {
       return [];
     }
   }
+
+  /**
+   * Fetch a single task by ID
+   * @param taskId - The ClickUp task ID
+   * @returns Promise<ClickUpTask>
+   */
+  async getTask(taskId: string): Promise<ClickUpTask> {
+    try {
+      const response = await this.client.get<ClickUpTask>(`/task/${taskId}`);
+      return response.data;
+    } catch (error: unknown) {
+      const apiError = error as ApiError;
+      console.error(`Error fetching task ${taskId}:`, apiError.message);
+
+      if (apiError.response?.status === 404) {
+        throw new Error('Task not found. It may have been deleted.');
+      }
+      throw new Error(`Failed to fetch task from ClickUp: ${apiError.message}`);
+    }
+  }
+
+  /**
+   * Get the user the API token belongs to (cached)
+   * @returns Promise<ClickUpUser | null>
+   */
+  async getAuthorizedUser(): Promise<ClickUpUser | null> {
+    if (this.authorizedUser) {
+      return this.authorizedUser;
+    }
+
+    try {
+      const response = await this.client.get<{ user: ClickUpUser }>('/user');
+      this.authorizedUser = response.data.user;
+      return this.authorizedUser;
+    } catch (error: unknown) {
+      const apiError = error as ApiError;
+      console.error('Error fetching authorized user:', apiError.message);
+      return null;
+    }
+  }
+
+  /**
+   * Get all webhooks registered for the team by this token
+   * @param teamId - Optional team ID (defaults to the configured team)
+   * @returns Promise<ClickUpWebhook[]>
+   */
+  async getWebhooks(teamId?: string): Promise<ClickUpWebhook[]> {
+    const response = await this.client.get<{ webhooks: ClickUpWebhook[] }>(`/team/${teamId || this.teamId}/webhook`);
+    return response.data.webhooks || [];
+  }
+
+  /**
+   * Register a webhook for one list
+   * @param endpoint - Public URL ClickUp should POST events to
+   * @param events - Events to subscribe to
+   * @param listId - Optional list ID (defaults to the configured list)
+   * @param teamId - Optional team ID the list belongs to (defaults to the configured team)
+   * @returns Promise<ClickUpWebhook>
+   */
+  async createWebhook(endpoint: string, events: ClickUpWebhookEvent[], listId?: string, teamId?: string): Promise<ClickUpWebhook> {
+    const response = await this.client.post<{ id: string; webhook: ClickUpWebhook }>(`/team/${teamId || this.teamId}/webhook`, {
+      endpoint,
+      events,
+      list_id: Number(listId || this.listId),
+    });
+    return response.data.webhook;
+  }
+
+  /**
+   * Update an existing webhook (also re-activates a suspended one)
+   * @param webhookId - The webhook ID
+   * @param endpoint - Public URL ClickUp should POST events to
+   * @param events - Events to subscribe to
+   * @returns Promise<ClickUpWebhook>
+   */
+  async updateWebhook(webhookId: string, endpoint: string, events: ClickUpWebhookEvent[]): Promise<ClickUpWebhook> {
+    const response = await this.client.put<{ id: string; webhook: ClickUpWebhook }>(`/webhook/${webhookId}`, {
+      endpoint,
+      events,
+      status: 'active',
+    });
+    return response.data.webhook;
+  }
+
+  /**
+   * Remove a webhook, e.g. one for a list that is no longer tracked
+   * @param webhookId - The webhook ID
+   */
+  async deleteWebhook(webhookId: string): Promise<void> {
+    await this.client.delete(`/webhook/${webhookId}`);
+  }
+
+  getTeamId(): string {
+    return this.teamId;
+  }
+
+  /**
+   * The list this instance tracks
+   */
+  getListId(): string {
+    return this.listId;
+  }
+
+  /**
+   * Which transport requests go through: 'http' or 'fake'
+   */
+  getTransportName(): string {
+    return this.client.name;
+  }
 }
 
 // Export a singleton instance
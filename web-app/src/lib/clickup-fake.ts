@@ -0,0 +1,713 @@
+import { readFileSync } from 'fs';
+import type { ClickUpRequestConfig, ClickUpResponse, ClickUpTransport } from '@/lib/clickup-transport';
+import {
+  ClickUpComment,
+  ClickUpCustomField,
+  ClickUpFolder,
+  ClickUpList,
+  ClickUpSpace,
+  ClickUpStatus,
+  ClickUpTask,
+  ClickUpTeam,
+  ClickUpUser,
+  ClickUpWebhook,
+  ClickUpWebhookEvent
+} from '@/types/clickup';
+
+// ClickUp pages task lists 100 at a time; ClickUpAPI.getTasks stops at a shorter page
+const PAGE_SIZE = 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+// Generous enough not to slow local development, as on ClickUp's Enterprise plan
+const RATE_LIMIT_PER_MINUTE = 10000;
+
+const TEAM_ID = '9012';
+const SPACE_ID = '90120';
+
+const DEFAULT_STATUSES: ClickUpStatus[] = [
+  { id: 'st-todo', status: 'to do', orderindex: 0, color: '#87909e', type: 'open' },
+  { id: 'st-progress', status: 'in progress', orderindex: 1, color: '#1090e0', type: 'custom' },
+  { id: 'st-review', status: 'in review', orderindex: 2, color: '#f8ae00', type: 'custom' },
+  { id: 'st-complete', status: 'complete', orderindex: 3, color: '#008844', type: 'closed' },
+];
+
+const PRIORITIES: Record<number, { priority: string; color: string }> = {
+  1: { priority: 'urgent', color: '#f50000' },
+  2: { priority: 'high', color: '#ffcc00' },
+  3: { priority: 'normal', color: '#6fddff' },
+  4: { priority: 'low', color: '#d8d8d8' },
+};
+
+const DEVELOPER_COLORS = ['#1f77b4', '#ff7f0e', '#2ca02c', '#d62728', '#9467bd', '#8c564b', '#e377c2', '#17becf'];
+
+const COMPONENTS = ['Frontend', 'Backend', 'Infrastructure', 'Docs'];
+
+const STATUS_TEXT: Record<number, string> = {
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  404: 'Not Found',
+  429: 'Too Many Requests',
+};
+
+/**
+ * A task in a fixture file; dates are days from now so fixtures never go stale
+ */
+export interface FakeTaskSeed {
+  id: string;
+  list: string;                 // List ID
+  name: string;
+  status: string;
+  parent?: string;
+  description?: string;
+  developer?: string;           // A name from FakeWorkspaceSeed.developers
+  priority?: 'urgent' | 'high' | 'normal' | 'low';
+  estimateHours?: number;
+  component?: string;
+  createdDaysAgo?: number;
+  startInDays?: number;
+  dueInDays?: number;
+  comments?: string[];
+}
+
+/**
+ * Contents of a CLICKUP_FAKE_FIXTURES file
+ */
+export interface FakeWorkspaceSeed {
+  teamName: string;
+  developers: string[];         // Options of every list's Developer drop_down, and team members
+  lists: Array<{ id: string; name: string; folder?: string }>;   // Lists without a folder sit in the space
+  tasks: FakeTaskSeed[];
+}
+
+interface FakeWorkspace {
+  team: ClickUpTeam;
+  user: ClickUpUser;
+  members: ClickUpUser[];
+  folders: Array<{ id: string; name: string }>;
+  lists: Array<{ id: string; name: string; folderId?: string }>;
+  fields: Record<string, ClickUpCustomField[]>;
+  tasks: Map<string, ClickUpTask>;
+  comments: Map<string, ClickUpComment[]>;
+  webhooks: ClickUpWebhook[];
+  nextId: number;
+}
+
+/**
+ * Rejection shaped like an axios error, so ClickUpAPI handles it as it would a real one
+ */
+class FakeClickUpError extends Error {
+  response: { status: number; statusText: string; data: unknown; headers?: Record<string, unknown> };
+
+  constructor(status: number, err: string, ecode: string) {
+    super(`Request failed with status code ${status}`);
+    this.name = 'FakeClickUpError';
+    this.response = { status, statusText: STATUS_TEXT[status] || 'Error', data: { err, ECODE: ecode } };
+  }
+}
+
+const FEATURES = [
+  'Checkout redesign', 'Search indexing', 'Billing export', 'Onboarding emails', 'Audit log',
+  'Mobile navigation', 'Rate plan migration', 'SSO login', 'Report scheduler', 'Image uploads',
+  'Notification settings', 'Dashboard widgets',
+];
+const STEPS = ['Design', 'Build', 'Test'];
+const SUBTASK_STATUSES = ['to do', 'in progress', 'in review', 'complete', 'to do'];
+const PRIORITY_CYCLE: Array<FakeTaskSeed['priority']> = ['high', 'normal', undefined, 'urgent', 'low', 'normal'];
+
+/**
+ * Built-in fixtures: two lists with a mix of statuses, developers, estimates, due dates and comments
+ * @param parentCount - Top-level tasks to generate; above ~70 the sprint list spans several pages
+ * @returns FakeWorkspaceSeed
+ */
+export function createDefaultSeed(parentCount: number = FEATURES.length): FakeWorkspaceSeed {
+  const developers = ['Alice Martin', 'Bruno Silva', 'Chen Wei', 'Dana Okafor'];
+  const tasks: FakeTaskSeed[] = [];
+
+  for (let i = 0; i < parentCount; i++) {
+    const name = FEATURES[i % FEATURES.length] + (i >= FEATURES.length ? ` #${Math.floor(i / FEATURES.length) + 1}` : '');
+    const parentId = `fake${1000 + i * 10}`;
+    const subtaskCount = i % 4;
+    const developer = i % 5 === 4 ? undefined : developers[i % developers.length];
+
+    tasks.push({
+      id: parentId,
+      list: i % 4 === 3 ? '901101' : '901100',
+      name,
+      status: subtaskCount === 0 ? SUBTASK_STATUSES[i % SUBTASK_STATUSES.length] : 'in progress',
+      developer,
+      priority: PRIORITY_CYCLE[i % PRIORITY_CYCLE.length],
+      estimateHours: subtaskCount === 0 ? 3 + (i % 5) * 2 : undefined,
+      component: COMPONENTS[i % COMPONENTS.length],
+      createdDaysAgo: 20 + i,
+      dueInDays: i * 2 - 3,
+      comments: i % 3 === 0 ? [`Kick-off notes for ${name}.`, 'Scope agreed with product.'] : undefined,
+    });
+
+    for (let j = 0; j < subtaskCount; j++) {
+      const status = SUBTASK_STATUSES[(i + j) % SUBTASK_STATUSES.length];
+      tasks.push({
+        id: `fake${1000 + i * 10 + j + 1}`,
+        list: i % 4 === 3 ? '901101' : '901100',
+        name: `${STEPS[j]} ${name.toLowerCase()}`,
+        status,
+        parent: parentId,
+        developer: (i + j) % 7 === 6 ? undefined : developers[(i + j) % developers.length],
+        priority: PRIORITY_CYCLE[(i + j) % PRIORITY_CYCLE.length],
+        estimateHours: (i + j) % 6 === 5 ? undefined : 2 + ((i * 3 + j * 5) % 10),
+        createdDaysAgo: 18 + i - j,
+        startInDays: status === 'to do' ? undefined : -(3 + j),
+        dueInDays: i * 2 + j - 2,
+      });
+    }
+  }
+
+  return {
+    teamName: 'Fake Workspace',
+    developers,
+    lists: [
+      { id: '901100', name: 'Sprint Board', folder: 'Product' },
+      { id: '901101', name: 'Maintenance' },
+    ],
+    tasks,
+  };
+}
+
+/**
+ * Read fixtures from a JSON file (FakeWorkspaceSeed), or generate the built-in ones
+ * @param path - CLICKUP_FAKE_FIXTURES; CLICKUP_FAKE_PARENT_TASKS sizes the built-in fixtures
+ * @returns FakeWorkspaceSeed
+ */
+export function loadFakeWorkspace(path?: string): FakeWorkspaceSeed {
+  if (path) {
+    return JSON.parse(readFileSync(path, 'utf8')) as FakeWorkspaceSeed;
+  }
+  return createDefaultSeed(Number(process.env.CLICKUP_FAKE_PARENT_TASKS) || undefined);
+}
+
+function toUser(name: string, index: number): ClickUpUser {
+  return {
+    id: 1001 + index,
+    username: name,
+    email: `${name.toLowerCase().replace(/[^a-z0-9]+/g, '.')}@example.com`,
+    color: DEVELOPER_COLORS[index % DEVELOPER_COLORS.length],
+  };
+}
+
+function buildFields(listId: string, developers: string[]): ClickUpCustomField[] {
+  const created = String(Date.now() - 365 * DAY_MS);
+  return [
+    {
+      id: `${listId}-developer`,
+      name: 'Developer',
+      type: 'drop_down',
+      type_config: {
+        new_drop_down: true,
+        options: developers.map((name, index) => ({
+          id: `${listId}-developer-${index}`,
+          name,
+          color: DEVELOPER_COLORS[index % DEVELOPER_COLORS.length],
+          orderindex: index,
+        })),
+      },
+      date_created: created,
+      hide_from_guests: false,
+    },
+    {
+      id: `${listId}-component`,
+      name: 'Component',
+      type: 'labels',
+      type_config: {
+        options: COMPONENTS.map((name, index) => ({ id: `${listId}-component-${index}`, name, orderindex: index })),
+      },
+      date_created: created,
+      hide_from_guests: false,
+    },
+    {
+      id: `${listId}-points`,
+      name: 'Story Points',
+      type: 'number',
+      type_config: {},
+      date_created: created,
+      hide_from_guests: false,
+    },
+  ];
+}
+
+function buildWorkspace(seed: FakeWorkspaceSeed): FakeWorkspace {
+  const now = Date.now();
+  const members = seed.developers.map(toUser);
+  const user: ClickUpUser = { id: 1000, username: 'Fake Admin', email: 'admin@example.com', color: '#7b68ee' };
+  const folderNames = [...new Set(seed.lists.map(list => list.folder).filter((name): name is string => !!name))];
+  const folders = folderNames.map((name, index) => ({ id: `${SPACE_ID}${index + 1}`, name }));
+
+  const workspace: FakeWorkspace = {
+    team: {
+      id: TEAM_ID,
+      name: seed.teamName,
+      color: '#7b68ee',
+      members: [user, ...members].map(member => ({
+        user: { id: member.id, username: member.username, color: member.color },
+      })),
+    },
+    user,
+    members: [user, ...members],
+    folders,
+    lists: seed.lists.map(list => ({
+      id: list.id,
+      name: list.name,
+      folderId: folders.find(folder => folder.name === list.folder)?.id,
+    })),
+    fields: Object.fromEntries(seed.lists.map(list => [list.id, buildFields(list.id, seed.developers)])),
+    tasks: new Map(),
+    comments: new Map(),
+    webhooks: [],
+    nextId: 1,
+  };
+
+  for (const taskSeed of seed.tasks) {
+    const created = now - (taskSeed.createdDaysAgo ?? 7) * DAY_MS;
+    const task = newTask(workspace, taskSeed.list, taskSeed.id, taskSeed.name, created);
+    const fields = workspace.fields[taskSeed.list];
+    const developerIndex = taskSeed.developer ? seed.developers.indexOf(taskSeed.developer) : -1;
+
+    if (taskSeed.description) task.description = taskSeed.description;
+    if (taskSeed.parent) task.parent = taskSeed.parent;
+    setStatus(workspace, task, taskSeed.status, created + DAY_MS);
+    setPriority(task, taskSeed.priority ? Number(Object.keys(PRIORITIES).find(key => PRIORITIES[Number(key)].priority === taskSeed.priority)) : null);
+    if (taskSeed.estimateHours !== undefined) task.time_estimate = taskSeed.estimateHours * HOUR_MS;
+    if (taskSeed.startInDays !== undefined) task.start_date = String(now + taskSeed.startInDays * DAY_MS);
+    if (taskSeed.dueInDays !== undefined) task.due_date = String(now + taskSeed.dueInDays * DAY_MS);
+    if (developerIndex >= 0) setFieldValue(task, fields[0], fields[0].type_config?.options?.[developerIndex].id);
+    if (taskSeed.component) {
+      const option = fields[1].type_config?.options?.find(candidate => candidate.name === taskSeed.component);
+      if (option) setFieldValue(task, fields[1], [option.id]);
+    }
+    workspace.tasks.set(task.id, task);
+
+    (taskSeed.comments || []).forEach((text, index) => {
+      addComment(workspace, task.id, text, members[index % members.length] || user, created + (index + 1) * HOUR_MS);
+    });
+  }
+
+  return workspace;
+}
+
+function newTask(workspace: FakeWorkspace, listId: string, id: string, name: string, created: number): ClickUpTask {
+  const list = workspace.lists.find(candidate => candidate.id === listId)!;
+  const folder = workspace.folders.find(candidate => candidate.id === list.folderId);
+  const status = DEFAULT_STATUSES[0];
+
+  return {
+    id,
+    name,
+    status: { id: status.id, status: status.status, color: status.color, type: status.type, orderindex: status.orderindex },
+    orderindex: String(workspace.tasks.size + 1),
+    date_created: String(created),
+    date_updated: String(created),
+    archived: false,
+    creator: { ...workspace.user },
+    assignees: [],
+    watchers: [],
+    checklists: [],
+    tags: [],
+    custom_fields: workspace.fields[listId].map(field => ({
+      id: field.id,
+      name: field.name,
+      type: field.type,
+      type_config: (field.type_config || {}) as Record<string, unknown>,
+      date_created: field.date_created,
+      hide_from_guests: field.hide_from_guests,
+    })),
+    dependencies: [],
+    linked_tasks: [],
+    team_id: TEAM_ID,
+    url: `https://app.clickup.com/t/${id}`,
+    permission_level: 'create',
+    list: { id: list.id, name: list.name, access: true },
+    project: { id: folder?.id || 'hidden', name: folder?.name || 'hidden', hidden: !folder, access: true },
+    folder: { id: folder?.id || 'hidden', name: folder?.name || 'hidden', hidden: !folder, access: true },
+    space: { id: SPACE_ID },
+  };
+}
+
+function setStatus(workspace: FakeWorkspace, task: ClickUpTask, name: string, at: number): void {
+  const status = DEFAULT_STATUSES.find(candidate => candidate.status === name.toLowerCase());
+  if (!status) {
+    throw new FakeClickUpError(400, 'Status does not exist', 'CRTSK_001');
+  }
+  task.status = { id: status.id, status: status.status, color: status.color, type: status.type, orderindex: status.orderindex };
+  if (status.type === 'closed') {
+    task.date_closed = task.date_closed || String(at);
+    task.date_done = task.date_done || String(at);
+  } else {
+    delete task.date_closed;
+    delete task.date_done;
+  }
+}
+
+function setPriority(task: ClickUpTask, priority: number | null | undefined): void {
+  const known = priority ? PRIORITIES[priority] : undefined;
+  if (known) {
+    task.priority = { id: String(priority), priority: known.priority, color: known.color, orderindex: String(priority) };
+  } else {
+    delete task.priority;
+  }
+}
+
+// drop_down values are stored as the option's orderindex, as ClickUp returns them
+function setFieldValue(task: ClickUpTask, field: ClickUpCustomField, value: unknown): void {
+  const taskField = task.custom_fields.find(candidate => candidate.id === field.id);
+  if (!taskField) return;
+
+  if (value === null || value === undefined) {
+    delete taskField.value;
+  } else if (field.type === 'drop_down') {
+    const option = field.type_config?.options?.find(candidate => candidate.id === value || candidate.orderindex === value);
+    if (!option) throw new FakeClickUpError(400, 'Value is not a valid option', 'FIELD_012');
+    taskField.value = option.orderindex;
+  } else {
+    taskField.value = value;
+  }
+}
+
+function addComment(workspace: FakeWorkspace, taskId: string, text: string, author: ClickUpUser, at: number): ClickUpComment {
+  const comment: ClickUpComment = {
+    id: String(90000000 + workspace.nextId++),
+    comment: [{ text, type: 'text' }],
+    comment_text: text,
+    user: { ...author },
+    resolved: false,
+    reactions: [],
+    date: String(at),
+  };
+  workspace.comments.set(taskId, [...(workspace.comments.get(taskId) || []), comment]);
+  return comment;
+}
+
+// Route handlers share one workspace per server process, surviving dev reloads
+const globalStore = globalThis as typeof globalThis & { fakeClickUpWorkspace?: FakeWorkspace };
+
+/**
+ * An in-memory ClickUp: teams, spaces, folders, lists with statuses and custom fields (Developer
+ * drop_down, Component labels, Story Points), tasks and subtasks, comments and webhooks registrations.
+ * Task lists page at 100 like ClickUp, and every Nth request can answer 429 to exercise retries.
+ * Changes last until the server restarts; no webhook events are delivered.
+ */
+export class FakeClickUpTransport implements ClickUpTransport {
+  readonly name = 'fake' as const;
+  readonly defaults: { teamId: string; listId: string };
+  private workspace: FakeWorkspace;
+  private requestCount = 0;
+  private rateLimitEvery: number;
+  private windowStart = Date.now();
+  private windowCount = 0;
+
+  constructor(seed: FakeWorkspaceSeed, options: { rateLimitEvery?: number; shared?: boolean } = {}) {
+    const shared = options.shared ?? true;
+    this.workspace = (shared && globalStore.fakeClickUpWorkspace) || buildWorkspace(seed);
+    if (shared) globalStore.fakeClickUpWorkspace = this.workspace;
+    this.rateLimitEvery = options.rateLimitEvery || 0;
+    this.defaults = { teamId: TEAM_ID, listId: seed.lists[0]?.id || '' };
+  }
+
+  async get<T>(path: string, config?: ClickUpRequestConfig): Promise<ClickUpResponse<T>> {
+    return this.handle<T>('GET', path, config?.params || {}, undefined);
+  }
+
+  async post<T>(path: string, body?: unknown): Promise<ClickUpResponse<T>> {
+    return this.handle<T>('POST', path, {}, body);
+  }
+
+  async put<T>(path: string, body?: unknown): Promise<ClickUpResponse<T>> {
+    return this.handle<T>('PUT', path, {}, body);
+  }
+
+  async delete<T>(path: string): Promise<ClickUpResponse<T>> {
+    return this.handle<T>('DELETE', path, {}, undefined);
+  }
+
+  private handle<T>(method: string, path: string, params: Record<string, unknown>, body: unknown): ClickUpResponse<T> {
+    this.requestCount++;
+    const headers = this.countRequest();
+    if (this.rateLimitEvery > 0 && this.requestCount % this.rateLimitEvery === 0) {
+      const error = new FakeClickUpError(429, 'Rate limit reached', 'APP_002');
+      // A short window, so simulated limits slow callers down without stalling them for a minute
+      error.response.headers = { ...headers, 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': String(Math.ceil(Date.now() / 1000) + 1) };
+      throw error;
+    }
+
+    try {
+      const data = this.route(method, path.replace(/\/+$/, ''), params, (body || {}) as Record<string, unknown>);
+      // Callers get copies, so nothing outside the transport can change the workspace
+      return { data: structuredClone(data) as T, status: 200, headers };
+    } catch (error) {
+      if (error instanceof FakeClickUpError) error.response.headers = headers;
+      throw error;
+    }
+  }
+
+  // X-RateLimit headers for a fixed one-minute window, as ClickUp sends them
+  private countRequest(): Record<string, unknown> {
+    const now = Date.now();
+    if (now - this.windowStart >= 60 * 1000) {
+      this.windowStart = now;
+      this.windowCount = 0;
+    }
+    this.windowCount++;
+    return {
+      'x-ratelimit-limit': String(RATE_LIMIT_PER_MINUTE),
+      'x-ratelimit-remaining': String(Math.max(0, RATE_LIMIT_PER_MINUTE - this.windowCount)),
+      'x-ratelimit-reset': String(Math.ceil((this.windowStart + 60 * 1000) / 1000)),
+    };
+  }
+
+  private route(method: string, path: string, params: Record<string, unknown>, body: Record<string, unknown>): unknown {
+    const segments = path.split('/').filter(Boolean);
+    const [resource, id, child, childId] = segments;
+    const route = `${method} /${resource}${id !== undefined ? '/:id' : ''}${child ? `/${child}` : ''}${childId ? '/:childId' : ''}`;
+
+    switch (route) {
+      case 'GET /user':
+        return { user: this.workspace.user };
+      case 'GET /team':
+        return { teams: [this.workspace.team] };
+      case 'GET /team/:id':
+        return this.requireTeam(id);
+      case 'GET /team/:id/member':
+        this.requireTeam(id);
+        return { members: this.workspace.members.map(member => ({ user: member })) };
+      case 'GET /team/:id/space':
+        this.requireTeam(id);
+        return { spaces: [this.getSpace()] };
+      case 'GET /space/:id/folder':
+        return { folders: id === SPACE_ID ? this.workspace.folders.map(folder => this.getFolder(folder.id)) : [] };
+      case 'GET /space/:id/list':
+        return { lists: id === SPACE_ID ? this.workspace.lists.filter(list => !list.folderId).map(list => this.getList(list.id)) : [] };
+      case 'GET /folder/:id/list':
+        return { lists: this.workspace.lists.filter(list => list.folderId === id).map(list => this.getList(list.id)) };
+      case 'GET /list/:id':
+        return { ...this.getList(id), statuses: DEFAULT_STATUSES };
+      case 'GET /list/:id/field':
+        this.getList(id);
+        return { fields: this.workspace.fields[id] };
+      case 'GET /list/:id/task':
+        return this.listTasks(id, params);
+      case 'POST /list/:id/task':
+        return this.createTask(id, body);
+      case 'GET /task/:id':
+        return this.requireTask(id);
+      case 'PUT /task/:id':
+        return this.updateTask(id, body);
+      case 'POST /task/:id/field/:childId':
+      case 'DELETE /task/:id/field/:childId':
+        return this.writeField(id, childId, method === 'DELETE' ? null : body.value);
+      case 'GET /task/:id/comment':
+        this.requireTask(id);
+        return { comments: [...(this.workspace.comments.get(id) || [])].reverse() };
+      case 'POST /task/:id/comment': {
+        this.requireTask(id).date_updated = String(Date.now());
+        const comment = addComment(this.workspace, id, String(body.comment_text || ''), this.workspace.user, Date.now());
+        return { id: Number(comment.id), hist_id: `hist-${comment.id}`, date: Number(comment.date) };
+      }
+      case 'GET /team/:id/webhook':
+        this.requireTeam(id);
+        return { webhooks: this.workspace.webhooks };
+      case 'POST /team/:id/webhook':
+        this.requireTeam(id);
+        return this.createWebhook(body);
+      case 'PUT /webhook/:id':
+        return this.updateWebhook(id, body);
+      case 'DELETE /webhook/:id':
+        this.updateWebhook(id, {});
+        this.workspace.webhooks = this.workspace.webhooks.filter(webhook => webhook.id !== id);
+        return {};
+      default:
+        throw new FakeClickUpError(404, `Route not found: ${method} ${path}`, 'APP_001');
+    }
+  }
+
+  private requireTeam(teamId: string): ClickUpTeam {
+    if (teamId !== TEAM_ID) {
+      throw new FakeClickUpError(401, 'Team not authorized', 'OAUTH_027');
+    }
+    return this.workspace.team;
+  }
+
+  private requireTask(taskId: string): ClickUpTask {
+    const task = this.workspace.tasks.get(taskId);
+    if (!task) {
+      throw new FakeClickUpError(404, 'Task not found', 'ITEM_013');
+    }
+    return task;
+  }
+
+  private getSpace(): ClickUpSpace {
+    return {
+      id: SPACE_ID,
+      name: 'Engineering',
+      private: false,
+      statuses: DEFAULT_STATUSES,
+      multiple_assignees: true,
+      features: {},
+    };
+  }
+
+  private getFolder(folderId: string): ClickUpFolder {
+    const folder = this.workspace.folders.find(candidate => candidate.id === folderId)!;
+    const lists = this.workspace.lists.filter(list => list.folderId === folderId).map(list => this.getList(list.id));
+    return {
+      id: folder.id,
+      name: folder.name,
+      orderindex: 0,
+      override_statuses: false,
+      hidden: false,
+      space: { id: SPACE_ID, name: 'Engineering', access: true },
+      task_count: String(lists.reduce((sum, list) => sum + (list.task_count || 0), 0)),
+      archived: false,
+      statuses: [],
+      lists,
+    };
+  }
+
+  private getList(listId: string): ClickUpList {
+    const list = this.workspace.lists.find(candidate => candidate.id === listId);
+    if (!list) {
+      throw new FakeClickUpError(404, 'List not found', 'ITEM_015');
+    }
+    const folder = this.workspace.folders.find(candidate => candidate.id === list.folderId);
+    return {
+      id: list.id,
+      name: list.name,
+      orderindex: this.workspace.lists.indexOf(list),
+      task_count: [...this.workspace.tasks.values()].filter(task => task.list.id === listId && !task.parent).length,
+      folder: { id: folder?.id || 'hidden', name: folder?.name || 'hidden', hidden: !folder, access: true },
+      space: { id: SPACE_ID, name: 'Engineering', access: true },
+      archived: false,
+    };
+  }
+
+  // GET /list/{id}/task: newest first, closed tasks and subtasks only when asked for
+  private listTasks(listId: string, params: Record<string, unknown>): { tasks: ClickUpTask[]; last_page: boolean } {
+    this.getList(listId);
+    const page = Number(params.page) || 0;
+    const updatedAfter = params.date_updated_gt !== undefined ? Number(params.date_updated_gt) : null;
+
+    const matching = [...this.workspace.tasks.values()]
+      .filter(task => task.list.id === listId)
+      .filter(task => String(params.archived) === 'true' || !task.archived)
+      .filter(task => String(params.include_closed) === 'true' || task.status.type !== 'closed')
+      .filter(task => String(params.subtasks) === 'true' || !task.parent)
+      .filter(task => updatedAfter === null || Number(task.date_updated) > updatedAfter)
+      .sort((a, b) => Number(b.date_created) - Number(a.date_created) || a.id.localeCompare(b.id));
+
+    const tasks = matching.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
+    return { tasks, last_page: (page + 1) * PAGE_SIZE >= matching.length };
+  }
+
+  private createTask(listId: string, body: Record<string, unknown>): ClickUpTask {
+    this.getList(listId);
+    if (typeof body.name !== 'string' || !body.name.trim()) {
+      throw new FakeClickUpError(400, 'Task name invalid', 'INPUT_005');
+    }
+
+    const now = Date.now();
+    let id: string;
+    do {
+      id = `fake${this.workspace.nextId++}`;
+    } while (this.workspace.tasks.has(id));
+    const task = newTask(this.workspace, listId, id, body.name, now);
+    if (typeof body.description === 'string') task.description = body.description;
+    if (typeof body.status === 'string') setStatus(this.workspace, task, body.status, now);
+    if (body.parent) task.parent = this.requireTask(String(body.parent)).id;
+    setPriority(task, body.priority as number | null | undefined);
+    if (body.due_date) task.due_date = String(body.due_date);
+    if (body.time_estimate) task.time_estimate = Number(body.time_estimate);
+    if (Array.isArray(body.assignees)) task.assignees = this.findMembers(body.assignees);
+
+    for (const { id, value } of (body.custom_fields || []) as Array<{ id: string; value: unknown }>) {
+      const field = this.workspace.fields[listId].find(candidate => candidate.id === id);
+      if (field) setFieldValue(task, field, value);
+    }
+
+    this.workspace.tasks.set(task.id, task);
+    return task;
+  }
+
+  private updateTask(taskId: string, body: Record<string, unknown>): ClickUpTask {
+    const task = this.requireTask(taskId);
+    const now = Date.now();
+
+    if (typeof body.name === 'string') task.name = body.name;
+    if (typeof body.description === 'string') task.description = body.description;
+    if (typeof body.status === 'string') setStatus(this.workspace, task, body.status, now);
+    if ('priority' in body) setPriority(task, body.priority as number | null);
+    if ('due_date' in body) task.due_date = body.due_date ? String(body.due_date) : undefined;
+    if ('time_estimate' in body) task.time_estimate = body.time_estimate ? Number(body.time_estimate) : undefined;
+    if (body.parent) task.parent = this.requireTask(String(body.parent)).id;
+    if (Array.isArray(body.assignees)) {
+      task.assignees = this.findMembers(body.assignees);
+    } else if (body.assignees && typeof body.assignees === 'object') {
+      const { add = [], rem = [] } = body.assignees as { add?: number[]; rem?: number[] };
+      task.assignees = [
+        ...task.assignees.filter(assignee => !rem.includes(assignee.id)),
+        ...this.findMembers(add.filter(id => !task.assignees.some(assignee => assignee.id === id))),
+      ];
+    }
+
+    task.date_updated = String(now);
+    return task;
+  }
+
+  // POST /task/{id}/field/{field_id} with { value }, or DELETE to clear; users fields take { add, rem }
+  private writeField(taskId: string, fieldId: string, value: unknown): Record<string, never> {
+    const task = this.requireTask(taskId);
+    const field = this.workspace.fields[task.list.id].find(candidate => candidate.id === fieldId);
+    if (!field) {
+      throw new FakeClickUpError(400, 'Custom field not found on this list', 'FIELD_033');
+    }
+
+    if (field.type === 'users' && value && typeof value === 'object' && !Array.isArray(value)) {
+      const current = (task.custom_fields.find(candidate => candidate.id === fieldId)?.value || []) as ClickUpUser[];
+      const { add = [], rem = [] } = value as { add?: number[]; rem?: number[] };
+      value = [...current.filter(user => !rem.includes(user.id)), ...this.findMembers(add)];
+    }
+    setFieldValue(task, field, value);
+    task.date_updated = String(Date.now());
+    return {};
+  }
+
+  private findMembers(ids: unknown[]): ClickUpTask['assignees'] {
+    return this.workspace.members.filter(member => ids.map(Number).includes(member.id)).map(member => ({ ...member }));
+  }
+
+  private createWebhook(body: Record<string, unknown>): { id: string; webhook: ClickUpWebhook } {
+    const webhook: ClickUpWebhook = {
+      id: `fake-webhook-${this.workspace.nextId++}`,
+      userid: this.workspace.user.id,
+      team_id: Number(TEAM_ID),
+      endpoint: String(body.endpoint || ''),
+      client_id: 'fake',
+      events: (body.events || []) as ClickUpWebhookEvent[],
+      task_id: null,
+      list_id: body.list_id ? Number(body.list_id) : null,
+      folder_id: null,
+      space_id: null,
+      health: { status: 'active', fail_count: 0 },
+      secret: `fake-secret-${this.workspace.nextId}`,
+    };
+    this.workspace.webhooks.push(webhook);
+    return { id: webhook.id, webhook };
+  }
+
+  private updateWebhook(webhookId: string, body: Record<string, unknown>): { id: string; webhook: ClickUpWebhook } {
+    const webhook = this.workspace.webhooks.find(candidate => candidate.id === webhookId);
+    if (!webhook) {
+      throw new FakeClickUpError(404, 'Webhook not found', 'OAUTH_061');
+    }
+    if (typeof body.endpoint === 'string') webhook.endpoint = body.endpoint;
+    if (Array.isArray(body.events)) webhook.events = body.events as ClickUpWebhookEvent[];
+    if (body.status === 'active') webhook.health = { status: 'active', fail_count: 0 };
+    return { id: webhook.id, webhook };
+  }
+}
@@ -0,0 +1,232 @@
+import type { ClickUpRequestConfig, ClickUpResponse, ClickUpTransport } from '@/lib/clickup-transport';
+import { ApiError, ClickUpRateLimitStats } from '@/types/clickup';
+
+// ClickUp allows 100 requests a minute per token on most plans; X-RateLimit-Limit corrects this
+const DEFAULT_LIMIT_PER_MINUTE = 100;
+const MAX_ATTEMPTS = 3;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 10000;
+const MINUTE_MS = 60 * 1000;
+
+type Method = 'GET' | 'POST' | 'PUT' | 'DELETE';
+type RetryReason = 'rate-limit' | 'server' | 'timeout';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function readNumberHeader(headers: Record<string, unknown> | undefined, name: string): number | null {
+  const value = headers?.[name] ?? headers?.[name.toLowerCase()];
+  const number = Number(Array.isArray(value) ? value[0] : value);
+  return value === undefined || value === null || isNaN(number) ? null : number;
+}
+
+function getRetryReason(error: ApiError): RetryReason | null {
+  const status = error.response?.status;
+  if (status === 429) return 'rate-limit';
+  if (status !== undefined && status >= 500) return 'server';
+  if (!error.response && (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT' || /timeout/i.test(error.message))) {
+    return 'timeout';
+  }
+  return null;
+}
+
+// Exponential backoff with jitter, so callers that failed together do not retry together
+function getBackoffDelay(attempt: number): number {
+  const delay = Math.min(BASE_BACKOFF_MS * Math.pow(2, attempt - 1), MAX_BACKOFF_MS);
+  return Math.round(delay / 2 + Math.random() * delay / 2);
+}
+
+/**
+ * Token bucket shared by every ClickUp request in the process. Tokens are handed out in arrival
+ * order through a promise chain, so concurrent route handlers cannot both take the last one.
+ */
+class ClickUpRateLimiter {
+  private limitPerMinute: number;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+  private queue: Promise<unknown> = Promise.resolve();
+  private stats = {
+    waiting: 0,
+    inFlight: 0,
+    requests: 0,
+    throttled: 0,
+    totalWaitMs: 0,
+    retries: 0,
+    rateLimited: 0,
+    serverErrors: 0,
+    timeouts: 0,
+    failures: 0,
+    remaining: null as number | null,
+    resetAt: null as string | null,
+  };
+
+  constructor(limitPerMinute: number) {
+    this.limitPerMinute = limitPerMinute;
+    this.tokens = limitPerMinute;
+  }
+
+  /**
+   * Send a request once a token is free, retrying 429s, 5xx responses and timeouts.
+   * POSTs are only retried on 429: after a timeout or 5xx ClickUp may already have created the task or comment.
+   */
+  async run<T>(method: Method, request: () => Promise<ClickUpResponse<T>>): Promise<ClickUpResponse<T>> {
+    for (let attempt = 1; ; attempt++) {
+      await this.acquire();
+      this.stats.inFlight++;
+      this.stats.requests++;
+
+      try {
+        const response = await request();
+        this.observe(response.headers);
+        return response;
+      } catch (error: unknown) {
+        const apiError = error as ApiError;
+        this.observe(apiError.response?.headers);
+
+        const reason = getRetryReason(apiError);
+        if (reason === 'rate-limit') this.stats.rateLimited++;
+        if (reason === 'server') this.stats.serverErrors++;
+        if (reason === 'timeout') this.stats.timeouts++;
+
+        if (!reason || attempt >= MAX_ATTEMPTS || (method === 'POST' && reason !== 'rate-limit')) {
+          this.stats.failures++;
+          throw error;
+        }
+
+        this.stats.retries++;
+        const delay = getBackoffDelay(attempt);
+        console.log(`ClickUp ${reason} on ${method}, retrying in ${delay}ms (attempt ${attempt}/${MAX_ATTEMPTS})`);
+        if (reason === 'rate-limit') {
+          // Hold every caller back, until the window resets when ClickUp says when that is
+          this.pause(Date.now() + delay);
+        } else {
+          await sleep(delay);
+        }
+      } finally {
+        this.stats.inFlight--;
+      }
+    }
+  }
+
+  getStats(): ClickUpRateLimitStats {
+    this.refill();
+    return {
+      ...this.stats,
+      limitPerMinute: this.limitPerMinute,
+      tokens: Math.floor(this.tokens),
+      pausedUntil: this.pausedUntil > Date.now() ? new Date(this.pausedUntil).toISOString() : null,
+    };
+  }
+
+  private acquire(): Promise<void> {
+    this.stats.waiting++;
+    const turn = this.queue.then(() => this.take());
+    this.queue = turn.catch(() => undefined);
+    return turn.finally(() => {
+      this.stats.waiting--;
+    });
+  }
+
+  private async take(): Promise<void> {
+    const start = Date.now();
+    for (;;) {
+      this.refill();
+      const now = Date.now();
+      if (this.pausedUntil > now) {
+        await sleep(this.pausedUntil - now);
+      } else if (this.tokens >= 1) {
+        this.tokens -= 1;
+        break;
+      } else {
+        await sleep(Math.ceil((1 - this.tokens) * MINUTE_MS / this.limitPerMinute));
+      }
+    }
+
+    const waited = Date.now() - start;
+    if (waited > 0) {
+      this.stats.throttled++;
+      this.stats.totalWaitMs += waited;
+    }
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.limitPerMinute, this.tokens + (now - this.lastRefill) * this.limitPerMinute / MINUTE_MS);
+    this.lastRefill = now;
+  }
+
+  private pause(until: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, until);
+  }
+
+  // X-RateLimit-Reset is in Unix seconds
+  private observe(headers: Record<string, unknown> | undefined): void {
+    const limit = readNumberHeader(headers, 'X-RateLimit-Limit');
+    const remaining = readNumberHeader(headers, 'X-RateLimit-Remaining');
+    const reset = readNumberHeader(headers, 'X-RateLimit-Reset');
+
+    if (limit !== null && limit > 0) {
+      this.limitPerMinute = limit;
+    }
+    if (remaining !== null) {
+      this.refill();
+      this.tokens = Math.min(this.tokens, remaining);
+      this.stats.remaining = remaining;
+    }
+    if (reset !== null) {
+      this.stats.resetAt = new Date(reset * 1000).toISOString();
+      if (remaining === 0) {
+        this.pause(reset * 1000);
+      }
+    }
+  }
+}
+
+// One bucket per server process, shared by every route handler's copy of this module
+const globalStore = globalThis as typeof globalThis & { clickupRateLimiter?: ClickUpRateLimiter };
+
+function getRateLimiter(): ClickUpRateLimiter {
+  if (!globalStore.clickupRateLimiter) {
+    globalStore.clickupRateLimiter = new ClickUpRateLimiter(
+      Number(process.env.CLICKUP_RATE_LIMIT_PER_MINUTE) || DEFAULT_LIMIT_PER_MINUTE
+    );
+  }
+  return globalStore.clickupRateLimiter;
+}
+
+/**
+ * Request scheduler stats, for diagnostics
+ * @returns ClickUpRateLimitStats
+ */
+export function getClickUpRateLimitStats(): ClickUpRateLimitStats {
+  return getRateLimiter().getStats();
+}
+
+/**
+ * A transport whose every request goes through the shared rate limiter and retry policy
+ */
+export class RateLimitedTransport implements ClickUpTransport {
+  readonly name;
+  readonly defaults;
+
+  constructor(private inner: ClickUpTransport) {
+    this.name = inner.name;
+    this.defaults = inner.defaults;
+  }
+
+  get<T>(path: string, config?: ClickUpRequestConfig): Promise<ClickUpResponse<T>> {
+    return getRateLimiter().run('GET', () => this.inner.get<T>(path, config));
+  }
+
+  post<T>(path: string, body?: unknown): Promise<ClickUpResponse<T>> {
+    return getRateLimiter().run('POST', () => this.inner.post<T>(path, body));
+  }
+
+  put<T>(path: string, body?: unknown): Promise<ClickUpResponse<T>> {
+    return getRateLimiter().run('PUT', () => this.inner.put<T>(path, body));
+  }
+
+  delete<T>(path: string): Promise<ClickUpResponse<T>> {
+    return getRateLimiter().run('DELETE', () => this.inner.delete<T>(path));
+  }
+}
@@ -0,0 +1,93 @@
+import axios, { AxiosResponse } from 'axios';
+import { FakeClickUpTransport, loadFakeWorkspace } from '@/lib/clickup-fake';
+
+const CLICKUP_API_URL = 'https://api.clickup.com/api/v2';
+
+export type ClickUpTransportName = 'http' | 'fake';
+
+export interface ClickUpResponse<T> {
+  data: T;
+  status: number;
+  headers?: Record<string, unknown>;   // Lower-cased names; ClickUp sends X-RateLimit-Limit, -Remaining and -Reset
+}
+
+export interface ClickUpRequestConfig {
+  params?: Record<string, unknown>;
+}
+
+/**
+ * How ClickUpAPI reaches ClickUp: paths are relative to /api/v2, and failures reject with an
+ * ApiError-shaped error (message plus response.status, statusText and data) like axios does
+ */
+export interface ClickUpTransport {
+  readonly name: ClickUpTransportName;
+  // Workspace and list to use when CLICKUP_TEAM_ID and CLICKUP_LIST_ID are not set
+  readonly defaults?: { teamId: string; listId: string };
+  get<T>(path: string, config?: ClickUpRequestConfig): Promise<ClickUpResponse<T>>;
+  post<T>(path: string, body?: unknown): Promise<ClickUpResponse<T>>;
+  put<T>(path: string, body?: unknown): Promise<ClickUpResponse<T>>;
+  delete<T>(path: string): Promise<ClickUpResponse<T>>;
+}
+
+function toResponse<T>(response: AxiosResponse<T>): ClickUpResponse<T> {
+  return { data: response.data, status: response.status, headers: { ...response.headers } };
+}
+
+/**
+ * The real ClickUp API over HTTPS
+ */
+class HttpTransport implements ClickUpTransport {
+  readonly name = 'http' as const;
+  private client;
+
+  constructor(apiToken: string) {
+    this.client = axios.create({
+      baseURL: CLICKUP_API_URL,
+      headers: {
+        'Authorization': apiToken,
+        'Content-Type': 'application/json',
+      },
+      timeout: 30000, // Increased to 30 seconds for task creation operations
+    });
+  }
+
+  async get<T>(path: string, config?: ClickUpRequestConfig): Promise<ClickUpResponse<T>> {
+    return toResponse(await this.client.get<T>(path, config));
+  }
+
+  async post<T>(path: string, body?: unknown): Promise<ClickUpResponse<T>> {
+    return toResponse(await this.client.post<T>(path, body));
+  }
+
+  async put<T>(path: string, body?: unknown): Promise<ClickUpResponse<T>> {
+    return toResponse(await this.client.put<T>(path, body));
+  }
+
+  async delete<T>(path: string): Promise<ClickUpResponse<T>> {
+    return toResponse(await this.client.delete<T>(path));
+  }
+}
+
+/**
+ * The transport configured by CLICKUP_TRANSPORT: "http" (default) talks to ClickUp with
+ * CLICKUP_API_TOKEN; "fake" serves an in-memory workspace seeded from CLICKUP_FAKE_FIXTURES
+ * (a JSON file) or built-in fixtures, for running the dashboard without a ClickUp account
+ * @returns ClickUpTransport
+ */
+export function getClickUpTransport(): ClickUpTransport {
+  const name = (process.env.CLICKUP_TRANSPORT || 'http').toLowerCase();
+
+  switch (name) {
+    case 'http':
+      if (!process.env.CLICKUP_API_TOKEN) {
+        throw new Error('CLICKUP_API_TOKEN is required');
+      }
+      return new HttpTransport(process.env.CLICKUP_API_TOKEN);
+    case 'fake':
+      return new FakeClickUpTransport(loadFakeWorkspace(process.env.CLICKUP_FAKE_FIXTURES), {
+        rateLimitEvery: Number(process.env.CLICKUP_FAKE_RATE_LIMIT_EVERY) || 0,
+      });
+    default:
+      throw new Error(`Unknown CLICKUP_TRANSPORT "${name}"; expected http or fake`);
+  }
+}
@@ -0,0 +1,259 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { clickupAPI } from '@/lib/clickup-api';
+import { isConfiguredField, readCustomField } from '@/lib/custom-fields';
+import { logTaskChange } from '@/lib/blob-logger';
+import { readDocument, writeDocument } from '@/lib/storage';
+import { getTrackedLists } from '@/lib/tracked-lists';
+import { getCachedTask } from '@/lib/task-cache';
+import {
+  ClickUpCustomField,
+  ClickUpWebhookEvent,
+  ClickUpWebhookHistoryItem,
+  ClickUpWebhookPayload
+} from '@/types/clickup';
+import { LogAction } from '@/types/logs';
+
+const WEBHOOK_DOCUMENT_KEY = 'clickup:webhook';
+
+export const WEBHOOK_EVENTS: ClickUpWebhookEvent[] = [
+  'taskCreated',
+  'taskUpdated',
+  'taskDeleted',
+  'taskStatusUpdated',
+  'taskAssigneeUpdated',
+  'taskPriorityUpdated',
+  'taskDueDateUpdated',
+  'taskTimeEstimateUpdated',
+  'taskMoved',
+];
+
+// One webhook per tracked list; each has its own signing secret
+export interface StoredWebhook {
+  id: string;
+  listId: string;
+  endpoint: string;
+  secret: string;
+  registeredAt: string;
+}
+
+interface TranslatedChange {
+  action: LogAction;
+  changes: Record<string, unknown>;
+  actor?: string;
+  timestamp?: string;
+}
+
+export async function getStoredWebhooks(): Promise<StoredWebhook[]> {
+  const stored = await readDocument<StoredWebhook[] | Omit<StoredWebhook, 'listId'>>(WEBHOOK_DOCUMENT_KEY);
+  if (!stored) return [];
+  // Registrations made before lists were tracked individually were for CLICKUP_LIST_ID
+  return Array.isArray(stored) ? stored : [{ ...stored, listId: clickupAPI.getListId() }];
+}
+
+/**
+ * The signing secrets to accept: CLICKUP_WEBHOOK_SECRET wins over the ones saved at registration
+ */
+export async function getWebhookSecrets(): Promise<string[]> {
+  if (process.env.CLICKUP_WEBHOOK_SECRET) {
+    return [process.env.CLICKUP_WEBHOOK_SECRET];
+  }
+  const stored = await getStoredWebhooks();
+  return stored.map(webhook => webhook.secret).filter(Boolean);
+}
+
+/**
+ * ClickUp signs the raw body with HMAC-SHA256 and sends the hex digest in X-Signature
+ */
+export function verifyWebhookSignature(rawBody: string, signature: string | null, secret: string): boolean {
+  if (!signature) return false;
+
+  const expected = createHmac('sha256', secret).update(rawBody).digest('hex');
+  const expectedBuffer = Buffer.from(expected, 'utf8');
+  const signatureBuffer = Buffer.from(signature.trim().toLowerCase(), 'utf8');
+
+  return expectedBuffer.length === signatureBuffer.length && timingSafeEqual(expectedBuffer, signatureBuffer);
+}
+
+/**
+ * Register a webhook for every tracked list, refreshing (and re-activating) existing ones,
+ * and remove this endpoint's webhooks for lists that are no longer tracked
+ * @param endpoint - Public URL of /api/webhooks/clickup
+ * @returns Promise<StoredWebhook[]>
+ */
+export async function ensureWebhooksRegistered(endpoint: string): Promise<StoredWebhook[]> {
+  const lists = await getTrackedLists();
+  const teamIds = Array.from(new Set(lists.map(list => list.teamId)));
+  const stored: StoredWebhook[] = [];
+
+  for (const teamId of teamIds) {
+    const webhooks = (await clickupAPI.getWebhooks(teamId)).filter(webhook => webhook.endpoint === endpoint);
+
+    for (const list of lists.filter(candidate => candidate.teamId === teamId)) {
+      const existing = webhooks.find(webhook => String(webhook.list_id) === list.id);
+      const webhook = existing
+        ? await clickupAPI.updateWebhook(existing.id, endpoint, WEBHOOK_EVENTS)
+        : await clickupAPI.createWebhook(endpoint, WEBHOOK_EVENTS, list.id, teamId);
+
+      stored.push({
+        id: webhook.id,
+        listId: list.id,
+        endpoint,
+        // The update response does not always echo the secret; keep the one from the listing
+        secret: webhook.secret || existing?.secret || '',
+        registeredAt: new Date().toISOString(),
+      });
+      console.log(`${existing ? 'Refreshed' : 'Registered'} ClickUp webhook ${webhook.id} for list ${list.id}`);
+    }
+
+    for (const webhook of webhooks) {
+      if (!lists.some(list => String(webhook.list_id) === list.id)) {
+        await clickupAPI.deleteWebhook(webhook.id);
+        console.log(`Removed ClickUp webhook ${webhook.id} for untracked list ${webhook.list_id}`);
+      }
+    }
+  }
+
+  await writeDocument(WEBHOOK_DOCUMENT_KEY, stored);
+  return stored;
+}
+
+function formatHours(value: unknown): string | null {
+  const ms = Number(value);
+  return isNaN(ms) ? null : `${ms / 3600000} hours`;
+}
+
+function resolveCustomFieldValue(item: ClickUpWebhookHistoryItem, customFields: ClickUpCustomField[]): unknown {
+  const field = customFields.find(f => f.id === item.custom_field?.id);
+  if (!field || item.after === null || item.after === undefined) return item.after ?? '';
+  return readCustomField({ ...field, value: item.after }).value ?? item.after;
+}
+
+/**
+ * Translate one history item into the same change keys the tracker logs itself
+ */
+function translateHistoryItem(item: ClickUpWebhookHistoryItem, customFields: ClickUpCustomField[]): Record<string, unknown> | null {
+  const after = item.after as Record<string, unknown> | string | null | undefined;
+  const before = item.before as Record<string, unknown> | string | null | undefined;
+
+  switch (item.field) {
+    case 'status': {
+      const status = typeof after === 'object' && after ? after.status : after;
+      return typeof status === 'string' ? { status: status.toUpperCase() } : null;
+    }
+    case 'assignee_add': {
+      const user = after as Record<string, unknown> | null;
+      return user?.username ? { assignee_added: user.username } : null;
+    }
+    case 'assignee_rem': {
+      const user = before as Record<string, unknown> | null;
+      return user?.username ? { assignee_removed: user.username } : null;
+    }
+    case 'priority': {
+      const priority = typeof after === 'object' && after ? after.priority : null;
+      return { priority: typeof priority === 'string' ? priority : 'none' };
+    }
+    case 'due_date':
+      return { due_date: after ? Number(after) : null };
+    case 'time_estimate':
+      return { time_estimate: formatHours(after) };
+    case 'name':
+      return typeof after === 'string' ? { name: after } : null;
+    case 'content':
+      return typeof after === 'string' ? { description: after } : null;
+    case 'section_moved': {
+      const list = typeof after === 'object' && after ? after.name : null;
+      return typeof list === 'string' ? { list } : null;
+    }
+    case 'custom_field': {
+      if (!item.custom_field) return null;
+      const name = isConfiguredField(item.custom_field, 'developer') ? 'developer' : item.custom_field.name;
+      return { [name]: resolveCustomFieldValue(item, customFields) };
+    }
+    default:
+      // Anything else with a primitive value is logged under its ClickUp field name
+      if (after === null || after === undefined || typeof after === 'object') return null;
+      return { [item.field]: after };
+  }
+}
+
+/**
+ * Translate a webhook payload into log entries, skipping changes made by this app's own API token
+ * (those were already logged by the route that made them).
+ */
+export async function translateWebhookPayload(payload: ClickUpWebhookPayload): Promise<TranslatedChange[]> {
+  const ownUser = await clickupAPI.getAuthorizedUser();
+  const items = (payload.history_items || []).filter(item =>
+    !ownUser || item.user?.id !== ownUser.id
+  );
+  const historyCount = payload.history_items?.length || 0;
+  if (historyCount > 0 && items.length === 0) {
+    return []; // Echo of our own change
+  }
+
+  const firstItem = items[0];
+  const actor = firstItem?.user?.username || firstItem?.user?.email;
+  const timestamp = firstItem?.date ? new Date(Number(firstItem.date)).toISOString() : undefined;
+
+  switch (payload.event) {
+    case 'taskCreated': {
+      const changes: Record<string, unknown> = {};
+      try {
+        const task = await clickupAPI.getTask(payload.task_id!);
+        changes.name = task.name;
+        changes.status = task.status.status.toUpperCase();
+        if (task.parent) changes.parent = task.parent;
+      } catch (error) {
+        console.warn(`Could not fetch created task ${payload.task_id}:`, error);
+      }
+      return [{ action: 'CREATE', changes, actor, timestamp }];
+    }
+    case 'taskDeleted':
+      return [{ action: 'DELETE', changes: {}, actor, timestamp }];
+    default: {
+      // Dropdown options belong to the task's own list
+      let customFields: ClickUpCustomField[] = [];
+      if (items.some(item => item.field === 'custom_field')) {
+        try {
+          const task = (await getCachedTask(payload.task_id!)) || (await clickupAPI.getTask(payload.task_id!));
+          customFields = await clickupAPI.getCustomFields(task.list?.id);
+        } catch (error) {
+          // Values are then logged as ClickUp sent them
+          console.warn(`Could not load custom fields for task ${payload.task_id}:`, error);
+        }
+      }
+
+      const translated: TranslatedChange[] = [];
+      for (const item of items) {
+        const changes = translateHistoryItem(item, customFields);
+        if (!changes) continue;
+        translated.push({
+          action: 'UPDATE',
+          changes,
+          actor: item.user?.username || item.user?.email,
+          timestamp: item.date ? new Date(Number(item.date)).toISOString() : undefined,
+        });
+      }
+      return translated;
+    }
+  }
+}
+
+/**
+ * Write the log entries for a verified webhook payload
+ * @returns Promise<number> - Number of entries logged
+ */
+export async function handleWebhookPayload(payload: ClickUpWebhookPayload): Promise<number> {
+  if (!payload.task_id) {
+    return 0;
+  }
+
+  const changes = await translateWebhookPayload(payload);
+  for (const change of changes) {
+    await logTaskChange(payload.task_id, change.changes, change.action, undefined, {
+      actor: change.actor,
+      source: 'clickup',
+      timestamp: change.timestamp,
+    });
+  }
+  return changes.length;
+}
@@ -0,0 +1,109 @@
+import { getZonedDate, getZonedTime, shiftDay } from '@/lib/calendar';
+
+// A schedule that fires yearly at most still has a match within this many days
+const MAX_LOOKBACK_DAYS = 366;
+
+interface CronSchedule {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+function parseField(field: string, min: number, max: number): number[] | string {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) return `Invalid cron field "${field}"`;
+
+    const [, range, start, end, step] = match;
+    const from = range === '*' ? min : Number(start);
+    // "5/15" means every 15 from 5, as in most cron implementations
+    const to = range === '*' || (step && end === undefined) ? max : Number(end ?? start);
+    const increment = step ? Number(step) : 1;
+
+    if (from < min || to > max || from > to || increment < 1) {
+      return `Cron field "${field}" is out of range ${min}-${max}`;
+    }
+    for (let value = from; value <= to; value += increment) {
+      values.add(value);
+    }
+  }
+
+  return [...values].sort((a, b) => a - b);
+}
+
+/**
+ * Parse a five-field cron expression (minute hour day-of-month month day-of-week); returns an error
+ * message when it is invalid. Supports *, lists, ranges and steps; 7 is also Sunday.
+ */
+export function parseCronExpression(expression: string): CronSchedule | string {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) return `Cron expression "${expression}" needs 5 fields`;
+
+  const [minuteField, hourField, dayField, monthField, weekdayField] = fields;
+  const minutes = parseField(minuteField, 0, 59);
+  const hours = parseField(hourField, 0, 23);
+  const daysOfMonth = parseField(dayField, 1, 31);
+  const months = parseField(monthField, 1, 12);
+  const daysOfWeek = parseField(weekdayField, 0, 7);
+
+  for (const parsed of [minutes, hours, daysOfMonth, months, daysOfWeek]) {
+    if (typeof parsed === 'string') return parsed;
+  }
+
+  return {
+    minutes: minutes as number[],
+    hours: hours as number[],
+    daysOfMonth: new Set(daysOfMonth as number[]),
+    months: new Set(months as number[]),
+    daysOfWeek: new Set((daysOfWeek as number[]).map(day => day % 7)),
+    anyDayOfMonth: dayField === '*',
+    anyDayOfWeek: weekdayField === '*',
+  };
+}
+
+function matchesDay(schedule: CronSchedule, day: string): boolean {
+  const [year, month, date] = day.split('-').map(Number);
+  if (!schedule.months.has(month)) return false;
+
+  const weekday = new Date(Date.UTC(year, month - 1, date)).getUTCDay();
+  const dayOfMonthMatches = schedule.daysOfMonth.has(date);
+  const dayOfWeekMatches = schedule.daysOfWeek.has(weekday);
+
+  // Standard cron: when both day fields are restricted, either one matching is enough
+  if (!schedule.anyDayOfMonth && !schedule.anyDayOfWeek) {
+    return dayOfMonthMatches || dayOfWeekMatches;
+  }
+  return dayOfMonthMatches && dayOfWeekMatches;
+}
+
+/**
+ * The most recent time at or before `now` that a cron expression fires, in a timezone
+ * @param expression - Five-field cron expression
+ * @param now - Reference time
+ * @param timeZone - IANA timezone the expression is read in
+ * @returns Date, or null when it has not fired within a year
+ */
+export function getPreviousCronTime(expression: string, now: Date, timeZone: string): Date | null {
+  const schedule = parseCronExpression(expression);
+  if (typeof schedule === 'string') throw new Error(schedule);
+
+  let day = getZonedDate(now, timeZone);
+  for (let i = 0; i <= MAX_LOOKBACK_DAYS; i++, day = shiftDay(day, -1)) {
+    if (!matchesDay(schedule, day)) continue;
+
+    for (let h = schedule.hours.length - 1; h >= 0; h--) {
+      for (let m = schedule.minutes.length - 1; m >= 0; m--) {
+        const time = `${String(schedule.hours[h]).padStart(2, '0')}:${String(schedule.minutes[m]).padStart(2, '0')}`;
+        const fireTime = getZonedTime(day, time, timeZone);
+        if (fireTime <= now) return fireTime;
+      }
+    }
+  }
+  return null;
+}
@@ -0,0 +1,213 @@
+import { ClickUpCustomField, ClickUpFieldOption, ClickUpTask, CustomFieldReading, CustomFieldValue, ProcessedTask } from '@/types/clickup';
+
+const DEFAULT_OPTION_COLOR = '#64748b';
+
+// Task payloads carry the field definition alongside the value; list definitions type their config
+interface CustomFieldLike {
+  id: string;
+  name: string;
+  type: string;
+  type_config?: unknown;
+}
+
+type TaskCustomField = CustomFieldLike & { value?: unknown };
+
+export type ConfiguredField = 'developer' | 'priority';
+
+// Field types toClickUpFieldValue can write; the rest (formula, rollup, tasks, ...) are read-only here
+export const EDITABLE_FIELD_TYPES = ['drop_down', 'labels', 'users', 'number', 'currency', 'date', 'text', 'short_text', 'email', 'url', 'phone'];
+
+export function isEditableFieldType(type: string): boolean {
+  return EDITABLE_FIELD_TYPES.includes(type);
+}
+
+/**
+ * Name (or ID) of a field the app depends on: CLICKUP_DEVELOPER_FIELD and CLICKUP_PRIORITY_FIELD,
+ * defaulting to "Developer" and "Priority"
+ */
+export function getConfiguredFieldName(field: ConfiguredField): string {
+  const configured = field === 'developer' ? process.env.CLICKUP_DEVELOPER_FIELD : process.env.CLICKUP_PRIORITY_FIELD;
+  return configured?.trim() || (field === 'developer' ? 'Developer' : 'Priority');
+}
+
+function matchesField(field: CustomFieldLike, nameOrId: string): boolean {
+  return field.id === nameOrId || field.name.trim().toLowerCase() === nameOrId.trim().toLowerCase();
+}
+
+/**
+ * Find a field by ID or exact (case-insensitive) name
+ */
+export function findCustomField<T extends CustomFieldLike>(fields: T[] | undefined, nameOrId: string): T | undefined {
+  return fields?.find(field => matchesField(field, nameOrId));
+}
+
+export function isConfiguredField(field: CustomFieldLike, configured: ConfiguredField): boolean {
+  return matchesField(field, getConfiguredFieldName(configured));
+}
+
+export function getDeveloperField<T extends CustomFieldLike>(fields: T[] | undefined): T | undefined {
+  return findCustomField(fields, getConfiguredFieldName('developer'));
+}
+
+export function getPriorityField<T extends CustomFieldLike>(fields: T[] | undefined): T | undefined {
+  return findCustomField(fields, getConfiguredFieldName('priority'));
+}
+
+/**
+ * Options of a drop_down or labels field
+ */
+export function getFieldOptions(field: CustomFieldLike | undefined): ClickUpFieldOption[] {
+  const options = (field?.type_config as { options?: unknown } | undefined)?.options;
+  return Array.isArray(options) ? options as ClickUpFieldOption[] : [];
+}
+
+// Task values reference options by orderindex (drop_down) or ID (labels, webhooks)
+function findOption(options: ClickUpFieldOption[], raw: unknown): ClickUpFieldOption | undefined {
+  return options.find(option =>
+    option.id === raw ||
+    (option.orderindex !== undefined && String(option.orderindex) === String(raw))
+  );
+}
+
+function findOptionByName(options: ClickUpFieldOption[], name: string): ClickUpFieldOption | undefined {
+  const wanted = name.trim().toLowerCase();
+  return options.find(option => option.name.toLowerCase() === wanted || String(option.id) === name);
+}
+
+function describeUnknown(raw: unknown): string | null {
+  if (typeof raw === 'string') return raw;
+  if (typeof raw === 'number') return String(raw);
+  if (typeof raw === 'object' && raw !== null) {
+    const obj = raw as Record<string, unknown>;
+    for (const key of ['name', 'username', 'email', 'value']) {
+      if (typeof obj[key] === 'string') return obj[key] as string;
+    }
+  }
+  return null;
+}
+
+function reading(value: CustomFieldValue, color?: string): CustomFieldReading {
+  if (value === null || (Array.isArray(value) && value.length === 0)) return { value: null, display: '' };
+  const display = Array.isArray(value) ? value.join(', ') : String(value);
+  return color ? { value, display, color } : { value, display };
+}
+
+/**
+ * Read a task's custom field value by type
+ * @param field - The field from task.custom_fields, value included
+ * @param definition - The list's definition of the field, when the task payload lacks its options
+ * @returns CustomFieldReading - drop_down gives the option name and colour, labels and users give
+ * names, number gives a number, date gives a timestamp (ms), anything else gives text
+ */
+export function readCustomField(field: TaskCustomField | undefined, definition?: CustomFieldLike): CustomFieldReading {
+  const raw = field?.value;
+  if (!field || raw === null || raw === undefined || raw === '') return reading(null);
+
+  const options = getFieldOptions(definition).length > 0 ? getFieldOptions(definition) : getFieldOptions(field);
+  switch (definition?.type || field.type) {
+    case 'drop_down': {
+      const option = findOption(options, raw) || (typeof raw === 'string' ? findOptionByName(options, raw) : undefined);
+      // An unmatched option ID means nothing to a reader, so it reads as empty
+      return option ? reading(option.name, option.color || DEFAULT_OPTION_COLOR) : reading(null);
+    }
+    case 'labels': {
+      const ids = Array.isArray(raw) ? raw : [raw];
+      return reading(ids.map(id => findOption(options, id)?.name).filter((name): name is string => !!name));
+    }
+    case 'users': {
+      const users = Array.isArray(raw) ? raw : [raw];
+      return reading(users.map(describeUnknown).filter((name): name is string => !!name));
+    }
+    case 'number':
+    case 'currency': {
+      const number = Number(raw);
+      return reading(isNaN(number) ? null : number);
+    }
+    case 'date': {
+      const timestamp = Number(raw);
+      if (isNaN(timestamp)) return reading(null);
+      return { value: timestamp, display: new Date(timestamp).toISOString().split('T')[0] };
+    }
+    default:
+      if (Array.isArray(raw)) {
+        return reading(raw.map(describeUnknown).filter((item): item is string => !!item));
+      }
+      return reading(describeUnknown(raw));
+  }
+}
+
+/**
+ * Read a field of a task by name or ID
+ */
+export function readTaskField(task: Pick<ClickUpTask, 'custom_fields'>, nameOrId: string, definitions: ClickUpCustomField[] = []): CustomFieldReading {
+  const field = findCustomField(task.custom_fields, nameOrId);
+  return readCustomField(field, field ? definitions.find(definition => definition.id === field.id) : undefined);
+}
+
+/**
+ * The task's developer from the configured Developer field; the first one when the field holds several
+ * @returns { name, color } | undefined - undefined when unassigned
+ */
+export function getTaskDeveloper(task: Pick<ClickUpTask, 'custom_fields'>, definitions: ClickUpCustomField[] = []): { name: string; color?: string } | undefined {
+  const { value, color } = readTaskField(task, getConfiguredFieldName('developer'), definitions);
+  const name = Array.isArray(value) ? value[0] : value;
+  if (name === null || name === undefined) return undefined;
+  return { name: String(name), color };
+}
+
+/**
+ * A processed task's values for a field, one per selected label or user, as the filter bar matches them
+ */
+export function getProcessedFieldValues(task: ProcessedTask, name: string): string[] {
+  const field = task.customFields?.[name];
+  if (!field) return [];
+  return Array.isArray(field.value) ? field.value : [field.display];
+}
+
+/**
+ * Encode a value for ClickUp's custom field endpoints
+ * @param definition - The list's definition of the field
+ * @param input - Option names (or IDs) for drop_down and labels, user IDs for users, a number,
+ * a date (timestamp or parseable string) or text; null or '' clears the field
+ * @param target - 'create' for the custom_fields of a new task, 'field' for POST /task/{id}/field/{id}
+ * @returns { value } | string - The ClickUp value, or an error message when the input does not fit the field
+ */
+export function toClickUpFieldValue(definition: ClickUpCustomField, input: CustomFieldValue, target: 'create' | 'field' = 'field'): { value: unknown } | string {
+  if (input === null || input === '' || (Array.isArray(input) && input.length === 0)) return { value: null };
+
+  const values = Array.isArray(input) ? input : [input];
+  const options = getFieldOptions(definition);
+
+  switch (definition.type) {
+    case 'drop_down': {
+      const option = findOptionByName(options, String(values[0]));
+      return option ? { value: option.id } : `"${values[0]}" is not an option of ${definition.name}`;
+    }
+    case 'labels': {
+      const ids: Array<string | number> = [];
+      for (const name of values.flatMap(value => String(value).split(','))) {
+        const option = findOptionByName(options, name);
+        if (!option) return `"${name.trim()}" is not an option of ${definition.name}`;
+        ids.push(option.id);
+      }
+      return { value: ids };
+    }
+    case 'users': {
+      const ids = values.map(Number);
+      if (ids.some(id => !Number.isInteger(id))) return `${definition.name} takes ClickUp user IDs`;
+      // The field endpoint adds users rather than replacing them; setCustomFieldValue clears the field first
+      return { value: target === 'field' ? { add: ids, rem: [] } : ids };
+    }
+    case 'number':
+    case 'currency': {
+      const number = Number(values[0]);
+      return isNaN(number) ? `${definition.name} must be a number` : { value: number };
+    }
+    case 'date': {
+      const timestamp = typeof values[0] === 'number' ? values[0] : new Date(String(values[0])).getTime();
+      return isNaN(timestamp) ? `${definition.name} must be a date` : { value: timestamp };
+    }
+    default:
+      return { value: values.join(', ') };
+  }
+}
@@ -0,0 +1,74 @@
+import { readDocument, writeDocument } from '@/lib/storage';
+import { clickupAPI } from '@/lib/clickup-api';
+import { getTrackedLists } from '@/lib/tracked-lists';
+import { isConfiguredField, isEditableFieldType } from '@/lib/custom-fields';
+import { ClickUpCustomField } from '@/types/clickup';
+import { AvailableCustomField, CustomFieldDisplay, CustomFieldSettings } from '@/types/settings';
+
+const FIELD_SETTINGS_KEY = 'settings:fields';
+
+export async function getCustomFieldSettings(): Promise<CustomFieldSettings> {
+  return (await readDocument<CustomFieldSettings>(FIELD_SETTINGS_KEY)) || { fields: [] };
+}
+
+export async function saveCustomFieldSettings(settings: CustomFieldSettings): Promise<void> {
+  await writeDocument(FIELD_SETTINGS_KEY, settings);
+}
+
+/**
+ * Validate settings from a request body; returns an error message or the normalized settings.
+ * Fields that are neither a column, a filter nor editable are dropped.
+ */
+export function parseCustomFieldSettings(value: unknown): CustomFieldSettings | string {
+  const fields = (value as Partial<CustomFieldSettings> | undefined)?.fields;
+  if (!Array.isArray(fields)) return 'fields must be an array';
+
+  const parsed: CustomFieldDisplay[] = [];
+  for (const field of fields as Array<Partial<CustomFieldDisplay>>) {
+    if (typeof field?.name !== 'string' || !field.name.trim()) return 'Every field needs a name';
+    const name = field.name.trim();
+    if (parsed.some(existing => existing.name.toLowerCase() === name.toLowerCase())) {
+      return `"${name}" is listed twice`;
+    }
+
+    const display = { name, column: field.column === true, filter: field.filter === true, editable: field.editable === true };
+    if (display.column || display.filter || display.editable) parsed.push(display);
+  }
+  return { fields: parsed };
+}
+
+// Developer and Priority already have their own columns, filters and inputs
+function isCustomizable(field: ClickUpCustomField): boolean {
+  return !isConfiguredField(field, 'developer') && !isConfiguredField(field, 'priority');
+}
+
+/**
+ * Custom fields across the tracked lists, merged by name, for the settings page
+ */
+export async function getAvailableCustomFields(): Promise<AvailableCustomField[]> {
+  const byName = new Map<string, AvailableCustomField>();
+  for (const list of await getTrackedLists()) {
+    for (const field of await clickupAPI.getCustomFields(list.id)) {
+      if (!isCustomizable(field)) continue;
+      const key = field.name.toLowerCase();
+      const existing = byName.get(key);
+      if (existing) {
+        existing.lists.push(list.name);
+      } else {
+        byName.set(key, { name: field.name, type: field.type, editable: isEditableFieldType(field.type), lists: [list.name] });
+      }
+    }
+  }
+  return [...byName.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * A list's definitions of the fields the update modal may edit
+ */
+export async function getEditableCustomFields(listId: string): Promise<ClickUpCustomField[]> {
+  const { fields } = await getCustomFieldSettings();
+  const editable = new Set(fields.filter(field => field.editable).map(field => field.name.toLowerCase()));
+  return (await clickupAPI.getCustomFields(listId)).filter(field =>
+    editable.has(field.name.toLowerCase()) && isCustomizable(field) && isEditableFieldType(field.type)
+  );
+}
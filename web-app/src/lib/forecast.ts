@@ -0,0 +1,281 @@
+import { clickupAPI } from '@/lib/clickup-api';
+import { getLogEntries } from '@/lib/blob-logger';
+import { getTrackedLists } from '@/lib/tracked-lists';
+import { getTrackedTasks } from '@/lib/task-cache';
+import { getTeamSettings } from '@/lib/team-settings';
+import { getCapacitySettings } from '@/lib/capacity-settings';
+import { getAvailableHours, getCapacityProfile, projectCompletion } from '@/lib/capacity';
+import { getZonedDate, shiftDay } from '@/lib/calendar';
+import { getTaskCycleMetrics, groupByTask, isDoneStatus } from '@/lib/status-history';
+import { ProcessedTask } from '@/types/clickup';
+import { CapacitySettings, TeamSettings } from '@/types/settings';
+import { DeveloperVelocity, ForecastRange, ForecastReport, ParentTaskForecast } from '@/types/forecast';
+import type { LogEntry } from '@/types/logs';
+
+export const DEFAULT_HISTORY_DAYS = 90;
+// Fewer closed tasks than this and a developer is forecast from the team's history instead
+const MIN_SAMPLES = 3;
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const WEEK_MS = 7 * DAY_MS;
+// With no history at all, estimates are taken at face value with a typical spread
+const DEFAULT_ACCURACY = { accuracy: 1, accuracyLow: 0.8, accuracyHigh: 1.5 };
+// A thin or stalled history should not push projections out by years
+const MIN_VELOCITY = 0.1;
+const PRIORITY_RANK: Record<string, number> = { urgent: 0, high: 1, normal: 2, low: 3 };
+const UNASSIGNED = 'Unassigned';
+
+// One task closed in the history window
+export interface CompletedTaskSample {
+  developer: string;
+  estimateHours: number;
+  inProgressMs: number;      // Wall-clock time spent IN PROGRESS
+}
+
+function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+// Estimates are logged in ms on create and as "N hours" on update
+function parseLoggedEstimate(value: unknown): number | undefined {
+  if (typeof value === 'number') return value / HOUR_MS;
+  if (typeof value === 'string') {
+    const hours = parseFloat(value);
+    return isNaN(hours) ? undefined : hours;
+  }
+  return undefined;
+}
+
+/**
+ * Tasks closed in the window, with their estimate and time in progress
+ * @param entries - Log entries up to the end of the window
+ * @param closedTasks - The tasks as ClickUp has them now, preferred over the log for developer and estimate
+ * @param since - Start of the window
+ * @param until - End of the window
+ * @returns CompletedTaskSample[] - Only tasks with an estimate
+ */
+export function collectCompletedTasks(
+  entries: LogEntry[],
+  closedTasks: Map<string, ProcessedTask>,
+  since: Date,
+  until: Date
+): CompletedTaskSample[] {
+  const samples: CompletedTaskSample[] = [];
+  for (const [taskId, taskEntries] of groupByTask(entries)) {
+    const metrics = getTaskCycleMetrics(taskId, taskEntries, until);
+    if (!metrics.closedAt || new Date(metrics.closedAt) < since) continue;
+
+    const task = closedTasks.get(taskId);
+    let loggedEstimate: number | undefined;
+    for (const entry of taskEntries) {
+      if ('time_estimate' in entry.changes) loggedEstimate = parseLoggedEstimate(entry.changes.time_estimate);
+    }
+    const estimateHours = task?.timeEstimate ? task.timeEstimate / HOUR_MS : loggedEstimate;
+    if (!estimateHours || estimateHours <= 0) continue;
+
+    samples.push({
+      developer: task?.developer || metrics.developer || UNASSIGNED,
+      estimateHours,
+      inProgressMs: metrics.timeInStatusMs['IN PROGRESS'] || 0,
+    });
+  }
+  return samples;
+}
+
+interface Rates {
+  sampleSize: number;
+  velocity: number;
+  accuracy: number;
+  accuracyLow: number;
+  accuracyHigh: number;
+}
+
+/**
+ * Velocity and estimate accuracy from a set of closed tasks
+ * @param samples - Closed tasks with estimates
+ * @param availableHours - Capacity over the window of the developers the samples belong to
+ * @param weeklyHours - Hours a week of in-progress time is worth, to turn wall-clock time into effort
+ */
+function measureRates(samples: CompletedTaskSample[], availableHours: number, weeklyHours: number): Rates | null {
+  if (samples.length < MIN_SAMPLES || availableHours <= 0) return null;
+
+  const closedHours = samples.reduce((sum, sample) => sum + sample.estimateHours, 0);
+  const ratios = samples
+    .filter(sample => sample.inProgressMs > 0)
+    .map(sample => (sample.inProgressMs / WEEK_MS) * weeklyHours / sample.estimateHours);
+
+  return {
+    sampleSize: samples.length,
+    velocity: Math.max(MIN_VELOCITY, closedHours / availableHours),
+    ...(ratios.length >= MIN_SAMPLES
+      ? { accuracy: percentile(ratios, 0.5), accuracyLow: percentile(ratios, 0.25), accuracyHigh: percentile(ratios, 0.75) }
+      : DEFAULT_ACCURACY),
+  };
+}
+
+const laterDay = (a: string | null, b: string | null): string | null => (a && b ? (a > b ? a : b) : a || b);
+
+const laterRange = (a: ForecastRange, b: ForecastRange): ForecastRange => ({
+  earliest: laterDay(a.earliest, b.earliest),
+  expected: laterDay(a.expected, b.expected),
+  latest: laterDay(a.latest, b.latest),
+});
+
+const EMPTY_RANGE: ForecastRange = { earliest: null, expected: null, latest: null };
+
+const isOpen = (task: ProcessedTask) => !isDoneStatus(task.status);
+
+/**
+ * Project completion dates for every developer's queue, each top-level task and the backlog
+ * @param openTasks - Open tasks and subtasks, flat
+ * @param samples - Tasks closed in the history window
+ * @param capacity - Capacity profiles
+ * @param team - Team timezone, working days and holidays
+ * @param historyDays - Length of the history window
+ * @param now - Reference time
+ * @returns ForecastReport
+ */
+export function buildForecast(
+  openTasks: ProcessedTask[],
+  samples: CompletedTaskSample[],
+  capacity: CapacitySettings,
+  team: TeamSettings,
+  historyDays: number = DEFAULT_HISTORY_DAYS,
+  now: Date = new Date()
+): ForecastReport {
+  const today = getZonedDate(now, team.timezone);
+  const historyStart = shiftDay(today, -historyDays);
+  const profileOf = (developer: string) => getCapacityProfile(capacity, team, developer);
+  const windowHours = (developer: string) => getAvailableHours(profileOf(developer), team, historyStart, historyDays);
+  const weeklyHours = (developer: string) => profileOf(developer).hoursPerDay * profileOf(developer).workingDays.length;
+
+  // Work items are leaf tasks: subtasks, and top-level tasks without any
+  const parentIds = new Set(openTasks.map(task => task.parentId).filter(Boolean));
+  const byId = new Map(openTasks.map(task => [task.id, task]));
+  const developerOf = (task: ProcessedTask) =>
+    task.developer || (task.parentId ? byId.get(task.parentId)?.developer : undefined);
+  const workItems = openTasks.filter(task => !parentIds.has(task.id) && isOpen(task));
+
+  // The team's pooled history stands in for developers with too little of their own
+  const sampledDevelopers = [...new Set(samples.map(sample => sample.developer))].filter(name => name !== UNASSIGNED);
+  const teamRates = measureRates(
+    samples.filter(sample => sample.developer !== UNASSIGNED),
+    sampledDevelopers.reduce((sum, developer) => sum + windowHours(developer), 0),
+    sampledDevelopers.length > 0
+      ? sampledDevelopers.reduce((sum, developer) => sum + weeklyHours(developer), 0) / sampledDevelopers.length
+      : 0
+  );
+
+  const developers = [...new Set(workItems.map(developerOf).filter((name): name is string => !!name))].sort();
+  const itemRanges = new Map<string, ForecastRange>();
+
+  const velocities: DeveloperVelocity[] = developers.map(developer => {
+    const own = measureRates(samples.filter(sample => sample.developer === developer), windowHours(developer), weeklyHours(developer));
+    const rates = own || teamRates || { sampleSize: 0, velocity: 1, ...DEFAULT_ACCURACY };
+    const basis = own ? 'developer' : teamRates ? 'team' : 'default';
+    const profile = profileOf(developer);
+
+    // Hours of capacity a queue of estimated hours takes, at the optimistic, expected and pessimistic accuracy
+    const toRange = (hours: number): ForecastRange => {
+      const expectedHours = hours / rates.velocity;
+      const scale = (ratio: number) => rates.accuracy > 0 ? expectedHours * ratio / rates.accuracy : expectedHours;
+      return {
+        earliest: projectCompletion(scale(rates.accuracyLow), profile, team, today),
+        expected: projectCompletion(expectedHours, profile, team, today),
+        latest: projectCompletion(scale(rates.accuracyHigh), profile, team, today),
+      };
+    };
+
+    // Work the queue in priority, then due date order
+    const queue = workItems
+      .filter(task => developerOf(task) === developer && task.timeEstimate)
+      .sort((a, b) =>
+        (PRIORITY_RANK[a.priority?.name.toLowerCase() || ''] ?? 4) - (PRIORITY_RANK[b.priority?.name.toLowerCase() || ''] ?? 4) ||
+        Number(a.dueDate || Infinity) - Number(b.dueDate || Infinity) ||
+        a.id.localeCompare(b.id)
+      );
+
+    let queuedHours = 0;
+    for (const task of queue) {
+      queuedHours += task.timeEstimate! / HOUR_MS;
+      itemRanges.set(task.id, toRange(queuedHours));
+    }
+
+    return {
+      developer,
+      sampleSize: own?.sampleSize ?? 0,
+      velocity: Math.round(rates.velocity * 100) / 100,
+      accuracy: Math.round(rates.accuracy * 100) / 100,
+      accuracyLow: Math.round(rates.accuracyLow * 100) / 100,
+      accuracyHigh: Math.round(rates.accuracyHigh * 100) / 100,
+      basis,
+      remainingHours: Math.round(queuedHours * 10) / 10,
+      completion: queuedHours > 0 ? toRange(queuedHours) : EMPTY_RANGE,
+    };
+  });
+
+  // A top-level task is done when the last of its work items is
+  const tasks: ParentTaskForecast[] = openTasks.filter(task => !task.parentId).map(task => {
+    const items = parentIds.has(task.id)
+      ? workItems.filter(item => item.parentId === task.id)
+      : workItems.filter(item => item.id === task.id);
+    const forecastable = items.filter(item => itemRanges.has(item.id));
+
+    return {
+      taskId: task.id,
+      name: task.name,
+      remainingHours: Math.round(forecastable.reduce((sum, item) => sum + item.timeEstimate! / HOUR_MS, 0) * 10) / 10,
+      unestimated: items.filter(item => !item.timeEstimate).length,
+      unassigned: items.filter(item => item.timeEstimate && !developerOf(item)).length,
+      completion: forecastable.reduce((range, item) => laterRange(range, itemRanges.get(item.id)!), EMPTY_RANGE),
+    };
+  });
+
+  return {
+    generatedAt: now.toISOString(),
+    historySince: historyStart,
+    developers: velocities,
+    tasks,
+    backlog: {
+      remainingHours: Math.round(velocities.reduce((sum, velocity) => sum + velocity.remainingHours, 0) * 10) / 10,
+      ...velocities.reduce((range, velocity) => laterRange(range, velocity.completion), EMPTY_RANGE),
+    },
+  };
+}
+
+/**
+ * Forecast the tracked lists' open work from the log and ClickUp
+ * @param historyDays - How far back to measure velocity and estimate accuracy
+ * @returns Promise<ForecastReport>
+ */
+export async function getForecast(historyDays: number = DEFAULT_HISTORY_DAYS): Promise<ForecastReport> {
+  const now = new Date();
+  const since = new Date(now.getTime() - historyDays * DAY_MS);
+
+  const [{ tasks }, entries, capacity, team] = await Promise.all([
+    getTrackedTasks(),
+    getLogEntries({ until: now, includeArchived: true }),
+    getCapacitySettings(),
+    getTeamSettings(),
+  ]);
+  const openTasks = await clickupAPI.processTasksFlat(tasks);
+
+  // Closed tasks are not in the snapshot; their current developer and estimate come from ClickUp
+  const closedTasks = new Map<string, ProcessedTask>();
+  try {
+    for (const list of await getTrackedLists()) {
+      const updated = await clickupAPI.getTasks(true, true, since.getTime(), list.id);
+      for (const task of await clickupAPI.processTasksFlat(updated)) {
+        closedTasks.set(task.id, task);
+      }
+    }
+  } catch (error) {
+    console.error('Error fetching closed tasks for the forecast, falling back to the log:', error);
+  }
+
+  return buildForecast(openTasks, collectCompletedTasks(entries, closedTasks, since, now), capacity, team, historyDays, now);
+}
@@ -0,0 +1,186 @@
+import { LLMCompletionRequest, LLMProviderName } from '@/types/analysis';
+
+const DEFAULT_MAX_TOKENS = 4096;
+const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+  /**
+   * Send the prompt and report and yield the response text as it arrives
+   */
+  stream(request: LLMCompletionRequest): AsyncIterable<string>;
+}
+
+/**
+ * Yield the data payload of each server-sent event in a streaming response
+ */
+async function* readServerSentEvents(response: Response): AsyncGenerator<string> {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line; keep any partial event for the next chunk
+    const events = buffer.split(/\r?\n\r?\n/);
+    buffer = events.pop() || '';
+    for (const event of events) {
+      const data = event
+        .split(/\r?\n/)
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trimStart())
+        .join('\n');
+      if (data) yield data;
+    }
+  }
+}
+
+async function assertOk(response: Response, provider: string): Promise<void> {
+  if (!response.ok) {
+    const body = await response.text().catch(() => '');
+    throw new Error(`${provider} request failed with ${response.status}: ${body.slice(0, 500)}`);
+  }
+}
+
+/**
+ * Any endpoint that speaks the OpenAI chat completions API (OpenAI, Azure, vLLM, Ollama, LM Studio...)
+ */
+class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai' as const;
+
+  constructor(
+    readonly model: string,
+    private apiKey: string | undefined,
+    private baseUrl: string,
+    private maxTokens: number
+  ) {}
+
+  async *stream(request: LLMCompletionRequest): AsyncIterable<string> {
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: this.model,
+        stream: true,
+        max_tokens: request.maxTokens || this.maxTokens,
+        messages: [
+          { role: 'system', content: request.system },
+          { role: 'user', content: request.input },
+        ],
+      }),
+    });
+    await assertOk(response, 'OpenAI-compatible');
+
+    for await (const data of readServerSentEvents(response)) {
+      if (data === '[DONE]') return;
+      const chunk = JSON.parse(data) as { choices?: Array<{ delta?: { content?: string } }> };
+      const text = chunk.choices?.[0]?.delta?.content;
+      if (text) yield text;
+    }
+  }
+}
+
+/**
+ * Anthropic Messages API
+ */
+class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic' as const;
+
+  constructor(
+    readonly model: string,
+    private apiKey: string,
+    private maxTokens: number
+  ) {}
+
+  async *stream(request: LLMCompletionRequest): AsyncIterable<string> {
+    const response = await fetch(ANTHROPIC_API_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+      },
+      body: JSON.stringify({
+        model: this.model,
+        stream: true,
+        max_tokens: request.maxTokens || this.maxTokens,
+        system: request.system,
+        messages: [{ role: 'user', content: request.input }],
+      }),
+    });
+    await assertOk(response, 'Anthropic');
+
+    for await (const data of readServerSentEvents(response)) {
+      const event = JSON.parse(data) as { type: string; delta?: { type?: string; text?: string }; error?: { message?: string } };
+      if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta' && event.delta.text) {
+        yield event.delta.text;
+      } else if (event.type === 'error') {
+        throw new Error(`Anthropic stream error: ${event.error?.message || 'unknown'}`);
+      } else if (event.type === 'message_stop') {
+        return;
+      }
+    }
+  }
+}
+
+/**
+ * Offline provider for development and tests: summarizes the report headings without calling out
+ */
+class StubProvider implements LLMProvider {
+  readonly name = 'stub' as const;
+  readonly model = 'stub';
+
+  async *stream(request: LLMCompletionRequest): AsyncIterable<string> {
+    const headings = request.input
+      .split('\n')
+      .filter(line => line.startsWith('## '))
+      .map(line => `- ${line.slice(3)}`);
+
+    yield '# Daily Analysis (stub)\n\n';
+    yield `Prompt: ${request.system.length} characters. Report: ${request.input.length} characters.\n\n`;
+    yield 'Sections received:\n';
+    for (const heading of headings) {
+      yield `${heading}\n`;
+    }
+  }
+}
+
+/**
+ * The provider configured by LLM_PROVIDER, LLM_MODEL, LLM_API_KEY, LLM_BASE_URL and LLM_MAX_TOKENS
+ * @returns LLMProvider
+ */
+export function getLLMProvider(): LLMProvider {
+  const name = (process.env.LLM_PROVIDER || 'stub').toLowerCase();
+  const maxTokens = Number(process.env.LLM_MAX_TOKENS) || DEFAULT_MAX_TOKENS;
+  const model = process.env.LLM_MODEL;
+
+  switch (name) {
+    case 'openai':
+      if (!model) throw new Error('LLM_MODEL is required for the openai provider');
+      return new OpenAICompatibleProvider(
+        model,
+        process.env.LLM_API_KEY,
+        process.env.LLM_BASE_URL || DEFAULT_OPENAI_BASE_URL,
+        maxTokens
+      );
+    case 'anthropic':
+      if (!model) throw new Error('LLM_MODEL is required for the anthropic provider');
+      if (!process.env.LLM_API_KEY) throw new Error('LLM_API_KEY is required for the anthropic provider');
+      return new AnthropicProvider(model, process.env.LLM_API_KEY, maxTokens);
+    case 'stub':
+      return new StubProvider();
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${name}"; expected openai, anthropic or stub`);
+  }
+}
@@ -0,0 +1,599 @@
+import { clickupAPI } from '@/lib/clickup-api';
+import { getLogEntries, formatLogEntries, getLLMPrompt } from '@/lib/blob-logger';
+import { parseInProgressTimestamps } from '@/lib/utils';
+import { DEFAULT_LLM_PROMPT } from '@/lib/prompts';
+import { getTrackedTasks } from '@/lib/task-cache';
+import { getTrackedLists } from '@/lib/tracked-lists';
+import { getTaskDeveloper } from '@/lib/custom-fields';
+import { getReviewWindow, getTeamSettings } from '@/lib/team-settings';
+import { getCapacitySettings } from '@/lib/capacity-settings';
+import { getDeveloperCapacity, UTILIZATION_WINDOW_DAYS } from '@/lib/capacity';
+import { formatMeetingNotes, getMeetingNotes, getMissedCommitments } from '@/lib/meeting-notes';
+import { ClickUpCustomField, ClickUpTask, TrackedList } from '@/types/clickup';
+import { DeveloperCapacity } from '@/types/settings';
+import { DigestTask, DigestTasks } from '@/types/slack';
+import { DeveloperWorkload, ReportStats } from '@/types/reports';
+
+export interface LLMReportOptions {
+  listId?: string | null;     // Cover a single tracked list instead of all of them
+  includePrompt?: boolean;    // Embed the prompt in the report, for pasting into a chatbot (default true)
+  since?: Date;               // Override the review period start (default: the previous standup)
+  until?: Date;               // Override the review period end (default: now)
+}
+
+export interface LLMReport {
+  report: string;             // Markdown report
+  prompt: string;             // The stored prompt, or DEFAULT_LLM_PROMPT
+  generatedAt: string;
+  reviewStartTime: string;
+  reviewEndTime: string;
+  lists: TrackedList[];
+  digest: DigestTasks;        // Tasks needing attention, for the Slack digest
+  workload: DeveloperWorkload[];
+  stats: ReportStats;
+}
+
+/**
+ * Build the daily review report from the task snapshot and the activity log
+ * @param options - List to cover and whether to embed the prompt
+ * @returns Promise<LLMReport>
+ */
+export async function buildLLMReport(options: LLMReportOptions = {}): Promise<LLMReport> {
+  const includePrompt = options.includePrompt ?? true;
+
+  // Cover a single tracked list or all of them
+  const listIdParam = options.listId || null;
+  const trackedLists = await getTrackedLists();
+  const coveredLists = listIdParam ? trackedLists.filter(list => list.id === listIdParam) : trackedLists;
+  if (coveredLists.length === 0) {
+    throw new Error(`List ${listIdParam} is not tracked`);
+  }
+
+  // Fetch tasks from the shared snapshot
+  const { tasks } = await getTrackedTasks(listIdParam);
+  
+  // Custom field definitions per list, since dropdown options are list-specific
+  const customFieldsByList: Record<string, ClickUpCustomField[]> = {};
+  for (const list of coveredLists) {
+    customFieldsByList[list.id] = await clickupAPI.getCustomFields(list.id);
+  }
+  
+  const getDeveloperName = (task: ClickUpTask): string =>
+    getTaskDeveloper(task, customFieldsByList[task.list?.id || coveredLists[0].id])?.name || 'Unassigned';
+  
+  // Analyze tasks
+  const now = new Date();
+  const nowUTC = now.toISOString();
+  
+  // The review period runs from the previous standup in the team's timezone, unless a window was given
+  const teamSettings = await getTeamSettings();
+  const timeZone = teamSettings.timezone;
+  const {
+    since: reviewStartTime,
+    until: reviewEndTime,
+    custom: isCustomWindow,
+  } = getReviewWindow(teamSettings, options.since, options.until);
+  const reviewStartTimeUTC = reviewStartTime.toISOString();
+  const reviewEndTimeUTC = reviewEndTime.toISOString();
+  
+  // Get log file content from blob or local
+  let logContent = '';
+  let recentLogContent = '';
+  let inProgressTimestamps = new Map<string, string>();
+  
+  try {
+    let logEntries = await getLogEntries({ until: reviewEndTime, includeArchived: true });
+    inProgressTimestamps = parseInProgressTimestamps(logEntries);
+
+    if (listIdParam) {
+      // Log entries carry no list, so keep those for tasks in this list (open, or updated this period)
+      const recentlyUpdated = await clickupAPI.getTasks(true, true, reviewStartTime.getTime(), listIdParam);
+      const listTaskIds = new Set([...tasks, ...recentlyUpdated].map(task => task.id));
+      logEntries = logEntries.filter(entry => listTaskIds.has(entry.taskId));
+    }
+    
+    // Get logs for the review period
+    const recentEntries = logEntries.filter(entry => new Date(entry.timestamp) >= reviewStartTime);
+    recentLogContent = recentEntries.length > 0 ? formatLogEntries(recentEntries) : 'No changes since the last review period.';
+    
+    // Also keep the last 1000 actions for full context
+    logContent = formatLogEntries(logEntries.slice(-1000));
+  } catch {
+    console.log('No log file found');
+    logContent = 'No task change logs available yet.';
+    recentLogContent = 'No task change logs available yet.';
+  }
+  
+  // Tag tasks with their list when the report spans several
+  const showListColumn = coveredLists.length > 1;
+
+  const inProgressTasks = tasks.filter(task =>
+    task.status?.status?.toLowerCase().includes('progress') ||
+    task.status?.status?.toLowerCase().includes('active')
+  );
+
+  const overdueTasks = tasks.filter(task => {
+    if (!task.due_date) return false;
+    const dueDate = new Date(parseInt(task.due_date));
+    return dueDate < now;
+  });
+  
+  // Get urgent and high priority tasks
+  const urgentTasks = tasks.filter(task =>
+    task.priority?.priority?.toLowerCase() === 'urgent'
+  );
+  
+  const highPriorityTasks = tasks.filter(task =>
+    task.priority?.priority?.toLowerCase() === 'high'
+  );
+
+  // Count tasks and hours per developer with priority breakdown
+  const developerWorkload: Record<string, number> = {};
+  const developerHours: Record<string, number> = {};
+  const developerInProgress: Record<string, number> = {};
+  const developerInProgressHours: Record<string, number> = {};
+  const developerUrgentHours: Record<string, number> = {};
+  const developerHighHours: Record<string, number> = {};
+  const developerUrgentCount: Record<string, number> = {};
+  const developerHighCount: Record<string, number> = {};
+  
+  tasks.forEach(task => {
+    const devName = getDeveloperName(task);
+    
+    if (devName !== 'Unassigned') {
+      developerWorkload[devName] = (developerWorkload[devName] || 0) + 1;
+      
+      const taskHours = task.time_estimate ? (task.time_estimate / (1000 * 60 * 60)) : 0;
+      
+      if (taskHours > 0) {
+        developerHours[devName] = (developerHours[devName] || 0) + taskHours;
+      }
+      
+      // Track in-progress tasks and hours
+      if (task.status?.status?.toLowerCase().includes('progress') ||
+          task.status?.status?.toLowerCase().includes('active')) {
+        developerInProgress[devName] = (developerInProgress[devName] || 0) + 1;
+        if (taskHours > 0) {
+          developerInProgressHours[devName] = (developerInProgressHours[devName] || 0) + taskHours;
+        }
+      }
+      
+      // Track urgent task hours
+      if (task.priority?.priority?.toLowerCase() === 'urgent') {
+        developerUrgentCount[devName] = (developerUrgentCount[devName] || 0) + 1;
+        if (taskHours > 0) {
+          developerUrgentHours[devName] = (developerUrgentHours[devName] || 0) + taskHours;
+        }
+      }
+      
+      // Track high priority task hours
+      if (task.priority?.priority?.toLowerCase() === 'high') {
+        developerHighCount[devName] = (developerHighCount[devName] || 0) + 1;
+        if (taskHours > 0) {
+          developerHighHours[devName] = (developerHighHours[devName] || 0) + taskHours;
+        }
+      }
+    }
+  });
+  
+  // Utilization, projected completion and load against each developer's capacity profile
+  const capacitySettings = await getCapacitySettings();
+  const developerCapacity: Record<string, DeveloperCapacity> = {};
+  for (const devName of Object.keys(developerWorkload)) {
+    developerCapacity[devName] = getDeveloperCapacity(devName, {
+      assignedHours: developerHours[devName] || 0,
+      inProgressHours: developerInProgressHours[devName] || 0,
+    }, capacitySettings, teamSettings, now);
+  }
+  
+  // Count unassigned urgent/high priority tasks
+  const unassignedUrgentTasks = urgentTasks.filter(task => getDeveloperName(task) === 'Unassigned');
+  const unassignedUrgent = unassignedUrgentTasks.length;
+  
+  const unassignedHigh = highPriorityTasks.filter(task => getDeveloperName(task) === 'Unassigned').length;
+
+  // Find tasks in progress for too long using accurate log data
+  const staleInProgressTasks = inProgressTasks.filter(task => {
+    const inProgressSince = inProgressTimestamps.get(task.id);
+    if (!inProgressSince) return false;
+    
+    const startDate = new Date(inProgressSince);
+    const daysInProgress = (now.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24);
+    
+    // Define "stale" as in progress for more than 2 days for urgent/high priority, and 4 days for others
+    const isUrgentOrHigh = task.priority?.priority?.toLowerCase() === 'urgent' || task.priority?.priority?.toLowerCase() === 'high';
+    if (isUrgentOrHigh) {
+      return daysInProgress > 2;
+    }
+    return daysInProgress > 4;
+  });
+
+  const toDigestTask = (task: ClickUpTask): DigestTask => ({
+    id: task.id,
+    name: task.name,
+    url: task.url,
+    developer: getDeveloperName(task),
+    status: task.status?.status || 'unknown',
+    priority: task.priority?.priority,
+    listName: showListColumn ? task.list?.name : undefined,
+    dueDate: task.due_date ? new Date(parseInt(task.due_date)).toISOString() : undefined,
+    inProgressSince: inProgressTimestamps.get(task.id),
+  });
+
+  // Get tasks with recent status changes, new tasks, and completed tasks
+  const newTasks = tasks.filter(task => {
+    if (!task.date_created) return false;
+    const createdDate = new Date(parseInt(task.date_created));
+    return createdDate >= reviewStartTime && createdDate <= reviewEndTime;
+  });
+
+  const recentlyCompletedTasks = tasks.filter(task => {
+    if (!task.date_done) return false;
+    const doneDate = new Date(parseInt(task.date_done));
+    return doneDate >= reviewStartTime && doneDate <= reviewEndTime;
+  });
+
+  const recentlyStartedTasks = tasks.filter(task => {
+    if (!task.date_updated || !task.status?.status?.toLowerCase().includes('progress')) return false;
+    const updatedDate = new Date(parseInt(task.date_updated));
+    // This is a proxy: assumes the last update was the move to "in progress"
+    return updatedDate >= reviewStartTime && updatedDate <= reviewEndTime;
+  });
+
+  // --- End Slack Message Generation ---
+
+  // Notes from the last standup, and commitments that lapsed without the task moving
+  let meetingNotesContent = 'No meeting notes recorded yet.';
+  let missedCommitmentCount = 0;
+  try {
+    const [latestMeeting] = await getMeetingNotes();
+    const missedCommitments = await getMissedCommitments(now);
+    missedCommitmentCount = missedCommitments.length;
+    meetingNotesContent = formatMeetingNotes(latestMeeting, missedCommitments);
+  } catch (error) {
+    console.error('Error reading meeting notes:', error);
+  }
+
+  // Fetch the dynamic prompt from Redis, with a fallback to the hardcoded version
+  const customPrompt = await getLLMPrompt();
+  
+  const llmPrompt = customPrompt || DEFAULT_LLM_PROMPT;
+
+  // Generate the markdown report
+  const report = `# Daily Review Analysis Report
+Generated: ${nowUTC}
+Current Time (${timeZone}): ${now.toLocaleString('en-US', { timeZone, dateStyle: 'full', timeStyle: 'long' })}
+Review Period Start: ${reviewStartTime.toLocaleString('en-US', { timeZone, dateStyle: 'full', timeStyle: 'long' })}
+${isCustomWindow ? `Review Period End: ${reviewEndTime.toLocaleString('en-US', { timeZone, dateStyle: 'full', timeStyle: 'long' })}
+` : ''}${showListColumn ? 'Lists' : 'List'}: ${coveredLists.map(list => list.name).join(', ')}
+
+${includePrompt ? `${llmPrompt}
+
+` : ''}## COMPLETE TASK TABLE (ALL ${tasks.length} TASKS)
+
+| Task ID |${showListColumn ? ' List |' : ''} Task Name | Description | Status | Priority | Developer | Hours Est. | Due Date | Days In Progress |
+|---------|${showListColumn ? '------|' : ''}-----------|-------------|--------|----------|-----------|------------|----------|------------------|
+${tasks
+.sort((a, b) => {
+  // Sort alphabetically by task name (parent - child format)
+  return a.name.localeCompare(b.name);
+})
+.map(task => {
+  const devName = getDeveloperName(task);
+  const hours = task.time_estimate ? (task.time_estimate / (1000 * 60 * 60)).toFixed(1) : '0';
+  const dueDate = task.due_date ? new Date(parseInt(task.due_date)).toLocaleDateString() : 'None';
+  const isInProgress = task.status?.status?.toLowerCase().includes('progress') ||
+                       task.status?.status?.toLowerCase().includes('active');
+  const inProgressSince = inProgressTimestamps.get(task.id);
+  const daysInProgress = isInProgress && inProgressSince ?
+    Math.floor((now.getTime() - new Date(inProgressSince).getTime()) / (1000 * 60 * 60 * 24)) : 0;
+  const isOverdue = task.due_date && new Date(parseInt(task.due_date)) < now;
+  
+  const description = task.description ? task.description.replace(/(\r\n|\n|\r)/gm, " ").substring(0, 100) + (task.description.length > 100 ? '...' : '') : 'No description';
+  
+  return `| ${task.id} |${showListColumn ? ` ${task.list?.name || '-'} |` : ''} ${task.name} | ${description} | ${task.status?.status || 'Unknown'} | ${task.priority?.priority || 'None'} | **${devName}** | ${hours}h | ${dueDate}${isOverdue ? ' 🚨' : ''} | ${isInProgress ? daysInProgress : '-'} |`;
+}).join('\n')}
+
+## DAILY REVIEW
+
+### CHANGES SINCE LAST REVIEW
+**Review Period Start**: ${reviewStartTime.toLocaleString('en-US', { timeZone, dateStyle: 'full', timeStyle: 'long' })}
+**Changes Tracked From**: ${reviewStartTimeUTC}
+**Current Time (UTC)**: ${nowUTC}
+
+\`\`\`markdown
+${recentLogContent}
+\`\`\`
+
+### CURRENTLY IN-PROGRESS TASKS (${inProgressTasks.length})
+${inProgressTasks.map(task => {
+const devName = getDeveloperName(task);
+const hours = task.time_estimate ? (task.time_estimate / (1000 * 60 * 60)).toFixed(1) : '0';
+return `- **${task.name}** (${devName}, ${hours}h)`;
+}).join('\n')}
+
+### 🚀 KEY CHANGES SINCE LAST REVIEW
+- **New Tasks Created**: ${newTasks.length}
+- **Tasks Started (Moved to In Progress)**: ${recentlyStartedTasks.length}
+- **Tasks Completed**: ${recentlyCompletedTasks.length}
+
+${newTasks.length > 0 ? `
+**New Tasks:**
+${newTasks.map(t => `- ${t.name}`).join('\n')}
+` : ''}
+${recentlyStartedTasks.length > 0 ? `
+**Started Tasks:**
+${recentlyStartedTasks.map(t => `- ${t.name}`).join('\n')}
+` : ''}
+${recentlyCompletedTasks.length > 0 ? `
+**Completed Tasks:**
+${recentlyCompletedTasks.map(t => `- ${t.name}`).join('\n')}
+` : ''}
+
+## EXECUTIVE SUMMARY
+
+### 🚨 Critical Metrics
+- **Total Tasks**: ${tasks.length}
+- **Urgent Tasks**: ${urgentTasks.length} total (${unassignedUrgent} unassigned)
+- **High Priority Tasks**: ${highPriorityTasks.length} total (${unassignedHigh} unassigned)
+- **In Progress Tasks**: ${inProgressTasks.length}
+- **Overdue Tasks**: ${overdueTasks.length}
+- **Stale Tasks (>3 days)**: ${staleInProgressTasks.length}
+
+### 👥 HOUR-BASED DEVELOPER WORKLOAD (PRIMARY METRIC)
+
+${Object.entries(developerWorkload)
+.filter(([dev]) => dev !== 'Unassigned')
+.sort((a, b) => {
+  // Sort by in-progress hours first, then by total hours, then by task count
+  const aInProgressHrs = developerInProgressHours[a[0]] || 0;
+  const bInProgressHrs = developerInProgressHours[b[0]] || 0;
+  if (aInProgressHrs !== bInProgressHrs) return bInProgressHrs - aInProgressHrs;
+  const aHours = developerHours[a[0]] || 0;
+  const bHours = developerHours[b[0]] || 0;
+  if (aHours !== bHours) return bHours - aHours;
+  return (developerInProgress[b[0]] || 0) - (developerInProgress[a[0]] || 0);
+})
+.map(([dev, count]) => {
+  const inProgress = developerInProgress[dev] || 0;
+  const inProgressHrs = developerInProgressHours[dev] || 0;
+  const urgentHrs = developerUrgentHours[dev] || 0;
+  const highHrs = developerHighHours[dev] || 0;
+  const hours = developerHours[dev] || 0;
+  const urgentCount = developerUrgentCount[dev] || 0;
+  const highCount = developerHighCount[dev] || 0;
+  const capacity = developerCapacity[dev];
+  
+  // Status based on IN-PROGRESS HOURS (not task count), in days of the developer's capacity
+  const status = capacity.load === 'overloaded' ? '🔴 OVERLOADED' :
+                 capacity.load === 'busy' ? '🟡 BUSY' :
+                 '🟢 AVAILABLE';
+  const toDays = (hrs: number) => hrs > 0 && capacity.hoursPerDay > 0 ? (hrs / capacity.hoursPerDay).toFixed(1) : '0.0';
+  
+  // Warning if developer has tasks but no hour estimates
+  const noHoursWarning = count > 0 && hours === 0 ? ' ⚠️ NO TIME ESTIMATES' : '';
+  
+  return `#### ${dev} ${status}${noHoursWarning}
+**HOURS BREAKDOWN:**
+- **In Progress**: ${inProgressHrs.toFixed(1)} hours (${inProgress} tasks)
+- **Urgent Priority**: ${urgentHrs.toFixed(1)} hours (${urgentCount} tasks)
+- **High Priority**: ${highHrs.toFixed(1)} hours (${highCount} tasks)
+- **Total Assigned**: ${hours.toFixed(1)} hours (${count} tasks)
+- **Work Days**: ${toDays(hours)} days | In-Progress Days: ${toDays(inProgressHrs)} days (at ${capacity.hoursPerDay}h/day)
+- **Utilization**: ${Math.round(capacity.utilization * 100)}% of ${capacity.availableHours}h available in the next ${UTILIZATION_WINDOW_DAYS} days | Projected Completion: ${capacity.projectedCompletion || '-'}
+${capacity.overAllocated ? `⚠️ **OVER-ALLOCATED**: ${hours.toFixed(1)} hours assigned but only ${capacity.availableHours} hours available in the next ${UTILIZATION_WINDOW_DAYS} days
+` : ''}${count > 0 && hours === 0 ? '⚠️ **WARNING**: Has ' + count + ' tasks but no time estimates provided!' : ''}`;
+})
+.join('\n\n')}
+
+### 📊 Unassigned Work
+- Unassigned Tasks: ${tasks.filter(t => getDeveloperName(t) === 'Unassigned').length} total
+- Unassigned Urgent: ${unassignedUrgent} tasks
+- Unassigned High Priority: ${unassignedHigh} tasks
+
+## DETAILED TASK ANALYSIS
+
+### 🔥 URGENT TASKS REQUIRING IMMEDIATE ACTION
+
+${urgentTasks.map(task => {
+const devName = getDeveloperName(task);
+const isInProgress = task.status?.status?.toLowerCase().includes('progress') ||
+                     task.status?.status?.toLowerCase().includes('active');
+
+return `#### ${task.name}
+- **Developer**: ${devName} ${devName === 'Unassigned' ? '⚠️ NEEDS ASSIGNMENT' : ''}
+- **Status**: ${task.status?.status || 'Unknown'} ${isInProgress ? '(In Progress)' : ''}
+- **Time Estimate**: ${task.time_estimate ? (task.time_estimate / (1000 * 60 * 60)).toFixed(1) + ' hours' : 'Not estimated'}
+- **Due Date**: ${task.due_date ? new Date(parseInt(task.due_date)).toLocaleDateString() : 'No due date'}
+${task.due_date && new Date(parseInt(task.due_date)) < now ? '- 🚨 **OVERDUE**' : ''}`;
+}).join('\n\n')}
+
+### 📋 IN PROGRESS TASKS BY DEVELOPER
+
+${Object.entries(developerInProgress)
+.filter(([, count]) => count > 0)
+.sort((a, b) => a[0].localeCompare(b[0])) // Sort alphabetically by developer name
+.map(([dev]) => {
+  const devTasks = inProgressTasks.filter(task => {
+    return getDeveloperName(task) === dev;
+  })
+  .sort((a, b) => a.name.localeCompare(b.name)); // Sort tasks alphabetically by name
+  
+  return `#### ${dev} (${devTasks.length} in progress)
+${devTasks.map(task => {
+const inProgressSince = inProgressTimestamps.get(task.id);
+const daysInProgress = inProgressSince ?
+  Math.floor((now.getTime() - new Date(inProgressSince).getTime()) / (1000 * 60 * 60 * 24)) : 0;
+
+const statusEmoji = daysInProgress > 3 ? '⚠️' : '✅';
+const overdue = task.due_date && new Date(parseInt(task.due_date)) < now;
+
+return `- ${statusEmoji} **${task.name}**
+- Priority: ${task.priority?.priority || 'None'}
+- Days in Progress: ${daysInProgress} ${daysInProgress > 3 ? '**STALE**' : ''}
+- Time Estimate: ${task.time_estimate ? (task.time_estimate / (1000 * 60 * 60)).toFixed(1) + 'h' : 'Not set'}
+${overdue ? '  - 🚨 **OVERDUE**' : ''}`;
+}).join('\n')}`;
+}).join('\n\n')}
+
+### 🚨 URGENT PRIORITY TASKS BY DEVELOPER
+
+${(() => {
+// Group urgent tasks by developer
+const urgentByDeveloper: Record<string, typeof urgentTasks> = {};
+
+urgentTasks.forEach(task => {
+  const devName = getDeveloperName(task);
+  
+  if (!urgentByDeveloper[devName]) {
+    urgentByDeveloper[devName] = [];
+  }
+  urgentByDeveloper[devName].push(task);
+});
+
+// Sort developers alphabetically and format output
+return Object.entries(urgentByDeveloper)
+  .sort((a, b) => a[0].localeCompare(b[0])) // Sort alphabetically by developer name
+  .map(([dev, tasks]) => {
+    const sortedTasks = tasks.sort((a, b) => a.name.localeCompare(b.name)); // Sort tasks alphabetically
+    
+    return `#### ${dev} (${sortedTasks.length} urgent tasks)
+${sortedTasks.map(task => {
+const hours = task.time_estimate ? (task.time_estimate / (1000 * 60 * 60)).toFixed(1) : '0';
+const isInProgress = task.status?.status?.toLowerCase().includes('progress') ||
+                     task.status?.status?.toLowerCase().includes('active');
+const overdue = task.due_date && new Date(parseInt(task.due_date)) < now;
+
+return `- **${task.name}**
+- Status: ${task.status?.status || 'Unknown'} ${isInProgress ? '(In Progress)' : ''}
+- Time Estimate: ${hours}h
+${overdue ? '  - 🚨 **OVERDUE**' : ''}`;
+}).join('\n')}`;
+  }).join('\n\n');
+})()}
+
+### 📊 HIGH PRIORITY TASKS BY DEVELOPER
+
+${(() => {
+// Group high priority tasks by developer
+const highByDeveloper: Record<string, typeof highPriorityTasks> = {};
+
+highPriorityTasks.forEach(task => {
+  const devName = getDeveloperName(task);
+  
+  if (!highByDeveloper[devName]) {
+    highByDeveloper[devName] = [];
+  }
+  highByDeveloper[devName].push(task);
+});
+
+// Sort developers alphabetically and format output
+return Object.entries(highByDeveloper)
+  .sort((a, b) => a[0].localeCompare(b[0])) // Sort alphabetically by developer name
+  .map(([dev, tasks]) => {
+    const sortedTasks = tasks.sort((a, b) => a.name.localeCompare(b.name)); // Sort tasks alphabetically
+    
+    return `#### ${dev} (${sortedTasks.length} high priority tasks)
+${sortedTasks.map(task => {
+const hours = task.time_estimate ? (task.time_estimate / (1000 * 60 * 60)).toFixed(1) : '0';
+const isInProgress = task.status?.status?.toLowerCase().includes('progress') ||
+                     task.status?.status?.toLowerCase().includes('active');
+const overdue = task.due_date && new Date(parseInt(task.due_date)) < now;
+
+return `- **${task.name}**
+- Status: ${task.status?.status || 'Unknown'} ${isInProgress ? '(In Progress)' : ''}
+- Time Estimate: ${hours}h
+${overdue ? '  - 🚨 **OVERDUE**' : ''}`;
+}).join('\n')}`;
+  }).join('\n\n');
+})()}
+
+### ⏰ STALE TASKS (In Progress >3 Days)
+
+${staleInProgressTasks.length > 0 ? staleInProgressTasks.map(task => {
+const devName = getDeveloperName(task);
+const inProgressSince = inProgressTimestamps.get(task.id);
+const daysInProgress = inProgressSince ?
+  Math.floor((now.getTime() - new Date(inProgressSince).getTime()) / (1000 * 60 * 60 * 24)) : 0;
+
+return `- **${task.name}** (${devName})
+- ${daysInProgress} days in progress (Started: ${inProgressSince ? new Date(inProgressSince).toLocaleDateString() : 'Unknown'})
+- Priority: ${task.priority?.priority || 'None'}
+- Last Updated: ${task.date_updated ? new Date(parseInt(task.date_updated)).toLocaleDateString() : 'Unknown'}`;
+}).join('\n') : 'No stale tasks - good job keeping tasks moving!'}
+
+## ALL TASKS LIST (For Reference)
+
+<details>
+<summary>Click to expand full task list</summary>
+
+${tasks.map(task => {
+const devName = getDeveloperName(task);
+
+return `- [${task.status?.status || 'Unknown'}] ${task.name} (${task.priority?.priority || 'None'} | ${devName})`;
+}).join('\n')}
+
+</details>
+
+## RECENT TASK CHANGES (Last 1000 Actions)
+
+<details>
+<summary>Click to expand recent changes log</summary>
+
+\`\`\`markdown
+${logContent}
+\`\`\`
+
+</details>
+
+## POST-MEETING SUMMARY
+
+${meetingNotesContent}
+
+## FOCUS AREAS FOR TODAY
+
+Please analyze the data above and provide:
+1. **Quick summary** of changes since the review period started (${reviewStartTime.toLocaleString('en-US', { timeZone, timeStyle: 'short' })} on ${reviewStartTime.toLocaleDateString('en-US', { timeZone, weekday: 'long' })})
+2. **Urgent tasks stagnant 2+ days** - List Task IDs and developers
+3. **Critical unassigned urgent work** - Task IDs that need immediate assignment
+4. **Developer capacity concerns** - Who is over-allocated or past their daily capacity?
+5. **Blockers/risks** needing immediate attention
+${missedCommitmentCount > 0 ? `6. **Missed commitments** - Who committed to what, and why the task has not moved
+` : ''}
+Keep responses concise and actionable, referencing specific Task IDs.
+
+---
+END OF REPORT
+`;
+
+  return {
+    report,
+    prompt: llmPrompt,
+    generatedAt: nowUTC,
+    reviewStartTime: reviewStartTimeUTC,
+    reviewEndTime: reviewEndTimeUTC,
+    lists: coveredLists,
+    digest: {
+      overdue: overdueTasks.map(toDigestTask),
+      stale: staleInProgressTasks.map(toDigestTask),
+      unassignedUrgent: unassignedUrgentTasks.map(toDigestTask),
+    },
+    workload: Object.keys(developerWorkload).sort().map(developer => ({
+      developer,
+      tasks: developerWorkload[developer],
+      hours: Math.round((developerHours[developer] || 0) * 10) / 10,
+      inProgress: developerInProgress[developer] || 0,
+      urgent: developerUrgentCount[developer] || 0,
+      high: developerHighCount[developer] || 0,
+      utilization: Math.round(developerCapacity[developer].utilization * 100) / 100,
+      projectedCompletion: developerCapacity[developer].projectedCompletion,
+      overAllocated: developerCapacity[developer].overAllocated,
+    })),
+    stats: {
+      totalTasks: tasks.length,
+      inProgress: inProgressTasks.length,
+      overdue: overdueTasks.length,
+      stale: staleInProgressTasks.length,
+    },
+  };
+}
@@ -0,0 +1,212 @@
+import { clickupAPI } from '@/lib/clickup-api';
+import { getLogEntries, logTaskChange } from '@/lib/blob-logger';
+import { getCachedTask, invalidateTaskSnapshot } from '@/lib/task-cache';
+import { getDeveloperField, getTaskDeveloper } from '@/lib/custom-fields';
+import { parseInProgressTimestamps } from '@/lib/utils';
+import { ClickUpTask, TaskUpdateData } from '@/types/clickup';
+import type { LogEntry, RevertField, RevertPlan } from '@/types/logs';
+
+// Fields a revert can write back; anything else in an entry (comments, other custom fields) is left alone
+const REVERTIBLE_FIELDS = ['name', 'description', 'status', 'priority', 'due_date', 'time_estimate', 'developer', 'parent'];
+
+// ClickUp's built-in priorities; webhooks log them by name, the tracker's forms by number
+const PRIORITY_IDS: Record<string, number> = { urgent: 1, high: 2, normal: 3, low: 4 };
+
+function toPriority(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const numeric = Number(value);
+  if (!isNaN(numeric)) return numeric >= 1 && numeric <= 4 ? numeric : null;
+  return PRIORITY_IDS[String(value).toLowerCase()] ?? null;
+}
+
+function toTimestamp(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const numeric = Number(value);
+  return isNaN(numeric) ? null : numeric;
+}
+
+// Time estimates are logged as "N hours"
+function toTimeEstimate(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value === 'number') return value;
+  const hours = parseFloat(String(value));
+  return isNaN(hours) ? null : Math.round(hours * 3600000);
+}
+
+/**
+ * The fields among `changes` a revert could write back
+ */
+export function getRevertibleFields(changes: Record<string, unknown>): string[] {
+  return Object.keys(changes).filter(field => REVERTIBLE_FIELDS.includes(field));
+}
+
+/**
+ * The task's current values for the revertible fields among `changes`, in the format the log records them,
+ * so an edit's entry can carry what it replaced
+ * @returns undefined when none of the changes can be reverted
+ */
+export function getBeforeImage(task: ClickUpTask, changes: Record<string, unknown>): Record<string, unknown> | undefined {
+  const fields = getRevertibleFields(changes);
+  if (fields.length === 0) return undefined;
+
+  const values: Record<string, unknown> = {
+    name: task.name,
+    description: task.description ?? '',
+    status: task.status.status.toUpperCase(),
+    priority: task.priority ? Number(task.priority.id) : null,
+    due_date: task.due_date ? Number(task.due_date) : null,
+    time_estimate: task.time_estimate ? `${task.time_estimate / 3600000} hours` : null,
+    developer: getTaskDeveloper(task)?.name ?? '',
+    parent: task.parent ?? null,
+  };
+  return Object.fromEntries(fields.map(field => [field, values[field]]));
+}
+
+/**
+ * Work out what reverting an UPDATE entry would restore: for each field it wrote, the value
+ * the task's most recent earlier entry recorded for that field, or else the entry's before-image
+ * @param entry - The UPDATE entry to revert
+ * @param taskEntries - All of the task's log entries, oldest first
+ * @returns RevertPlan
+ */
+export function buildRevertPlan(entry: LogEntry, taskEntries: LogEntry[]): RevertPlan {
+  const index = taskEntries.findIndex(candidate => candidate.id === entry.id);
+  const earlier = (index === -1 ? taskEntries.filter(candidate => candidate.timestamp < entry.timestamp) : taskEntries.slice(0, index))
+    .filter(candidate => candidate.action !== 'DELETE');
+  const later = index === -1 ? taskEntries.filter(candidate => candidate.timestamp > entry.timestamp) : taskEntries.slice(index + 1);
+
+  const fields: RevertField[] = getRevertibleFields(entry.changes)
+    .map(field => {
+      const previous = [...earlier].reverse().find(candidate => field in candidate.changes);
+      const latest = [...later].reverse().find(candidate => field in candidate.changes);
+      // The first logged edit of a field has no earlier entry, only what it replaced
+      const known = !!previous || (!!entry.before && field in entry.before);
+      const revertField: RevertField = {
+        field,
+        from: entry.changes[field],
+        to: (previous ? previous.changes[field] : entry.before?.[field]) ?? null,
+        available: known,
+      };
+
+      if (!known) {
+        revertField.reason = 'No earlier value in the log';
+      } else if (field === 'parent' && !revertField.to) {
+        // ClickUp's API can move a subtask between parents but not make it top-level again
+        revertField.available = false;
+        revertField.reason = 'A subtask cannot be moved back to the top level';
+      }
+      if (latest) {
+        revertField.overwrites = { value: latest.changes[field], timestamp: latest.timestamp };
+      }
+      return revertField;
+    });
+
+  // Going back to IN PROGRESS resumes the stint the entry ended rather than starting a new one
+  const status = fields.find(field => field.field === 'status' && field.available);
+  const inProgressSince = typeof status?.to === 'string' && status.to.toUpperCase() === 'IN PROGRESS'
+    ? parseInProgressTimestamps(earlier.filter(candidate => candidate.taskId === entry.taskId)).get(entry.taskId)
+    : undefined;
+
+  return { entry, fields, inProgressSince };
+}
+
+/**
+ * The revert plan for one of a task's UPDATE entries
+ * @returns RevertPlan, or null when the task has no such UPDATE entry
+ */
+export async function getRevertPlan(taskId: string, entryId: string): Promise<RevertPlan | null> {
+  const taskEntries = await getLogEntries({ taskId, includeArchived: true });
+  const entry = taskEntries.find(candidate => candidate.id === entryId);
+  if (!entry || entry.action !== 'UPDATE') return null;
+  return buildRevertPlan(entry, taskEntries);
+}
+
+/**
+ * Write a plan's restorable values back to ClickUp and log them as a REVERT entry.
+ * When a step fails after another has reached ClickUp, the restored part is still logged before the error is thrown
+ * @returns The values restored, as logged, and a warning when the log entry could not be written
+ */
+export async function applyRevertPlan(
+  plan: RevertPlan,
+  actor: string
+): Promise<{ restored: Record<string, unknown>; warning?: string }> {
+  const { entry } = plan;
+  const restored = plan.fields.filter(field => field.available);
+  if (restored.length === 0) {
+    throw new Error('Nothing in this entry can be restored');
+  }
+
+  const updateData: TaskUpdateData = {};
+  let developer: string | undefined;
+  for (const { field, to } of restored) {
+    switch (field) {
+      case 'name':
+      case 'description':
+      case 'status':
+      case 'parent':
+        updateData[field] = String(to ?? '');
+        break;
+      case 'priority':
+        updateData.priority = toPriority(to);
+        break;
+      case 'due_date':
+        updateData.due_date = toTimestamp(to);
+        break;
+      case 'time_estimate':
+        updateData.time_estimate = toTimeEstimate(to);
+        break;
+      case 'developer':
+        developer = typeof to === 'string' ? to : '';
+        break;
+    }
+  }
+
+  // What reached ClickUp, so a revert that fails halfway still logs the part it restored
+  const applied = new Set<string>();
+  let failure: Error | undefined;
+  try {
+    if (Object.keys(updateData).length > 0) {
+      await clickupAPI.updateTask(entry.taskId, updateData);
+      Object.keys(updateData).forEach(field => applied.add(field));
+    }
+
+    // Unlike an edit, a revert that cannot restore the developer fails
+    if (developer !== undefined) {
+      const listId = ((await getCachedTask(entry.taskId)) || (await clickupAPI.getTask(entry.taskId))).list?.id;
+      const developerField = getDeveloperField(await clickupAPI.getCustomFields(listId));
+      if (!developerField) {
+        throw new Error('This task\'s list has no developer field');
+      }
+      await clickupAPI.setCustomFieldValue(entry.taskId, developerField, developer);
+      applied.add('developer');
+    }
+  } catch (error) {
+    if (applied.size === 0) throw error;
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    failure = new Error(`${message} (${[...applied].join(', ')} already restored)`);
+  }
+
+  // The cached snapshot picks this change up on its next (incremental) refresh
+  await invalidateTaskSnapshot();
+
+  const changes: Record<string, unknown> = Object.fromEntries(
+    restored.filter(({ field }) => applied.has(field)).map(({ field, to }) => [field, to])
+  );
+  const resumesInProgress = plan.inProgressSince && applied.has('status');
+  try {
+    await logTaskChange(
+      entry.taskId,
+      { ...changes, ...(resumesInProgress && { inProgressSince: plan.inProgressSince }), reverted_entry: entry.id },
+      'REVERT',
+      `Reverted the ${entry.timestamp} update${entry.actor ? ` by ${entry.actor}` : ''}`,
+      { actor }
+    );
+  } catch (logError) {
+    console.error('CRITICAL: Task was reverted but logging failed:', logError);
+    if (failure) throw new Error(`${failure.message}; failed to write to the activity log.`);
+    return { restored: changes, warning: 'Failed to write to the activity log.' };
+  }
+
+  if (failure) throw failure;
+  return { restored: changes };
+}
@@ -0,0 +1,172 @@
+import { randomUUID } from 'crypto';
+import { readDocument, writeDocument } from '@/lib/storage';
+import { getLogEntries } from '@/lib/blob-logger';
+import { buildStatusHistory } from '@/lib/status-history';
+import { getTeamSettings } from '@/lib/team-settings';
+import { getZonedTime, shiftDay } from '@/lib/calendar';
+import { MeetingItem, MeetingItemType, MeetingNote, MissedCommitment } from '@/types/meetings';
+
+// Stored next to the activity log; one document holds every meeting, newest first
+const MEETING_NOTES_KEY = 'logs:meeting-notes';
+
+export const MEETING_ITEM_TYPES: MeetingItemType[] = ['decision', 'action', 'commitment', 'escalation'];
+
+const ITEM_HEADINGS: Record<MeetingItemType, string> = {
+  decision: 'Decisions',
+  action: 'Action Items',
+  commitment: 'Commitments & Deadlines',
+  escalation: 'Escalations',
+};
+
+export function createMeetingId(): string {
+  return randomUUID();
+}
+
+// A deadline is met until the end of its day in the team's timezone
+function getDeadlineTime(deadline: string, timeZone: string): number {
+  return getZonedTime(shiftDay(deadline, 1), '00:00', timeZone).getTime() - 1;
+}
+
+/**
+ * Meeting notes, newest meeting first
+ */
+export async function getMeetingNotes(): Promise<MeetingNote[]> {
+  return (await readDocument<MeetingNote[]>(MEETING_NOTES_KEY)) || [];
+}
+
+export async function getMeetingNote(id: string): Promise<MeetingNote | undefined> {
+  return (await getMeetingNotes()).find(note => note.id === id);
+}
+
+/**
+ * Insert or replace a meeting's notes
+ * @param note - The meeting notes, matched by id
+ */
+export async function saveMeetingNote(note: MeetingNote): Promise<void> {
+  const notes = (await getMeetingNotes()).filter(existing => existing.id !== note.id);
+  notes.push(note);
+  notes.sort((a, b) => b.date.localeCompare(a.date) || b.createdAt.localeCompare(a.createdAt));
+  await writeDocument(MEETING_NOTES_KEY, notes);
+}
+
+export async function deleteMeetingNote(id: string): Promise<boolean> {
+  const notes = await getMeetingNotes();
+  const remaining = notes.filter(note => note.id !== id);
+  if (remaining.length === notes.length) return false;
+  await writeDocument(MEETING_NOTES_KEY, remaining);
+  return true;
+}
+
+/**
+ * Validate and normalize items from a request body; returns an error message for the first bad item
+ */
+export function parseMeetingItems(value: unknown): MeetingItem[] | string {
+  if (!Array.isArray(value)) return 'items must be an array';
+
+  const items: MeetingItem[] = [];
+  for (const raw of value as Array<Partial<MeetingItem>>) {
+    if (!raw || !MEETING_ITEM_TYPES.includes(raw.type as MeetingItemType)) {
+      return `Each item needs a type: ${MEETING_ITEM_TYPES.join(', ')}`;
+    }
+    if (typeof raw.text !== 'string' || !raw.text.trim()) {
+      return 'Each item needs text';
+    }
+    if (raw.deadline && (!/^\d{4}-\d{2}-\d{2}$/.test(raw.deadline) || isNaN(new Date(raw.deadline).getTime()))) {
+      return `Invalid deadline "${raw.deadline}", expected yyyy-MM-dd`;
+    }
+
+    items.push({
+      id: typeof raw.id === 'string' && raw.id ? raw.id : randomUUID(),
+      type: raw.type as MeetingItemType,
+      text: raw.text.trim(),
+      owner: raw.owner?.trim() || undefined,
+      taskId: raw.taskId?.trim() || undefined,
+      taskName: raw.taskName?.trim() || undefined,
+      deadline: raw.deadline || undefined,
+      done: !!raw.done,
+    });
+  }
+  return items;
+}
+
+/**
+ * Open commitments and action items whose deadline has passed without the linked task changing status
+ * since the meeting
+ * @param now - Reference time
+ * @returns Promise<MissedCommitment[]>
+ */
+export async function getMissedCommitments(now: Date = new Date()): Promise<MissedCommitment[]> {
+  const [notes, { timezone }] = await Promise.all([getMeetingNotes(), getTeamSettings()]);
+  const candidates = notes.flatMap(note => note.items
+    .filter(item =>
+      (item.type === 'commitment' || item.type === 'action') &&
+      !item.done && item.taskId && item.deadline &&
+      getDeadlineTime(item.deadline, timezone) < now.getTime()
+    )
+    .map(item => ({ note, item }))
+  );
+  if (candidates.length === 0) return [];
+
+  const taskIds = new Set(candidates.map(candidate => candidate.item.taskId));
+  // Meetings can predate log retention, so archived status changes count too
+  const entries = (await getLogEntries({ includeArchived: true })).filter(entry => taskIds.has(entry.taskId));
+
+  const missed: MissedCommitment[] = [];
+  for (const { note, item } of candidates) {
+    const transitions = buildStatusHistory(entries.filter(entry => entry.taskId === item.taskId));
+    const meetingStart = getZonedTime(note.date, '00:00', timezone).getTime();
+    const movedSinceMeeting = transitions.some(t => new Date(t.timestamp).getTime() >= meetingStart);
+    if (movedSinceMeeting) continue;
+
+    missed.push({
+      meetingId: note.id,
+      meetingDate: note.date,
+      item,
+      lastStatus: transitions[transitions.length - 1]?.status,
+    });
+  }
+  return missed;
+}
+
+function formatItem(item: MeetingItem): string {
+  const details = [
+    item.owner && `Owner: ${item.owner}`,
+    item.taskName && `Task: ${item.taskName}`,
+    item.deadline && `Deadline: ${item.deadline}`,
+    item.done && 'Done',
+  ].filter(Boolean).join(' | ');
+  return `- ${item.text}${details ? ` (${details})` : ''}`;
+}
+
+/**
+ * Markdown for the report: the latest meeting's notes and any missed commitments
+ * @param note - The most recent meeting, if any
+ * @param missed - Commitments past their deadline
+ * @returns string
+ */
+export function formatMeetingNotes(note: MeetingNote | undefined, missed: MissedCommitment[]): string {
+  if (!note && missed.length === 0) {
+    return 'No meeting notes recorded yet.';
+  }
+
+  const sections: string[] = [];
+  if (note) {
+    sections.push(`### Last Meeting (${note.date})`);
+    if (note.summary) sections.push(note.summary);
+    for (const type of MEETING_ITEM_TYPES) {
+      const items = note.items.filter(item => item.type === type);
+      if (items.length > 0) {
+        sections.push(`#### ${ITEM_HEADINGS[type]}\n${items.map(formatItem).join('\n')}`);
+      }
+    }
+  }
+
+  if (missed.length > 0) {
+    sections.push(`### ⚠️ MISSED COMMITMENTS (${missed.length})
+${missed.map(({ item, meetingDate, lastStatus }) =>
+  `- **${item.owner || 'Unowned'}** committed on ${meetingDate}: ${item.text} (Task: ${item.taskName || item.taskId}, Deadline: ${item.deadline}, Status unchanged: ${lastStatus || 'unknown'})`
+).join('\n')}`);
+  }
+
+  return sections.join('\n\n');
+}
@@ -0,0 +1,80 @@
+import { randomUUID } from 'crypto';
+import { deleteDocument, readDocument, writeDocument } from '@/lib/storage';
+import { LLMReport } from '@/lib/llm-report';
+import { getTeamSettings } from '@/lib/team-settings';
+import { getZonedDate } from '@/lib/calendar';
+import { ArchivedReport, ReportSummary } from '@/types/reports';
+
+// The index lists every kept report, newest first; each report is its own document
+const REPORT_INDEX_KEY = 'reports:index';
+
+// Every report is kept unless REPORT_HISTORY_LIMIT opts into pruning the oldest
+export function getReportHistoryLimit(): number | null {
+  const limit = Number(process.env.REPORT_HISTORY_LIMIT);
+  return limit > 0 ? Math.floor(limit) : null;
+}
+
+function getReportKey(id: string): string {
+  return `reports:${id}`;
+}
+
+/**
+ * Summaries of the stored reports, newest first
+ */
+export async function listReports(): Promise<ReportSummary[]> {
+  return (await readDocument<ReportSummary[]>(REPORT_INDEX_KEY)) || [];
+}
+
+export async function getReport(id: string): Promise<ArchivedReport | null> {
+  return readDocument<ArchivedReport>(getReportKey(id));
+}
+
+/**
+ * Store a generated report, dropping the oldest beyond REPORT_HISTORY_LIMIT when it is set
+ * @param report - The generated report
+ * @param options - What triggered it, who asked and which list it covered
+ * @returns Promise<ArchivedReport>
+ */
+export async function archiveReport(
+  report: LLMReport,
+  options: { trigger: ArchivedReport['trigger']; createdBy?: string; listId?: string | null }
+): Promise<ArchivedReport> {
+  const { timezone } = await getTeamSettings();
+  const archived: ArchivedReport = {
+    id: randomUUID(),
+    date: getZonedDate(new Date(report.generatedAt), timezone),
+    generatedAt: report.generatedAt,
+    trigger: options.trigger,
+    createdBy: options.createdBy,
+    listId: options.listId || undefined,
+    lists: report.lists.map(list => list.name),
+    reviewStartTime: report.reviewStartTime,
+    reviewEndTime: report.reviewEndTime,
+    stats: report.stats,
+    report: report.report,
+    attention: report.digest,
+    workload: report.workload,
+  };
+  await writeDocument(getReportKey(archived.id), archived);
+
+  const summary: ReportSummary = {
+    id: archived.id,
+    date: archived.date,
+    generatedAt: archived.generatedAt,
+    trigger: archived.trigger,
+    createdBy: archived.createdBy,
+    listId: archived.listId,
+    lists: archived.lists,
+    reviewStartTime: archived.reviewStartTime,
+    reviewEndTime: archived.reviewEndTime,
+    stats: archived.stats,
+  };
+  const index = [summary, ...(await listReports())];
+  const limit = getReportHistoryLimit();
+  await writeDocument(REPORT_INDEX_KEY, limit ? index.slice(0, limit) : index);
+
+  for (const expired of limit ? index.slice(limit) : []) {
+    await deleteDocument(getReportKey(expired.id));
+  }
+  return archived;
+}
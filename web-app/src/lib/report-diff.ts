@@ -0,0 +1,70 @@
+import { ArchivedReport, DeveloperWorkload, ReportDiff, ReportSummary, WorkloadChange } from '@/types/reports';
+import { DigestTask } from '@/types/slack';
+
+// Tasks in `after` that were not in `before`, by task ID
+function added(before: DigestTask[], after: DigestTask[]): DigestTask[] {
+  const ids = new Set(before.map(task => task.id));
+  return after.filter(task => !ids.has(task.id));
+}
+
+function toSummary(report: ArchivedReport): ReportSummary {
+  return {
+    id: report.id,
+    date: report.date,
+    generatedAt: report.generatedAt,
+    trigger: report.trigger,
+    createdBy: report.createdBy,
+    listId: report.listId,
+    lists: report.lists,
+    reviewStartTime: report.reviewStartTime,
+    reviewEndTime: report.reviewEndTime,
+    stats: report.stats,
+  };
+}
+
+function diffWorkload(before: DeveloperWorkload[], after: DeveloperWorkload[]): WorkloadChange[] {
+  const developers = [...new Set([...before, ...after].map(entry => entry.developer))].sort();
+
+  return developers
+    .map(developer => {
+      const previous = before.find(entry => entry.developer === developer);
+      const current = after.find(entry => entry.developer === developer);
+      return {
+        developer,
+        before: previous,
+        after: current,
+        taskDelta: (current?.tasks || 0) - (previous?.tasks || 0),
+        hoursDelta: Math.round(((current?.hours || 0) - (previous?.hours || 0)) * 10) / 10,
+      };
+    })
+    .filter(change =>
+      change.taskDelta !== 0 || change.hoursDelta !== 0 ||
+      change.before?.inProgress !== change.after?.inProgress
+    );
+}
+
+/**
+ * What changed between two stored reports: stats, overdue/stale/unassigned tasks and per-developer workload
+ * @param base - The earlier report
+ * @param compare - The later report
+ * @returns ReportDiff
+ */
+export function diffReports(base: ArchivedReport, compare: ArchivedReport): ReportDiff {
+  return {
+    base: toSummary(base),
+    compare: toSummary(compare),
+    statsDelta: {
+      totalTasks: compare.stats.totalTasks - base.stats.totalTasks,
+      inProgress: compare.stats.inProgress - base.stats.inProgress,
+      overdue: compare.stats.overdue - base.stats.overdue,
+      stale: compare.stats.stale - base.stats.stale,
+    },
+    becameOverdue: added(base.attention.overdue, compare.attention.overdue),
+    noLongerOverdue: added(compare.attention.overdue, base.attention.overdue),
+    newlyStale: added(base.attention.stale, compare.attention.stale),
+    noLongerStale: added(compare.attention.stale, base.attention.stale),
+    newUnassignedUrgent: added(base.attention.unassignedUrgent, compare.attention.unassignedUrgent),
+    resolvedUnassignedUrgent: added(compare.attention.unassignedUrgent, base.attention.unassignedUrgent),
+    workloadChanges: diffWorkload(base.workload, compare.workload),
+  };
+}
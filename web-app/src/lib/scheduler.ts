@@ -0,0 +1,199 @@
+import { timingSafeEqual } from 'crypto';
+import { NextRequest } from 'next/server';
+import { readDocument, writeDocument } from '@/lib/storage';
+import { getPreviousCronTime, parseCronExpression } from '@/lib/cron';
+import { getTeamSettings } from '@/lib/team-settings';
+import { getZonedDate, isWorkingDay } from '@/lib/calendar';
+import { buildLLMReport } from '@/lib/llm-report';
+import { archiveReport } from '@/lib/report-archive';
+import { saveTaskSnapshotRecord } from '@/lib/task-snapshots';
+import { archiveLogEntriesBefore, removeLogEntriesBefore } from '@/lib/blob-logger';
+import { getTrackedTasks } from '@/lib/task-cache';
+import { clickupAPI } from '@/lib/clickup-api';
+import { JobName, JobRun, JobStatus } from '@/types/jobs';
+
+const JOB_RUNS_KEY = 'jobs:runs';
+const DAY_MS = 24 * 60 * 60 * 1000;
+// A tick only catches up on schedules that fired this recently, so a long outage does not replay old runs
+const MAX_CATCH_UP_MS = 12 * 60 * 60 * 1000;
+// A run still marked running after this long is assumed to have died with its instance
+const STALE_RUN_MS = 15 * 60 * 1000;
+
+interface JobDefinition {
+  description: string;
+  schedule: string;
+  run: (now: Date) => Promise<{ status: 'success' | 'skipped'; message: string }>;
+}
+
+// Schedules are read in the team timezone from Team Settings
+const JOBS: Record<JobName, JobDefinition> = {
+  'daily-report': {
+    description: 'Generate the daily report on working days and add it to the report history',
+    schedule: process.env.CRON_DAILY_REPORT || '30 10 * * *',
+    run: runDailyReport,
+  },
+  'task-snapshot': {
+    description: 'Store a snapshot of all processed tasks',
+    schedule: process.env.CRON_TASK_SNAPSHOT || '0 2 * * *',
+    run: runTaskSnapshot,
+  },
+  'log-retention': {
+    description: 'Archive or prune log entries older than LOG_RETENTION_DAYS',
+    schedule: process.env.CRON_LOG_RETENTION || '30 2 * * *',
+    run: runLogRetention,
+  },
+};
+
+export const JOB_NAMES = Object.keys(JOBS) as JobName[];
+
+export function isJobName(value: string): value is JobName {
+  return JOB_NAMES.includes(value as JobName);
+}
+
+/**
+ * Whether the request carries the CRON_SECRET bearer token (as sent by Vercel Cron and the worker script)
+ */
+export function hasCronSecret(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  const header = request.headers.get('authorization');
+  if (!secret || !header) return false;
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const received = Buffer.from(header);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+async function getJobRuns(): Promise<Partial<Record<JobName, JobRun>>> {
+  return (await readDocument<Partial<Record<JobName, JobRun>>>(JOB_RUNS_KEY)) || {};
+}
+
+async function saveJobRun(run: JobRun): Promise<void> {
+  const runs = await getJobRuns();
+  runs[run.job] = run;
+  await writeDocument(JOB_RUNS_KEY, runs);
+}
+
+async function runDailyReport(now: Date): Promise<{ status: 'success' | 'skipped'; message: string }> {
+  const settings = await getTeamSettings();
+  const date = getZonedDate(now, settings.timezone);
+  if (!isWorkingDay(date, settings)) {
+    return { status: 'skipped', message: `${date} is not a working day` };
+  }
+
+  const report = await buildLLMReport();
+  await archiveReport(report, { trigger: 'schedule' });
+  return { status: 'success', message: `Stored the report for ${date} (${report.stats.totalTasks} tasks)` };
+}
+
+async function runTaskSnapshot(now: Date): Promise<{ status: 'success' | 'skipped'; message: string }> {
+  const settings = await getTeamSettings();
+  const date = getZonedDate(now, settings.timezone);
+
+  const { tasks } = await getTrackedTasks(null, true);
+  const processedTasks = await clickupAPI.processTasksForUI(tasks);
+  await saveTaskSnapshotRecord({ date, takenAt: now.toISOString(), tasks: processedTasks });
+  return { status: 'success', message: `Stored ${processedTasks.length} tasks for ${date}` };
+}
+
+async function runLogRetention(now: Date): Promise<{ status: 'success' | 'skipped'; message: string }> {
+  const retentionDays = Number(process.env.LOG_RETENTION_DAYS || 90);
+  if (!retentionDays || retentionDays <= 0) {
+    return { status: 'skipped', message: 'LOG_RETENTION_DAYS is 0, keeping every entry' };
+  }
+
+  const before = new Date(now.getTime() - retentionDays * DAY_MS);
+
+  // Archive unless told to prune; archived entries leave the live log but stay in storage,
+  // where in-progress times, status history and reverts still read them
+  if ((process.env.LOG_RETENTION_MODE || 'archive') === 'archive') {
+    const archive = await archiveLogEntriesBefore(before, now);
+    return archive
+      ? { status: 'success', message: `Archived ${archive.entries} entries older than ${retentionDays} days to ${archive.key}` }
+      : { status: 'success', message: `No entries older than ${retentionDays} days` };
+  }
+
+  const removed = await removeLogEntriesBefore(before);
+  if (removed.length === 0) {
+    return { status: 'success', message: `No entries older than ${retentionDays} days` };
+  }
+  return { status: 'success', message: `Pruned ${removed.length} entries older than ${retentionDays} days` };
+}
+
+/**
+ * Run a job now and record the outcome
+ * @param job - Job to run
+ * @param trigger - Whether the schedule or a person started it
+ * @param now - Reference time
+ * @returns Promise<JobRun>
+ */
+export async function runJob(job: JobName, trigger: JobRun['trigger'], now: Date = new Date()): Promise<JobRun> {
+  const run: JobRun = { job, startedAt: now.toISOString(), status: 'running', trigger };
+  await saveJobRun(run);
+
+  try {
+    const result = await JOBS[job].run(now);
+    run.status = result.status;
+    run.message = result.message;
+  } catch (error) {
+    console.error(`Error running job ${job}:`, error);
+    run.status = 'failed';
+    run.message = error instanceof Error ? error.message : 'Unknown error';
+  }
+
+  run.finishedAt = new Date().toISOString();
+  await saveJobRun(run);
+  console.log(`Job ${job} ${run.status}: ${run.message}`);
+  return run;
+}
+
+/**
+ * Run every job whose schedule has fired since its last run
+ * @param now - Reference time
+ * @returns Promise<JobRun[]> - The runs started by this tick
+ */
+export async function runDueJobs(now: Date = new Date()): Promise<JobRun[]> {
+  const { timezone } = await getTeamSettings();
+  const lastRuns = await getJobRuns();
+  const runs: JobRun[] = [];
+
+  for (const job of JOB_NAMES) {
+    const parsed = parseCronExpression(JOBS[job].schedule);
+    if (typeof parsed === 'string') {
+      console.error(`Skipping job ${job}: ${parsed}`);
+      continue;
+    }
+
+    const scheduledAt = getPreviousCronTime(JOBS[job].schedule, now, timezone);
+    if (!scheduledAt || now.getTime() - scheduledAt.getTime() > MAX_CATCH_UP_MS) continue;
+
+    const lastRun = lastRuns[job];
+    if (lastRun) {
+      const lastStarted = new Date(lastRun.startedAt).getTime();
+      if (lastRun.status === 'running' && now.getTime() - lastStarted < STALE_RUN_MS) continue;
+      if (lastRun.status !== 'running' && lastStarted >= scheduledAt.getTime()) continue;
+    }
+
+    runs.push(await runJob(job, 'schedule', now));
+  }
+  return runs;
+}
+
+/**
+ * Each job's schedule and last run, for the jobs page
+ */
+export async function getJobStatuses(now: Date = new Date()): Promise<JobStatus[]> {
+  const { timezone } = await getTeamSettings();
+  const lastRuns = await getJobRuns();
+
+  return JOB_NAMES.map(job => {
+    const { description, schedule } = JOBS[job];
+    const valid = typeof parseCronExpression(schedule) !== 'string';
+    return {
+      job,
+      description,
+      schedule,
+      lastScheduledAt: valid ? getPreviousCronTime(schedule, now, timezone)?.toISOString() : undefined,
+      lastRun: lastRuns[job],
+    };
+  });
+}
@@ -0,0 +1,155 @@
+import { readDocument, writeDocument } from '@/lib/storage';
+import { clickupAPI } from '@/lib/clickup-api';
+import { getTrackedLists } from '@/lib/tracked-lists';
+import { getDeveloperField, getFieldOptions } from '@/lib/custom-fields';
+import { DigestTask, DigestTasks, SlackSettings, SlackTransport } from '@/types/slack';
+
+const SLACK_SETTINGS_KEY = 'settings:slack';
+const DEFAULT_SLACK_API_URL = 'https://slack.com/api';
+// Slack section text is capped; keep each digest section well under it
+const MAX_TASKS_PER_SECTION = 15;
+
+export async function getSlackSettings(): Promise<SlackSettings> {
+  return (await readDocument<SlackSettings>(SLACK_SETTINGS_KEY)) || { userIds: {} };
+}
+
+export async function saveSlackSettings(settings: SlackSettings): Promise<void> {
+  await writeDocument(SLACK_SETTINGS_KEY, settings);
+}
+
+/**
+ * Validate a developer name -> Slack user ID mapping from a request body; blank IDs are dropped
+ */
+export function parseSlackUserIds(value: unknown): Record<string, string> | string {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return 'userIds must be an object of developer name to Slack user ID';
+  }
+
+  const userIds: Record<string, string> = {};
+  for (const [developer, rawId] of Object.entries(value as Record<string, unknown>)) {
+    if (typeof rawId !== 'string') return `Slack user ID for ${developer} must be a string`;
+    const id = rawId.trim();
+    if (!id) continue;
+    if (!/^[UW][A-Z0-9]+$/.test(id)) return `"${id}" is not a Slack user ID (expected U... or W...)`;
+    userIds[developer] = id;
+  }
+  return userIds;
+}
+
+/**
+ * Developer dropdown names across the tracked lists, as offered by /api/tasks/developers
+ */
+export async function getDeveloperNames(): Promise<string[]> {
+  const names = new Set<string>();
+  for (const list of await getTrackedLists()) {
+    const customFields = await clickupAPI.getCustomFields(list.id);
+    const developerField = getDeveloperField(customFields);
+    if (developerField && developerField.type === 'drop_down') {
+      for (const option of getFieldOptions(developerField)) {
+        names.add(option.name);
+      }
+    }
+  }
+  return [...names].sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Which way messages are posted: an incoming webhook (SLACK_WEBHOOK_URL) wins over a bot token
+ * (SLACK_BOT_TOKEN + SLACK_CHANNEL); null when neither is configured
+ */
+export function getSlackTransport(): SlackTransport | null {
+  if (process.env.SLACK_WEBHOOK_URL) return 'webhook';
+  if (process.env.SLACK_BOT_TOKEN && process.env.SLACK_CHANNEL) return 'bot';
+  return null;
+}
+
+// Mapped developers are tagged so Slack notifies them; the rest fall back to a plain @name
+function mention(developer: string, userIds: Record<string, string>): string {
+  if (developer === 'Unassigned') return '_Unassigned_';
+  return userIds[developer] ? `<@${userIds[developer]}>` : `@${developer}`;
+}
+
+function formatDay(iso: string): string {
+  return iso.split('T')[0];
+}
+
+function formatSection(title: string, tasks: DigestTask[], describe: (task: DigestTask) => string): string {
+  if (tasks.length === 0) return '';
+
+  const lines = tasks.slice(0, MAX_TASKS_PER_SECTION).map(task =>
+    `• <${task.url}|${task.id}> ${task.name}${task.listName ? ` (${task.listName})` : ''} - ${describe(task)}`
+  );
+  if (tasks.length > MAX_TASKS_PER_SECTION) {
+    lines.push(`…and ${tasks.length - MAX_TASKS_PER_SECTION} more`);
+  }
+  return `*${title} (${tasks.length})*\n${lines.join('\n')}`;
+}
+
+/**
+ * The digest message in Slack mrkdwn: overdue, stale and unassigned urgent tasks
+ * @param digest - Tasks from the daily report
+ * @param userIds - Developer name -> Slack user ID
+ * @param now - Reference time for day counts
+ * @returns string
+ */
+export function formatSlackDigest(digest: DigestTasks, userIds: Record<string, string>, now: Date = new Date()): string {
+  const daysSince = (iso: string) => Math.floor((now.getTime() - new Date(iso).getTime()) / (1000 * 60 * 60 * 24));
+
+  const sections = [
+    formatSection(':rotating_light: Overdue', digest.overdue, task =>
+      `${mention(task.developer, userIds)}, due ${task.dueDate ? formatDay(task.dueDate) : '?'}`
+    ),
+    formatSection(':hourglass: Stale in progress', digest.stale, task =>
+      `${mention(task.developer, userIds)}, in progress ${task.inProgressSince ? `${daysSince(task.inProgressSince)} days` : 'for a while'}`
+    ),
+    formatSection(':sos: Unassigned urgent', digest.unassignedUrgent, task => task.status),
+  ].filter(Boolean);
+
+  const header = `*Daily digest - ${now.toISOString().split('T')[0]}*`;
+  if (sections.length === 0) {
+    return `${header}\nNothing overdue, stale or unassigned. :white_check_mark:`;
+  }
+  return [header, ...sections].join('\n\n');
+}
+
+/**
+ * Post a message through the configured transport
+ * @param text - Slack mrkdwn
+ * @returns Promise<SlackTransport> - The transport used
+ */
+export async function postSlackMessage(text: string): Promise<SlackTransport> {
+  const transport = getSlackTransport();
+
+  if (transport === 'webhook') {
+    const response = await fetch(process.env.SLACK_WEBHOOK_URL!, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ text }),
+    });
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new Error(`Slack webhook failed with ${response.status}: ${body.slice(0, 200)}`);
+    }
+    return transport;
+  }
+
+  if (transport === 'bot') {
+    const baseUrl = (process.env.SLACK_API_URL || DEFAULT_SLACK_API_URL).replace(/\/$/, '');
+    const response = await fetch(`${baseUrl}/chat.postMessage`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Authorization': `Bearer ${process.env.SLACK_BOT_TOKEN}`,
+      },
+      body: JSON.stringify({ channel: process.env.SLACK_CHANNEL, text }),
+    });
+    // The Web API answers 200 with ok: false on errors
+    const result = await response.json().catch(() => ({})) as { ok?: boolean; error?: string };
+    if (!response.ok || !result.ok) {
+      throw new Error(`Slack chat.postMessage failed: ${result.error || response.status}`);
+    }
+    return transport;
+  }
+
+  throw new Error('Slack is not configured; set SLACK_WEBHOOK_URL, or SLACK_BOT_TOKEN and SLACK_CHANNEL');
+}
@@ -0,0 +1,242 @@
+import { getLogEntries } from '@/lib/blob-logger';
+import type { LogEntry } from '@/types/logs';
+import type {
+  CycleMetricsReport,
+  CycleMetricsSummary,
+  StatusTransition,
+  TaskCycleMetrics
+} from '@/types/history';
+
+const IN_PROGRESS_STATUS = 'IN PROGRESS';
+const IN_REVIEW_STATUS = 'IN REVIEW';
+// Statuses that count as finished work; WONT DO is closed but not delivered, so it is left out
+const DONE_STATUSES = new Set(['CLOSED', 'COMPLETE', 'COMPLETED', 'DONE']);
+
+// ClickUp's built-in priorities, as sent by the create/update forms
+const PRIORITY_NAMES: Record<number, string> = { 1: 'urgent', 2: 'high', 3: 'normal', 4: 'low' };
+const PRIORITY_ORDER = ['urgent', 'high', 'normal', 'low', 'none'];
+
+export interface TaskAttributes {
+  developer?: string;
+  priority?: string;
+}
+
+export function isDoneStatus(status: string): boolean {
+  return DONE_STATUSES.has(status.toUpperCase());
+}
+
+function normalizePriority(value: unknown): string | undefined {
+  if (value === null || value === undefined || value === '') return undefined;
+  const numeric = Number(value);
+  if (!isNaN(numeric)) return PRIORITY_NAMES[numeric];
+  const name = String(value).toLowerCase();
+  return name === 'none' ? undefined : name;
+}
+
+export function groupByTask(entries: LogEntry[]): Map<string, LogEntry[]> {
+  const grouped = new Map<string, LogEntry[]>();
+  for (const entry of entries) {
+    const taskEntries = grouped.get(entry.taskId) || [];
+    taskEntries.push(entry);
+    grouped.set(entry.taskId, taskEntries);
+  }
+  return grouped;
+}
+
+/**
+ * Build one task's status timeline from its log entries (oldest first).
+ * Repeated writes of the same status are collapsed; a manual inProgressSince correction
+ * moves the start of the latest IN PROGRESS stint, as parseInProgressTimestamps does.
+ */
+export function buildStatusHistory(entries: LogEntry[]): StatusTransition[] {
+  const transitions: StatusTransition[] = [];
+
+  for (const entry of entries) {
+    if (entry.action === 'MANUAL UPDATE') {
+      const correctedTime = entry.changes.inProgressSince;
+      if (typeof correctedTime !== 'string') continue;
+
+      const latestInProgress = [...transitions].reverse().find(t => t.status === IN_PROGRESS_STATUS);
+      if (latestInProgress) {
+        latestInProgress.timestamp = correctedTime;
+        latestInProgress.manual = true;
+      } else {
+        transitions.push({ status: IN_PROGRESS_STATUS, timestamp: correctedTime, actor: entry.actor, manual: true });
+      }
+      continue;
+    }
+
+    const status = entry.changes.status;
+    if (typeof status !== 'string' || !status.trim()) continue;
+
+    const normalized = status.toUpperCase();
+    const previous = transitions[transitions.length - 1];
+    if (previous?.status === normalized) continue;
+
+    transitions.push({
+      status: normalized,
+      from: previous?.status,
+      timestamp: entry.timestamp,
+      actor: entry.actor,
+      source: entry.source,
+    });
+  }
+
+  // Manual corrections can move a transition out of order
+  transitions.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  transitions.forEach((transition, index) => {
+    transition.from = index > 0 ? transitions[index - 1].status : undefined;
+    transition.reopened = !!transition.from && isDoneStatus(transition.from) && !isDoneStatus(transition.status);
+  });
+  return transitions;
+}
+
+/**
+ * Latest developer and priority recorded in a task's log entries
+ */
+export function getLoggedAttributes(entries: LogEntry[]): TaskAttributes {
+  const attributes: TaskAttributes = {};
+  for (const entry of entries) {
+    if ('developer' in entry.changes) {
+      const developer = entry.changes.developer;
+      attributes.developer = typeof developer === 'string' && developer ? developer : undefined;
+    }
+    if ('priority' in entry.changes) {
+      attributes.priority = normalizePriority(entry.changes.priority);
+    }
+  }
+  return attributes;
+}
+
+/**
+ * Derive lead time, cycle time and time in each status from a task's log entries
+ * @param taskId - The ClickUp task ID
+ * @param entries - The task's log entries, oldest first
+ * @param now - End of the open-ended current stint
+ * @returns TaskCycleMetrics
+ */
+export function getTaskCycleMetrics(taskId: string, entries: LogEntry[], now: Date = new Date()): TaskCycleMetrics {
+  const transitions = buildStatusHistory(entries);
+  const timeInStatusMs: Record<string, number> = {};
+  let reopenCount = 0;
+
+  transitions.forEach((transition, index) => {
+    const next = transitions[index + 1];
+    if (transition.reopened) {
+      reopenCount++;
+    }
+    // The current stint in a done status is not time spent on the task
+    if (!next && isDoneStatus(transition.status)) return;
+
+    const start = new Date(transition.timestamp).getTime();
+    const end = next ? new Date(next.timestamp).getTime() : now.getTime();
+    timeInStatusMs[transition.status] = (timeInStatusMs[transition.status] || 0) + Math.max(0, end - start);
+  });
+
+  const current = transitions[transitions.length - 1];
+  const createdAt = entries[0]?.timestamp;
+  const startedAt = transitions.find(t => t.status === IN_PROGRESS_STATUS)?.timestamp;
+  const closedAt = current && isDoneStatus(current.status) ? current.timestamp : undefined;
+  const closedTime = closedAt ? new Date(closedAt).getTime() : null;
+
+  return {
+    taskId,
+    ...getLoggedAttributes(entries),
+    currentStatus: current?.status,
+    createdAt,
+    startedAt,
+    closedAt,
+    leadTimeMs: closedTime !== null && createdAt ? closedTime - new Date(createdAt).getTime() : null,
+    cycleTimeMs: closedTime !== null && startedAt ? closedTime - new Date(startedAt).getTime() : null,
+    reviewTimeMs: timeInStatusMs[IN_REVIEW_STATUS] || 0,
+    timeInStatusMs,
+    reopenCount,
+  };
+}
+
+/**
+ * Read a task's status timeline and metrics from the log
+ * @param taskId - The ClickUp task ID
+ * @returns Promise<{ transitions, metrics }>
+ */
+export async function getTaskStatusHistory(taskId: string): Promise<{ transitions: StatusTransition[]; metrics: TaskCycleMetrics }> {
+  const entries = await getLogEntries({ taskId, includeArchived: true });
+  return {
+    transitions: buildStatusHistory(entries),
+    metrics: getTaskCycleMetrics(taskId, entries),
+  };
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : null;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : Math.round((sorted[middle - 1] + sorted[middle]) / 2);
+}
+
+function summarize(key: string, metrics: TaskCycleMetrics[]): CycleMetricsSummary {
+  const cycleTimes = metrics.map(m => m.cycleTimeMs).filter((value): value is number => value !== null);
+  const leadTimes = metrics.map(m => m.leadTimeMs).filter((value): value is number => value !== null);
+
+  return {
+    key,
+    taskCount: metrics.length,
+    avgCycleTimeMs: average(cycleTimes),
+    medianCycleTimeMs: median(cycleTimes),
+    avgLeadTimeMs: average(leadTimes),
+    avgReviewTimeMs: average(metrics.map(m => m.reviewTimeMs)),
+    reopenCount: metrics.reduce((sum, m) => sum + m.reopenCount, 0),
+  };
+}
+
+function summarizeBy(metrics: TaskCycleMetrics[], getKey: (metric: TaskCycleMetrics) => string): CycleMetricsSummary[] {
+  const groups = new Map<string, TaskCycleMetrics[]>();
+  for (const metric of metrics) {
+    const key = getKey(metric);
+    groups.set(key, [...(groups.get(key) || []), metric]);
+  }
+  return [...groups.entries()].map(([key, group]) => summarize(key, group));
+}
+
+/**
+ * Aggregate cycle time, lead time and time in review for tasks closed in a period
+ * @param since - Start of the period
+ * @param until - End of the period
+ * @param currentAttributes - Developer/priority from ClickUp, preferred over what the log recorded
+ * @returns Promise<CycleMetricsReport>
+ */
+export async function getCycleMetricsReport(
+  since: Date,
+  until: Date,
+  currentAttributes: Map<string, TaskAttributes> = new Map()
+): Promise<CycleMetricsReport> {
+  // Read everything up to the end of the period; a task closed in it may have started long before
+  const entries = await getLogEntries({ until, includeArchived: true });
+
+  const metrics: TaskCycleMetrics[] = [];
+  for (const [taskId, taskEntries] of groupByTask(entries)) {
+    const metric = getTaskCycleMetrics(taskId, taskEntries, until);
+    if (!metric.closedAt || new Date(metric.closedAt) < since) continue;
+
+    const current = currentAttributes.get(taskId);
+    metrics.push({
+      ...metric,
+      developer: current?.developer || metric.developer,
+      priority: normalizePriority(current?.priority) || metric.priority,
+    });
+  }
+
+  return {
+    since: since.toISOString(),
+    until: until.toISOString(),
+    overall: summarize('all', metrics),
+    byDeveloper: summarizeBy(metrics, m => m.developer || 'Unassigned')
+      .sort((a, b) => a.key.localeCompare(b.key)),
+    byPriority: summarizeBy(metrics, m => m.priority || 'none')
+      .sort((a, b) => PRIORITY_ORDER.indexOf(a.key) - PRIORITY_ORDER.indexOf(b.key)),
+  };
+}
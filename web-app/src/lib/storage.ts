@@ -0,0 +1,97 @@
+import { createClient, RedisClientType } from 'redis';
+
+let redisClient: RedisClientType | null = null;
+
+// Create and connect a Redis client, reusing the connection
+export async function getRedisClient(): Promise<RedisClientType> {
+  if (redisClient && redisClient.isOpen) {
+    return redisClient;
+  }
+
+  redisClient = createClient({ url: process.env.REDIS_URL });
+
+  redisClient.on('error', (err) => console.error('Redis Client Error', err));
+
+  await redisClient.connect();
+  return redisClient;
+}
+
+export function shouldUseRedisStorage(): boolean {
+  return !!process.env.REDIS_URL;
+}
+
+// Use different keys for different environments, e.g. clickup:webhook, clickup:webhook-preview, clickup:webhook-dev
+export function getEnvironmentKey(baseKey: string): string {
+  const env = process.env.VERCEL_ENV || 'development';
+
+  switch (env) {
+    case 'production':
+      return baseKey;
+    case 'preview':
+      return `${baseKey}-preview`;
+    default:
+      return `${baseKey}-dev`;
+  }
+}
+
+async function getLocalDocumentPath(baseKey: string): Promise<string> {
+  const fs = await import('fs/promises');
+  const path = await import('path');
+  const dataDir = path.join(process.cwd(), 'data');
+  await fs.mkdir(dataDir, { recursive: true });
+  return path.join(dataDir, `${baseKey.replace(/[^a-zA-Z0-9_-]/g, '-')}.json`);
+}
+
+/**
+ * Read a JSON document from Redis, or from data/<key>.json when Redis is not configured
+ * @param baseKey - Environment-independent key, e.g. 'clickup:webhook'
+ * @returns Promise<T | null>
+ */
+export async function readDocument<T>(baseKey: string): Promise<T | null> {
+  try {
+    let raw: string | null;
+    if (shouldUseRedisStorage()) {
+      const client = await getRedisClient();
+      raw = await client.get(getEnvironmentKey(baseKey));
+    } else {
+      const fs = await import('fs/promises');
+      raw = await fs.readFile(await getLocalDocumentPath(baseKey), 'utf8');
+    }
+    return raw ? JSON.parse(raw) as T : null;
+  } catch (error: unknown) {
+    if ((error as { code?: string }).code !== 'ENOENT') {
+      console.error(`Error reading document ${baseKey}:`, error);
+    }
+    return null;
+  }
+}
+
+/**
+ * Write a JSON document to Redis, or to data/<key>.json when Redis is not configured
+ * @param baseKey - Environment-independent key, e.g. 'clickup:webhook'
+ * @param value - Any JSON-serializable value
+ */
+export async function writeDocument<T>(baseKey: string, value: T): Promise<void> {
+  const raw = JSON.stringify(value, null, 2);
+  if (shouldUseRedisStorage()) {
+    const client = await getRedisClient();
+    await client.set(getEnvironmentKey(baseKey), raw);
+  } else {
+    const fs = await import('fs/promises');
+    await fs.writeFile(await getLocalDocumentPath(baseKey), raw, 'utf8');
+  }
+}
+
+/**
+ * Delete a JSON document from Redis, or data/<key>.json when Redis is not configured
+ * @param baseKey - Environment-independent key, e.g. 'clickup:webhook'
+ */
+export async function deleteDocument(baseKey: string): Promise<void> {
+  if (shouldUseRedisStorage()) {
+    const client = await getRedisClient();
+    await client.del(getEnvironmentKey(baseKey));
+  } else {
+    const fs = await import('fs/promises');
+    await fs.rm(await getLocalDocumentPath(baseKey), { force: true });
+  }
+}
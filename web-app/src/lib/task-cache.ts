@@ -0,0 +1,197 @@
+import { clickupAPI } from '@/lib/clickup-api';
+import { getEnvironmentKey, getRedisClient, shouldUseRedisStorage } from '@/lib/storage';
+import { getTrackedLists } from '@/lib/tracked-lists';
+import { ClickUpTask } from '@/types/clickup';
+
+// How long a snapshot is served as-is before asking ClickUp for changes
+const REFRESH_TTL_MS = Number(process.env.TASK_CACHE_TTL_SECONDS || 30) * 1000;
+// How often the whole list is re-fetched; incremental refreshes cannot see deleted or archived tasks
+const FULL_REFRESH_TTL_MS = Number(process.env.TASK_CACHE_FULL_REFRESH_SECONDS || 600) * 1000;
+
+export interface TaskSnapshot {
+  listId: string;
+  tasks: ClickUpTask[];    // Open tasks and subtasks, as returned by the list endpoint
+  fullRefreshAt: number;   // Unix ms of the last full fetch
+  refreshedAt: number;     // Unix ms of the last full or incremental fetch; 0 once invalidated
+  lastUpdated: number;     // Highest date_updated seen, the date_updated_gt cursor for the next refresh
+}
+
+export interface TrackedTasks {
+  tasks: ClickUpTask[];
+  refreshedAt: number;     // Oldest refresh among the lists included
+}
+
+// In-memory fallback when Redis is not configured (per server instance)
+const memorySnapshots = new Map<string, TaskSnapshot>();
+const refreshesInFlight = new Map<string, Promise<TaskSnapshot>>();
+
+function getSnapshotKey(listId: string): string {
+  return getEnvironmentKey(`cache:tasks:${listId}`);
+}
+
+async function loadSnapshot(listId: string): Promise<TaskSnapshot | null> {
+  if (!shouldUseRedisStorage()) {
+    return memorySnapshots.get(listId) || null;
+  }
+
+  try {
+    const client = await getRedisClient();
+    const raw = await client.get(getSnapshotKey(listId));
+    return raw ? JSON.parse(raw) as TaskSnapshot : null;
+  } catch (error) {
+    console.error(`Error reading task snapshot for list ${listId} from Redis:`, error);
+    return null;
+  }
+}
+
+async function saveSnapshot(snapshot: TaskSnapshot): Promise<void> {
+  if (!shouldUseRedisStorage()) {
+    memorySnapshots.set(snapshot.listId, snapshot);
+    return;
+  }
+
+  try {
+    const client = await getRedisClient();
+    // Expire well after the full refresh interval so an idle app does not keep a stale copy around
+    await client.set(getSnapshotKey(snapshot.listId), JSON.stringify(snapshot), {
+      expiration: { type: 'EX', value: Math.ceil(FULL_REFRESH_TTL_MS / 1000) * 2 },
+    });
+  } catch (error) {
+    console.error(`Error writing task snapshot for list ${snapshot.listId} to Redis:`, error);
+  }
+}
+
+function getLatestUpdate(tasks: ClickUpTask[], since: number = 0): number {
+  return tasks.reduce((latest, task) => Math.max(latest, Number(task.date_updated) || 0), since);
+}
+
+async function fetchFullSnapshot(listId: string): Promise<TaskSnapshot> {
+  const tasks = await clickupAPI.getTasks(true, false, undefined, listId); // Include subtasks, exclude closed
+  const now = Date.now();
+  return {
+    listId,
+    tasks,
+    fullRefreshAt: now,
+    refreshedAt: now,
+    lastUpdated: getLatestUpdate(tasks),
+  };
+}
+
+async function fetchIncrementalSnapshot(snapshot: TaskSnapshot): Promise<TaskSnapshot> {
+  // Include closed tasks so that anything closed since the last refresh drops out of the snapshot
+  const changed = await clickupAPI.getTasks(true, true, snapshot.lastUpdated, snapshot.listId);
+  const changedById = new Map(changed.map(task => [task.id, task]));
+
+  const tasks = snapshot.tasks.map(task => changedById.get(task.id) || task);
+  const knownIds = new Set(snapshot.tasks.map(task => task.id));
+  for (const task of changed) {
+    if (!knownIds.has(task.id)) {
+      tasks.push(task);
+    }
+  }
+
+  console.log(`Incremental task refresh for list ${snapshot.listId}: ${changed.length} changed since ${new Date(snapshot.lastUpdated).toISOString()}`);
+
+  return {
+    listId: snapshot.listId,
+    tasks: tasks.filter(task => task.status?.type !== 'closed' && !task.archived),
+    fullRefreshAt: snapshot.fullRefreshAt,
+    refreshedAt: Date.now(),
+    lastUpdated: getLatestUpdate(changed, snapshot.lastUpdated),
+  };
+}
+
+/**
+ * Get the snapshot for one list, refreshing it from ClickUp when it is older than the TTL.
+ * Within the full refresh interval only tasks changed since the last refresh are fetched.
+ * @param listId - The ClickUp list ID
+ * @param forceRefresh - Re-fetch the whole list regardless of age
+ * @returns Promise<TaskSnapshot>
+ */
+export async function getTaskSnapshot(listId: string, forceRefresh: boolean = false): Promise<TaskSnapshot> {
+  const inFlight = refreshesInFlight.get(listId);
+  if (inFlight) {
+    return inFlight;
+  }
+
+  const snapshot = await loadSnapshot(listId);
+  const now = Date.now();
+  if (snapshot && !forceRefresh && now - snapshot.refreshedAt < REFRESH_TTL_MS) {
+    return snapshot;
+  }
+
+  const refresh = (async () => {
+    let next: TaskSnapshot;
+    if (!snapshot || forceRefresh || now - snapshot.fullRefreshAt >= FULL_REFRESH_TTL_MS) {
+      next = await fetchFullSnapshot(listId);
+    } else {
+      try {
+        next = await fetchIncrementalSnapshot(snapshot);
+      } catch (error) {
+        // Serve the previous snapshot rather than failing the page; the next request retries
+        console.error(`Incremental task refresh for list ${listId} failed, serving cached snapshot:`, error);
+        return snapshot;
+      }
+    }
+    await saveSnapshot(next);
+    return next;
+  })();
+  refreshesInFlight.set(listId, refresh);
+
+  try {
+    return await refresh;
+  } finally {
+    refreshesInFlight.delete(listId);
+  }
+}
+
+/**
+ * Get tasks across the tracked lists, or from a single tracked list
+ * @param listId - Restrict to this list (must be tracked)
+ * @param forceRefresh - Re-fetch the lists regardless of age
+ * @returns Promise<TrackedTasks>
+ */
+export async function getTrackedTasks(listId?: string | null, forceRefresh: boolean = false): Promise<TrackedTasks> {
+  const lists = await getTrackedLists();
+  const listIds = listId ? lists.filter(list => list.id === listId).map(list => list.id) : lists.map(list => list.id);
+  if (listId && listIds.length === 0) {
+    throw new Error(`List ${listId} is not tracked`);
+  }
+
+  const snapshots: TaskSnapshot[] = [];
+  for (const id of listIds) {
+    snapshots.push(await getTaskSnapshot(id, forceRefresh));
+  }
+
+  return {
+    tasks: snapshots.flatMap(snapshot => snapshot.tasks),
+    refreshedAt: Math.min(...snapshots.map(snapshot => snapshot.refreshedAt)),
+  };
+}
+
+/**
+ * Find a task (or subtask) in the tracked lists' snapshots
+ * @param taskId - The ClickUp task ID
+ * @returns Promise<ClickUpTask | undefined>
+ */
+export async function getCachedTask(taskId: string): Promise<ClickUpTask | undefined> {
+  const { tasks } = await getTrackedTasks();
+  return tasks.find(task => task.id === taskId);
+}
+
+/**
+ * Mark the tracked lists' snapshots stale after a write, so the next read picks the change up incrementally
+ * @param fullRefresh - Re-fetch the whole lists on the next read (needed after deletions)
+ */
+export async function invalidateTaskSnapshot(fullRefresh: boolean = false): Promise<void> {
+  for (const list of await getTrackedLists()) {
+    const snapshot = await loadSnapshot(list.id);
+    if (snapshot) {
+      await saveSnapshot({
+        ...snapshot,
+        refreshedAt: 0,
+        fullRefreshAt: fullRefresh ? 0 : snapshot.fullRefreshAt,
+      });
+    }
+  }
+}
@@ -0,0 +1,36 @@
+import { deleteDocument, readDocument, writeDocument } from '@/lib/storage';
+import { TaskSnapshotRecord } from '@/types/jobs';
+
+// Nightly copies of the processed tasks, kept for SNAPSHOT_RETENTION_DAYS; not the live task cache
+const SNAPSHOT_INDEX_KEY = 'snapshots:tasks:index';
+const MAX_STORED_SNAPSHOTS = Number(process.env.SNAPSHOT_RETENTION_DAYS || 90);
+
+function getSnapshotKey(date: string): string {
+  return `snapshots:tasks:${date}`;
+}
+
+/**
+ * Dates with a stored snapshot, newest first
+ */
+export async function listTaskSnapshotDates(): Promise<string[]> {
+  return (await readDocument<string[]>(SNAPSHOT_INDEX_KEY)) || [];
+}
+
+export async function getTaskSnapshotRecord(date: string): Promise<TaskSnapshotRecord | null> {
+  return readDocument<TaskSnapshotRecord>(getSnapshotKey(date));
+}
+
+/**
+ * Store a snapshot for its date, dropping the oldest beyond SNAPSHOT_RETENTION_DAYS
+ * @param record - The processed tasks
+ */
+export async function saveTaskSnapshotRecord(record: TaskSnapshotRecord): Promise<void> {
+  await writeDocument(getSnapshotKey(record.date), record);
+
+  const dates = [record.date, ...(await listTaskSnapshotDates()).filter(date => date !== record.date)].sort().reverse();
+  await writeDocument(SNAPSHOT_INDEX_KEY, dates.slice(0, MAX_STORED_SNAPSHOTS));
+
+  for (const expired of dates.slice(MAX_STORED_SNAPSHOTS)) {
+    await deleteDocument(getSnapshotKey(expired));
+  }
+}
@@ -0,0 +1,111 @@
+import { readDocument, writeDocument } from '@/lib/storage';
+import { getZonedDate, getZonedTime, isWorkingDay, shiftDay } from '@/lib/calendar';
+import { ReviewWindow, TeamSettings } from '@/types/settings';
+
+const TEAM_SETTINGS_KEY = 'settings:team';
+// How far back to look for the previous working day before giving up (long holiday stretches)
+const MAX_LOOKBACK_DAYS = 31;
+
+export const DEFAULT_TEAM_SETTINGS: TeamSettings = {
+  timezone: 'America/Chicago',
+  standupTime: '11:00',
+  workingDays: [1, 2, 3, 4, 5],
+  holidays: [],
+};
+
+export async function getTeamSettings(): Promise<TeamSettings> {
+  const stored = await readDocument<Partial<TeamSettings>>(TEAM_SETTINGS_KEY);
+  return { ...DEFAULT_TEAM_SETTINGS, ...stored };
+}
+
+export async function saveTeamSettings(settings: TeamSettings): Promise<void> {
+  await writeDocument(TEAM_SETTINGS_KEY, settings);
+}
+
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate settings from a request body; returns an error message or the normalized settings
+ */
+export function parseTeamSettings(value: Partial<TeamSettings>): TeamSettings | string {
+  const settings = { ...DEFAULT_TEAM_SETTINGS, ...value };
+
+  if (typeof settings.timezone !== 'string' || !isValidTimeZone(settings.timezone)) {
+    return `Unknown timezone "${settings.timezone}"`;
+  }
+  if (typeof settings.standupTime !== 'string' || !/^([01]\d|2[0-3]):[0-5]\d$/.test(settings.standupTime)) {
+    return 'standupTime must be HH:mm';
+  }
+  if (!Array.isArray(settings.workingDays) || settings.workingDays.length === 0 ||
+      settings.workingDays.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+    return 'workingDays must list at least one day, 0 (Sunday) to 6 (Saturday)';
+  }
+  if (!Array.isArray(settings.holidays) || settings.holidays.some(day => typeof day !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(day))) {
+    return 'holidays must be yyyy-MM-dd dates';
+  }
+
+  return {
+    timezone: settings.timezone,
+    standupTime: settings.standupTime,
+    workingDays: [...new Set(settings.workingDays)].sort(),
+    holidays: [...new Set(settings.holidays)].sort(),
+  };
+}
+
+/**
+ * Start of the review period: the standup time on the last working day before today
+ * (in the team's timezone), skipping weekends and holidays
+ * @param now - Reference time
+ * @param settings - Team timezone, standup time, working days and holidays
+ * @returns Date
+ */
+export function getReviewStartTime(now: Date, settings: TeamSettings): Date {
+  const today = getZonedDate(now, settings.timezone);
+  let day = shiftDay(today, -1);
+  for (let i = 0; i < MAX_LOOKBACK_DAYS && !isWorkingDay(day, settings); i++) {
+    day = shiftDay(day, -1);
+  }
+  return getZonedTime(day, settings.standupTime, settings.timezone);
+}
+
+/**
+ * The report window: ?since=/?until= when given, else from the previous standup until now
+ * @param settings - Team settings
+ * @param since - Explicit start
+ * @param until - Explicit end (defaults to now)
+ * @returns ReviewWindow
+ */
+export function getReviewWindow(settings: TeamSettings, since?: Date, until?: Date): ReviewWindow {
+  const end = until || new Date();
+  return {
+    since: since || getReviewStartTime(end, settings),
+    until: end,
+    custom: !!(since || until),
+  };
+}
+
+/**
+ * Parse since/until from a query string or request body; returns an error message for a bad range
+ */
+export function parseReviewRange(since?: string | null, until?: string | null): { since?: Date; until?: Date } | string {
+  const range: { since?: Date; until?: Date } = {};
+  if (since) {
+    range.since = new Date(since);
+    if (isNaN(range.since.getTime())) return `Invalid since date "${since}"`;
+  }
+  if (until) {
+    range.until = new Date(until);
+    if (isNaN(range.until.getTime())) return `Invalid until date "${until}"`;
+  }
+  if (range.since && range.since >= (range.until || new Date())) {
+    return 'since must be before until';
+  }
+  return range;
+}
@@ -0,0 +1,51 @@
+import { clickupAPI } from '@/lib/clickup-api';
+import { readDocument, writeDocument } from '@/lib/storage';
+import { TrackedList } from '@/types/clickup';
+
+const TRACKED_LISTS_DOCUMENT_KEY = 'tracking:lists';
+
+let defaultList: TrackedList | null = null;
+
+// The single list configured through CLICKUP_LIST_ID, used until lists are picked in the UI
+async function getDefaultList(): Promise<TrackedList> {
+  if (defaultList) {
+    return defaultList;
+  }
+
+  const listId = clickupAPI.getListId();
+  let name = listId;
+  try {
+    name = (await clickupAPI.getList(listId)).name;
+  } catch {
+    // Keep the ID as the name; the list may still be readable for tasks
+  }
+
+  defaultList = { id: listId, name, teamId: clickupAPI.getTeamId() };
+  return defaultList;
+}
+
+/**
+ * The lists the dashboard tracks, falling back to CLICKUP_LIST_ID when none are configured
+ * @returns Promise<TrackedList[]>
+ */
+export async function getTrackedLists(): Promise<TrackedList[]> {
+  const stored = await readDocument<TrackedList[]>(TRACKED_LISTS_DOCUMENT_KEY);
+  if (stored && stored.length > 0) {
+    return stored;
+  }
+  return [await getDefaultList()];
+}
+
+export async function setTrackedLists(lists: TrackedList[]): Promise<void> {
+  await writeDocument(TRACKED_LISTS_DOCUMENT_KEY, lists);
+}
+
+/**
+ * Resolve a list ID against the tracked lists
+ * @param listId - Optional list ID; when omitted the first tracked list is returned
+ * @returns Promise<TrackedList | undefined> - undefined when the ID is not tracked
+ */
+export async function getTrackedList(listId?: string | null): Promise<TrackedList | undefined> {
+  const lists = await getTrackedLists();
+  return listId ? lists.find(list => list.id === listId) : lists[0];
+}
@@ -1,10 +1,27 @@
 import { type ClassValue, clsx } from "clsx";
 import { twMerge } from "tailwind-merge";
+import type { LogEntry } from "@/types/logs";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
+/**
+ * Map items through an async function, at most `limit` at a time, keeping their order
+ */
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+}
+
 // Color utility functions
 export const statusColors = {
   'to do': 'var(--color-status-todo)',
@@ -35,6 +52,21 @@ export function formatTimeEstimate(timeInMs?: number): string {
   return `${minutes}m`;
 }
 
+export function formatDuration(ms?: number | null): string {
+  if (ms === null || ms === undefined) return '—';
+
+  const hours = Math.floor(ms / (1000 * 60 * 60));
+  const days = Math.floor(hours / 24);
+
+  if (days > 0) {
+    return `${days}d${hours % 24 > 0 ? ` ${hours % 24}h` : ''}`;
+  }
+  if (hours > 0) {
+    return `${hours}h`;
+  }
+  return `${Math.floor(ms / (1000 * 60))}m`;
+}
+
 export function formatDueDate(dueDateString?: string): string {
   if (!dueDateString) return '—';
   
@@ -80,43 +112,32 @@ export function staggerChildren(index: number, delay: number = 50): { animationD
 }
 
 // Log parsing utility
-export function parseInProgressTimestamps(logContent: string): Map<string, string> {
+export function parseInProgressTimestamps(entries: LogEntry[]): Map<string, string> {
   const inProgressTimestamps = new Map<string, string>();
   const processedTaskIds = new Set<string>();
 
-  if (!logContent) {
-    return inProgressTimestamps;
-  }
-
-  // Use a global regex to find all log entry headers and their positions
-  const headerRegex = /## (CREATE|UPDATE|MANUAL UPDATE) Task ([a-zA-Z0-9]+) - ([\d\-T:Z\.]+)/g;
-  const matches = [...logContent.matchAll(headerRegex)];
-
-  // Iterate backwards through the found headers
-  for (let i = matches.length - 1; i >= 0; i--) {
-    const match = matches[i];
-    const [fullHeader, action, taskId, timestamp] = match;
+  // Iterate backwards so the latest entry for each task wins
+  for (let i = entries.length - 1; i >= 0; i--) {
+    const entry = entries[i];
     
     // Skip if we've already found the latest entry for this task
-    if (processedTaskIds.has(taskId)) {
+    if (processedTaskIds.has(entry.taskId)) {
       continue;
     }
 
-    // Get the content of this specific log entry
-    const entryStartIndex = match.index! + fullHeader.length;
-    const nextEntryStartIndex = i + 1 < matches.length ? matches[i + 1].index! : logContent.length;
-    const entryContent = logContent.substring(entryStartIndex, nextEntryStartIndex);
-
-    if (action === 'MANUAL UPDATE') {
-      const manualTimestampMatch = entryContent.match(/- inProgressSince: "([\d\-T:Z\.]+)"/);
-      if (manualTimestampMatch) {
-        inProgressTimestamps.set(taskId, manualTimestampMatch[1]);
-        processedTaskIds.add(taskId);
+    if (entry.action === 'MANUAL UPDATE') {
+      const manualTimestamp = entry.changes.inProgressSince;
+      if (typeof manualTimestamp === 'string') {
+        inProgressTimestamps.set(entry.taskId, manualTimestamp);
+        processedTaskIds.add(entry.taskId);
       }
-    } else { // Handles both CREATE and UPDATE
-      if (entryContent.includes('- status: "IN PROGRESS"')) {
-        inProgressTimestamps.set(taskId, timestamp);
-        processedTaskIds.add(taskId);
+    } else { // Handles CREATE, UPDATE and REVERT
+      const status = entry.changes.status;
+      if (typeof status === 'string' && status.toUpperCase() === 'IN PROGRESS') {
+        // A revert back to IN PROGRESS carries the start of the stint it resumed
+        const resumedSince = entry.changes.inProgressSince;
+        inProgressTimestamps.set(entry.taskId, typeof resumedSince === 'string' ? resumedSince : entry.timestamp);
+        processedTaskIds.add(entry.taskId);
       }
     }
   }
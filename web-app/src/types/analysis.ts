@@ -0,0 +1,28 @@
+// Daily analyses generated in-app through an LLM provider
+
+export type LLMProviderName = 'openai' | 'anthropic' | 'stub';
+
+export interface LLMCompletionRequest {
+  system: string;       // The analysis prompt
+  input: string;        // The daily report
+  maxTokens?: number;
+}
+
+export interface AnalysisSummary {
+  id: string;
+  createdAt: string;
+  createdBy: string;
+  provider: LLMProviderName;
+  model: string;
+  lists: string[];      // Names of the lists the report covered
+  reviewStartTime: string;
+  durationMs: number;
+  status: 'complete' | 'failed';
+  error?: string;
+}
+
+export interface StoredAnalysis extends AnalysisSummary {
+  prompt: string;
+  report: string;       // The input report, without the prompt
+  output: string;       // The model's analysis
+}
@@ -0,0 +1,25 @@
+// Authentication and authorization types
+export type Role = 'viewer' | 'developer' | 'admin';
+
+export type Permission =
+  | 'tasks:read'
+  | 'tasks:create'      // Create items under the "New" parent task
+  | 'tasks:comment'     // Comment on a task and move it to review
+  | 'tasks:edit'        // Full edit, including parent selection
+  | 'logs:read'
+  | 'logs:overwrite'
+  | 'prompt:edit'
+  | 'reports:read'
+  | 'reports:generate'  // Run the daily analysis through the configured LLM provider
+  | 'reports:post'      // Post the daily digest to Slack
+  | 'meetings:write'    // Record decisions, commitments and escalations after a standup
+  | 'settings:manage';  // Users, webhooks and other admin configuration
+
+export interface SessionUser {
+  username: string;
+  role: Role;
+}
+
+export interface StoredUser extends SessionUser {
+  passwordHash: string;
+}
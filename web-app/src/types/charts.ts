@@ -0,0 +1,29 @@
+// Chart data replayed from ClickUp dates and the activity log
+
+export interface BurnPoint {
+  date: string;              // yyyy-MM-dd
+  remainingHours: number;    // Estimated hours of subtasks open at the end of the day
+  completedHours: number;    // Estimated hours of subtasks closed since the start of the range
+  scopeHours: number;        // remainingHours + completedHours
+}
+
+export interface WeeklyFlow {
+  weekStart: string;         // yyyy-MM-dd, Monday
+  opened: number;
+  closed: number;
+}
+
+export interface DeveloperThroughput {
+  developer: string;
+  closed: number;
+  closedHours: number;
+  weekly: number[];          // Closed per week, aligned with ChartsData.weekly
+}
+
+export interface ChartsData {
+  since: string;
+  until: string;
+  burn: BurnPoint[];
+  weekly: WeeklyFlow[];
+  throughput: DeveloperThroughput[];
+}
@@ -135,6 +135,13 @@ export interface ClickUpCommentsResponse {
   comments: ClickUpComment[];
 }
 
+// POST /task/{task_id}/comment answers with the new comment's ID, not the comment itself
+export interface ClickUpCreatedComment {
+  id: string;
+  hist_id?: string;
+  date: number;
+}
+
 // Processed types for our UI
 export interface ProcessedTask {
   id: string;
@@ -148,12 +155,21 @@ export interface ProcessedTask {
   timeEstimate?: number;
   developer?: string;
   developerColor?: string;
+  startDate?: string;
   dueDate?: string;
+  listId: string;
+  listName?: string;
   comments: ClickUpComment[];
   subtasks: ProcessedTask[];
   isSubtask: boolean;
   parentId?: string;
   inProgressSince?: string;
+  customFields?: Record<string, ProcessedCustomField>;   // Non-empty custom field values by field name
+  error?: string;   // Set when the task was only partly processed, e.g. its comments failed to load
+}
+
+export interface ProcessedCustomField extends CustomFieldReading {
+  type: string;
 }
 
 // Additional API types
@@ -190,6 +206,15 @@ export interface ClickUpList {
   archived: boolean;
 }
 
+// A list the dashboard tracks, chosen from the /api/lists tree
+export interface TrackedList {
+  id: string;
+  name: string;
+  teamId: string;
+  spaceName?: string;
+  folderName?: string;
+}
+
 export interface ClickUpFolder {
   id: string;
   name: string;
@@ -250,6 +275,17 @@ export interface ClickUpCustomField {
   required?: boolean;
 }
 
+export type ClickUpFieldOption = NonNullable<NonNullable<ClickUpCustomField['type_config']>['options']>[number];
+
+// A custom field value as the app sees it: option and user names, numbers, date timestamps (ms) or text
+export type CustomFieldValue = string | number | string[] | null;
+
+export interface CustomFieldReading {
+  value: CustomFieldValue;
+  display: string;   // '' when the field is empty
+  color?: string;    // drop_down option colour
+}
+
 export interface TaskCreateData {
   name: string;
   description?: string;
@@ -270,9 +306,9 @@ export interface TaskUpdateData {
   name?: string;
   description?: string;
   status?: string;
-  priority?: number;
-  due_date?: number;
-  time_estimate?: number;
+  priority?: number | null;        // null clears it
+  due_date?: number | null;
+  time_estimate?: number | null;
   assignees?: number[];
   custom_fields?: Array<{
     id: string;
@@ -281,13 +317,114 @@ export interface TaskUpdateData {
   developer?: string;
   comment?: string;
   parent?: string;
+  customFields?: Record<string, CustomFieldValue>;   // By field name, for fields marked editable in Settings
+}
+
+// The same changes applied to many tasks through POST /api/tasks/bulk
+export interface BulkTaskChanges {
+  status?: string;
+  developer?: string;   // Option name; '' clears the field
+  priority?: number;    // 1 (urgent) to 4 (low)
+  due_date?: number;    // Unix ms
+  parent?: string;
+}
+
+export interface BulkTaskResult {
+  taskId: string;
+  success: boolean;
+  error?: string;
+  applied?: string[];   // Fields written before the task failed
 }
 
 export interface ApiError {
   message: string;
+  code?: string;   // e.g. ECONNABORTED when the request timed out
   response?: {
     status: number;
     statusText: string;
     data: unknown;
+    headers?: Record<string, unknown>;
+  };
+}
+
+// Diagnostics of the shared ClickUp request scheduler
+export interface ClickUpRateLimitStats {
+  limitPerMinute: number;        // Bucket size, from X-RateLimit-Limit once ClickUp has sent it
+  tokens: number;                // Requests that can go out now
+  waiting: number;               // Requests queued for a token
+  inFlight: number;
+  requests: number;              // Sent, retries included
+  throttled: number;             // Had to wait for a token
+  totalWaitMs: number;
+  retries: number;
+  rateLimited: number;           // 429 responses
+  serverErrors: number;          // 5xx responses
+  timeouts: number;
+  failures: number;              // Given up on, after retries or as not retryable
+  remaining: number | null;      // Last X-RateLimit-Remaining
+  resetAt: string | null;        // Last X-RateLimit-Reset
+  pausedUntil: string | null;    // Held back after a 429 or an exhausted window
+}
+
+export interface ClickUpUser {
+  id: number;
+  username: string;
+  email: string;
+  color: string;
+  profilePicture?: string;
+}
+
+export type ClickUpWebhookEvent =
+  | 'taskCreated'
+  | 'taskUpdated'
+  | 'taskDeleted'
+  | 'taskStatusUpdated'
+  | 'taskAssigneeUpdated'
+  | 'taskPriorityUpdated'
+  | 'taskDueDateUpdated'
+  | 'taskTimeEstimateUpdated'
+  | 'taskMoved'
+  | 'taskCommentPosted';
+
+export interface ClickUpWebhook {
+  id: string;
+  userid: number;
+  team_id: number;
+  endpoint: string;
+  client_id: string;
+  events: ClickUpWebhookEvent[];
+  task_id: string | null;
+  list_id: number | null;
+  folder_id: number | null;
+  space_id: number | null;
+  health: {
+    status: 'active' | 'failing' | 'suspended';
+    fail_count: number;
   };
-}
\ No newline at end of file
+  secret: string;
+}
+
+export interface ClickUpWebhookHistoryItem {
+  id: string;
+  type: number;
+  date: string;
+  field: string;
+  parent_id?: string;
+  data?: Record<string, unknown>;
+  source?: string | null;
+  user?: Partial<ClickUpUser>;
+  before?: unknown;
+  after?: unknown;
+  custom_field?: {
+    id: string;
+    name: string;
+    type: string;
+  };
+}
+
+export interface ClickUpWebhookPayload {
+  event: ClickUpWebhookEvent;
+  webhook_id: string;
+  task_id?: string;
+  history_items?: ClickUpWebhookHistoryItem[];
+}
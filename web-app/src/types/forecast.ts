@@ -0,0 +1,37 @@
+// Completion forecasts from historical velocity and estimate accuracy
+
+// Projected finish days (yyyy-MM-dd); null when there is no estimated work left
+export interface ForecastRange {
+  earliest: string | null;   // At the optimistic end of past estimate accuracy (25th percentile)
+  expected: string | null;
+  latest: string | null;     // At the pessimistic end (75th percentile)
+}
+
+export interface DeveloperVelocity {
+  developer: string;
+  sampleSize: number;             // Closed tasks with an estimate and time in progress
+  velocity: number;               // Estimated hours closed per hour of capacity
+  accuracy: number;               // Median of actual in-progress hours / estimated hours
+  accuracyLow: number;            // 25th percentile
+  accuracyHigh: number;           // 75th percentile
+  basis: 'developer' | 'team' | 'default';  // Whose history the numbers come from
+  remainingHours: number;         // Estimated hours of open work assigned to them
+  completion: ForecastRange;
+}
+
+export interface ParentTaskForecast {
+  taskId: string;
+  name: string;
+  remainingHours: number;
+  unestimated: number;            // Open work items without an estimate, not forecast
+  unassigned: number;             // Open work items without a developer, not forecast
+  completion: ForecastRange;
+}
+
+export interface ForecastReport {
+  generatedAt: string;
+  historySince: string;           // Start of the window velocity and accuracy are measured over
+  developers: DeveloperVelocity[];
+  tasks: ParentTaskForecast[];    // One per top-level task
+  backlog: ForecastRange & { remainingHours: number };
+}
@@ -0,0 +1,45 @@
+// Status history and cycle-time types, derived from the activity log
+import type { LogSource } from '@/types/logs';
+
+export interface StatusTransition {
+  status: string;          // Upper-cased ClickUp status, e.g. 'IN PROGRESS'
+  from?: string;           // Previous status, undefined for the first transition
+  timestamp: string;       // ISO time the task entered the status
+  actor?: string;
+  source?: LogSource;
+  manual?: boolean;        // From a manual inProgressSince correction rather than a status change
+  reopened?: boolean;      // Moved out of a done status back into work
+}
+
+export interface TaskCycleMetrics {
+  taskId: string;
+  developer?: string;
+  priority?: string;               // Lower-cased priority name, e.g. 'urgent'
+  currentStatus?: string;
+  createdAt?: string;              // First log entry for the task
+  startedAt?: string;              // First move into IN PROGRESS
+  closedAt?: string;               // Last move into a done status, if the task is still done
+  leadTimeMs: number | null;       // createdAt -> closedAt
+  cycleTimeMs: number | null;      // startedAt -> closedAt
+  reviewTimeMs: number;            // Total time spent IN REVIEW, including the current stint
+  timeInStatusMs: Record<string, number>;
+  reopenCount: number;             // Moves out of a done status back into work
+}
+
+export interface CycleMetricsSummary {
+  key: string;                     // Developer name or priority name
+  taskCount: number;               // Tasks closed in the period
+  avgCycleTimeMs: number | null;
+  medianCycleTimeMs: number | null;
+  avgLeadTimeMs: number | null;
+  avgReviewTimeMs: number | null;
+  reopenCount: number;
+}
+
+export interface CycleMetricsReport {
+  since: string;
+  until: string;
+  overall: CycleMetricsSummary;
+  byDeveloper: CycleMetricsSummary[];
+  byPriority: CycleMetricsSummary[];
+}
@@ -0,0 +1,35 @@
+// Scheduled jobs run through /api/cron/* or the cron worker script
+
+import { ProcessedTask } from '@/types/clickup';
+
+export type JobName = 'daily-report' | 'task-snapshot' | 'log-retention';
+
+export interface JobRun {
+  job: JobName;
+  startedAt: string;
+  finishedAt?: string;
+  status: 'running' | 'success' | 'skipped' | 'failed';
+  message?: string;
+  trigger: 'schedule' | 'manual';
+}
+
+export interface JobStatus {
+  job: JobName;
+  description: string;
+  schedule: string;           // Cron expression, in the team timezone
+  lastScheduledAt?: string;   // Most recent time the schedule fired
+  lastRun?: JobRun;
+}
+
+export interface TaskSnapshotRecord {
+  date: string;               // yyyy-MM-dd in the team timezone
+  takenAt: string;
+  tasks: ProcessedTask[];
+}
+
+export interface LogArchive {
+  key: string;                // Storage key holding the archived entries
+  archivedAt: string;
+  before: string;             // Entries older than this were archived
+  entries: number;
+}
@@ -0,0 +1,55 @@
+// Activity log types
+// REVERT restores the values an UPDATE replaced
+export type LogAction = 'CREATE' | 'UPDATE' | 'MANUAL UPDATE' | 'DELETE' | 'REVERT';
+
+// Where the change was made: through this app, or directly in ClickUp (via webhook)
+export type LogSource = 'tracker' | 'clickup';
+
+export interface LogEntry {
+  id: string;
+  taskId: string;
+  action: LogAction;
+  timestamp: string;
+  changes: Record<string, unknown>;
+  comment?: string;
+  actor?: string;
+  source?: LogSource;
+  before?: Record<string, unknown>; // Values the changed fields had before this entry (log format), when the writer knew them
+}
+
+export interface LogEntryOptions {
+  actor?: string;
+  source?: LogSource;
+  before?: Record<string, unknown>;
+  timestamp?: string; // Defaults to now; webhooks pass the time the change happened in ClickUp
+}
+
+export interface LogQuery {
+  taskId?: string;
+  action?: LogAction;
+  actor?: string;
+  source?: LogSource;
+  since?: Date;
+  until?: Date;
+  limit?: number; // Keep only the most recent N matching entries
+  includeArchived?: boolean; // Also read entries log retention moved to the archive, for history older than the live log
+}
+
+// One field of a revert preview: what the UPDATE wrote and what it replaced
+export interface RevertField {
+  field: string;
+  from: unknown;               // Value the reverted entry wrote
+  to: unknown;                 // Value before it, from the task's earlier entries or the entry's before-image (log format)
+  available: boolean;          // False when the earlier value is unknown or cannot be written back
+  reason?: string;             // Why the field cannot be restored
+  overwrites?: {               // A later entry changed the field again; reverting replaces that value
+    value: unknown;
+    timestamp: string;
+  };
+}
+
+export interface RevertPlan {
+  entry: LogEntry;
+  fields: RevertField[];
+  inProgressSince?: string;    // When the status goes back to IN PROGRESS: the start of the stint the entry ended
+}
@@ -0,0 +1,31 @@
+// Post-meeting notes: what was decided and promised at each standup
+
+export type MeetingItemType = 'decision' | 'action' | 'commitment' | 'escalation';
+
+export interface MeetingItem {
+  id: string;
+  type: MeetingItemType;
+  text: string;
+  owner?: string;          // Developer responsible
+  taskId?: string;         // Linked ClickUp task
+  taskName?: string;       // Name at the time of the meeting, for display and the report
+  deadline?: string;       // yyyy-MM-dd, end of day
+  done?: boolean;
+}
+
+export interface MeetingNote {
+  id: string;
+  date: string;            // yyyy-MM-dd of the standup
+  summary?: string;
+  items: MeetingItem[];
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MissedCommitment {
+  meetingId: string;
+  meetingDate: string;
+  item: MeetingItem;
+  lastStatus?: string;     // Linked task's status as of the last logged change
+}
@@ -0,0 +1,63 @@
+// Generated daily reports, kept for the history page and day-over-day diffs
+
+import { DigestTask, DigestTasks } from '@/types/slack';
+
+export interface DeveloperWorkload {
+  developer: string;
+  tasks: number;
+  hours: number;
+  inProgress: number;
+  urgent: number;
+  high: number;
+  // From the developer's capacity profile; missing on reports archived before profiles existed
+  utilization?: number;                 // Assigned hours / hours available in the utilization window
+  projectedCompletion?: string | null;  // yyyy-MM-dd
+  overAllocated?: boolean;
+}
+
+export interface ReportStats {
+  totalTasks: number;
+  inProgress: number;
+  overdue: number;
+  stale: number;
+}
+
+export interface ReportSummary {
+  id: string;
+  date: string;               // yyyy-MM-dd in the team timezone
+  generatedAt: string;
+  trigger: 'schedule' | 'manual';
+  createdBy?: string;
+  listId?: string;            // Set when the report covered a single list
+  lists: string[];
+  reviewStartTime: string;
+  reviewEndTime: string;
+  stats: ReportStats;
+}
+
+export interface ArchivedReport extends ReportSummary {
+  report: string;             // The markdown as downloaded
+  attention: DigestTasks;     // Overdue, stale and unassigned urgent tasks at generation time
+  workload: DeveloperWorkload[];
+}
+
+export interface WorkloadChange {
+  developer: string;
+  before?: DeveloperWorkload;
+  after?: DeveloperWorkload;
+  taskDelta: number;
+  hoursDelta: number;
+}
+
+export interface ReportDiff {
+  base: ReportSummary;
+  compare: ReportSummary;
+  statsDelta: ReportStats;
+  becameOverdue: DigestTask[];
+  noLongerOverdue: DigestTask[];
+  newlyStale: DigestTask[];
+  noLongerStale: DigestTask[];
+  newUnassignedUrgent: DigestTask[];
+  resolvedUnassignedUrgent: DigestTask[];
+  workloadChanges: WorkloadChange[];
+}
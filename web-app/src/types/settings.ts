@@ -0,0 +1,73 @@
+// Team-wide settings that shape the daily review window
+
+export interface TeamSettings {
+  timezone: string;        // IANA zone, e.g. 'America/Chicago'
+  standupTime: string;     // HH:mm in the team's timezone; the review window opens at the previous standup
+  workingDays: number[];   // 0 = Sunday ... 6 = Saturday
+  holidays: string[];      // yyyy-MM-dd dates with no standup
+}
+
+export interface ReviewWindow {
+  since: Date;
+  until: Date;
+  custom: boolean;         // Set from ?since=/?until= rather than the standup schedule
+}
+
+// How one ClickUp custom field shows up in the task views; fields are matched across lists by name
+export interface CustomFieldDisplay {
+  name: string;
+  column: boolean;     // Column in the task table and a line on task cards
+  filter: boolean;     // Filter group in the filter bar
+  editable: boolean;   // Input in the update modal
+}
+
+export interface CustomFieldSettings {
+  fields: CustomFieldDisplay[];
+}
+
+// A custom field found on the tracked lists, offered on the settings page
+export interface AvailableCustomField {
+  name: string;
+  type: string;
+  editable: boolean;   // Whether the update modal has an input for its type
+  lists: string[];
+}
+
+// A field the update modal renders an input for; options hold drop_down/labels choices and, for users fields, team members
+export interface EditableCustomField {
+  id: string;
+  name: string;
+  type: string;
+  options: Array<{ id: string; name: string; color?: string }>;
+}
+
+// Kanban board settings; WIP limits are keyed by lower-cased status name
+export interface BoardSettings {
+  wipLimits: Record<string, number>;
+}
+
+// How much one developer can work; developers without a profile get the default hours on the team's working days
+export interface CapacityProfile {
+  developer: string;       // Developer field option name
+  hoursPerDay: number;     // Productive hours, not time at work
+  workingDays: number[];   // 0 = Sunday ... 6 = Saturday
+  pto: string[];           // yyyy-MM-dd days off
+}
+
+export interface CapacitySettings {
+  defaultHoursPerDay: number;
+  profiles: CapacityProfile[];
+}
+
+// A developer's queue against their capacity
+export interface DeveloperCapacity {
+  developer: string;
+  hoursPerDay: number;
+  assignedHours: number;
+  inProgressHours: number;
+  availableHours: number;              // Working hours in the utilization window, PTO and holidays excluded
+  utilization: number;                 // assignedHours / availableHours (0 when nothing is available)
+  projectedCompletion: string | null;  // yyyy-MM-dd the queue would be done at full capacity; null for an empty queue
+  load: 'available' | 'busy' | 'overloaded';  // From the days of in-progress work
+  overAllocated: boolean;              // The queue does not fit in the utilization window
+}
@@ -0,0 +1,24 @@
+// A task the Slack digest calls out, with its developer resolved to the dropdown name
+export interface DigestTask {
+  id: string;
+  name: string;
+  url: string;
+  developer: string;          // 'Unassigned' when the Developer field is empty
+  status: string;
+  priority?: string;
+  listName?: string;
+  dueDate?: string;           // ISO
+  inProgressSince?: string;   // ISO, from the activity log
+}
+
+export interface DigestTasks {
+  overdue: DigestTask[];
+  stale: DigestTask[];
+  unassignedUrgent: DigestTask[];
+}
+
+export interface SlackSettings {
+  userIds: Record<string, string>;  // Developer dropdown name -> Slack user ID (U...)
+}
+
+export type SlackTransport = 'webhook' | 'bot';